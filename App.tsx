@@ -6,6 +6,7 @@ import { ColorModeProvider, useColorMode } from './src/theme/ColorModeContext';
 import { UserProvider, useCurrentUser } from './src/contexts/UserContext';
 import { NotificationService } from './src/services/notificationService';
 import { ReminderService } from './src/services/reminderService';
+import { OfflineCheckInService } from './src/services/offlineCheckInService';
 
 // Configure foreground notification behavior
 Notifications.setNotificationHandler({
@@ -62,12 +63,25 @@ function NotificationInitializer() {
   return null;
 }
 
+// Submit check-ins queued while offline once the app can reach the server again
+function CheckInSyncInitializer() {
+  const { user } = useCurrentUser();
+
+  useEffect(() => {
+    if (!user?.id) return;
+    return OfflineCheckInService.startAutoSync(user.id);
+  }, [user?.id]);
+
+  return null;
+}
+
 export default function App() {
   return (
     <ColorModeProvider>
       <UserProvider>
         <StatusBarThemed />
         <NotificationInitializer />
+        <CheckInSyncInitializer />
         <AppNavigator />
       </UserProvider>
     </ColorModeProvider>
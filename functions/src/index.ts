@@ -1,28 +1,122 @@
 /**
  * SquadCheck Cloud Functions — Challenge Evaluation Scheduler
  *
- * Runs every 5 minutes. For each active challenge:
+ * Runs every 5 minutes. Only challenges whose `nextDueAtUtc` has passed are
+ * queried; after evaluation the field is advanced to the next due moment (or
+ * removed once the challenge ends). For each due challenge:
  *   1. Checks if the previous period's due moment has passed
  *   2. Evaluates missed check-ins
  *   3. For elimination: increments strikes, eliminates if > strikesAllowed, detects winner
- *   4. For deadline: ends the challenge if deadline has passed
- *   5. Sends group messages for eliminations, winners, and deadline endings
+ *   4. For deadline: ends the challenge if deadline has passed and ranks each
+ *      member's result against the target (see shared/deadline.ts)
+ *   5. For team: scores each team for the period (see shared/teams.ts)
+ *   6. Sends group messages for eliminations, winners, team results and deadline endings
+ *   7. For seasonal challenges: once the season's last period is judged (or
+ *      the challenge ended early), archives it and starts the next season
+ *   8. For progress: announces each new target step (see shared/progression.ts)
+ *
+ * Members on a scheduled pause are excused from the periods it covers; the
+ * same run announces pauses that started or ended (`nextPauseEventAtUtc`).
  *
  * All operations are idempotent — running multiple times produces no duplicates.
  */
 
 import * as admin from 'firebase-admin';
 import { onSchedule } from 'firebase-functions/v2/scheduler';
-import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { onDocumentCreated, onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onObjectFinalized } from 'firebase-functions/v2/storage';
 import { logger } from 'firebase-functions';
+import sharp from 'sharp';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { randomBytes } from 'crypto';
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import { promisify } from 'util';
 import {
   resolveAdminTimeZone,
-  getPreviousPeriodDayKey,
-  getPreviousPeriodWeekKey,
-  computeDueMomentUtcForDay,
-  computeWeeklyDueMomentUtc,
+  computeNextDueAtUtc,
+  getCurrentPeriodDayKey,
+  getAdminZonePeriodKey,
+  getAdminZoneDayKey,
+  getCurrentPeriodKey,
+  getPreviousPeriodKey,
+  getLateGraceMs,
+  getLatePeriodKey,
+  getCheckInEditDeadline,
+  getDisputeDeadline,
+  getPeriodDueMoment,
+  shiftPeriodKey,
+  getPeriodKeyField,
+  getCheckInPeriodKey,
+  isActivePeriodKey,
+  isPeriodPaused,
+  countPauseDays,
+  hasChallengeStarted,
+  getStartPeriodKey,
+  getSeasonFinalPeriodKey,
+  getPeriodLastDayKey,
+  addDaysToKey,
+  ChallengeSeason,
+  getNextPauseEventMs,
+  MemberPause,
+  PeriodCadence,
   wallClockToUtc,
-} from './dateKeys';
+  getWallClockInZone,
+  DEFAULT_DISPUTE_THRESHOLD,
+  DISPUTE_RESOLUTION_MS,
+} from './shared/periodKeys';
+import {
+  XP_VALUES,
+  getLevelFromXP,
+  computeCheckInXP,
+  computeStreakUpdate,
+} from './shared/gamification';
+import { scoreTeamPeriod, TeamPeriodResult, TeamRules, TeamScore } from './shared/teams';
+import { DeadlineCheckIn, DeadlineOutcome, DeadlineRules, rankDeadlineOutcomes } from './shared/deadline';
+import {
+  ProgressionRules,
+  getProgressionStepIndex,
+  getProgressionTarget,
+  getProgressionTargetForStep,
+  meetsProgressionTarget,
+} from './shared/progression';
+import { RevivalRules, getRevivalXpCost, getRevivalVotesNeeded, getRevivalsLeft } from './shared/revival';
+import {
+  PHOTO_HASH_PATTERN,
+  PhotoCaptureMeta,
+  PhotoIntegrity,
+  assessPhotoIntegrity,
+  isLiveCapture,
+} from './shared/photoIntegrity';
+import {
+  CheckInAttachmentType,
+  MAX_CHECK_IN_MEDIA,
+  MAX_VIDEO_CLIP_SECONDS,
+  MEDIA_VARIANT_SIZES,
+  MediaVariant,
+  VIDEO_POSTER_OFFSET_SECONDS,
+  VIDEO_POSTER_SIZE,
+  getMediaVariantPath,
+  isMediaVariantPath,
+} from './shared/attachments';
+import {
+  DEFAULT_INVITE_CODE_EXPIRY_DAYS,
+  INVITE_CODE_EXPIRY_DAYS,
+  INVITE_CODE_LENGTH,
+  buildInviteCode,
+  isValidInviteCode,
+  normalizeInviteCode,
+} from './shared/groupInvites';
+import {
+  ACHIEVEMENTS,
+  AchievementStats,
+  RARITY_COLORS,
+  isAchievementConditionMet,
+} from './shared/achievements';
+import { getNewPositiveReactors } from './shared/reactions';
 import { sendPushToUsers, getUserNotificationInfo } from './notifications';
 
 admin.initializeApp();
@@ -30,9 +124,21 @@ admin.initializeApp();
 const db = admin.firestore();
 const NOTIFIED_COLLECTION = 'missedCheckInNotified';
 const EVAL_COLLECTION = 'challengeEvalLog'; // idempotency tracking
+const SCHEDULER_META_COLLECTION = 'schedulerMeta';
 const SYSTEM_USER_ID = 'system-missed';
 const SYSTEM_USER_NAME = 'SquadCheck';
 
+// Scheduler sizing: stop picking up new work well before the function timeout;
+// anything left over is still due and gets picked up by the next run.
+const RUN_TIME_BUDGET_MS = 4 * 60 * 1000;
+const DUE_PAGE_SIZE = 100;
+const SHARD_SIZE = 10;
+const BACKFILL_PAGE_SIZE = 300;
+
+// Catch-up: periods evaluated per challenge per run. Longer backlogs continue
+// on the next run.
+const MAX_CATCH_UP_PERIODS = 31;
+
 // ---------------------------------------------------------------------------
 // Interfaces
 // ---------------------------------------------------------------------------
@@ -47,18 +153,45 @@ interface ChallengeDoc {
   adminTimeZone?: string;
   adminUserId?: string;
   createdBy?: string;
-  winnerId?: string;
-  cadence?: { unit: 'daily' | 'weekly'; weekStartsOn?: number; requiredCount?: number };
+  winnerIds?: string[];
+  suddenDeath?: { userIds: string[]; periodKey: string };
+  startsAt?: string;
+  season?: ChallengeSeason;
+  cadence?: PeriodCadence & { requiredCount?: number };
   due?: { dueTimeLocal?: string; timezoneOffset?: number; timezone?: string; deadlineDate?: string };
   rules?: {
-    elimination?: { strikesAllowed: number; eliminateOn: string };
-    deadline?: { targetValue?: number; comparison?: string; progressMode?: string };
+    progress?: ProgressionRules;
+    elimination?: {
+      strikesAllowed: number;
+      eliminateOn: string;
+      tieBreak?: EliminationTieBreak;
+      revival?: RevivalRules;
+    };
+    deadline?: DeadlineRules;
+    team?: TeamRules;
   };
-  settings?: { allowLateCheckIn?: boolean; lateGraceMinutes?: number };
+  teamScores?: Record<string, TeamScore>;
+  progressionStep?: number; // last announced progression step
+  settings?: {
+    allowLateCheckIn?: boolean;
+    lateGraceMinutes?: number;
+    disputes?: { enabled?: boolean; windowHours?: number; threshold?: number };
+    pauses?: { maxDaysPerMember?: number };
+  };
+  submission?: { inputType?: string; unitLabel?: string; liveCaptureOnly?: boolean };
   createdAt?: admin.firestore.Timestamp | { toDate: () => Date } | number;
   nextDueAtUtc?: number;
+  lastEvaluatedPeriodKey?: string;
+  isArchived?: boolean;
 }
 
+/**
+ * What happens when everyone still in an elimination challenge is eliminated
+ * in the same period: they share the win, the fewest total strikes or the
+ * highest cumulative value wins, or they play on in sudden death.
+ */
+type EliminationTieBreak = 'shared' | 'fewestStrikes' | 'highestTotal' | 'suddenDeath';
+
 interface MemberDoc {
   id: string;
   challengeId: string;
@@ -68,12 +201,20 @@ interface MemberDoc {
   strikes: number;
   lastEvaluatedPeriodKey?: string;
   eliminatedAt?: admin.firestore.Timestamp;
+  revivals?: number;
+  revivedAt?: admin.firestore.Timestamp;
+  revivalVotes?: string[];
+  teamId?: string;
+  pauses?: MemberPause[];
+  nextPauseEventAtUtc?: number;
+  deadlineOutcome?: DeadlineOutcome;
   // Gamification
   currentStreak?: number;
   longestStreak?: number;
   streakShields?: number;
   streakShieldUsed?: boolean;
   lastCheckInPeriodKey?: string;
+  joinedAt?: admin.firestore.Timestamp;
 }
 
 // ---------------------------------------------------------------------------
@@ -99,19 +240,15 @@ async function getDisplayNames(userIds: string[]): Promise<Record<string, string
 }
 
 // ---------------------------------------------------------------------------
-// Helper: resolve previous period key for a challenge
+// Helper: check-in statuses that count toward a period
 // ---------------------------------------------------------------------------
 
-function getPreviousPeriodKey(challenge: ChallengeDoc, now: Date): string | null {
-  const cadence = challenge.cadence || { unit: 'daily', weekStartsOn: 0 };
-  const dueTimeLocal = challenge.due?.dueTimeLocal ?? '23:59';
-  const adminTz = resolveAdminTimeZone(challenge);
-  const weekStartsOn = cadence.weekStartsOn ?? 0;
-
-  if (cadence.unit === 'weekly') {
-    return getPreviousPeriodWeekKey(adminTz, weekStartsOn, now);
-  }
-  return getPreviousPeriodDayKey(adminTz, dueTimeLocal, now);
+/**
+ * Whether a check-in counts toward its period. A disputed check-in counts
+ * until the admin rejects it.
+ */
+function isCountedCheckInStatus(status: unknown): boolean {
+  return status === 'completed' || status === 'disputed';
 }
 
 // ---------------------------------------------------------------------------
@@ -119,22 +256,248 @@ function getPreviousPeriodKey(challenge: ChallengeDoc, now: Date): string | null
 // ---------------------------------------------------------------------------
 
 function hasPreviousPeriodDuePassed(challenge: ChallengeDoc, previousKey: string, now: Date): boolean {
-  const cadence = challenge.cadence || { unit: 'daily' };
+  const dueMoment = getPeriodDueMoment(challenge, previousKey);
+
+  // Add the late check-in window if enabled
+  const graceMs = getLateGraceMs(challenge);
+  const effectiveDue = new Date(dueMoment.getTime() + graceMs);
+
+  return now.getTime() >= effectiveDue.getTime();
+}
+
+// ---------------------------------------------------------------------------
+// Helper: the period a challenge started in
+// ---------------------------------------------------------------------------
+
+/** The challenge's first period: its creation period, or its `startsAt` period if later. */
+function getCreationPeriodKey(challenge: ChallengeDoc): string | null {
+  const createdKey = getCreatedAtPeriodKey(challenge);
+  const startKey = getStartPeriodKey(challenge);
+  if (!createdKey || !startKey) return createdKey || startKey;
+  return startKey > createdKey ? startKey : createdKey;
+}
+
+function getCreatedAtPeriodKey(challenge: ChallengeDoc): string | null {
+  const createdAt = challenge.createdAt;
+  let createdMs: number;
+  if (typeof createdAt === 'number') {
+    createdMs = createdAt;
+  } else if (createdAt && typeof createdAt.toDate === 'function') {
+    createdMs = createdAt.toDate().getTime();
+  } else {
+    return null;
+  }
+
+  const adminTz = resolveAdminTimeZone(challenge);
+  const created = new Date(createdMs);
+  if (challenge.cadence?.unit && challenge.cadence.unit !== 'daily') {
+    return getAdminZonePeriodKey(adminTz, challenge.cadence, created);
+  }
+  return getCurrentPeriodDayKey(adminTz, challenge.due?.dueTimeLocal ?? '23:59', created);
+}
+
+// ---------------------------------------------------------------------------
+// Helper: progress challenge targets
+// ---------------------------------------------------------------------------
+
+/** Day a progress challenge counts its steps from; legacy docs use their first period. */
+function getProgressionAnchorKey(challenge: ChallengeDoc): string | null {
+  return challenge.rules?.progress?.anchorDate || getCreationPeriodKey(challenge);
+}
+
+/**
+ * `computed` fields of a progress check-in: the period's target and, for
+ * number submissions, whether the submitted value met it.
+ */
+function computeProgressResult(
+  challenge: ChallengeDoc,
+  periodKey: string | undefined,
+  payload: Record<string, any>,
+): { targetValue: number; metRequirement?: boolean } | null {
+  const rules = challenge.rules?.progress;
+  const anchorKey = getProgressionAnchorKey(challenge);
+  if (challenge.type !== 'progress' || !rules || !anchorKey || !periodKey) return null;
+
+  const targetValue = getProgressionTarget(rules, anchorKey, periodKey);
+  if (typeof payload.numberValue !== 'number') return { targetValue };
+  return { targetValue, metRequirement: meetsProgressionTarget(rules, payload.numberValue, targetValue) };
+}
+
+// ---------------------------------------------------------------------------
+// Helper: next moment the scheduler should look at a challenge
+// ---------------------------------------------------------------------------
+
+/**
+ * The first period due moment whose grace window is still open at `now`,
+ * plus the grace. Evaluating before this moment would find nothing to do.
+ */
+function computeNextEvaluationAtUtc(challenge: ChallengeDoc, now: Date): number {
+  const cadence: PeriodCadence = challenge.cadence || { unit: 'daily', weekStartsOn: 0 };
   const dueTimeLocal = challenge.due?.dueTimeLocal ?? '23:59';
   const adminTz = resolveAdminTimeZone(challenge);
+  const graceMs = getLateGraceMs(challenge);
+
+  const nextDue = computeNextDueAtUtc(
+    adminTz,
+    dueTimeLocal,
+    cadence,
+    cadence.weekStartsOn ?? 0,
+    new Date(now.getTime() - graceMs),
+  );
+  return nextDue + graceMs;
+}
 
-  let dueMoment: Date;
-  if (cadence.unit === 'weekly') {
-    dueMoment = computeWeeklyDueMomentUtc(adminTz, previousKey, dueTimeLocal);
-  } else {
-    dueMoment = computeDueMomentUtcForDay(adminTz, previousKey, dueTimeLocal);
+// ---------------------------------------------------------------------------
+// Helper: one-time backfill of nextDueAtUtc for legacy challenge docs
+// ---------------------------------------------------------------------------
+
+/**
+ * Challenges created before the client wrote `nextDueAtUtc` never match the
+ * due query. Walk the collection in pages (resuming from a cursor across runs)
+ * and mark them due now so the next query picks them up.
+ */
+async function backfillNextDueAtUtc(now: Date, deadlineMs: number): Promise<void> {
+  const metaRef = db.collection(SCHEDULER_META_COLLECTION).doc('nextDueBackfill');
+  const metaSnap = await metaRef.get();
+  if (metaSnap.exists && metaSnap.data()?.completed === true) return;
+
+  let cursor = (metaSnap.data()?.cursor as string | undefined) ?? null;
+  let backfilled = 0;
+
+  while (Date.now() < deadlineMs) {
+    let pageQuery = db.collection('challenges')
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(BACKFILL_PAGE_SIZE);
+    if (cursor) pageQuery = pageQuery.startAfter(cursor);
+
+    const page = await pageQuery.get();
+    if (page.empty) {
+      await metaRef.set({
+        completed: true,
+        cursor: null,
+        completedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      logger.info('nextDueAtUtc backfill complete', { backfilled });
+      return;
+    }
+
+    const batch = db.batch();
+    let batchOps = 0;
+    for (const d of page.docs) {
+      const data = d.data();
+      if (typeof data.nextDueAtUtc === 'number') continue;
+      if (data.state === 'ended' || data.isArchived === true) continue;
+      batch.update(d.ref, { nextDueAtUtc: now.getTime() });
+      batchOps++;
+    }
+    cursor = page.docs[page.docs.length - 1].id;
+    batch.set(metaRef, { completed: false, cursor }, { merge: true });
+    await batch.commit();
+    backfilled += batchOps;
   }
 
-  // Add grace period if configured
-  const graceMs = (challenge.settings?.lateGraceMinutes || 0) * 60 * 1000;
-  const effectiveDue = new Date(dueMoment.getTime() + graceMs);
+  logger.info('nextDueAtUtc backfill paused (time budget)', { backfilled, cursor });
+}
 
-  return now.getTime() >= effectiveDue.getTime();
+// ---------------------------------------------------------------------------
+// Helper: reschedule a challenge after evaluating it
+// ---------------------------------------------------------------------------
+
+async function advanceNextDueAtUtc(challenge: ChallengeDoc, now: Date): Promise<void> {
+  const challengeRef = db.collection('challenges').doc(challenge.id);
+
+  // Ended / archived challenges drop out of the due query entirely
+  if (challenge.state === 'ended' || challenge.isArchived === true) {
+    await challengeRef.update({ nextDueAtUtc: admin.firestore.FieldValue.delete() });
+    return;
+  }
+
+  await challengeRef.update({ nextDueAtUtc: computeNextEvaluationAtUtc(challenge, now) });
+}
+
+// ---------------------------------------------------------------------------
+// Helper: announce member pauses that started or ended
+// ---------------------------------------------------------------------------
+
+/** "Oct 21" for a YYYY-MM-DD key */
+function formatDayKeyLabel(key: string): string {
+  return new Date(`${key}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Post a group message when a member's pause starts or ends. Members carry
+ * `nextPauseEventAtUtc` (the next unannounced start or end), so only members
+ * with something to announce are read.
+ */
+async function announceMemberPauses(now: Date, deadlineMs: number): Promise<void> {
+  const page = await db.collection('challengeMembers')
+    .where('nextPauseEventAtUtc', '<=', now.getTime())
+    .orderBy('nextPauseEventAtUtc')
+    .limit(DUE_PAGE_SIZE)
+    .get();
+
+  for (const memberDoc of page.docs) {
+    if (Date.now() >= deadlineMs) break;
+    try {
+      const announcements = await db.runTransaction(async (tx) => {
+        const memberSnap = await tx.get(memberDoc.ref);
+        const member = memberSnap.data() as MemberDoc | undefined;
+        if (!member || typeof member.nextPauseEventAtUtc !== 'number' || member.nextPauseEventAtUtc > now.getTime()) {
+          return null;
+        }
+        const challengeSnap = await tx.get(db.collection('challenges').doc(member.challengeId));
+        const challenge = challengeSnap.exists
+          ? { id: challengeSnap.id, ...challengeSnap.data() } as ChallengeDoc
+          : null;
+        if (!challenge || challenge.state === 'ended' || member.state !== 'active') {
+          tx.update(memberDoc.ref, { nextPauseEventAtUtc: admin.firestore.FieldValue.delete() });
+          return null;
+        }
+
+        const adminTz = resolveAdminTimeZone(challenge);
+        const todayKey = getAdminZoneDayKey(adminTz, now);
+        const events: Array<{ kind: 'started' | 'ended'; pause: MemberPause }> = [];
+        const pauses = (member.pauses || []).map(p => {
+          const updated = { ...p };
+          if (!p.endAnnounced && p.endKey < todayKey) {
+            // A pause that began and ended between runs is only announced as ended
+            updated.startAnnounced = true;
+            updated.endAnnounced = true;
+            events.push({ kind: 'ended', pause: p });
+          } else if (!p.startAnnounced && p.startKey <= todayKey) {
+            updated.startAnnounced = true;
+            events.push({ kind: 'started', pause: p });
+          }
+          return updated;
+        });
+
+        tx.update(memberDoc.ref, buildPauseUpdate(pauses, adminTz));
+        return { challenge, userId: member.userId, events };
+      });
+
+      if (!announcements?.challenge.groupId || announcements.events.length === 0) continue;
+      const names = await getDisplayNames([announcements.userId]);
+      const displayName = names[announcements.userId] ?? 'Someone';
+      const challengeName = announcements.challenge.title || announcements.challenge.name || 'Challenge';
+      const batch = db.batch();
+      for (const event of announcements.events) {
+        batch.set(db.collection('messages').doc(), {
+          groupId: announcements.challenge.groupId,
+          userId: SYSTEM_USER_ID,
+          userName: SYSTEM_USER_NAME,
+          text: event.kind === 'started'
+            ? `${displayName} paused ${challengeName} through ${formatDayKeyLabel(event.pause.endKey)}.`
+            : `${displayName} is back from their pause in ${challengeName}.`,
+          type: 'text',
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+      await batch.commit();
+    } catch (err) {
+      // A failed transaction leaves nextPauseEventAtUtc as is, so the next run retries
+      logger.error('Error announcing member pause', { memberId: memberDoc.id, err });
+    }
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -142,34 +505,62 @@ function hasPreviousPeriodDuePassed(challenge: ChallengeDoc, previousKey: string
 // ---------------------------------------------------------------------------
 
 export const evaluateChallenges = onSchedule(
-  { schedule: 'every 5 minutes', timeZone: 'UTC' },
+  { schedule: 'every 5 minutes', timeZone: 'UTC', timeoutSeconds: 300 },
   async () => {
     const now = new Date();
+    const deadlineMs = now.getTime() + RUN_TIME_BUDGET_MS;
     logger.info('evaluateChallenges: starting', { now: now.toISOString() });
 
     try {
-      // Query all challenges and filter client-side to include legacy docs without a state field.
-      // Firestore doesn't support `null` in `in` queries, so we fetch all and filter.
-      const challengesSnap = await db.collection('challenges').get();
-
-      const challenges: ChallengeDoc[] = [];
-      challengesSnap.docs.forEach(d => {
-        const data = d.data();
-        if (data.state === 'ended' || data.isArchived === true) return;
-        challenges.push({ id: d.id, ...data } as ChallengeDoc);
-      });
-
-      logger.info(`Found ${challenges.length} active challenges to evaluate`);
-
-      for (const challenge of challenges) {
-        try {
-          await evaluateChallenge(challenge, now);
-        } catch (err) {
-          logger.error('Error evaluating challenge', { challengeId: challenge.id, err });
+      await backfillNextDueAtUtc(now, deadlineMs);
+      await announceMemberPauses(now, deadlineMs);
+
+      // Only challenges whose next due moment has passed. Ended challenges have
+      // the field removed, so they never match.
+      let lastDoc: admin.firestore.QueryDocumentSnapshot | null = null;
+      let evaluated = 0;
+
+      while (Date.now() < deadlineMs) {
+        let dueQuery = db.collection('challenges')
+          .where('nextDueAtUtc', '<=', now.getTime())
+          .orderBy('nextDueAtUtc')
+          .limit(DUE_PAGE_SIZE);
+        if (lastDoc) dueQuery = dueQuery.startAfter(lastDoc);
+
+        const page = await dueQuery.get();
+        if (page.empty) break;
+        lastDoc = page.docs[page.docs.length - 1];
+
+        const challenges = page.docs.map(d => ({ id: d.id, ...d.data() } as ChallengeDoc));
+
+        // Evaluate in small concurrent shards so one slow challenge can't stall the run
+        for (let i = 0; i < challenges.length; i += SHARD_SIZE) {
+          if (Date.now() >= deadlineMs) break;
+          const shard = challenges.slice(i, i + SHARD_SIZE);
+          await Promise.all(shard.map(async (challenge) => {
+            try {
+              let caughtUp = true;
+              // An ended season is still due until its successor exists
+              if ((challenge.state !== 'ended' || isSeasonOver(challenge)) && challenge.isArchived !== true) {
+                caughtUp = await evaluateChallenge(challenge, now);
+              }
+              // A partial catch-up stays due so the next run continues it
+              if (caughtUp) await advanceNextDueAtUtc(challenge, now);
+              evaluated++;
+            } catch (err) {
+              // Leave nextDueAtUtc untouched so the next run retries this challenge
+              logger.error('Error evaluating challenge', { challengeId: challenge.id, err });
+            }
+          }));
         }
+
+        if (page.size < DUE_PAGE_SIZE) break;
       }
 
-      logger.info('evaluateChallenges: finished');
+      if (Date.now() >= deadlineMs) {
+        logger.warn('evaluateChallenges: time budget reached, remaining challenges deferred to next run');
+      }
+      logger.info('evaluateChallenges: finished', { evaluated });
     } catch (err) {
       logger.error('evaluateChallenges failed', err);
       throw err;
@@ -181,7 +572,8 @@ export const evaluateChallenges = onSchedule(
 // Per-challenge evaluation
 // ---------------------------------------------------------------------------
 
-async function evaluateChallenge(challenge: ChallengeDoc, now: Date): Promise<void> {
+/** Returns false when there are still past periods left to evaluate. */
+async function evaluateChallenge(challenge: ChallengeDoc, now: Date): Promise<boolean> {
   const challengeType = String(challenge.type || 'standard').toLowerCase();
 
   // 1. Handle deadline challenges — check if deadline has passed
@@ -189,8 +581,19 @@ async function evaluateChallenge(challenge: ChallengeDoc, now: Date): Promise<vo
     await evaluateDeadline(challenge, now);
   }
 
-  // 2. Evaluate missed check-ins for the previous period
-  await evaluateMissedCheckIns(challenge, now);
+  // 2. Evaluate missed check-ins for every period that ended since the last run
+  const caughtUp = await evaluateMissedCheckIns(challenge, now);
+
+  // 3. Seasonal challenges roll over once the season is over
+  if (caughtUp && isSeasonOver(challenge)) {
+    await startNextSeason(challenge, now);
+  }
+
+  // 4. Progress challenges announce the target of each new step
+  if (caughtUp && challengeType === 'progress') {
+    await announceProgressionStep(challenge, now);
+  }
+  return caughtUp;
 }
 
 // ---------------------------------------------------------------------------
@@ -215,81 +618,441 @@ async function evaluateDeadline(challenge: ChallengeDoc, now: Date): Promise<voi
   const evalSnap = await evalRef.get();
   if (evalSnap.exists) return; // Already processed
 
+  // Rank every member's result against the target
+  const [membersSnap, checkInsSnap] = await Promise.all([
+    db.collection('challengeMembers').where('challengeId', '==', challenge.id).get(),
+    db.collection('checkIns').where('challengeId', '==', challenge.id).get(),
+  ]);
+  const counted: DeadlineCheckIn[] = checkInsSnap.docs
+    .map(d => d.data())
+    .filter(data => isCountedCheckInStatus(data.status))
+    .map(data => ({
+      userId: data.userId as string,
+      createdAt: typeof data.createdAt === 'number' ? data.createdAt : data.createdAt?.toMillis?.() ?? 0,
+      payload: data.payload,
+    }));
+  const memberRefs = new Map(membersSnap.docs.map(d => [d.data().userId as string, d.ref]));
+  const memberIds = Array.from(memberRefs.keys());
+  const outcomes = rankDeadlineOutcomes(challenge.rules?.deadline, memberIds, counted);
+
+  const MAX_BATCH = 450;
+  for (let i = 0; i < outcomes.length; i += MAX_BATCH) {
+    const outcomeBatch = db.batch();
+    for (const { userId, value, reached, rank } of outcomes.slice(i, i + MAX_BATCH)) {
+      const outcome: DeadlineOutcome = { value, reached, rank };
+      outcomeBatch.update(memberRefs.get(userId)!, { deadlineOutcome: outcome });
+    }
+    await outcomeBatch.commit();
+  }
+
   // End the challenge
   const batch = db.batch();
   const challengeRef = db.collection('challenges').doc(challenge.id);
   batch.update(challengeRef, {
     state: 'ended',
     endedAt: admin.firestore.FieldValue.serverTimestamp(),
+    nextDueAtUtc: admin.firestore.FieldValue.delete(),
   });
 
   // Track that we processed this
   batch.set(evalRef, {
     challengeId: challenge.id,
     type: 'deadline_ended',
+    reachedUserIds: outcomes.filter(o => o.reached).map(o => o.userId),
     processedAt: admin.firestore.FieldValue.serverTimestamp(),
   });
 
+  const challengeName = challenge.title || challenge.name || 'Challenge';
+  const endedText = `The deadline for "${challengeName}" has passed. The challenge has ended!`;
+
   // Send group message if it's a group challenge
   if (challenge.groupId) {
-    const challengeName = challenge.title || challenge.name || 'Challenge';
     const msgRef = db.collection('messages').doc();
     batch.set(msgRef, {
       groupId: challenge.groupId,
       userId: SYSTEM_USER_ID,
       userName: SYSTEM_USER_NAME,
-      text: `The deadline for "${challengeName}" has passed. The challenge has ended!`,
+      text: outcomes.length > 0
+        ? `${endedText} ${await formatDeadlineRanking(challenge, outcomes)}`
+        : endedText,
       type: 'text',
       timestamp: admin.firestore.FieldValue.serverTimestamp(),
     });
   }
 
   await batch.commit();
-  logger.info('Deadline challenge ended', { challengeId: challenge.id });
+  challenge.state = 'ended';
+  logger.info('Deadline challenge ended', {
+    challengeId: challenge.id,
+    reached: outcomes.filter(o => o.reached).length,
+    members: outcomes.length,
+  });
 
   // Push notification for deadline ending
   if (challenge.groupId) {
-    const membersSnap = await db.collection('challengeMembers')
-      .where('challengeId', '==', challenge.id)
-      .get();
-    const memberIds = membersSnap.docs.map(d => d.data().userId as string);
-    const challengeName = challenge.title || challenge.name || 'Challenge';
     sendPushToUsers(
       memberIds,
       'elimination',
       challengeName,
-      `The deadline for "${challengeName}" has passed. The challenge has ended!`,
+      endedText,
       { challengeId: challenge.id, groupId: challenge.groupId },
     ).catch(err => logger.error('Push failed for deadline', err));
   }
 }
 
+const DEADLINE_RANKING_LIMIT = 10;
+
+/** "2 of 3 reached the target. Final ranking: 1. Ana (42 pages), 2. Ben (30 pages), 3. Cy (no check-ins)." */
+async function formatDeadlineRanking(
+  challenge: ChallengeDoc,
+  outcomes: Array<DeadlineOutcome & { userId: string }>,
+): Promise<string> {
+  const shown = outcomes.slice(0, DEADLINE_RANKING_LIMIT);
+  const names = await getDisplayNames(shown.map(o => o.userId));
+  const unitLabel = challenge.submission?.unitLabel ? ` ${challenge.submission.unitLabel}` : '';
+  const ranking = shown.map(o => {
+    const detail = o.value === null ? 'no check-ins' : `${o.value}${unitLabel}`;
+    return `${o.rank}. ${names[o.userId] ?? 'Someone'} (${detail})`;
+  }).join(', ');
+  const more = outcomes.length > shown.length ? ` and ${outcomes.length - shown.length} more` : '';
+  const reachedCount = outcomes.filter(o => o.reached).length;
+  const summary = challenge.rules?.deadline?.targetValue != null
+    ? `${reachedCount} of ${outcomes.length} reached the target of ${challenge.rules.deadline.targetValue}${unitLabel}.`
+    : `${reachedCount} of ${outcomes.length} completed it.`;
+  return `${summary} Final ranking: ${ranking}${more}.`;
+}
+
 // ---------------------------------------------------------------------------
-// Missed check-in evaluation (with elimination + strikes + winner)
+// Missed check-in evaluation — walks every unevaluated period up to now
 // ---------------------------------------------------------------------------
 
-async function evaluateMissedCheckIns(challenge: ChallengeDoc, now: Date): Promise<void> {
+/**
+ * Evaluate every period between the challenge's `lastEvaluatedPeriodKey` (or
+ * its creation period) and the latest period whose due + grace has passed, in
+ * order. Each period is idempotent via its challengeEvalLog doc, so a run
+ * after a scheduler outage replays exactly the periods that were skipped.
+ *
+ * Returns false when the catch-up was cut short by MAX_CATCH_UP_PERIODS or
+ * stopped at a period with unresolved disputes; the caller then leaves the
+ * challenge due so the next run continues.
+ */
+async function evaluateMissedCheckIns(challenge: ChallengeDoc, now: Date): Promise<boolean> {
   // Skip ended challenges
-  if (challenge.state === 'ended') return;
+  if (challenge.state === 'ended') return true;
 
-  const cadence = challenge.cadence || { unit: 'daily', weekStartsOn: 0 };
-  const dueTimeLocal = challenge.due?.dueTimeLocal ?? '23:59';
-  const adminTz = resolveAdminTimeZone(challenge);
+  const cadence: PeriodCadence = challenge.cadence || { unit: 'daily' };
 
-  // Get the previous period key
+  // The latest period that ended may still be inside its grace window
   const previousKey = getPreviousPeriodKey(challenge, now);
-  if (!previousKey) return;
+  const lastDueKey = hasPreviousPeriodDuePassed(challenge, previousKey, now)
+    ? previousKey
+    : shiftPeriodKey(previousKey, cadence, -1);
+
+  let periodKey: string;
+  if (challenge.lastEvaluatedPeriodKey) {
+    periodKey = shiftPeriodKey(challenge.lastEvaluatedPeriodKey, cadence, 1);
+  } else {
+    // No marker yet (evaluated before this field existed): start at creation.
+    // Periods already judged are skipped through their challengeEvalLog docs,
+    // and MAX_CATCH_UP_PERIODS spreads a long history over several runs.
+    // Without createdAt there is no history to replay, so start at the latest.
+    periodKey = getCreationPeriodKey(challenge) || lastDueKey;
+  }
+
+  // A season's periods stop at its final one; the next season takes over
+  const seasonFinalKey = getSeasonFinalPeriodKey(challenge);
+  const lastKey = seasonFinalKey && seasonFinalKey < lastDueKey ? seasonFinalKey : lastDueKey;
+
+  let walked = 0;
+  let lastWalkedKey: string | null = null;
+  while (periodKey <= lastKey) {
+    if (walked >= MAX_CATCH_UP_PERIODS) break;
+    // Later periods wait too, so strikes and eliminations stay in order
+    if (!await evaluatePeriod(challenge, periodKey, now)) break;
+    lastWalkedKey = periodKey;
+    walked++;
+    if (challenge.state === 'ended') break;
+    periodKey = shiftPeriodKey(periodKey, cadence, 1);
+  }
+
+  if (lastWalkedKey) {
+    await db.collection('challenges').doc(challenge.id).update({ lastEvaluatedPeriodKey: lastWalkedKey });
+    challenge.lastEvaluatedPeriodKey = lastWalkedKey;
+    if (walked > 1) {
+      logger.info('Caught up missed periods', { challengeId: challenge.id, periods: walked, through: lastWalkedKey });
+    }
+  }
+
+  return challenge.state === 'ended' || periodKey > lastKey;
+}
+
+// ---------------------------------------------------------------------------
+// Seasons: archive the finished season and start the next one
+// ---------------------------------------------------------------------------
+
+/** Whether a seasonal challenge finished its season and still needs its successor. */
+function isSeasonOver(challenge: ChallengeDoc): boolean {
+  const finalKey = getSeasonFinalPeriodKey(challenge);
+  if (!finalKey || challenge.season?.nextSeasonId) return false;
+  return challenge.state === 'ended'
+    || (!!challenge.lastEvaluatedPeriodKey && challenge.lastEvaluatedPeriodKey >= finalKey);
+}
+
+/**
+ * End the current season, whose doc stays behind as the archived result, and
+ * create the next season as a new challenge doc with the same settings and
+ * fresh member docs (no strikes or streaks, everyone active). Season ids are
+ * derived from the first season's id, so a retried run overwrites its own
+ * partial work instead of duplicating it.
+ */
+async function startNextSeason(challenge: ChallengeDoc, now: Date): Promise<void> {
+  const challengeRef = db.collection('challenges').doc(challenge.id);
+  const challengeSnap = await challengeRef.get();
+  const data = challengeSnap.data();
+  if (!data || data.season?.nextSeasonId) return;
+
+  const season = challenge.season!;
+  const cadence: PeriodCadence = challenge.cadence || { unit: 'daily' };
+  const adminTz = resolveAdminTimeZone(challenge);
+  const rootId = season.rootId || challenge.id;
+  const nextNumber = season.number + 1;
+  const nextId = `${rootId}_s${nextNumber}`;
+
+  // Start right after this season's last period, or tomorrow if it ended early
+  const afterFinalKey = addDaysToKey(getPeriodLastDayKey(getSeasonFinalPeriodKey(challenge)!, cadence), 1);
+  const tomorrowKey = addDaysToKey(getAdminZoneDayKey(adminTz, now), 1);
+  const startKey = tomorrowKey < afterFinalKey ? tomorrowKey : afterFinalKey;
+  const nextSeason: ChallengeSeason = {
+    number: nextNumber,
+    lengthDays: season.lengthDays,
+    startKey,
+    endKey: addDaysToKey(startKey, season.lengthDays - 1),
+    rootId,
+  };
+
+  // Results of this season stay on its own doc
+  const nextData: Record<string, unknown> = {
+    ...data,
+    state: 'active',
+    status: 'active',
+    createdAt: admin.firestore.Timestamp.fromDate(now),
+    startsAt: startKey,
+    season: nextSeason,
+    userProgress: {},
+    nextDueAtUtc: now.getTime(),
+  };
+  for (const field of ['winnerId', 'winnerIds', 'suddenDeath', 'endedAt', 'lastEvaluatedPeriodKey', 'teamScores', 'progressionStep']) {
+    delete nextData[field];
+  }
+  if (cadence.unit === 'interval') {
+    nextData.cadence = { ...data.cadence, anchorDate: startKey };
+  }
+  if (data.rules?.progress) {
+    nextData.rules = { ...data.rules, progress: { ...data.rules.progress, anchorDate: startKey } };
+  }
+
+  // Fresh member docs for everyone in this season, eliminated or not
+  const membersSnap = await db.collection('challengeMembers')
+    .where('challengeId', '==', challenge.id)
+    .get();
+  const MAX_BATCH = 450;
+  for (let i = 0; i < membersSnap.docs.length; i += MAX_BATCH) {
+    const batch = db.batch();
+    for (const memberDoc of membersSnap.docs.slice(i, i + MAX_BATCH)) {
+      const member = memberDoc.data() as MemberDoc;
+      batch.set(db.collection('challengeMembers').doc(`${nextId}_${member.userId}`), {
+        challengeId: nextId,
+        userId: member.userId,
+        ...(member.groupId && { groupId: member.groupId }),
+        ...(member.teamId && { teamId: member.teamId }),
+        state: 'active',
+        strikes: 0,
+        currentStreak: 0,
+        longestStreak: 0,
+        streakShields: 0,
+        streakShieldUsed: false,
+        joinedAt: admin.firestore.Timestamp.fromDate(now),
+      });
+    }
+    await batch.commit();
+  }
+
+  const batch = db.batch();
+  batch.set(db.collection('challenges').doc(nextId), nextData);
+  batch.update(challengeRef, {
+    state: 'ended',
+    ...(!data.endedAt && { endedAt: admin.firestore.FieldValue.serverTimestamp() }),
+    'season.nextSeasonId': nextId,
+    nextDueAtUtc: admin.firestore.FieldValue.delete(),
+  });
+  if (challenge.groupId) {
+    const groupRef = db.collection('groups').doc(challenge.groupId);
+    if ((await groupRef.get()).exists) {
+      batch.update(groupRef, { challengeIds: admin.firestore.FieldValue.arrayUnion(nextId) });
+    }
+    const challengeName = challenge.title || challenge.name || 'Challenge';
+    batch.set(db.collection('messages').doc(), {
+      groupId: challenge.groupId,
+      userId: SYSTEM_USER_ID,
+      userName: SYSTEM_USER_NAME,
+      text: `Season ${season.number} of ${challengeName} is over! Season ${nextNumber} starts ${formatDayKeyLabel(startKey)} with a clean slate.`,
+      type: 'text',
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+  await batch.commit();
+
+  challenge.state = 'ended';
+  challenge.season = { ...season, nextSeasonId: nextId };
+  logger.info('Season rolled over', { challengeId: challenge.id, nextSeasonId: nextId, season: nextNumber });
+}
+
+// ---------------------------------------------------------------------------
+// Progress challenges: announce each new target step
+// ---------------------------------------------------------------------------
+
+const PROGRESSION_STEP_LABELS: Record<ProgressionRules['increaseUnit'], string> = {
+  day: 'Day',
+  week: 'Week',
+  interval: 'Step',
+};
+
+/**
+ * Post the new target once the current period falls in a new progression
+ * step. `progressionStep` records the last announced step, so each step is
+ * announced once; steps passed while the scheduler was down are skipped.
+ */
+async function announceProgressionStep(challenge: ChallengeDoc, now: Date): Promise<void> {
+  const rules = challenge.rules?.progress;
+  const anchorKey = getProgressionAnchorKey(challenge);
+  if (!rules || !anchorKey || challenge.state === 'ended' || !hasChallengeStarted(challenge, now)) return;
+
+  const step = getProgressionStepIndex(rules, anchorKey, getCurrentPeriodKey(challenge, now));
+  if (step <= (challenge.progressionStep ?? 0)) return;
+
+  const challengeRef = db.collection('challenges').doc(challenge.id);
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(challengeRef);
+    const data = snap.data();
+    if (!data || data.state === 'ended' || (data.progressionStep ?? 0) >= step) return;
+
+    tx.update(challengeRef, { progressionStep: step });
+
+    const target = getProgressionTargetForStep(rules, step);
+    const previous = getProgressionTargetForStep(rules, step - 1);
+    if (!challenge.groupId || target === previous) return;
+
+    const challengeName = challenge.title || challenge.name || 'Challenge';
+    const stepLabel = `${PROGRESSION_STEP_LABELS[rules.increaseUnit] || 'Step'} ${step + 1}`;
+    const unitLabel = challenge.submission?.unitLabel ? ` ${challenge.submission.unitLabel}` : '';
+    const isEasier = rules.comparison === 'lte' ? target > previous : target < previous;
+    tx.set(db.collection('messages').doc(), {
+      groupId: challenge.groupId,
+      userId: SYSTEM_USER_ID,
+      userName: SYSTEM_USER_NAME,
+      text: isEasier
+        ? `${stepLabel} of ${challengeName} is a deload: the target eases to ${target}${unitLabel}.`
+        : `${stepLabel} of ${challengeName}: the target is now ${target}${unitLabel}.`,
+      type: 'text',
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+  challenge.progressionStep = step;
+}
+
+// ---------------------------------------------------------------------------
+// Elimination tie-breaks: the last members left are eliminated together
+// ---------------------------------------------------------------------------
+
+/** "Ana", "Ana and Ben", "Ana, Ben and Cy" */
+function formatNameList(names: string[]): string {
+  if (names.length <= 1) return names[0] ?? '';
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Winners among `tied` (all eliminated in the same period, nobody left)
+ * under `rules.elimination.tieBreak`, plus the winner message. Members still
+ * level after the tie-break share the win, as do members who went out
+ * together again in sudden death.
+ */
+async function breakEliminationTie(
+  challenge: ChallengeDoc,
+  tied: MemberDoc[],
+  displayNames: Record<string, string>,
+): Promise<{ winnerIds: string[]; text: string }> {
+  const challengeName = challenge.title || challenge.name || 'Challenge';
+  const nameOf = (uid: string) => displayNames[uid] ?? 'Someone';
+  const tiedNames = formatNameList(tied.map(m => nameOf(m.userId)));
+  const tieBreak = challenge.rules?.elimination?.tieBreak || 'shared';
+
+  let scores: Record<string, number> | null = null;
+  let pickLowest = false;
+  if (tieBreak === 'fewestStrikes') {
+    scores = {};
+    for (const m of tied) scores[m.userId] = m.strikes + 1;
+    pickLowest = true;
+  } else if (tieBreak === 'highestTotal') {
+    const snap = await db.collection('checkIns').where('challengeId', '==', challenge.id).get();
+    scores = {};
+    for (const m of tied) scores[m.userId] = 0;
+    for (const d of snap.docs) {
+      const data = d.data();
+      if (!isCountedCheckInStatus(data.status) || !(data.userId in scores)) continue;
+      if (typeof data.payload?.numberValue === 'number') scores[data.userId] += data.payload.numberValue;
+    }
+  }
+
+  if (!scores) {
+    const intro = challenge.suddenDeath
+      ? `Nobody survived sudden death in ${challengeName}.`
+      : `${tiedNames} were eliminated from ${challengeName} at the same time.`;
+    return { winnerIds: tied.map(m => m.userId), text: `${intro} ${tiedNames} share the win!` };
+  }
+
+  const values = Object.values(scores);
+  const best = pickLowest ? Math.min(...values) : Math.max(...values);
+  const winnerIds = tied.map(m => m.userId).filter(uid => scores![uid] === best);
+  const winnerNames = formatNameList(winnerIds.map(nameOf));
+  const unitLabel = challenge.submission?.unitLabel ? ` ${challenge.submission.unitLabel}` : '';
+  const detail = pickLowest
+    ? `the fewest strikes (${best})`
+    : `the highest total (${Math.round(best * 100) / 100}${unitLabel})`;
+  const verdict = winnerIds.length === 1
+    ? `${winnerNames} wins with ${detail}!`
+    : `${winnerNames} share the win with ${detail}!`;
+  return {
+    winnerIds,
+    text: `${tiedNames} were eliminated from ${challengeName} at the same time. ${verdict}`,
+  };
+}
 
-  // Check if the previous period's due moment has actually passed (with grace)
-  if (!hasPreviousPeriodDuePassed(challenge, previousKey, now)) return;
+// ---------------------------------------------------------------------------
+// Single-period evaluation (with elimination + strikes + winner)
+// ---------------------------------------------------------------------------
+
+/** Returns false when the period was deferred because it has unresolved disputes. */
+async function evaluatePeriod(challenge: ChallengeDoc, previousKey: string, now: Date): Promise<boolean> {
+  const cadence = challenge.cadence || { unit: 'daily', weekStartsOn: 0 };
 
   // Idempotency: check evaluation log
   const evalDocId = `eval_${challenge.id}_${previousKey}`;
   const evalRef = db.collection(EVAL_COLLECTION).doc(evalDocId);
   const evalSnap = await evalRef.get();
-  if (evalSnap.exists) return; // Already evaluated this period
+  if (evalSnap.exists) return true; // Already evaluated this period
 
-  const periodField = cadence.unit === 'weekly' ? 'weekKey' : 'dayKey';
+  // Off-days of a specific-weekdays schedule are never judged
+  if (!isActivePeriodKey(previousKey, cadence)) {
+    await evalRef.set({
+      challengeId: challenge.id,
+      periodKey: previousKey,
+      processedAt: admin.firestore.FieldValue.serverTimestamp(),
+      result: 'off_day',
+    });
+    return true;
+  }
+
+  const periodField = getPeriodKeyField(cadence.unit);
   const challengeType = String(challenge.type || 'standard').toLowerCase();
   const isElimination = challengeType === 'elimination';
   const requiredCount = cadence.requiredCount || 1;
@@ -304,7 +1067,13 @@ async function evaluateMissedCheckIns(challenge: ChallengeDoc, now: Date): Promi
     ...d.data(),
   } as MemberDoc));
 
-  const activeMembers = allMembers.filter(m => m.state === 'active');
+  // Members who joined, or were revived, after this period's due moment aren't judged on it
+  const periodDueMs = getPeriodDueMoment(challenge, previousKey).getTime();
+  const activeMembers = allMembers.filter(m =>
+    m.state === 'active' &&
+    !(typeof m.joinedAt?.toMillis === 'function' && m.joinedAt.toMillis() > periodDueMs) &&
+    !(typeof m.revivedAt?.toMillis === 'function' && m.revivedAt.toMillis() > periodDueMs)
+  );
   if (activeMembers.length === 0) {
     // No active members — mark as evaluated and move on
     await evalRef.set({
@@ -313,40 +1082,68 @@ async function evaluateMissedCheckIns(challenge: ChallengeDoc, now: Date): Promi
       processedAt: admin.firestore.FieldValue.serverTimestamp(),
       result: 'no_active_members',
     });
-    return;
+    return true;
   }
 
   // Get check-ins for this challenge and period
   const checkInsSnap = await db.collection('checkIns')
     .where('challengeId', '==', challenge.id)
+    .where(`period.${periodField}`, '==', previousKey)
     .get();
 
-  // Build a map: userId -> count of completed check-ins for this period
+  // Disputed check-ins wait for the admin's ruling. Once the resolution window
+  // lapses they stand as completed; rejected ones never count.
+  const hasOpenDispute = checkInsSnap.docs.some(d => d.data().status === 'disputed');
+  if (hasOpenDispute && now.getTime() < periodDueMs + getLateGraceMs(challenge) + DISPUTE_RESOLUTION_MS) {
+    logger.info('Period deferred for unresolved disputes', { challengeId: challenge.id, periodKey: previousKey });
+    return false;
+  }
+
+  // Build maps: userId -> count of completed check-ins for this period, and
+  // the sum of their submitted numbers (team challenges with a summed target)
   const completedCountByUser: Record<string, number> = {};
+  const sumByUser: Record<string, number> = {};
   for (const ciDoc of checkInsSnap.docs) {
     const data = ciDoc.data();
-    if (data.status !== 'completed') continue;
-    const period = data.period || {};
-    if (period[periodField] === previousKey) {
-      const uid = data.userId as string;
-      completedCountByUser[uid] = (completedCountByUser[uid] || 0) + 1;
+    if (!isCountedCheckInStatus(data.status)) continue;
+    const uid = data.userId as string;
+    completedCountByUser[uid] = (completedCountByUser[uid] || 0) + 1;
+    if (typeof data.payload?.numberValue === 'number') {
+      sumByUser[uid] = (sumByUser[uid] || 0) + data.payload.numberValue;
     }
   }
 
+  // Members on a scheduled pause are excused from this period
+  const pausedMembers = activeMembers.filter(m => isPeriodPaused(m.pauses, previousKey, cadence));
+  const judgedMembers = activeMembers.filter(m => !pausedMembers.includes(m));
+
   // Determine who missed
-  const missedMembers = activeMembers.filter(m => {
+  const missedMembers = judgedMembers.filter(m => {
     const count = completedCountByUser[m.userId] || 0;
     return count < requiredCount;
   });
 
   // Get display names for messaging
-  const allUserIds = activeMembers.map(m => m.userId);
+  const allUserIds = allMembers.filter(m => m.state === 'active').map(m => m.userId);
   const displayNames = await getDisplayNames(allUserIds);
   const challengeName = challenge.title || challenge.name || 'Challenge';
   const groupId = challenge.groupId;
 
+  // When a period would eliminate everyone still in (two or more members), the
+  // tie-break rule decides. Sudden death keeps them in, once per challenge.
+  const strikesAllowed = challenge.rules?.elimination?.strikesAllowed ?? 0;
+  const tieBreak: EliminationTieBreak = challenge.rules?.elimination?.tieBreak || 'shared';
+  const eliminationCandidates = isElimination
+    ? missedMembers.filter(m => (m.streakShields || 0) === 0 && m.strikes + 1 > strikesAllowed)
+    : [];
+  const isLastSurvivorTie = eliminationCandidates.length >= 2
+    && allMembers.every(m => m.state !== 'active' || eliminationCandidates.includes(m));
+  const suddenDeathUserIds = isLastSurvivorTie && tieBreak === 'suddenDeath' && !challenge.suddenDeath
+    ? eliminationCandidates.map(m => m.userId)
+    : [];
+
   // Process missed members
-  const batch = db.batch();
+  let batch = db.batch();
   let batchOps = 0;
   const MAX_BATCH = 450; // Leave room in batch for eval doc + winner msg
 
@@ -355,6 +1152,7 @@ async function evaluateMissedCheckIns(challenge: ChallengeDoc, now: Date): Promi
   for (const member of missedMembers) {
     if (batchOps >= MAX_BATCH) {
       await batch.commit();
+      batch = db.batch();
       batchOps = 0;
     }
 
@@ -398,10 +1196,16 @@ async function evaluateMissedCheckIns(challenge: ChallengeDoc, now: Date): Promi
     };
 
     if (isElimination) {
-      const strikesAllowed = challenge.rules?.elimination?.strikesAllowed ?? 0;
       const newStrikes = member.strikes + 1;
 
-      if (newStrikes > strikesAllowed) {
+      if (suddenDeathUserIds.includes(member.userId)) {
+        // Takes the strike but stays in; the sudden death message is sent once below
+        batch.update(memberRef, {
+          ...streakResetFields,
+          strikes: newStrikes,
+        });
+        batchOps++;
+      } else if (newStrikes > strikesAllowed) {
         // Eliminate
         batch.update(memberRef, {
           ...streakResetFields,
@@ -513,100 +1317,2016 @@ async function evaluateMissedCheckIns(challenge: ChallengeDoc, now: Date): Promi
   }
 
   // Check for winner in elimination challenges
-  if (isElimination && newlyEliminated.length > 0) {
-    // Count remaining active members (excluding newly eliminated)
-    const remainingActive = activeMembers.filter(
-      m => !newlyEliminated.includes(m.userId)
-    );
-
-    if (remainingActive.length === 1) {
-      const winnerId = remainingActive[0].userId;
-      const winnerName = displayNames[winnerId] ?? 'Someone';
+  let challengeEnded = false;
+  const challengeRef = db.collection('challenges').doc(challenge.id);
+  if (isElimination && suddenDeathUserIds.length > 0) {
+    batch.update(challengeRef, { suddenDeath: { userIds: suddenDeathUserIds, periodKey: previousKey } });
+    batchOps++;
 
-      // Mark challenge as ended with winner
-      const challengeRef = db.collection('challenges').doc(challenge.id);
-      batch.update(challengeRef, {
-        state: 'ended',
-        winnerId,
+    if (groupId) {
+      const names = formatNameList(suddenDeathUserIds.map(uid => displayNames[uid] ?? 'Someone'));
+      batch.set(db.collection('messages').doc(), {
+        groupId,
+        userId: SYSTEM_USER_ID,
+        userName: SYSTEM_USER_NAME,
+        text: `Everyone left in ${challengeName} missed at once. Sudden death: ${names} play on, and the next miss is out!`,
+        type: 'text',
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      batchOps++;
+    }
+    logger.info('Sudden death started', { challengeId: challenge.id, userIds: suddenDeathUserIds });
+  } else if (isElimination && newlyEliminated.length > 0) {
+    // Count remaining active members (excluding newly eliminated; including late joiners).
+    // Re-read member states: someone may have been revived since the period was loaded.
+    const activeSnap = await db.collection('challengeMembers')
+      .where('challengeId', '==', challenge.id)
+      .where('state', '==', 'active')
+      .get();
+    const remainingActive = activeSnap.docs
+      .map(d => ({ id: d.id, ...d.data() } as MemberDoc))
+      .filter(m => !newlyEliminated.includes(m.userId));
+    const unnamed = remainingActive.map(m => m.userId).filter(uid => !(uid in displayNames));
+    if (unnamed.length > 0) Object.assign(displayNames, await getDisplayNames(unnamed));
+
+    let result: { winnerIds: string[]; text: string } | null = null;
+    if (remainingActive.length === 1) {
+      const winnerName = displayNames[remainingActive[0].userId] ?? 'Someone';
+      result = {
+        winnerIds: [remainingActive[0].userId],
+        text: `${winnerName} was the last remaining member of ${challengeName}. They win!`,
+      };
+    } else if (remainingActive.length === 0 && newlyEliminated.length >= 2) {
+      const tied = allMembers.filter(m => newlyEliminated.includes(m.userId));
+      result = await breakEliminationTie(challenge, tied, displayNames);
+    }
+
+    if (result) {
+      // Mark challenge as ended with winners
+      batch.update(challengeRef, {
+        state: 'ended',
+        winnerIds: result.winnerIds,
+        endedAt: admin.firestore.FieldValue.serverTimestamp(),
+        nextDueAtUtc: admin.firestore.FieldValue.delete(),
+      });
+      batchOps++;
+      challengeEnded = true;
+
+      // Send winner message
+      if (groupId) {
+        const msgRef = db.collection('messages').doc();
+        batch.set(msgRef, {
+          groupId,
+          userId: SYSTEM_USER_ID,
+          userName: SYSTEM_USER_NAME,
+          text: result.text,
+          type: 'winner',
+          challengeName,
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        batchOps++;
+      }
+
+      // Push notification for winner
+      const winnerNames = formatNameList(result.winnerIds.map(uid => displayNames[uid] ?? 'Someone'));
+      sendPushToUsers(
+        allUserIds,
+        'elimination',
+        challengeName,
+        `${winnerNames} ${result.winnerIds.length === 1 ? 'wins' : 'win'} ${challengeName}!`,
+        { challengeId: challenge.id, groupId: groupId || '' },
+      ).catch(err => logger.error('Push failed for winner', err));
+
+      logger.info('Winner determined', { challengeId: challenge.id, winnerIds: result.winnerIds });
+    } else if (remainingActive.length === 0) {
+      // The only member left was eliminated — end challenge with no winner
+      batch.update(challengeRef, {
+        state: 'ended',
         endedAt: admin.firestore.FieldValue.serverTimestamp(),
+        nextDueAtUtc: admin.firestore.FieldValue.delete(),
       });
       batchOps++;
+      challengeEnded = true;
+
+      if (groupId) {
+        const msgRef = db.collection('messages').doc();
+        batch.set(msgRef, {
+          groupId,
+          userId: SYSTEM_USER_ID,
+          userName: SYSTEM_USER_NAME,
+          text: `All members have been eliminated from ${challengeName}. The challenge has ended.`,
+          type: 'text',
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        batchOps++;
+      }
+    }
+  }
+
+  // Team challenges: judge each team and add the period to its score
+  let teamResults: TeamPeriodResult[] = [];
+  const teamRules = challengeType === 'team' ? challenge.rules?.team : undefined;
+  if (teamRules?.teams?.length) {
+    teamResults = scoreTeamPeriod(teamRules, judgedMembers, completedCountByUser, sumByUser, requiredCount);
+    if (teamResults.length > 0) {
+      const scoreUpdates: Record<string, admin.firestore.FieldValue> = {};
+      for (const result of teamResults) {
+        scoreUpdates[`teamScores.${result.teamId}.periodsPlayed`] = admin.firestore.FieldValue.increment(1);
+        scoreUpdates[`teamScores.${result.teamId}.periodsWon`] = admin.firestore.FieldValue.increment(result.succeeded ? 1 : 0);
+      }
+      batch.update(db.collection('challenges').doc(challenge.id), scoreUpdates);
+      batchOps++;
+
+      if (groupId) {
+        const summary = teamResults.map(result => {
+          const teamName = teamRules.teams.find(t => t.id === result.teamId)?.name || 'Team';
+          const detail = teamRules.successMode === 'sum'
+            ? `${result.total}/${teamRules.targetValue || 0}`
+            : `${result.completedCount}/${result.memberCount} checked in`;
+          return `${teamName} ${result.succeeded ? 'completed' : 'fell short'} (${detail})`;
+        }).join(', ');
+        const msgRef = db.collection('messages').doc();
+        batch.set(msgRef, {
+          groupId,
+          userId: SYSTEM_USER_ID,
+          userName: SYSTEM_USER_NAME,
+          text: `${challengeName} team results: ${summary}.`,
+          type: 'text',
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        batchOps++;
+      }
+    }
+  }
+
+  // Mark this period as evaluated (idempotency)
+  batch.set(evalRef, {
+    challengeId: challenge.id,
+    periodKey: previousKey,
+    missedUserIds: missedMembers.map(m => m.userId),
+    ...(pausedMembers.length > 0 && { pausedUserIds: pausedMembers.map(m => m.userId) }),
+    eliminatedUserIds: newlyEliminated,
+    ...(suddenDeathUserIds.length > 0 && { suddenDeathUserIds }),
+    ...(teamResults.length > 0 && { teamResults }),
+    processedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await batch.commit();
+  if (challengeEnded) challenge.state = 'ended';
+  if (suddenDeathUserIds.length > 0) challenge.suddenDeath = { userIds: suddenDeathUserIds, periodKey: previousKey };
+
+  if (missedMembers.length > 0) {
+    logger.info('Evaluated missed check-ins', {
+      challengeId: challenge.id,
+      periodKey: previousKey,
+      missed: missedMembers.length,
+      eliminated: newlyEliminated.length,
+    });
+  }
+
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Keep the old function name as an alias for backward compat during deploy
+// ---------------------------------------------------------------------------
+
+export const processMissedCheckIns = evaluateChallenges;
+
+// ===========================================================================
+// Callable — Check-in submission
+// ===========================================================================
+
+type CheckInAttachment = {
+  type: CheckInAttachmentType;
+  uri: string;
+  /** Video clips: length in seconds, as reported by the picker */
+  durationSeconds?: number;
+  meta?: PhotoCaptureMeta;
+  /** Set by the server only: a live in-app capture (submission.liveCaptureOnly) */
+  verifiedLive?: boolean;
+};
+
+interface SubmitCheckInRequest {
+  challengeId?: string;
+  payload?: {
+    booleanValue?: boolean;
+    numberValue?: number;
+    textValue?: string;
+    timerSeconds?: number;
+  };
+  attachments?: CheckInAttachment[];
+  /** Submitter's device timezone, only used for the late-night counter */
+  timeZone?: string;
+  /** When a check-in queued offline was captured (ms); it counts for that moment's period */
+  capturedAt?: number;
+  /** Client id of a queued check-in, so a retried sync can't submit it twice */
+  queueId?: string;
+}
+
+interface EditCheckInRequest {
+  checkInId?: string;
+  payload?: SubmitCheckInRequest['payload'];
+  attachments?: CheckInAttachment[];
+}
+
+interface RetractCheckInRequest {
+  checkInId?: string;
+}
+
+interface DisputeCheckInRequest {
+  checkInId?: string;
+}
+
+interface ResolveDisputeRequest {
+  checkInId?: string;
+  resolution?: 'upheld' | 'rejected';
+}
+
+/** Side effects recorded on each check-in at submission, reversed on retraction */
+interface CheckInGamificationLedger {
+  xpEarned: number;
+  dailyBonusXP: number;
+  onTime: boolean;
+  lateNight: boolean;
+  /** Member streak fields before this check-in advanced them (null if it didn't) */
+  streakBefore: {
+    currentStreak: number;
+    longestStreak: number;
+    streakShields: number;
+    lastCheckInPeriodKey: string | null;
+  } | null;
+  /** User's global longestStreak before this check-in raised it (null if it didn't) */
+  userLongestStreakBefore: number | null;
+}
+
+interface CheckInRevision {
+  action: 'edited' | 'retracted';
+  at: number;
+  payload: Record<string, any>;
+  attachments: CheckInAttachment[];
+}
+
+const MAX_CHECK_IN_TEXT_LENGTH = 2000;
+const ON_TIME_WINDOW_MS = 60 * 60 * 1000; // >1hr before due counts as on time
+const CAPTURE_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const QUEUE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const LATE_NIGHT_HOUR = 22;
+
+/** Keep only the payload fields the check-in schema knows about. */
+function sanitizeCheckInPayload(raw: SubmitCheckInRequest['payload']): Record<string, any> {
+  const payload: Record<string, any> = {};
+  if (!raw || typeof raw !== 'object') return payload;
+  if (typeof raw.booleanValue === 'boolean') payload.booleanValue = raw.booleanValue;
+  if (typeof raw.numberValue === 'number' && Number.isFinite(raw.numberValue)) {
+    payload.numberValue = raw.numberValue;
+  }
+  if (typeof raw.textValue === 'string') {
+    payload.textValue = raw.textValue.slice(0, MAX_CHECK_IN_TEXT_LENGTH);
+  }
+  if (typeof raw.timerSeconds === 'number' && Number.isFinite(raw.timerSeconds) && raw.timerSeconds >= 0) {
+    payload.timerSeconds = raw.timerSeconds;
+  }
+  return payload;
+}
+
+function sanitizeCheckInAttachments(raw: unknown): CheckInAttachment[] {
+  if (!Array.isArray(raw)) return [];
+  const attachments = raw
+    .filter((a) => a && (a.type === 'photo' || a.type === 'screenshot' || a.type === 'video')
+      && typeof a.uri === 'string' && a.uri)
+    .map((a): CheckInAttachment => {
+      if (a.type === 'video') {
+        return typeof a.durationSeconds === 'number' && Number.isFinite(a.durationSeconds)
+          ? { type: 'video', uri: a.uri, durationSeconds: a.durationSeconds }
+          : { type: 'video', uri: a.uri };
+      }
+      const meta = sanitizePhotoMeta(a.meta);
+      return meta ? { type: a.type, uri: a.uri, meta } : { type: a.type, uri: a.uri };
+    });
+  if (attachments.length > MAX_CHECK_IN_MEDIA) {
+    throw new HttpsError('invalid-argument', `A check-in can have at most ${MAX_CHECK_IN_MEDIA} photos and videos.`);
+  }
+  // Allow a little slack over the limit for how players round clip lengths
+  if (attachments.some(a => (a.durationSeconds || 0) > MAX_VIDEO_CLIP_SECONDS + 1)) {
+    throw new HttpsError('invalid-argument', `Video clips can be at most ${MAX_VIDEO_CLIP_SECONDS} seconds long.`);
+  }
+  return attachments;
+}
+
+function sanitizePhotoMeta(raw: any): PhotoCaptureMeta | undefined {
+  if (!raw || (raw.source !== 'camera' && raw.source !== 'library')) return undefined;
+  const meta: PhotoCaptureMeta = { source: raw.source };
+  if (typeof raw.capturedAt === 'number' && Number.isFinite(raw.capturedAt) && raw.capturedAt > 0) {
+    meta.capturedAt = raw.capturedAt;
+  }
+  if (typeof raw.hash === 'string' && PHOTO_HASH_PATTERN.test(raw.hash)) meta.hash = raw.hash;
+  if (raw.live === true) meta.live = true;
+  return meta;
+}
+
+/**
+ * Live-capture-only challenges: every attachment must be a photo from the
+ * in-app camera taken moments before `at`. Marks those photos `verifiedLive`;
+ * throws otherwise. Photos already verified (kept through an edit) stay as
+ * they are.
+ */
+function verifyLiveCaptures(attachments: CheckInAttachment[], at: Date): CheckInAttachment[] {
+  return attachments.map((a) => {
+    if (a.verifiedLive) return a;
+    if (a.type !== 'photo' || !isLiveCapture(a.meta, at.getTime())) {
+      throw new HttpsError('failed-precondition', 'This challenge only accepts photos taken just now with the in-app camera.');
+    }
+    return { ...a, verifiedLive: true };
+  });
+}
+
+/** Earliest moment a photo proving `periodKey` may have been taken. */
+function getPhotoWindowStart(challenge: ChallengeDoc, periodKey: string): number {
+  if (challenge.type === 'deadline') {
+    const createdAt = challenge.createdAt;
+    if (typeof createdAt === 'number') return createdAt;
+    return createdAt && typeof createdAt.toDate === 'function' ? createdAt.toDate().getTime() : 0;
+  }
+  const cadence = challenge.cadence || { unit: 'daily' };
+  return getPeriodDueMoment(challenge, shiftPeriodKey(periodKey, cadence, -1)).getTime();
+}
+
+/** Photo hashes on the challenge's other check-ins, for the duplicate check. */
+async function getChallengePhotoHashes(
+  challengeId: string,
+  excludeCheckInId?: string,
+): Promise<Array<{ checkInId: string; hashes: string[] }>> {
+  const snap = await db.collection('checkIns')
+    .where('challengeId', '==', challengeId)
+    .select('photoHashes', 'status')
+    .get();
+  return snap.docs
+    .filter(d => d.id !== excludeCheckInId && d.data().status !== 'retracted')
+    .map(d => ({ checkInId: d.id, hashes: (d.data().photoHashes as string[] | undefined) || [] }))
+    .filter(prev => prev.hashes.length > 0);
+}
+
+/**
+ * Integrity flags for a check-in's photo attachments, or null when none of
+ * them carry capture metadata (screenshots, older app versions).
+ */
+function assessCheckInPhotos(
+  attachments: CheckInAttachment[],
+  window: { start: number; end: number },
+  previous: Array<{ checkInId: string; hashes: string[] }>,
+): { integrity: PhotoIntegrity; photoHashes: string[] } | null {
+  const metas = attachments
+    .filter(a => a.type === 'photo' && a.meta)
+    .map(a => a.meta!);
+  if (metas.length === 0) return null;
+  return {
+    integrity: assessPhotoIntegrity(metas, window, previous),
+    photoHashes: metas.map(m => m.hash).filter((h): h is string => !!h),
+  };
+}
+
+/** Deadline dates are usually YYYY-MM-DD strings, but older docs store a Timestamp. */
+function normalizeDeadlineDate(value: unknown, adminTz: string): string | undefined {
+  if (typeof value === 'string') return value;
+  if (value && typeof (value as any).toDate === 'function') {
+    return getAdminZoneDayKey(adminTz, (value as any).toDate());
+  }
+  return undefined;
+}
+
+function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Award the daily-complete bonus if this check-in finished every active daily
+ * challenge the user belongs to. Runs after the check-in transaction commits;
+ * failures are logged and reported as "no bonus".
+ */
+async function awardDailyCompleteBonus(
+  userId: string,
+  checkInRef: admin.firestore.DocumentReference,
+  baseXpJustAwarded: number,
+  now: Date,
+): Promise<{ awarded: boolean; bonusXP: number }> {
+  try {
+    const membersSnap = await db.collection('challengeMembers')
+      .where('userId', '==', userId)
+      .where('state', '==', 'active')
+      .get();
+    const challengeIds = membersSnap.docs
+      .map(d => d.data().challengeId as string)
+      .filter(Boolean);
+    if (challengeIds.length === 0) return { awarded: false, bonusXP: 0 };
+
+    const challengeSnaps = await db.getAll(
+      ...challengeIds.map(id => db.collection('challenges').doc(id)),
+    );
+    const dailyChallenges = challengeSnaps
+      .filter(snap => snap.exists)
+      .map(snap => ({ id: snap.id, ...snap.data() } as ChallengeDoc))
+      .filter(c => c.state !== 'ended' && c.cadence?.unit === 'daily' && hasChallengeStarted(c, now)
+        && isActivePeriodKey(getCurrentPeriodKey(c, now), c.cadence));
+    if (dailyChallenges.length === 0) return { awarded: false, bonusXP: 0 };
+
+    const checkResults = await Promise.all(
+      dailyChallenges.map(c => db.collection('checkIns')
+        .where('challengeId', '==', c.id)
+        .where('userId', '==', userId)
+        .where('period.dayKey', '==', getCurrentPeriodKey(c, now))
+        .where('status', '==', 'completed')
+        .limit(1)
+        .get()),
+    );
+    if (checkResults.some(snap => snap.empty)) return { awarded: false, bonusXP: 0 };
+
+    const bonusXP = baseXpJustAwarded * (XP_VALUES.DAILY_COMPLETE_MULTIPLIER - 1);
+    const userRef = db.collection('users').doc(userId);
+    await db.runTransaction(async (tx) => {
+      const userSnap = await tx.get(userRef);
+      const newXp = ((userSnap.data()?.xp as number) || 0) + bonusXP;
+      const { level, title } = getLevelFromXP(newXp);
+      tx.set(userRef, { xp: newXp, level, levelTitle: title }, { merge: true });
+      tx.update(checkInRef, { 'gamification.dailyBonusXP': bonusXP });
+    });
+    return { awarded: true, bonusXP };
+  } catch (err) {
+    logger.error('Daily complete bonus failed', err);
+    return { awarded: false, bonusXP: 0 };
+  }
+}
+
+/**
+ * Submit a check-in for the calling user.
+ *
+ * The server decides the period, timestamp and XP: eligibility checks, the
+ * duplicate check, the check-in write, the member's streak and the user's
+ * XP/level/totalCheckIns all happen in one transaction, so concurrent
+ * submissions cannot double-count and a modified client cannot backdate or
+ * self-award. Inside the previous period's late window (settings.allowLateCheckIn
+ * + lateGraceMinutes) an unfulfilled previous period is credited first, flagged
+ * `late: true` and awarded reduced XP. Check-ins queued offline pass
+ * `capturedAt`, which picks their period, but only the current period or the
+ * one still in its late window at receipt (the latter counts as late). The
+ * client's clock is never trusted for the on-time bonus or live captures,
+ * which are checked against the receive time. Photos carrying capture metadata
+ * are checked for being taken outside the period or reused from another
+ * check-in (see shared/photoIntegrity); flagged check-ins still count.
+ * Returns the app's CheckInResult shape.
+ */
+export const submitCheckIn = onCall<SubmitCheckInRequest>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in to check in.');
+  }
+
+  const challengeId = request.data?.challengeId;
+  if (typeof challengeId !== 'string' || !challengeId) {
+    throw new HttpsError('invalid-argument', 'challengeId is required.');
+  }
+
+  const payload = sanitizeCheckInPayload(request.data.payload);
+  const attachments = sanitizeCheckInAttachments(request.data.attachments);
+  const now = new Date();
+
+  // Queued offline: judge the check-in at the moment it was captured
+  const capturedAt = request.data.capturedAt;
+  if (capturedAt !== undefined) {
+    if (typeof capturedAt !== 'number' || !Number.isFinite(capturedAt)
+      || capturedAt > now.getTime() + CAPTURE_CLOCK_SKEW_MS) {
+      throw new HttpsError('invalid-argument', 'capturedAt must be a time in the past.');
+    }
+  }
+  const queued = capturedAt !== undefined;
+  const at = queued ? new Date(Math.min(capturedAt, now.getTime())) : now;
+  const queueId = request.data.queueId;
+  if (queueId !== undefined && (typeof queueId !== 'string' || !QUEUE_ID_PATTERN.test(queueId))) {
+    throw new HttpsError('invalid-argument', 'queueId is invalid.');
+  }
+
+  const challengeRef = db.collection('challenges').doc(challengeId);
+  const memberRef = db.collection('challengeMembers').doc(`${challengeId}_${userId}`);
+  const userRef = db.collection('users').doc(userId);
+  const checkInRef = queueId
+    ? db.collection('checkIns').doc(`${userId}_${queueId}`)
+    : db.collection('checkIns').doc();
+
+  // Flags don't block the check-in, so the duplicate scan can run outside the transaction
+  const previousPhotoHashes = attachments.some(a => a.meta?.hash)
+    ? await getChallengePhotoHashes(challengeId, checkInRef.id)
+    : [];
+
+  const result = await db.runTransaction(async (tx) => {
+    // --- Reads (all before any write) ---
+    const [challengeSnap, memberSnap, userSnap, existingSnap] = await Promise.all([
+      tx.get(challengeRef),
+      tx.get(memberRef),
+      tx.get(userRef),
+      tx.get(checkInRef),
+    ]);
+
+    if (existingSnap.exists) {
+      throw new HttpsError('already-exists', 'This check-in has already been submitted.');
+    }
+
+    if (!challengeSnap.exists) {
+      throw new HttpsError('not-found', 'Challenge not found.');
+    }
+    const challenge = { id: challengeSnap.id, ...challengeSnap.data() } as ChallengeDoc;
+    const member = memberSnap.exists ? (memberSnap.data() as MemberDoc) : undefined;
+
+    if (challenge.state === 'ended') {
+      throw new HttpsError('failed-precondition', 'This challenge has ended. Check-ins are no longer accepted.');
+    }
+
+    // Must be a member of the challenge, or of its group for legacy docs without member records
+    if (!member && !await isGroupMember(tx, challenge, userId)) {
+      throw new HttpsError('permission-denied', 'You are not a member of this challenge.');
+    }
+
+    if (challenge.type === 'elimination' && member?.state === 'eliminated') {
+      throw new HttpsError('failed-precondition', 'You have been eliminated from this challenge and can no longer submit.');
+    }
+
+    const checkedAttachments = challenge.submission?.liveCaptureOnly
+      ? verifyLiveCaptures(attachments, now)
+      : attachments;
+
+    const adminTz = resolveAdminTimeZone(challenge);
+    const dueTimeLocal = challenge.due?.dueTimeLocal || '23:59';
+
+    if (challenge.type === 'deadline') {
+      const deadlineDate = normalizeDeadlineDate(challenge.due?.deadlineDate, adminTz);
+      if (deadlineDate && at.getTime() >= wallClockToUtc(deadlineDate, dueTimeLocal, adminTz).getTime()) {
+        throw new HttpsError('failed-precondition', 'Deadline has passed.');
+      }
+    }
+
+    if (!hasChallengeStarted(challenge, at)) {
+      throw new HttpsError('failed-precondition', `This challenge starts on ${formatDayKeyLabel(challenge.startsAt!)}.`);
+    }
+
+    const cadence: PeriodCadence = challenge.cadence || { unit: 'daily' };
+    const cadenceUnit = cadence.unit || 'daily';
+    const keyField = getPeriodKeyField(cadenceUnit);
+    const periodField = `period.${keyField}`;
+    const requiredCount = cadenceUnit === 'daily' ? 1 : (challenge.cadence?.requiredCount || 1);
+
+    // Duplicate check-in prevention (transactional, so concurrent submits serialize)
+    const countCompleted = async (key: string): Promise<number> => {
+      const snap = await tx.get(
+        db.collection('checkIns')
+          .where('challengeId', '==', challengeId)
+          .where('userId', '==', userId)
+          .where(periodField, '==', key),
+      );
+      return snap.docs.filter(d => isCountedCheckInStatus(d.data().status)).length;
+    };
+
+    // Inside the previous period's late window, fill that period first
+    let periodKey = getCurrentPeriodKey(challenge, at);
+    let isLate = false;
+    const lateKey = getLatePeriodKey(challenge, at);
+    if (
+      lateKey
+      && (!challenge.lastEvaluatedPeriodKey || challenge.lastEvaluatedPeriodKey < lateKey)
+      && await countCompleted(lateKey) < requiredCount
+    ) {
+      periodKey = lateKey;
+      isLate = true;
+    } else if (await countCompleted(periodKey) >= requiredCount) {
+      throw new HttpsError('already-exists', 'You have already completed all check-ins for this period.');
+    }
+
+    // A queued check-in can only land where a submission made now could
+    if (queued && periodKey !== getCurrentPeriodKey(challenge, now)) {
+      if (periodKey !== getLatePeriodKey(challenge, now)) {
+        throw new HttpsError('failed-precondition', 'The period this check-in was captured in has closed.');
+      }
+      isLate = true;
+    }
+
+    if (challenge.lastEvaluatedPeriodKey && challenge.lastEvaluatedPeriodKey >= periodKey) {
+      throw new HttpsError('failed-precondition', 'The period this check-in was captured in has already been judged.');
+    }
+
+    const seasonFinalKey = getSeasonFinalPeriodKey(challenge);
+    if (seasonFinalKey && periodKey > seasonFinalKey) {
+      throw new HttpsError('failed-precondition', 'This season is over. The next season starts soon.');
+    }
+
+    // --- Gamification (pure) ---
+    const isOnTime = !queued && cadenceUnit === 'daily' && !isLate
+      && getPeriodDueMoment(challenge, periodKey).getTime() - at.getTime() > ON_TIME_WINDOW_MS;
+
+    // A streak only advances on a period's first check-in
+    const streakAlreadyCounted = (member?.lastCheckInPeriodKey || '') >= periodKey;
+    const streak = member
+      ? (streakAlreadyCounted
+        ? {
+          currentStreak: member.currentStreak || 0,
+          longestStreak: member.longestStreak || 0,
+          streakShields: member.streakShields || 0,
+          isNewMilestone: false,
+          milestoneValue: 0,
+          shieldEarned: false,
+        }
+        : computeStreakUpdate(member, periodKey, cadence, member.pauses))
+      : { currentStreak: 1, longestStreak: 1, streakShields: 0, isNewMilestone: false, milestoneValue: 0, shieldEarned: false };
+
+    const userData = userSnap.data() || {};
+    const xpEarned = computeCheckInXP(isOnTime, streak.currentStreak, isLate);
+    const currentLevel = (userData.level as number) || 1;
+    const oldTitle = (userData.levelTitle as string) || 'Rookie';
+    const newXp = ((userData.xp as number) || 0) + xpEarned;
+    const { level: newLevel, title: newTitle } = getLevelFromXP(newXp);
+    const localTz = isValidTimeZone(request.data.timeZone) ? request.data.timeZone : adminTz;
+    const isLateNight = getWallClockInZone(at, localTz).hour >= LATE_NIGHT_HOUR;
+    const raisesUserLongest = streak.longestStreak > ((userData.longestStreak as number) || 0);
+
+    // What this check-in changed, so a retraction can undo exactly that
+    const ledger: CheckInGamificationLedger = {
+      xpEarned,
+      dailyBonusXP: 0,
+      onTime: isOnTime,
+      lateNight: isLateNight,
+      streakBefore: member && !streakAlreadyCounted
+        ? {
+          currentStreak: member.currentStreak || 0,
+          longestStreak: member.longestStreak || 0,
+          streakShields: member.streakShields || 0,
+          lastCheckInPeriodKey: member.lastCheckInPeriodKey || null,
+        }
+        : null,
+      userLongestStreakBefore: raisesUserLongest ? ((userData.longestStreak as number) || 0) : null,
+    };
+
+    const computed = computeProgressResult(challenge, periodKey, payload);
+    const photos = assessCheckInPhotos(
+      checkedAttachments,
+      { start: getPhotoWindowStart(challenge, periodKey), end: at.getTime() + CAPTURE_CLOCK_SKEW_MS },
+      previousPhotoHashes,
+    );
+
+    // --- Writes ---
+    tx.set(checkInRef, {
+      challengeId,
+      userId,
+      groupId: challenge.groupId || null,
+      period: { unit: cadenceUnit, [keyField]: periodKey },
+      payload,
+      attachments: checkedAttachments,
+      ...(computed && { computed }),
+      ...(photos && { photoHashes: photos.photoHashes }),
+      ...(photos && photos.integrity.flags.length > 0 && { integrity: photos.integrity }),
+      status: 'completed',
+      ...(isLate && { late: true }),
+      gamification: ledger,
+      createdAt: at.getTime(),
+      ...(at !== now && { syncedAt: now.getTime() }),
+    });
+
+    if (member && !streakAlreadyCounted) {
+      tx.update(memberRef, {
+        currentStreak: streak.currentStreak,
+        longestStreak: streak.longestStreak,
+        streakShields: streak.streakShields,
+        streakShieldUsed: false,
+        lastCheckInPeriodKey: periodKey,
+      });
+    }
+
+    const userUpdates: Record<string, any> = {
+      xp: newXp,
+      level: newLevel,
+      levelTitle: newTitle,
+      totalCheckIns: admin.firestore.FieldValue.increment(1),
+    };
+    if (raisesUserLongest) {
+      userUpdates.longestStreak = streak.longestStreak;
+    }
+    if (newTitle !== oldTitle && newTitle !== 'Rookie') {
+      userUpdates.unlockedTitles = admin.firestore.FieldValue.arrayUnion({
+        id: `level_${newTitle.toLowerCase()}`,
+        text: newTitle,
+        color: '#FF6B35',
+      });
+    }
+    if (isOnTime) {
+      userUpdates.onTimeCheckIns = admin.firestore.FieldValue.increment(1);
+    }
+    if (isLateNight) {
+      userUpdates.lateNightCheckIns = admin.firestore.FieldValue.increment(1);
+    }
+    tx.set(userRef, userUpdates, { merge: true });
+
+    return {
+      cadenceUnit,
+      isLate,
+      integrityFlags: photos ? photos.integrity.flags : [],
+      xpResult: { xpEarned, newLevel, newTitle, leveledUp: newLevel > currentLevel },
+      streakResult: {
+        currentStreak: streak.currentStreak,
+        longestStreak: streak.longestStreak,
+        isNewMilestone: streak.isNewMilestone,
+        milestoneValue: streak.milestoneValue,
+        shieldEarned: streak.shieldEarned,
+      },
+    };
+  });
+
+  const bonus = result.cadenceUnit === 'daily' && !result.isLate
+    ? await awardDailyCompleteBonus(userId, checkInRef, result.xpResult.xpEarned, at)
+    : { awarded: false, bonusXP: 0 };
+
+  return {
+    checkInId: checkInRef.id,
+    xpResult: result.xpResult,
+    streakResult: result.streakResult,
+    dailyBonusAwarded: bonus.awarded,
+    dailyBonusXP: bonus.bonusXP,
+    late: result.isLate,
+    integrityFlags: result.integrityFlags,
+  };
+});
+
+// ---------------------------------------------------------------------------
+// Check-in editing and retraction
+// ---------------------------------------------------------------------------
+
+/**
+ * Group membership fallback for challenges whose legacy member records are
+ * missing. Callers check the challengeMembers doc first.
+ */
+async function isGroupMember(
+  tx: admin.firestore.Transaction,
+  challenge: ChallengeDoc,
+  userId: string,
+): Promise<boolean> {
+  if (!challenge.groupId) return false;
+  const groupSnap = await tx.get(db.collection('groups').doc(challenge.groupId));
+  const groupMemberIds: string[] = groupSnap.exists ? (groupSnap.data()!.memberIds || []) : [];
+  return groupMemberIds.includes(userId);
+}
+
+/** Load and authorize a check-in the caller wants to change. Throws HttpsError. */
+async function getEditableCheckIn(
+  tx: admin.firestore.Transaction,
+  checkInRef: admin.firestore.DocumentReference,
+  userId: string,
+  now: Date,
+): Promise<{ checkIn: admin.firestore.DocumentData; challenge: ChallengeDoc }> {
+  const checkInSnap = await tx.get(checkInRef);
+  if (!checkInSnap.exists) {
+    throw new HttpsError('not-found', 'Check-in not found.');
+  }
+  const checkIn = checkInSnap.data()!;
+  if (checkIn.userId !== userId) {
+    throw new HttpsError('permission-denied', 'You can only change your own check-ins.');
+  }
+  if (checkIn.status !== 'completed') {
+    throw new HttpsError('failed-precondition', 'This check-in can no longer be changed.');
+  }
+
+  const challengeSnap = await tx.get(db.collection('challenges').doc(checkIn.challengeId));
+  if (!challengeSnap.exists) {
+    throw new HttpsError('not-found', 'Challenge not found.');
+  }
+  const challenge = { id: challengeSnap.id, ...challengeSnap.data() } as ChallengeDoc;
+  if (challenge.state === 'ended') {
+    throw new HttpsError('failed-precondition', 'This challenge has ended.');
+  }
+  const periodKey = getCheckInPeriodKey(checkIn.period) as string;
+  const deadlineDate = normalizeDeadlineDate(challenge.due?.deadlineDate, resolveAdminTimeZone(challenge));
+  if (now.getTime() >= getCheckInEditDeadline(challenge, periodKey, !!checkIn.late, deadlineDate).getTime()) {
+    throw new HttpsError('failed-precondition', 'This period is over. The check-in can no longer be changed.');
+  }
+  return { checkIn, challenge };
+}
+
+/** Post a SquadCheck system message about a changed check-in (best effort). */
+async function postCheckInChangeMessage(
+  challenge: ChallengeDoc,
+  userId: string,
+  action: 'edited' | 'retracted' | 'disputed' | 'upheld' | 'rejected',
+): Promise<void> {
+  if (!challenge.groupId) return;
+  try {
+    const names = await getDisplayNames([userId]);
+    const challengeName = challenge.title || challenge.name || 'Challenge';
+    let text: string;
+    switch (action) {
+      case 'disputed':
+        text = `${names[userId]}'s check-in for ${challengeName} was disputed and is waiting for the challenge admin's review.`;
+        break;
+      case 'upheld':
+        text = `${names[userId]}'s disputed check-in for ${challengeName} was upheld.`;
+        break;
+      case 'rejected':
+        text = `${names[userId]}'s disputed check-in for ${challengeName} was rejected and counts as a miss.`;
+        break;
+      default:
+        text = `${names[userId]} ${action} their check-in for ${challengeName}.`;
+    }
+    await db.collection('messages').add({
+      groupId: challenge.groupId,
+      userId: SYSTEM_USER_ID,
+      userName: SYSTEM_USER_NAME,
+      text,
+      type: 'text',
+      timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (err) {
+    logger.error('Check-in change message failed', err);
+  }
+}
+
+/** Everything needed to undo a check-in's streak and XP side effects */
+interface CheckInReversal {
+  ledger: CheckInGamificationLedger;
+  periodKey: string;
+  memberRef: admin.firestore.DocumentReference;
+  memberSnap: admin.firestore.DocumentSnapshot;
+  userRef: admin.firestore.DocumentReference;
+  userSnap: admin.firestore.DocumentSnapshot;
+  /** Other check-ins that still count toward the same period, oldest first */
+  remaining: admin.firestore.QueryDocumentSnapshot[];
+}
+
+/** Transaction reads for writeCheckInReversal. Call before any write. */
+async function readCheckInReversal(
+  tx: admin.firestore.Transaction,
+  checkInRef: admin.firestore.DocumentReference,
+  checkIn: admin.firestore.DocumentData,
+): Promise<CheckInReversal> {
+  const ledger = checkIn.gamification as CheckInGamificationLedger;
+  const periodKey = getCheckInPeriodKey(checkIn.period) as string;
+  const periodField = checkIn.period?.weekKey
+    ? 'period.weekKey'
+    : checkIn.period?.periodKey ? 'period.periodKey' : 'period.dayKey';
+  const memberRef = db.collection('challengeMembers').doc(`${checkIn.challengeId}_${checkIn.userId}`);
+  const userRef = db.collection('users').doc(checkIn.userId);
+  const [memberSnap, userSnap, siblingsSnap] = await Promise.all([
+    tx.get(memberRef),
+    tx.get(userRef),
+    tx.get(
+      db.collection('checkIns')
+        .where('challengeId', '==', checkIn.challengeId)
+        .where('userId', '==', checkIn.userId)
+        .where(periodField, '==', periodKey),
+    ),
+  ]);
+  const remaining = siblingsSnap.docs
+    .filter(d => d.id !== checkInRef.id && isCountedCheckInStatus(d.data().status))
+    .sort((a, b) => (a.data().createdAt || 0) - (b.data().createdAt || 0));
+  return { ledger, periodKey, memberRef, memberSnap, userRef, userSnap, remaining };
+}
+
+/**
+ * Undo the streak, XP and counters a check-in earned. Used when the owner
+ * retracts it and when the admin rejects a disputed one. Returns the XP removed.
+ */
+function writeCheckInReversal(tx: admin.firestore.Transaction, reversal: CheckInReversal): number {
+  const { ledger, periodKey, memberRef, memberSnap, userRef, userSnap, remaining } = reversal;
+
+  // Streak: the period still counts if another check-in remains, so hand the
+  // undo records to it; otherwise restore the pre-check-in streaks.
+  if (remaining.length > 0 && (ledger.streakBefore || ledger.userLongestStreakBefore != null)) {
+    tx.update(remaining[0].ref, {
+      ...(ledger.streakBefore && { 'gamification.streakBefore': ledger.streakBefore }),
+      ...(ledger.userLongestStreakBefore != null
+        && { 'gamification.userLongestStreakBefore': ledger.userLongestStreakBefore }),
+    });
+  }
+  if (
+    ledger.streakBefore && remaining.length === 0
+    && memberSnap.exists && memberSnap.data()!.lastCheckInPeriodKey === periodKey
+  ) {
+    tx.update(memberRef, {
+      currentStreak: ledger.streakBefore.currentStreak,
+      longestStreak: ledger.streakBefore.longestStreak,
+      streakShields: ledger.streakBefore.streakShields,
+      lastCheckInPeriodKey: ledger.streakBefore.lastCheckInPeriodKey
+        ?? admin.firestore.FieldValue.delete(),
+    });
+  }
+
+  const userData = userSnap.data() || {};
+  const xpReversed = (ledger.xpEarned || 0) + (ledger.dailyBonusXP || 0);
+  const newXp = Math.max(0, ((userData.xp as number) || 0) - xpReversed);
+  const { level, title } = getLevelFromXP(newXp);
+  const userUpdates: Record<string, any> = {
+    xp: newXp,
+    level,
+    levelTitle: title,
+    totalCheckIns: admin.firestore.FieldValue.increment(-1),
+  };
+  if (ledger.onTime) {
+    userUpdates.onTimeCheckIns = admin.firestore.FieldValue.increment(-1);
+  }
+  if (ledger.lateNight) {
+    userUpdates.lateNightCheckIns = admin.firestore.FieldValue.increment(-1);
+  }
+  if (ledger.userLongestStreakBefore != null && remaining.length === 0) {
+    userUpdates.longestStreak = ledger.userLongestStreakBefore;
+  }
+  tx.set(userRef, userUpdates, { merge: true });
+
+  return xpReversed;
+}
+
+/**
+ * Replace the payload and attachments of the caller's own check-in. The
+ * previous values are appended to `revisions`; XP and streaks don't depend
+ * on the payload, so only a progress check-in's `computed` result is redone.
+ */
+export const editCheckIn = onCall<EditCheckInRequest>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  const checkInId = request.data?.checkInId;
+  if (typeof checkInId !== 'string' || !checkInId) {
+    throw new HttpsError('invalid-argument', 'checkInId is required.');
+  }
+
+  const payload = sanitizeCheckInPayload(request.data.payload);
+  const attachments = sanitizeCheckInAttachments(request.data.attachments);
+  const now = new Date();
+  const checkInRef = db.collection('checkIns').doc(checkInId);
+  const existing = (await checkInRef.get()).data();
+  const previousPhotoHashes = existing?.challengeId && attachments.some(a => a.type === 'photo')
+    ? await getChallengePhotoHashes(existing.challengeId, checkInId)
+    : [];
+
+  const challenge = await db.runTransaction(async (tx) => {
+    const { checkIn, challenge } = await getEditableCheckIn(tx, checkInRef, userId, now);
+
+    const revision: CheckInRevision = {
+      action: 'edited',
+      at: now.getTime(),
+      payload: checkIn.payload || {},
+      attachments: checkIn.attachments || [],
+    };
+    const periodKey = getCheckInPeriodKey(checkIn.period) as string;
+    const computed = computeProgressResult(challenge, periodKey, payload);
+    // Kept photos keep the metadata recorded at submission; new ones bring their own
+    const stored: Record<string, CheckInAttachment> = {};
+    for (const a of (checkIn.attachments || []) as CheckInAttachment[]) stored[a.uri] = a;
+    const keptOrNew = attachments.map(a => stored[a.uri] || a);
+    const checkedAttachments = challenge.submission?.liveCaptureOnly
+      ? verifyLiveCaptures(keptOrNew, now)
+      : keptOrNew;
+    const photos = assessCheckInPhotos(
+      checkedAttachments,
+      { start: getPhotoWindowStart(challenge, periodKey), end: now.getTime() + CAPTURE_CLOCK_SKEW_MS },
+      previousPhotoHashes,
+    );
+    tx.update(checkInRef, {
+      payload,
+      attachments: checkedAttachments,
+      ...(computed && { computed }),
+      photoHashes: photos ? photos.photoHashes : admin.firestore.FieldValue.delete(),
+      integrity: photos && photos.integrity.flags.length > 0 ? photos.integrity : admin.firestore.FieldValue.delete(),
+      editedAt: now.getTime(),
+      revisions: admin.firestore.FieldValue.arrayUnion(revision),
+    });
+    return challenge;
+  });
+
+  await postCheckInChangeMessage(challenge, userId, 'edited');
+  return { checkInId };
+});
+
+/**
+ * Retract the caller's own check-in. The doc is kept with status `retracted`
+ * (plus a revision) for the audit trail, and the XP, counters and streak it
+ * produced are reversed from its `gamification` ledger.
+ */
+export const retractCheckIn = onCall<RetractCheckInRequest>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  const checkInId = request.data?.checkInId;
+  if (typeof checkInId !== 'string' || !checkInId) {
+    throw new HttpsError('invalid-argument', 'checkInId is required.');
+  }
+
+  const now = new Date();
+  const checkInRef = db.collection('checkIns').doc(checkInId);
+
+  const { challenge, xpReversed } = await db.runTransaction(async (tx) => {
+    // --- Reads (all before any write) ---
+    const { checkIn, challenge } = await getEditableCheckIn(tx, checkInRef, userId, now);
+    if (!checkIn.gamification) {
+      throw new HttpsError('failed-precondition', 'This check-in was recorded before retraction was supported.');
+    }
+    const reversal = await readCheckInReversal(tx, checkInRef, checkIn);
+
+    // --- Writes ---
+    const revision: CheckInRevision = {
+      action: 'retracted',
+      at: now.getTime(),
+      payload: checkIn.payload || {},
+      attachments: checkIn.attachments || [],
+    };
+    tx.update(checkInRef, {
+      status: 'retracted',
+      retractedAt: now.getTime(),
+      revisions: admin.firestore.FieldValue.arrayUnion(revision),
+    });
+    const xpReversed = writeCheckInReversal(tx, reversal);
+
+    return { challenge, xpReversed };
+  });
+
+  await postCheckInChangeMessage(challenge, userId, 'retracted');
+  return { checkInId, xpReversed };
+});
+
+// ---------------------------------------------------------------------------
+// Check-in disputes (opt-in via challenge.settings.disputes)
+// ---------------------------------------------------------------------------
+
+/**
+ * Dispute another member's check-in. Once `threshold` members have disputed
+ * it inside the dispute window the check-in becomes `disputed`: it keeps
+ * counting, but the scheduler holds its period until the admin resolves it
+ * (or DISPUTE_RESOLUTION_MS passes).
+ */
+export const disputeCheckIn = onCall<DisputeCheckInRequest>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  const checkInId = request.data?.checkInId;
+  if (typeof checkInId !== 'string' || !checkInId) {
+    throw new HttpsError('invalid-argument', 'checkInId is required.');
+  }
+
+  const now = new Date();
+  const checkInRef = db.collection('checkIns').doc(checkInId);
+
+  const result = await db.runTransaction(async (tx) => {
+    // --- Reads (all before any write) ---
+    const checkInSnap = await tx.get(checkInRef);
+    if (!checkInSnap.exists) {
+      throw new HttpsError('not-found', 'Check-in not found.');
+    }
+    const checkIn = checkInSnap.data()!;
+    if (checkIn.userId === userId) {
+      throw new HttpsError('failed-precondition', 'You cannot dispute your own check-in.');
+    }
+    if (checkIn.status !== 'completed') {
+      throw new HttpsError('failed-precondition', 'This check-in cannot be disputed.');
+    }
+    const disputedBy: string[] = checkIn.dispute?.by || [];
+    if (disputedBy.includes(userId)) {
+      throw new HttpsError('already-exists', 'You have already disputed this check-in.');
+    }
+
+    const challengeSnap = await tx.get(db.collection('challenges').doc(checkIn.challengeId));
+    if (!challengeSnap.exists) {
+      throw new HttpsError('not-found', 'Challenge not found.');
+    }
+    const challenge = { id: challengeSnap.id, ...challengeSnap.data() } as ChallengeDoc;
+    if (!challenge.settings?.disputes?.enabled) {
+      throw new HttpsError('failed-precondition', 'Disputes are not enabled for this challenge.');
+    }
+    if (challenge.state === 'ended') {
+      throw new HttpsError('failed-precondition', 'This challenge has ended.');
+    }
+
+    const memberSnap = await tx.get(db.collection('challengeMembers').doc(`${challenge.id}_${userId}`));
+    if (!memberSnap.exists && !await isGroupMember(tx, challenge, userId)) {
+      throw new HttpsError('permission-denied', 'You are not a member of this challenge.');
+    }
+
+    const periodKey = getCheckInPeriodKey(checkIn.period) as string;
+    const deadlineDate = normalizeDeadlineDate(challenge.due?.deadlineDate, resolveAdminTimeZone(challenge));
+    const disputeDeadline = getDisputeDeadline(challenge, periodKey, checkIn.createdAt || 0, deadlineDate);
+    if (
+      !disputeDeadline || now.getTime() >= disputeDeadline.getTime()
+      || (challenge.lastEvaluatedPeriodKey && challenge.lastEvaluatedPeriodKey >= periodKey)
+    ) {
+      throw new HttpsError('failed-precondition', 'The dispute window for this check-in has closed.');
+    }
+
+    // --- Writes ---
+    const disputes = disputedBy.length + 1;
+    const threshold = Math.max(1, challenge.settings.disputes.threshold || DEFAULT_DISPUTE_THRESHOLD);
+    const reachedThreshold = disputes >= threshold;
+    tx.update(checkInRef, {
+      'dispute.by': admin.firestore.FieldValue.arrayUnion(userId),
+      ...(reachedThreshold && { status: 'disputed', 'dispute.disputedAt': now.getTime() }),
+    });
+
+    return { challenge, ownerId: checkIn.userId as string, disputes, disputed: reachedThreshold };
+  });
+
+  if (result.disputed) {
+    await postCheckInChangeMessage(result.challenge, result.ownerId, 'disputed');
+  }
+  return { checkInId, disputes: result.disputes, disputed: result.disputed };
+});
+
+/**
+ * Challenge admin's ruling on a disputed check-in. `upheld` restores it to
+ * completed; `rejected` reverses its XP and streak and the scheduler counts
+ * the period as a miss for its owner.
+ */
+export const resolveDisputedCheckIn = onCall<ResolveDisputeRequest>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  const checkInId = request.data?.checkInId;
+  const resolution = request.data?.resolution;
+  if (typeof checkInId !== 'string' || !checkInId) {
+    throw new HttpsError('invalid-argument', 'checkInId is required.');
+  }
+  if (resolution !== 'upheld' && resolution !== 'rejected') {
+    throw new HttpsError('invalid-argument', 'resolution must be "upheld" or "rejected".');
+  }
+
+  const now = new Date();
+  const checkInRef = db.collection('checkIns').doc(checkInId);
+
+  const result = await db.runTransaction(async (tx) => {
+    // --- Reads (all before any write) ---
+    const checkInSnap = await tx.get(checkInRef);
+    if (!checkInSnap.exists) {
+      throw new HttpsError('not-found', 'Check-in not found.');
+    }
+    const checkIn = checkInSnap.data()!;
+    if (checkIn.status !== 'disputed') {
+      throw new HttpsError('failed-precondition', 'This check-in is not awaiting review.');
+    }
+
+    const challengeSnap = await tx.get(db.collection('challenges').doc(checkIn.challengeId));
+    if (!challengeSnap.exists) {
+      throw new HttpsError('not-found', 'Challenge not found.');
+    }
+    const challenge = { id: challengeSnap.id, ...challengeSnap.data() } as ChallengeDoc;
+    if ((challenge.adminUserId || challenge.createdBy) !== userId) {
+      throw new HttpsError('permission-denied', 'Only the challenge admin can resolve disputes.');
+    }
+    const periodKey = getCheckInPeriodKey(checkIn.period) as string;
+    if (
+      challenge.state === 'ended'
+      || (challenge.lastEvaluatedPeriodKey && challenge.lastEvaluatedPeriodKey >= periodKey)
+    ) {
+      throw new HttpsError('failed-precondition', 'This period has already been judged.');
+    }
+
+    const reversal = resolution === 'rejected' && checkIn.gamification
+      ? await readCheckInReversal(tx, checkInRef, checkIn)
+      : null;
+
+    // --- Writes ---
+    tx.update(checkInRef, {
+      status: resolution === 'upheld' ? 'completed' : 'rejected',
+      'dispute.resolution': resolution,
+      'dispute.resolvedBy': userId,
+      'dispute.resolvedAt': now.getTime(),
+    });
+    const xpReversed = reversal ? writeCheckInReversal(tx, reversal) : 0;
+
+    return { challenge, ownerId: checkIn.userId as string, xpReversed };
+  });
+
+  await postCheckInChangeMessage(result.challenge, result.ownerId, resolution);
+  return { checkInId, resolution, xpReversed: result.xpReversed };
+});
+
+// ===========================================================================
+// Callable — Member pauses (opt-in via challenge.settings.pauses)
+// ===========================================================================
+
+interface SchedulePauseRequest {
+  challengeId?: string;
+  /** First and last paused day (YYYY-MM-DD, admin timezone), both inclusive */
+  startDate?: string;
+  endDate?: string;
+}
+
+interface CancelPauseRequest {
+  challengeId?: string;
+  startDate?: string;
+}
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Read the caller's active membership in a challenge that allows pauses. */
+async function getPausableMember(
+  tx: admin.firestore.Transaction,
+  challengeId: string,
+  userId: string,
+): Promise<{ challenge: ChallengeDoc; member: MemberDoc; memberRef: admin.firestore.DocumentReference }> {
+  const memberRef = db.collection('challengeMembers').doc(`${challengeId}_${userId}`);
+  const [challengeSnap, memberSnap] = await Promise.all([
+    tx.get(db.collection('challenges').doc(challengeId)),
+    tx.get(memberRef),
+  ]);
+  if (!challengeSnap.exists) {
+    throw new HttpsError('not-found', 'Challenge not found.');
+  }
+  const challenge = { id: challengeSnap.id, ...challengeSnap.data() } as ChallengeDoc;
+  if (challenge.state === 'ended') {
+    throw new HttpsError('failed-precondition', 'This challenge has ended.');
+  }
+  if (!((challenge.settings?.pauses?.maxDaysPerMember || 0) > 0)) {
+    throw new HttpsError('failed-precondition', 'Pauses are not enabled for this challenge.');
+  }
+  if (!memberSnap.exists) {
+    throw new HttpsError('permission-denied', 'You are not a member of this challenge.');
+  }
+  const member = { id: memberSnap.id, ...memberSnap.data() } as MemberDoc;
+  if (member.state !== 'active') {
+    throw new HttpsError('failed-precondition', 'You have been eliminated from this challenge.');
+  }
+  return { challenge, member, memberRef };
+}
+
+/** Member fields for a changed pause list, rescheduling its chat announcements. */
+function buildPauseUpdate(pauses: MemberPause[], timeZone: string): Record<string, unknown> {
+  const nextEventMs = getNextPauseEventMs(pauses, timeZone);
+  return {
+    pauses,
+    nextPauseEventAtUtc: nextEventMs ?? admin.firestore.FieldValue.delete(),
+  };
+}
+
+/**
+ * Schedule a pause for the caller. Periods the pause overlaps are not judged
+ * for them and their streak bridges over it. Total paused days per member are
+ * capped by `settings.pauses.maxDaysPerMember`.
+ */
+export const schedulePause = onCall<SchedulePauseRequest>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  const { challengeId, startDate, endDate } = request.data || {};
+  if (typeof challengeId !== 'string' || !challengeId) {
+    throw new HttpsError('invalid-argument', 'challengeId is required.');
+  }
+  if (typeof startDate !== 'string' || !DAY_KEY_PATTERN.test(startDate)
+    || typeof endDate !== 'string' || !DAY_KEY_PATTERN.test(endDate)) {
+    throw new HttpsError('invalid-argument', 'startDate and endDate must be YYYY-MM-DD.');
+  }
+  if (endDate < startDate) {
+    throw new HttpsError('invalid-argument', 'The pause must end on or after its start date.');
+  }
+
+  const now = new Date();
+  const pause: MemberPause = { startKey: startDate, endKey: endDate };
+
+  const pauses = await db.runTransaction(async (tx) => {
+    // --- Reads ---
+    const { challenge, member, memberRef } = await getPausableMember(tx, challengeId, userId);
+    const adminTz = resolveAdminTimeZone(challenge);
+    if (startDate < getAdminZoneDayKey(adminTz, now)) {
+      throw new HttpsError('invalid-argument', 'A pause cannot start in the past.');
+    }
+
+    const existing = member.pauses || [];
+    if (existing.some(p => p.startKey <= endDate && p.endKey >= startDate)) {
+      throw new HttpsError('already-exists', 'This pause overlaps one you already scheduled.');
+    }
+    const maxDays = challenge.settings!.pauses!.maxDaysPerMember!;
+    const next = [...existing, pause].sort((a, b) => a.startKey.localeCompare(b.startKey));
+    if (countPauseDays(next) > maxDays) {
+      const remaining = Math.max(0, maxDays - countPauseDays(existing));
+      throw new HttpsError(
+        'resource-exhausted',
+        `You have ${remaining} pause day${remaining === 1 ? '' : 's'} left in this challenge.`,
+      );
+    }
+
+    // --- Writes ---
+    tx.update(memberRef, buildPauseUpdate(next, adminTz));
+    return next;
+  });
+
+  return { challengeId, pauses };
+});
+
+/** Cancel one of the caller's pauses that has not started yet. */
+export const cancelPause = onCall<CancelPauseRequest>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  const { challengeId, startDate } = request.data || {};
+  if (typeof challengeId !== 'string' || !challengeId || typeof startDate !== 'string' || !startDate) {
+    throw new HttpsError('invalid-argument', 'challengeId and startDate are required.');
+  }
+
+  const now = new Date();
+
+  const pauses = await db.runTransaction(async (tx) => {
+    // --- Reads ---
+    const { challenge, member, memberRef } = await getPausableMember(tx, challengeId, userId);
+    const adminTz = resolveAdminTimeZone(challenge);
+    const existing = member.pauses || [];
+    const target = existing.find(p => p.startKey === startDate);
+    if (!target) {
+      throw new HttpsError('not-found', 'Pause not found.');
+    }
+    if (target.startKey <= getAdminZoneDayKey(adminTz, now)) {
+      throw new HttpsError('failed-precondition', 'This pause has already started.');
+    }
 
-      // Send winner message
-      if (groupId) {
-        const msgRef = db.collection('messages').doc();
-        batch.set(msgRef, {
-          groupId,
-          userId: SYSTEM_USER_ID,
-          userName: SYSTEM_USER_NAME,
-          text: `${winnerName} was the last remaining member of ${challengeName}. They win!`,
-          type: 'winner',
-          challengeName,
-          timestamp: admin.firestore.FieldValue.serverTimestamp(),
-        });
-        batchOps++;
-      }
+    // --- Writes ---
+    const next = existing.filter(p => p !== target);
+    tx.update(memberRef, buildPauseUpdate(next, adminTz));
+    return next;
+  });
 
-      // Push notification for winner
-      sendPushToUsers(
-        allUserIds,
-        'elimination',
-        challengeName,
-        `${winnerName} wins ${challengeName}!`,
-        { challengeId: challenge.id, groupId: groupId || '' },
-      ).catch(err => logger.error('Push failed for winner', err));
+  return { challengeId, pauses };
+});
 
-      logger.info('Winner determined', { challengeId: challenge.id, winnerId });
-    } else if (remainingActive.length === 0) {
-      // Everyone eliminated — end challenge with no winner
-      const challengeRef = db.collection('challenges').doc(challenge.id);
-      batch.update(challengeRef, {
-        state: 'ended',
-        endedAt: admin.firestore.FieldValue.serverTimestamp(),
-      });
-      batchOps++;
+// ===========================================================================
+// Callable — Elimination revivals (opt-in via rules.elimination.revival)
+// ===========================================================================
 
-      if (groupId) {
-        const msgRef = db.collection('messages').doc();
-        batch.set(msgRef, {
-          groupId,
-          userId: SYSTEM_USER_ID,
-          userName: SYSTEM_USER_NAME,
-          text: `All members have been eliminated from ${challengeName}. The challenge has ended.`,
-          type: 'text',
-          timestamp: admin.firestore.FieldValue.serverTimestamp(),
-        });
-        batchOps++;
-      }
+interface BuyBackInRequest {
+  challengeId?: string;
+}
+
+interface VoteToReviveRequest {
+  challengeId?: string;
+  /** The eliminated member to vote back in */
+  userId?: string;
+}
+
+/** Read an elimination challenge that allows revivals and the eliminated member to bring back. */
+async function getRevivableMember(
+  tx: admin.firestore.Transaction,
+  challengeId: string,
+  userId: string,
+): Promise<{
+  challenge: ChallengeDoc;
+  revival: RevivalRules;
+  member: MemberDoc;
+  memberRef: admin.firestore.DocumentReference;
+}> {
+  const memberRef = db.collection('challengeMembers').doc(`${challengeId}_${userId}`);
+  const [challengeSnap, memberSnap] = await Promise.all([
+    tx.get(db.collection('challenges').doc(challengeId)),
+    tx.get(memberRef),
+  ]);
+  if (!challengeSnap.exists) {
+    throw new HttpsError('not-found', 'Challenge not found.');
+  }
+  const challenge = { id: challengeSnap.id, ...challengeSnap.data() } as ChallengeDoc;
+  const revival = challenge.rules?.elimination?.revival;
+  if (String(challenge.type || '').toLowerCase() !== 'elimination' || !revival) {
+    throw new HttpsError('failed-precondition', 'Revivals are not enabled for this challenge.');
+  }
+  if (challenge.state === 'ended') {
+    throw new HttpsError('failed-precondition', 'This challenge has ended.');
+  }
+  if (!memberSnap.exists) {
+    throw new HttpsError('not-found', 'Member not found.');
+  }
+  const member = { id: memberSnap.id, ...memberSnap.data() } as MemberDoc;
+  if (member.state !== 'eliminated') {
+    throw new HttpsError('failed-precondition', 'This member is still in the challenge.');
+  }
+  if (getRevivalsLeft(revival, member.revivals) === 0) {
+    throw new HttpsError('resource-exhausted', 'No revivals are left for this member.');
+  }
+  return { challenge, revival, member, memberRef };
+}
+
+/** Queue the group chat announcement of a revival in the revival's transaction. */
+function setRevivalMessage(
+  tx: admin.firestore.Transaction,
+  challenge: ChallengeDoc,
+  displayName: string,
+  via: RevivalRules['mode'],
+): void {
+  if (!challenge.groupId) return;
+  const challengeName = challenge.title || challenge.name || 'Challenge';
+  tx.set(db.collection('messages').doc(), {
+    groupId: challenge.groupId,
+    userId: SYSTEM_USER_ID,
+    userName: SYSTEM_USER_NAME,
+    text: via === 'buyBack'
+      ? `${displayName} bought back into ${challengeName}! One more miss and they're out again.`
+      : `${displayName} was voted back into ${challengeName}! One more miss and they're out again.`,
+    type: 'text',
+    challengeName,
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/** Member fields that bring an eliminated member back with the maximum strikes. */
+function buildRevivalUpdate(challenge: ChallengeDoc, member: MemberDoc, now: Date): Record<string, unknown> {
+  return {
+    state: 'active',
+    strikes: challenge.rules?.elimination?.strikesAllowed ?? 0,
+    revivals: (member.revivals || 0) + 1,
+    revivedAt: admin.firestore.Timestamp.fromDate(now),
+    revivalVotes: admin.firestore.FieldValue.delete(),
+    eliminatedAt: admin.firestore.FieldValue.delete(),
+  };
+}
+
+/**
+ * Spend XP to get back into an elimination challenge the caller was
+ * eliminated from ('buyBack' revival). Periods that ended before the buy-back
+ * aren't judged for them.
+ */
+export const buyBackIn = onCall<BuyBackInRequest>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  const challengeId = request.data?.challengeId;
+  if (typeof challengeId !== 'string' || !challengeId) {
+    throw new HttpsError('invalid-argument', 'challengeId is required.');
+  }
+
+  const now = new Date();
+  const userRef = db.collection('users').doc(userId);
+
+  const result = await db.runTransaction(async (tx) => {
+    // --- Reads ---
+    const { challenge, revival, member, memberRef } = await getRevivableMember(tx, challengeId, userId);
+    if (revival.mode !== 'buyBack') {
+      throw new HttpsError('failed-precondition', 'Members of this challenge are revived by vote.');
+    }
+    const userSnap = await tx.get(userRef);
+    const xp = (userSnap.data()?.xp as number) || 0;
+    const cost = getRevivalXpCost(revival);
+    if (xp < cost) {
+      throw new HttpsError('resource-exhausted', `You need ${cost} XP to buy back in.`);
     }
+
+    // --- Writes ---
+    const newXp = xp - cost;
+    const { level, title } = getLevelFromXP(newXp);
+    tx.set(userRef, { xp: newXp, level, levelTitle: title }, { merge: true });
+    tx.update(memberRef, buildRevivalUpdate(challenge, member, now));
+    setRevivalMessage(tx, challenge, (userSnap.data()?.displayName as string) || 'Someone', 'buyBack');
+    return { xpSpent: cost, revivalsLeft: getRevivalsLeft(revival, (member.revivals || 0) + 1) };
+  });
+
+  return { challengeId, revived: true, ...result };
+});
+
+/**
+ * Vote to bring an eliminated member back ('vote' revival). The vote that
+ * reaches the challenge's `votesNeeded` (by default a majority of the
+ * members still in) revives them.
+ */
+export const voteToRevive = onCall<VoteToReviveRequest>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  const { challengeId, userId: targetId } = request.data || {};
+  if (typeof challengeId !== 'string' || !challengeId || typeof targetId !== 'string' || !targetId) {
+    throw new HttpsError('invalid-argument', 'challengeId and userId are required.');
+  }
+  if (targetId === userId) {
+    throw new HttpsError('invalid-argument', 'You cannot vote for yourself.');
   }
 
-  // Mark this period as evaluated (idempotency)
-  batch.set(evalRef, {
-    challengeId: challenge.id,
-    periodKey: previousKey,
-    missedUserIds: missedMembers.map(m => m.userId),
-    eliminatedUserIds: newlyEliminated,
-    processedAt: admin.firestore.FieldValue.serverTimestamp(),
+  const now = new Date();
+
+  const result = await db.runTransaction(async (tx) => {
+    // --- Reads ---
+    const { challenge, revival, member, memberRef } = await getRevivableMember(tx, challengeId, targetId);
+    if (revival.mode !== 'vote') {
+      throw new HttpsError('failed-precondition', 'Members of this challenge buy back in with XP.');
+    }
+    const [voterSnap, activeSnap, targetUserSnap] = await Promise.all([
+      tx.get(db.collection('challengeMembers').doc(`${challengeId}_${userId}`)),
+      tx.get(db.collection('challengeMembers')
+        .where('challengeId', '==', challengeId)
+        .where('state', '==', 'active')),
+      tx.get(db.collection('users').doc(targetId)),
+    ]);
+    if (!voterSnap.exists || voterSnap.data()!.state !== 'active') {
+      throw new HttpsError('permission-denied', 'Only members still in the challenge can vote.');
+    }
+    const votes = member.revivalVotes || [];
+    if (votes.includes(userId)) {
+      throw new HttpsError('already-exists', 'You have already voted to revive this member.');
+    }
+    const votesNeeded = getRevivalVotesNeeded(revival, activeSnap.size);
+    const revived = votes.length + 1 >= votesNeeded;
+
+    // --- Writes ---
+    tx.update(memberRef, revived
+      ? buildRevivalUpdate(challenge, member, now)
+      : { revivalVotes: admin.firestore.FieldValue.arrayUnion(userId) });
+    if (revived) {
+      setRevivalMessage(tx, challenge, (targetUserSnap.data()?.displayName as string) || 'Someone', 'vote');
+    }
+    return { revived, votes: votes.length + 1, votesNeeded };
   });
 
-  await batch.commit();
+  return { challengeId, userId: targetId, ...result };
+});
 
-  if (missedMembers.length > 0) {
-    logger.info('Evaluated missed check-ins', {
-      challengeId: challenge.id,
-      periodKey: previousKey,
-      missed: missedMembers.length,
-      eliminated: newlyEliminated.length,
+// ===========================================================================
+// Callable — Achievements (see shared/achievements)
+// ===========================================================================
+
+/** Deadline challenges the user reached the target in */
+async function countDeadlinesCompleted(userId: string): Promise<number> {
+  const membersSnap = await db.collection('challengeMembers').where('userId', '==', userId).get();
+  let count = 0;
+  const challengeIds: string[] = [];
+  for (const d of membersSnap.docs) {
+    const data = d.data();
+    if (data.deadlineOutcome) {
+      if (data.deadlineOutcome.reached) count++;
+    } else if (data.challengeId) {
+      challengeIds.push(data.challengeId as string);
+    }
+  }
+
+  // Deadline challenges that ended before outcomes were recorded count as completed
+  for (let i = 0; i < challengeIds.length; i += 10) {
+    const snap = await db.collection('challenges')
+      .where(admin.firestore.FieldPath.documentId(), 'in', challengeIds.slice(i, i + 10))
+      .where('type', '==', 'deadline')
+      .where('state', '==', 'ended')
+      .get();
+    count += snap.size;
+  }
+  return count;
+}
+
+/** Ended elimination challenges the user won (older ones only have winnerId) */
+async function countEliminationWins(userId: string): Promise<number> {
+  const ended = db.collection('challenges').where('type', '==', 'elimination').where('state', '==', 'ended');
+  const [snap, legacySnap] = await Promise.all([
+    ended.where('winnerIds', 'array-contains', userId).get(),
+    ended.where('winnerId', '==', userId).get(),
+  ]);
+  return new Set([...snap.docs, ...legacySnap.docs].map(d => d.id)).size;
+}
+
+async function getAchievementStats(userId: string, userData: admin.firestore.DocumentData): Promise<AchievementStats> {
+  const [deadlineComplete, eliminationWin, groupsJoinedSnap, groupsCreatedSnap] = await Promise.all([
+    countDeadlinesCompleted(userId),
+    countEliminationWins(userId),
+    db.collection('groups').where('memberIds', 'array-contains', userId).get(),
+    db.collection('groups').where('creatorId', '==', userId).get(),
+  ]);
+  return {
+    totalCheckIns: (userData.totalCheckIns as number) || 0,
+    longestStreak: (userData.longestStreak as number) || 0,
+    onTimeCheckIns: (userData.onTimeCheckIns as number) || 0,
+    lateNightCheckIns: (userData.lateNightCheckIns as number) || 0,
+    deadlineComplete,
+    eliminationWin,
+    groupsJoined: groupsJoinedSnap.size,
+    groupsCreated: groupsCreatedSnap.size,
+  };
+}
+
+/**
+ * Award the caller every achievement they've newly unlocked: its badge, its
+ * title and its XP. Achievements already in the user's badges are skipped,
+ * so calling this again is harmless.
+ */
+export const checkAchievements = onCall(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+
+  const userRef = db.collection('users').doc(userId);
+  const userSnap = await userRef.get();
+  if (!userSnap.exists) return { unlocked: [] };
+  const stats = await getAchievementStats(userId, userSnap.data()!);
+
+  const unlocked = await db.runTransaction(async (tx) => {
+    // --- Reads ---
+    const snap = await tx.get(userRef);
+    const userData = snap.data() || {};
+    const badgeIds = new Set(((userData.badges || []) as Array<{ id: string }>).map(b => b.id));
+    const newlyUnlocked = ACHIEVEMENTS.filter(a => !badgeIds.has(a.id) && isAchievementConditionMet(a, stats));
+    if (newlyUnlocked.length === 0) return [];
+
+    // --- Writes ---
+    const nowMs = Date.now();
+    const xp = ((userData.xp as number) || 0) + newlyUnlocked.reduce((sum, a) => sum + a.xpReward, 0);
+    const { level, title } = getLevelFromXP(xp);
+    tx.update(userRef, {
+      badges: admin.firestore.FieldValue.arrayUnion(...newlyUnlocked.map(a => ({
+        id: a.id,
+        name: a.name,
+        description: a.description,
+        icon: a.icon,
+        color: RARITY_COLORS[a.rarity],
+        backgroundColor: RARITY_COLORS[a.rarity] + '20',
+        rarity: a.rarity,
+        category: 'achievement',
+        unlockedAt: nowMs,
+      }))),
+      unlockedTitles: admin.firestore.FieldValue.arrayUnion(...newlyUnlocked.map(a => ({
+        id: `achievement_${a.id}`,
+        text: a.titleReward,
+        color: RARITY_COLORS[a.rarity],
+        rarity: a.rarity,
+        category: 'achievement',
+        unlockedAt: nowMs,
+      }))),
+      xp,
+      level,
+      levelTitle: title,
     });
+    return newlyUnlocked.map(a => a.id);
+  });
+
+  return { unlocked };
+});
+
+// ===========================================================================
+// Callable — Group invite codes and join requests (see shared/groupInvites)
+// ===========================================================================
+
+const INVITE_CODES_COLLECTION = 'groupInviteCodes';
+const JOIN_REQUESTS_COLLECTION = 'groupJoinRequests';
+const INVITE_PREVIEW_MEMBER_LIMIT = 5;
+
+interface GroupDoc {
+  name?: string;
+  description?: string;
+  memberIds?: string[];
+  creatorId?: string;
+  ownerId?: string;
+  adminIds?: string[];
+  status?: string;
+}
+
+interface InviteCodeDoc {
+  groupId: string;
+  createdBy: string;
+  createdAt: admin.firestore.Timestamp;
+  expiresAt: admin.firestore.Timestamp;
+  requiresApproval: boolean;
+  revoked: boolean;
+  useCount?: number;
+}
+
+interface CreateGroupInviteCodeRequest {
+  groupId?: string;
+  expiresInDays?: number;
+  requiresApproval?: boolean;
+}
+
+interface InviteCodeRequest {
+  code?: string;
+}
+
+interface RespondToJoinRequestRequest {
+  groupId?: string;
+  userId?: string;
+  approve?: boolean;
+}
+
+/** Owner (ownerId, or creatorId on older groups) or admin — mirrors firestore.rules */
+function isGroupOwnerOrAdmin(group: GroupDoc, userId: string): boolean {
+  return (group.ownerId || group.creatorId) === userId || (group.adminIds || []).includes(userId);
+}
+
+function getGroupAdminIds(group: GroupDoc): string[] {
+  const ownerId = group.ownerId || group.creatorId;
+  return [...new Set([...(ownerId ? [ownerId] : []), ...(group.adminIds || [])])];
+}
+
+function readInviteCode(data: { code?: unknown } | undefined): string {
+  const code = typeof data?.code === 'string' ? normalizeInviteCode(data.code) : '';
+  if (!isValidInviteCode(code)) {
+    throw new HttpsError('invalid-argument', 'That invite code is not valid.');
   }
+  return code;
 }
 
-// ---------------------------------------------------------------------------
-// Keep the old function name as an alias for backward compat during deploy
-// ---------------------------------------------------------------------------
+/** Read a code and its group; throws when the code can't be used (revoked, expired, group gone). */
+async function getRedeemableInvite(
+  read: (ref: admin.firestore.DocumentReference) => Promise<admin.firestore.DocumentSnapshot>,
+  code: string,
+  now: Date,
+): Promise<{ invite: InviteCodeDoc; group: GroupDoc; groupRef: admin.firestore.DocumentReference }> {
+  const inviteSnap = await read(db.collection(INVITE_CODES_COLLECTION).doc(code));
+  if (!inviteSnap.exists) {
+    throw new HttpsError('not-found', 'That invite code does not exist.');
+  }
+  const invite = inviteSnap.data() as InviteCodeDoc;
+  if (invite.revoked) {
+    throw new HttpsError('failed-precondition', 'This invite link was turned off by the group.');
+  }
+  if (invite.expiresAt.toMillis() <= now.getTime()) {
+    throw new HttpsError('failed-precondition', 'This invite link has expired.');
+  }
+  const groupRef = db.collection('groups').doc(invite.groupId);
+  const groupSnap = await read(groupRef);
+  const group = groupSnap.data() as GroupDoc | undefined;
+  if (!group || (group.status && group.status !== 'active')) {
+    throw new HttpsError('not-found', 'This group no longer exists.');
+  }
+  return { invite, group, groupRef };
+}
 
-export const processMissedCheckIns = evaluateChallenges;
+/**
+ * Issue a new invite code for a group (owner and admins). Codes are random
+ * and unguessable; the rare collision with an existing code is retried.
+ */
+export const createGroupInviteCode = onCall<CreateGroupInviteCodeRequest>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  const { groupId, expiresInDays = DEFAULT_INVITE_CODE_EXPIRY_DAYS, requiresApproval = false } = request.data || {};
+  if (typeof groupId !== 'string' || !groupId) {
+    throw new HttpsError('invalid-argument', 'groupId is required.');
+  }
+  if (!(INVITE_CODE_EXPIRY_DAYS as readonly number[]).includes(expiresInDays)) {
+    throw new HttpsError('invalid-argument', `expiresInDays must be one of ${INVITE_CODE_EXPIRY_DAYS.join(', ')}.`);
+  }
+
+  const groupSnap = await db.collection('groups').doc(groupId).get();
+  const group = groupSnap.data() as GroupDoc | undefined;
+  if (!group) {
+    throw new HttpsError('not-found', 'Group not found.');
+  }
+  if (!isGroupOwnerOrAdmin(group, userId)) {
+    throw new HttpsError('permission-denied', 'Only the group owner and admins can create invite links.');
+  }
+
+  const now = new Date();
+  const expiresAt = admin.firestore.Timestamp.fromMillis(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000);
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = buildInviteCode(randomBytes(INVITE_CODE_LENGTH * 2));
+    if (!code) continue;
+    try {
+      await db.collection(INVITE_CODES_COLLECTION).doc(code).create({
+        groupId,
+        createdBy: userId,
+        createdAt: admin.firestore.Timestamp.fromDate(now),
+        expiresAt,
+        requiresApproval: !!requiresApproval,
+        revoked: false,
+        useCount: 0,
+      });
+      return { code, groupId, expiresAt: expiresAt.toMillis(), requiresApproval: !!requiresApproval };
+    } catch (err: any) {
+      // ALREADY_EXISTS: the code is taken, draw another
+      if (err?.code !== 6) throw err;
+    }
+  }
+  throw new HttpsError('internal', 'Could not create an invite code. Please try again.');
+});
+
+/** Turn an invite code off (owner and admins of its group). */
+export const revokeGroupInviteCode = onCall<InviteCodeRequest>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  const code = readInviteCode(request.data);
+  const inviteRef = db.collection(INVITE_CODES_COLLECTION).doc(code);
+
+  await db.runTransaction(async (tx) => {
+    const inviteSnap = await tx.get(inviteRef);
+    if (!inviteSnap.exists) {
+      throw new HttpsError('not-found', 'That invite code does not exist.');
+    }
+    const invite = inviteSnap.data() as InviteCodeDoc;
+    const groupSnap = await tx.get(db.collection('groups').doc(invite.groupId));
+    const group = groupSnap.data() as GroupDoc | undefined;
+    if (!group || !isGroupOwnerOrAdmin(group, userId)) {
+      throw new HttpsError('permission-denied', 'Only the group owner and admins can turn off invite links.');
+    }
+    tx.update(inviteRef, {
+      revoked: true,
+      revokedBy: userId,
+      revokedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  return { code, revoked: true };
+});
+
+/**
+ * What the join screen shows for a code: the group's name, size and a few
+ * members, whether joining needs approval, and where the caller stands.
+ */
+export const previewGroupInvite = onCall<InviteCodeRequest>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  const code = readInviteCode(request.data);
+  const { invite, group } = await getRedeemableInvite((ref) => ref.get(), code, new Date());
+
+  const memberIds = group.memberIds || [];
+  const [memberSnaps, joinRequestSnap] = await Promise.all([
+    memberIds.length > 0
+      ? db.getAll(...memberIds.slice(0, INVITE_PREVIEW_MEMBER_LIMIT).map((id) => db.collection('users').doc(id)))
+      : Promise.resolve([]),
+    db.collection(JOIN_REQUESTS_COLLECTION).doc(`${invite.groupId}_${userId}`).get(),
+  ]);
+
+  return {
+    code,
+    groupId: invite.groupId,
+    name: group.name || 'Group',
+    description: group.description || null,
+    memberCount: memberIds.length,
+    members: memberSnaps
+      .filter((snap) => snap.exists)
+      .map((snap) => ({
+        id: snap.id,
+        displayName: (snap.data()!.displayName as string) || 'Someone',
+        photoURL: (snap.data()!.photoURL as string) || null,
+      })),
+    requiresApproval: invite.requiresApproval,
+    expiresAt: invite.expiresAt.toMillis(),
+    isMember: memberIds.includes(userId),
+    requestPending: joinRequestSnap.exists && joinRequestSnap.data()!.status === 'pending',
+  };
+});
+
+/**
+ * Join a group with an invite code. Codes that need approval file a join
+ * request for the group's owner and admins instead (respondToJoinRequest).
+ */
+export const redeemGroupInviteCode = onCall<InviteCodeRequest>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  const code = readInviteCode(request.data);
+  const now = new Date();
+
+  const { groupId, group, status, requested } = await db.runTransaction(async (tx) => {
+    // --- Reads ---
+    const { invite, group, groupRef } = await getRedeemableInvite((ref) => tx.get(ref), code, now);
+    const joined = { groupId: invite.groupId, group, requested: false };
+    if ((group.memberIds || []).includes(userId)) {
+      return { ...joined, status: 'member' as const };
+    }
+    const requestRef = db.collection(JOIN_REQUESTS_COLLECTION).doc(`${invite.groupId}_${userId}`);
+    const requestSnap = await tx.get(requestRef);
+
+    // --- Writes ---
+    if (invite.requiresApproval) {
+      if (requestSnap.exists && requestSnap.data()!.status === 'pending') {
+        return { ...joined, status: 'pending' as const };
+      }
+      tx.set(requestRef, {
+        groupId: invite.groupId,
+        userId,
+        code,
+        status: 'pending',
+        requestedAt: admin.firestore.Timestamp.fromDate(now),
+      });
+      return { ...joined, status: 'pending' as const, requested: true };
+    }
+    tx.update(groupRef, { memberIds: admin.firestore.FieldValue.arrayUnion(userId) });
+    tx.update(db.collection(INVITE_CODES_COLLECTION).doc(code), {
+      useCount: admin.firestore.FieldValue.increment(1),
+    });
+    return { ...joined, status: 'joined' as const };
+  });
+
+  if (requested) {
+    try {
+      const requester = await getUserNotificationInfo(userId);
+      await sendPushToUsers(
+        getGroupAdminIds(group),
+        'invites',
+        group.name || 'Group',
+        `${requester.displayName} asked to join`,
+        { groupId },
+      );
+    } catch (err) {
+      logger.error('Join request push failed', err);
+    }
+  }
+
+  return { groupId, status };
+});
+
+/** Approve or decline a pending join request (owner and admins). */
+export const respondToJoinRequest = onCall<RespondToJoinRequestRequest>(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  const { groupId, userId: requesterId, approve } = request.data || {};
+  if (typeof groupId !== 'string' || !groupId || typeof requesterId !== 'string' || !requesterId) {
+    throw new HttpsError('invalid-argument', 'groupId and userId are required.');
+  }
+  const groupRef = db.collection('groups').doc(groupId);
+  const requestRef = db.collection(JOIN_REQUESTS_COLLECTION).doc(`${groupId}_${requesterId}`);
+
+  const groupName = await db.runTransaction(async (tx) => {
+    // --- Reads ---
+    const [groupSnap, requestSnap] = await Promise.all([tx.get(groupRef), tx.get(requestRef)]);
+    const group = groupSnap.data() as GroupDoc | undefined;
+    if (!group) {
+      throw new HttpsError('not-found', 'Group not found.');
+    }
+    if (!isGroupOwnerOrAdmin(group, userId)) {
+      throw new HttpsError('permission-denied', 'Only the group owner and admins can answer join requests.');
+    }
+    if (!requestSnap.exists || requestSnap.data()!.status !== 'pending') {
+      throw new HttpsError('failed-precondition', 'This join request was already answered.');
+    }
+
+    // --- Writes ---
+    tx.update(requestRef, {
+      status: approve ? 'approved' : 'declined',
+      respondedBy: userId,
+      respondedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    if (approve) {
+      tx.update(groupRef, { memberIds: admin.firestore.FieldValue.arrayUnion(requesterId) });
+      const code = requestSnap.data()!.code as string | undefined;
+      if (code) {
+        tx.update(db.collection(INVITE_CODES_COLLECTION).doc(code), {
+          useCount: admin.firestore.FieldValue.increment(1),
+        });
+      }
+    }
+    return group.name || 'Group';
+  });
+
+  if (approve) {
+    try {
+      await sendPushToUsers([requesterId], 'invites', groupName, 'Your request to join was approved', { groupId });
+    } catch (err) {
+      logger.error('Join approval push failed', err);
+    }
+  }
+
+  return { groupId, userId: requesterId, approved: !!approve };
+});
+
+// ===========================================================================
+// Firestore Trigger — Reaction XP (see shared/reactions)
+// ===========================================================================
+
+/**
+ * Award a message's author UPVOTE_RECEIVED XP for each member whose reaction
+ * went from none or 👎 to a positive one. Reacting to your own message
+ * earns nothing, and each member pays out once per message: they're recorded
+ * in the message's `xpAwardedTo`, so removing and re-adding a reaction doesn't.
+ */
+export const onMessageReaction = onDocumentUpdated('messages/{messageId}', async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (!before || !after) return;
+
+  const authorId = after.userId as string | undefined;
+  if (!authorId) return;
+  const reactorIds = getNewPositiveReactors(before, after).filter(id => id !== authorId);
+  if (reactorIds.length === 0) return;
+
+  const messageRef = event.data!.after.ref;
+  const userRef = db.collection('users').doc(authorId);
+  try {
+    await db.runTransaction(async (tx) => {
+      // --- Reads ---
+      const messageSnap = await tx.get(messageRef);
+      const userSnap = await tx.get(userRef);
+      if (!messageSnap.exists || !userSnap.exists) return;
+
+      const awardedTo = (messageSnap.data()?.xpAwardedTo as string[] | undefined) || [];
+      const newReactorIds = reactorIds.filter(id => !awardedTo.includes(id));
+      if (newReactorIds.length === 0) return;
+
+      // --- Writes ---
+      const xp = ((userSnap.data()?.xp as number) || 0) + XP_VALUES.UPVOTE_RECEIVED * newReactorIds.length;
+      const { level, title } = getLevelFromXP(xp);
+      tx.update(userRef, { xp, level, levelTitle: title });
+      tx.update(messageRef, { xpAwardedTo: admin.firestore.FieldValue.arrayUnion(...newReactorIds) });
+    });
+  } catch (err) {
+    logger.error('Reaction XP award failed', err);
+  }
+});
 
 // ===========================================================================
 // Firestore Triggers — Push Notifications
@@ -614,6 +3334,7 @@ export const processMissedCheckIns = evaluateChallenges;
 
 // ---------------------------------------------------------------------------
 // 7a: chat_all — new chat message → push to group members (exclude sender)
+//     mentions — @mentioned members get their own push, even with chat_all off
 // ---------------------------------------------------------------------------
 
 export const onNewMessage = onDocumentCreated('messages/{messageId}', async (event) => {
@@ -641,8 +3362,23 @@ export const onNewMessage = onDocumentCreated('messages/{messageId}', async (eve
     const senderInfo = await getUserNotificationInfo(senderId);
     const groupName = (groupData.name as string) || 'Group';
 
+    // Only members of the group can be mentioned
+    const mentionedIds = Array.isArray(data.mentions)
+      ? memberIds.filter((id) => (data.mentions as unknown[]).includes(id))
+      : [];
+    const otherIds = memberIds.filter((id) => !mentionedIds.includes(id));
+
+    if (mentionedIds.length > 0) {
+      await sendPushToUsers(
+        mentionedIds,
+        'mentions',
+        groupName,
+        `${senderInfo.displayName} mentioned you: ${messageText}`,
+        { groupId, messageId: event.params.messageId },
+      );
+    }
     await sendPushToUsers(
-      memberIds,
+      otherIds,
       'chat_all',
       groupName,
       `${senderInfo.displayName}: ${messageText}`,
@@ -793,3 +3529,104 @@ export const onFriendRequest = onDocumentCreated('friendships/{friendshipId}', a
     logger.error('onFriendRequest push failed', err);
   }
 });
+
+// ===========================================================================
+// Storage Trigger — Check-in media variants
+// ===========================================================================
+
+const CHECK_IN_IMAGE_PREFIX = 'checkin_images/';
+const CHECK_IN_VIDEO_PREFIX = 'checkin_videos/';
+
+const execFileAsync = promisify(execFile);
+
+/** Save a JPEG variant next to `originalPath`, reusing the original's download token. */
+async function saveMediaVariant(
+  bucket: ReturnType<admin.storage.Storage['bucket']>,
+  variantPath: string,
+  jpeg: Buffer,
+  originalPath: string,
+  token: string | undefined,
+): Promise<void> {
+  await bucket.file(variantPath).save(jpeg, {
+    contentType: 'image/jpeg',
+    metadata: {
+      cacheControl: 'public, max-age=31536000',
+      metadata: {
+        variantOf: originalPath,
+        ...(token && { firebaseStorageDownloadTokens: token }),
+      },
+    },
+  });
+}
+
+/**
+ * First frame VIDEO_POSTER_OFFSET_SECONDS into the clip (or its very first
+ * frame when it is shorter), as a JPEG no larger than VIDEO_POSTER_SIZE.
+ * Null when ffmpeg can't read a frame.
+ */
+async function extractVideoPoster(video: Buffer, path: string): Promise<Buffer | null> {
+  const dir = await fs.mkdtemp(join(tmpdir(), 'poster-'));
+  const videoPath = join(dir, basename(path));
+  const framePath = join(dir, 'frame.jpg');
+  try {
+    await fs.writeFile(videoPath, video);
+    for (const offset of [VIDEO_POSTER_OFFSET_SECONDS, 0]) {
+      await execFileAsync(ffmpegInstaller.path, [
+        '-y', '-ss', String(offset), '-i', videoPath, '-frames:v', '1', '-q:v', '2', framePath,
+      ]);
+      const frame = await fs.readFile(framePath).catch(() => null);
+      if (frame && frame.length > 0) {
+        return await sharp(frame)
+          .resize(VIDEO_POSTER_SIZE, VIDEO_POSTER_SIZE, { fit: 'inside', withoutEnlargement: true })
+          .jpeg({ quality: 80 })
+          .toBuffer();
+      }
+    }
+    return null;
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Write the thumbnail and medium variants of each uploaded check-in photo,
+ * and a poster frame for each video clip, next to the original (see
+ * shared/attachments). The variants carry the original's download token so
+ * the app can derive their URLs.
+ */
+export const generateMediaVariants = onObjectFinalized({ memory: '1GiB' }, async (event) => {
+  const object = event.data;
+  const path = object.name;
+  if (!path || isMediaVariantPath(path)) return;
+  const isImage = path.startsWith(CHECK_IN_IMAGE_PREFIX) && !!object.contentType?.startsWith('image/');
+  const isVideo = path.startsWith(CHECK_IN_VIDEO_PREFIX) && !!object.contentType?.startsWith('video/');
+  if (!isImage && !isVideo) return;
+
+  try {
+    const bucket = admin.storage().bucket(object.bucket);
+    const [original] = await bucket.file(path).download();
+    const token = object.metadata?.firebaseStorageDownloadTokens;
+
+    if (isVideo) {
+      const poster = await extractVideoPoster(original, path);
+      if (!poster) {
+        logger.warn('No frame found for video poster', { path });
+        return;
+      }
+      await saveMediaVariant(bucket, getMediaVariantPath(path, 'poster'), poster, path, token);
+      return;
+    }
+
+    await Promise.all((Object.keys(MEDIA_VARIANT_SIZES) as MediaVariant[]).map(async (variant) => {
+      const size = MEDIA_VARIANT_SIZES[variant];
+      const resized = await sharp(original)
+        .rotate()
+        .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+      await saveMediaVariant(bucket, getMediaVariantPath(path, variant), resized, path, token);
+    }));
+  } catch (err) {
+    logger.error('Media variant generation failed', { path, err });
+  }
+});
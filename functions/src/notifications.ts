@@ -17,6 +17,7 @@ const db = admin.firestore();
 type NotificationType =
   | 'hour_before'
   | 'chat_all'
+  | 'mentions'
   | 'group_checkins'
   | 'elimination'
   | 'invites'
@@ -25,6 +26,7 @@ type NotificationType =
 interface NotificationPreferences {
   hour_before: boolean;
   chat_all: boolean;
+  mentions: boolean;
   group_checkins: boolean;
   elimination: boolean;
   invites: boolean;
@@ -40,6 +42,7 @@ interface UserNotificationInfo {
 const DEFAULT_PREFS: NotificationPreferences = {
   hour_before: true,
   chat_all: true,
+  mentions: true,
   group_checkins: true,
   elimination: true,
   invites: true,
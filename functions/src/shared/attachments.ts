@@ -0,0 +1,57 @@
+/**
+ * Check-in attachment limits and Storage variant naming.
+ *
+ * A check-in holds up to MAX_CHECK_IN_MEDIA photos and video clips (clips up
+ * to MAX_VIDEO_CLIP_SECONDS). When a photo lands in Storage the
+ * generateMediaVariants function writes resized copies next to it:
+ *   checkin_images/abc.jpg -> checkin_images/abc_thumb.jpg, abc_medium.jpg
+ * and for a video clip a poster frame:
+ *   checkin_videos/abc.mp4 -> checkin_videos/abc_poster.jpg
+ * The copies reuse the original's download token, so the app derives their
+ * URLs from the original's and falls back to it until they exist.
+ */
+
+export type CheckInAttachmentType = 'photo' | 'screenshot' | 'video';
+
+export type MediaVariant = 'thumb' | 'medium';
+
+/** Video clips get this one JPEG frame instead of image variants */
+export type VideoVariant = 'poster';
+
+export const MAX_CHECK_IN_MEDIA = 6;
+export const MAX_VIDEO_CLIP_SECONDS = 30;
+
+/** Longest side of each variant, in pixels */
+export const MEDIA_VARIANT_SIZES: Record<MediaVariant, number> = {
+  thumb: 320,
+  medium: 1080,
+};
+
+/** Longest side of a video's poster frame, in pixels */
+export const VIDEO_POSTER_SIZE = 1080;
+/** How far into a clip the poster frame is taken, in seconds (skips a black first frame) */
+export const VIDEO_POSTER_OFFSET_SECONDS = 0.5;
+
+const VARIANT_SUFFIX_PATTERN = /_(thumb|medium|poster)\.jpg$/;
+
+/** Storage path of a variant: the variant name before the extension. */
+export function getMediaVariantPath(path: string, variant: MediaVariant | VideoVariant): string {
+  return path.replace(/(\.[^./]+)?$/, `_${variant}.jpg`);
+}
+
+export function isMediaVariantPath(path: string): boolean {
+  return VARIANT_SUFFIX_PATTERN.test(path);
+}
+
+/**
+ * Download URL of a variant, derived from the original's Firebase Storage
+ * download URL (the object path is the URL-encoded segment after `/o/`).
+ * Returns the URL unchanged when it isn't a Storage download URL.
+ */
+export function getMediaVariantUrl(url: string, variant: MediaVariant | VideoVariant): string {
+  const match = /^(.*\/o\/)([^?]+)(\?.*)?$/.exec(url);
+  if (!match) return url;
+  const path = decodeURIComponent(match[2]);
+  if (isMediaVariantPath(path)) return url;
+  return `${match[1]}${encodeURIComponent(getMediaVariantPath(path, variant))}${match[3] || ''}`;
+}
@@ -0,0 +1,107 @@
+/**
+ * Deadline challenge scoring.
+ *
+ * Each member's value is built from their counted check-ins according to
+ * `rules.deadline.progressMode`:
+ *  - 'accumulate': the values of all check-ins added up.
+ *  - 'latest': the value of the most recent check-in.
+ * A check-in's value is its `numberValue`, its timer in minutes, or 1 for
+ * other input types (so an accumulated yes/no challenge counts check-ins).
+ * The member reached the target when the value compares to `targetValue`
+ * (`gte` by default); without a target, any counted check-in reaches it.
+ * When the deadline passes the scheduler stores the ranked result on each
+ * member (`deadlineOutcome`); the app shows the same numbers live.
+ */
+
+export interface DeadlineRules {
+  targetValue?: number;
+  comparison?: 'gte' | 'lte';
+  progressMode?: 'accumulate' | 'latest';
+}
+
+export interface DeadlineCheckIn {
+  userId: string;
+  createdAt: number;
+  payload?: { numberValue?: number; timerSeconds?: number };
+}
+
+export interface DeadlineOutcome {
+  /** null when the member never checked in */
+  value: number | null;
+  reached: boolean;
+  /** 1-based; members with the same value share a rank */
+  rank: number;
+}
+
+/** What a single check-in contributes to a deadline challenge. */
+export function getDeadlineCheckInValue(payload: DeadlineCheckIn['payload']): number {
+  if (typeof payload?.numberValue === 'number') return payload.numberValue;
+  if (typeof payload?.timerSeconds === 'number') return Math.round(payload.timerSeconds / 60 * 100) / 100;
+  return 1;
+}
+
+/** A member's value from their counted check-ins, or null without any. */
+export function computeDeadlineValue(rules: DeadlineRules | undefined, checkIns: DeadlineCheckIn[]): number | null {
+  if (checkIns.length === 0) return null;
+  if (rules?.progressMode === 'latest') {
+    const latest = checkIns.reduce((a, b) => (b.createdAt > a.createdAt ? b : a));
+    return getDeadlineCheckInValue(latest.payload);
+  }
+  const total = checkIns.reduce((acc, ci) => acc + getDeadlineCheckInValue(ci.payload), 0);
+  return Math.round(total * 100) / 100;
+}
+
+export function hasReachedDeadlineTarget(rules: DeadlineRules | undefined, value: number | null): boolean {
+  if (value === null) return false;
+  if (rules?.targetValue == null) return true;
+  return rules.comparison === 'lte' ? value <= rules.targetValue : value >= rules.targetValue;
+}
+
+/**
+ * Share of the target reached, 0 to 1. For 'lte' targets (lower is better)
+ * this is target / value, so it fills up as the value comes down.
+ */
+export function getDeadlineProgress(rules: DeadlineRules | undefined, value: number | null): number {
+  if (value === null) return 0;
+  if (hasReachedDeadlineTarget(rules, value)) return 1;
+  const target = rules?.targetValue || 0;
+  const ratio = rules?.comparison === 'lte' ? (value > 0 ? target / value : 1) : (target > 0 ? value / target : 1);
+  return Math.max(0, Math.min(1, ratio));
+}
+
+/**
+ * Outcome for every member, in rank order: members who reached the target
+ * first, then by value (higher first, or lower first for 'lte'), members
+ * without check-ins last.
+ */
+export function rankDeadlineOutcomes(
+  rules: DeadlineRules | undefined,
+  userIds: string[],
+  checkIns: DeadlineCheckIn[],
+): Array<DeadlineOutcome & { userId: string }> {
+  const byUser: Record<string, DeadlineCheckIn[]> = {};
+  for (const ci of checkIns) {
+    if (!byUser[ci.userId]) byUser[ci.userId] = [];
+    byUser[ci.userId].push(ci);
+  }
+
+  const direction = rules?.comparison === 'lte' ? 1 : -1;
+  const sorted = userIds
+    .map(userId => {
+      const value = computeDeadlineValue(rules, byUser[userId] || []);
+      return { userId, value, reached: hasReachedDeadlineTarget(rules, value) };
+    })
+    .sort((a, b) => {
+      if (a.reached !== b.reached) return a.reached ? -1 : 1;
+      if (a.value === null || b.value === null) return (a.value === null ? 1 : 0) - (b.value === null ? 1 : 0);
+      return direction * (a.value - b.value);
+    });
+
+  const ranked: Array<DeadlineOutcome & { userId: string }> = [];
+  sorted.forEach((entry, i) => {
+    const prev = ranked[i - 1];
+    const tied = prev && prev.value === entry.value && prev.reached === entry.reached;
+    ranked.push({ ...entry, rank: tied ? prev.rank : i + 1 });
+  });
+  return ranked;
+}
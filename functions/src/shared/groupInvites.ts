@@ -0,0 +1,55 @@
+/**
+ * Group invite codes and join links.
+ *
+ * An invite code is INVITE_CODE_LENGTH characters from INVITE_CODE_ALPHABET
+ * (no 0/O or 1/I/L, so it can be read out loud). Codes are stored as
+ * `groupInviteCodes/{code}` and shared as `squadcheck://join/<code>`; the app
+ * opens those links on the JoinGroup screen.
+ */
+
+export const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const INVITE_CODE_LENGTH = 8;
+
+/** Lifetimes an admin can pick for a new code */
+export const INVITE_CODE_EXPIRY_DAYS = [1, 7, 30] as const;
+export const DEFAULT_INVITE_CODE_EXPIRY_DAYS = 7;
+
+/** The app's URL scheme (app.json "scheme") */
+export const APP_URL_PREFIX = 'squadcheck://';
+export const GROUP_JOIN_LINK_PREFIX = `${APP_URL_PREFIX}join/`;
+
+const INVITE_CODE_PATTERN = new RegExp(`^[${INVITE_CODE_ALPHABET}]{${INVITE_CODE_LENGTH}}$`);
+
+/** Upper-case a typed or pasted code and drop spaces and dashes */
+export function normalizeInviteCode(raw: string): string {
+  return raw.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function isValidInviteCode(code: string): boolean {
+  return INVITE_CODE_PATTERN.test(code);
+}
+
+/**
+ * Build a code from random bytes (one per character). The alphabet has 31
+ * characters, so bytes of 248 and above are skipped to keep every character
+ * equally likely; returns null if the bytes run out first.
+ */
+export function buildInviteCode(randomBytes: ArrayLike<number>): string | null {
+  const limit = 256 - (256 % INVITE_CODE_ALPHABET.length);
+  let code = '';
+  for (let i = 0; i < randomBytes.length && code.length < INVITE_CODE_LENGTH; i++) {
+    if (randomBytes[i] < limit) code += INVITE_CODE_ALPHABET[randomBytes[i] % INVITE_CODE_ALPHABET.length];
+  }
+  return code.length === INVITE_CODE_LENGTH ? code : null;
+}
+
+export function buildGroupJoinLink(code: string): string {
+  return `${GROUP_JOIN_LINK_PREFIX}${code}`;
+}
+
+/** The code in a join link or in text pasted from an invite message, if any */
+export function parseGroupJoinCode(text: string): string | null {
+  const linkMatch = /join\/([A-Za-z0-9-]+)/.exec(text);
+  const code = normalizeInviteCode(linkMatch ? linkMatch[1] : text);
+  return isValidInviteCode(code) ? code : null;
+}
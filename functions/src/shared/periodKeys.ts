@@ -0,0 +1,604 @@
+/**
+ * Challenge period keys and due moments.
+ *
+ * This is the single source of truth for turning "now" into a challenge
+ * period key and a period key into its due moment. The app imports it through
+ * src/utils/dueTime.ts; the scheduler imports it directly. Keep it free of
+ * runtime dependencies (no firebase, no react-native) so both sides can load it.
+ *
+ * Conventions:
+ *  - Period keys are YYYY-MM-DD strings in the admin's IANA timezone.
+ *    Daily periods use the day the due moment falls on; weekly periods use
+ *    the first day of the week (per `weekStartsOn`); monthly periods use the
+ *    first of the month; interval periods ("every N days") use their first
+ *    day, counted in steps of `intervalDays` from `anchorDate`.
+ *  - Multi-day periods are due at `dueTimeLocal` on their last day.
+ *  - Daily cadences may list `activeWeekdays`; the other days are off-days
+ *    that are never judged and that streaks bridge over.
+ *  - A member's pause excuses every period it overlaps by at least one day.
+ *  - A challenge with `startsAt` is judged from the period containing that
+ *    day; a seasonal challenge stops after the period containing its
+ *    season's last day and the scheduler starts the next season.
+ *  - Keys are parsed and shifted as UTC calendar dates, never device-local
+ *    Dates, so arithmetic is immune to the device's DST.
+ *  - Wall-clock conversion goes through Intl.DateTimeFormat, which is
+ *    available in Node 18+ and Hermes.
+ */
+
+export type CadenceUnit = 'daily' | 'weekly' | 'monthly' | 'interval';
+
+export interface PeriodCadence {
+  unit?: CadenceUnit;
+  weekStartsOn?: number;
+  /** Interval cadence: period length in days */
+  intervalDays?: number;
+  /** Interval cadence: first day (YYYY-MM-DD) of the first period */
+  anchorDate?: string;
+  /** Daily cadence: weekdays with a check-in (0 = Sunday). Unset or empty = every day */
+  activeWeekdays?: number[];
+}
+
+/** Check-in `period` field that holds the period key for each cadence. */
+export type PeriodKeyField = 'dayKey' | 'weekKey' | 'periodKey';
+
+/** A member's scheduled pause: whole admin-zone days, both ends inclusive. */
+export interface MemberPause {
+  startKey: string;
+  endKey: string;
+  /** Set by the scheduler once the chat was told the pause started / ended */
+  startAnnounced?: boolean;
+  endAnnounced?: boolean;
+}
+
+/** One season of a challenge that restarts automatically. */
+export interface ChallengeSeason {
+  number: number;
+  lengthDays: number;
+  /** First and last day of the season (YYYY-MM-DD, admin timezone) */
+  startKey: string;
+  endKey: string;
+  /** Id of the first season's challenge doc, shared by all its seasons */
+  rootId?: string;
+  /** Set on a finished season once the scheduler created the next one */
+  nextSeasonId?: string;
+}
+
+export interface PeriodChallenge {
+  type?: string;
+  adminTimeZone?: string;
+  /** First day (YYYY-MM-DD, admin timezone) of a challenge announced ahead of time */
+  startsAt?: string;
+  season?: ChallengeSeason;
+  cadence?: PeriodCadence;
+  due?: { dueTimeLocal?: string; timezone?: string; timezoneOffset?: number };
+  settings?: {
+    allowLateCheckIn?: boolean;
+    lateGraceMinutes?: number;
+    disputes?: { enabled?: boolean; windowHours?: number; threshold?: number };
+    pauses?: { maxDaysPerMember?: number };
+  };
+}
+
+/** Dispute defaults when the admin enabled disputes without tuning them. */
+export const DEFAULT_DISPUTE_WINDOW_HOURS = 24;
+export const DEFAULT_DISPUTE_THRESHOLD = 2;
+/** How long after a period closes the admin has to resolve its disputes. */
+export const DISPUTE_RESOLUTION_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Wall-clock helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Get the wall-clock parts of an instant in a given IANA timezone.
+ */
+export function getWallClockInZone(
+  date: Date,
+  timeZone: string
+): { year: number; month: number; day: number; hour: number; minute: number; second: number; dayOfWeek: number } {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    weekday: 'short',
+    hour12: false,
+  });
+  const parts = formatter.formatToParts(date);
+  const get = (type: string): string => parts.find(p => p.type === type)?.value ?? '0';
+
+  const dayOfWeekMap: Record<string, number> = {
+    Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+  };
+
+  return {
+    year: parseInt(get('year'), 10),
+    month: parseInt(get('month'), 10),
+    day: parseInt(get('day'), 10),
+    hour: parseInt(get('hour'), 10) % 24, // Intl may return 24 for midnight
+    minute: parseInt(get('minute'), 10),
+    second: parseInt(get('second'), 10),
+    dayOfWeek: dayOfWeekMap[get('weekday')] ?? 0,
+  };
+}
+
+/**
+ * UTC offset in minutes of a timezone at a given instant (positive = ahead of
+ * UTC). Opposite sign to Date.getTimezoneOffset().
+ */
+function getUtcOffsetMinutes(date: Date, timeZone: string): number {
+  const wc = getWallClockInZone(date, timeZone);
+  const wallAsUtcMs = Date.UTC(wc.year, wc.month - 1, wc.day, wc.hour, wc.minute);
+  const instantMs = Math.floor(date.getTime() / 60000) * 60000;
+  return Math.round((wallAsUtcMs - instantMs) / 60000);
+}
+
+/**
+ * Convert a wall-clock date (YYYY-MM-DD) and time (HH:MM) in an IANA timezone
+ * to the absolute instant.
+ *
+ * Guesses with the offset at the start of the day, then corrects once with
+ * the offset at the guess, which handles a DST change earlier that day. A
+ * time inside a spring-forward gap matches neither offset; it resolves to the
+ * instant after the gap, i.e. the later of the two candidates.
+ */
+export function wallClockToUtc(dateStr: string, timeStr: string, timeZone: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const [hour, minute] = timeStr.split(':').map(Number);
+  const wallAsUtcMs = Date.UTC(year, month - 1, day, hour, minute, 0, 0);
+  const isWallTime = (date: Date): boolean => {
+    const wc = getWallClockInZone(date, timeZone);
+    return wc.hour === hour && wc.minute === minute && wc.day === day;
+  };
+
+  const offsetAtStartOfDay = getUtcOffsetMinutes(new Date(Date.UTC(year, month - 1, day)), timeZone);
+  const utcGuess = new Date(wallAsUtcMs - offsetAtStartOfDay * 60000);
+  if (isWallTime(utcGuess)) return utcGuess;
+
+  const actualOffset = getUtcOffsetMinutes(utcGuess, timeZone);
+  const corrected = new Date(wallAsUtcMs - actualOffset * 60000);
+  if (isWallTime(corrected)) return corrected;
+
+  return new Date(wallAsUtcMs - Math.min(offsetAtStartOfDay, actualOffset) * 60000);
+}
+
+// ---------------------------------------------------------------------------
+// Key helpers (UTC calendar arithmetic)
+// ---------------------------------------------------------------------------
+
+/** Format the UTC calendar date of `date` as YYYY-MM-DD. */
+export function getDayKey(date: Date): string {
+  const y = date.getUTCFullYear();
+  const m = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const d = String(date.getUTCDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/** Parse YYYY-MM-DD to midnight UTC of that calendar date. */
+export function parseKey(key: string): Date {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+/** Shift a calendar day key by `days`. */
+export function addDaysToKey(key: string, days: number): string {
+  const date = parseKey(key);
+  date.setUTCDate(date.getUTCDate() + days);
+  return getDayKey(date);
+}
+
+/** Shift a month key (YYYY-MM-01) by `months`. */
+export function addMonthsToKey(key: string, months: number): string {
+  const [y, m] = key.split('-').map(Number);
+  return getDayKey(new Date(Date.UTC(y, m - 1 + months, 1)));
+}
+
+function toCadence(cadence: CadenceUnit | PeriodCadence | undefined): PeriodCadence {
+  return typeof cadence === 'string' ? { unit: cadence } : cadence || {};
+}
+
+/** Period length of an interval cadence, at least one day. */
+export function getIntervalDays(cadence: PeriodCadence | undefined): number {
+  return Math.max(1, Math.floor(cadence?.intervalDays || 1));
+}
+
+/**
+ * Shift a period key by `count` periods. Interval cadences need the full
+ * cadence object for their length; a bare unit is fine for the others.
+ */
+export function shiftPeriodKey(key: string, cadence: CadenceUnit | PeriodCadence, count: number): string {
+  const c = toCadence(cadence);
+  switch (c.unit) {
+    case 'weekly':
+      return addDaysToKey(key, count * 7);
+    case 'monthly':
+      return addMonthsToKey(key, count);
+    case 'interval':
+      return addDaysToKey(key, count * getIntervalDays(c));
+    default:
+      return addDaysToKey(key, count);
+  }
+}
+
+/**
+ * Whether the period is judged at all. Only daily cadences with
+ * `activeWeekdays` have off-days; every other period is active.
+ */
+export function isActivePeriodKey(key: string, cadence: CadenceUnit | PeriodCadence | undefined): boolean {
+  const c = toCadence(cadence);
+  if (c.unit && c.unit !== 'daily') return true;
+  if (!c.activeWeekdays || c.activeWeekdays.length === 0) return true;
+  return c.activeWeekdays.includes(parseKey(key).getUTCDay());
+}
+
+/** Longest run of skipped periods getNextActivePeriodKey will walk. */
+const MAX_SKIPPED_PERIODS = 366;
+
+/** The first active period after `key`, skipping off-days and paused periods. */
+export function getNextActivePeriodKey(
+  key: string,
+  cadence: CadenceUnit | PeriodCadence,
+  pauses?: MemberPause[],
+): string {
+  const isSkipped = (k: string) => !isActivePeriodKey(k, cadence) || isPeriodPaused(pauses, k, cadence);
+  let next = shiftPeriodKey(key, cadence, 1);
+  for (let i = 0; i < MAX_SKIPPED_PERIODS && isSkipped(next); i++) {
+    next = shiftPeriodKey(next, cadence, 1);
+  }
+  return next;
+}
+
+/** Whether any of the member's pauses overlaps the period starting at `periodKey`. */
+export function isPeriodPaused(
+  pauses: MemberPause[] | undefined,
+  periodKey: string,
+  cadence: CadenceUnit | PeriodCadence | undefined,
+): boolean {
+  if (!pauses || pauses.length === 0) return false;
+  const lastDayKey = getPeriodLastDayKey(periodKey, cadence || 'daily');
+  return pauses.some(p => p.startKey <= lastDayKey && p.endKey >= periodKey);
+}
+
+/** Total paused days across the given pauses. */
+export function countPauseDays(pauses: MemberPause[] | undefined): number {
+  return (pauses || []).reduce(
+    (total, p) => total + Math.round((parseKey(p.endKey).getTime() - parseKey(p.startKey).getTime()) / 86400000) + 1,
+    0,
+  );
+}
+
+/**
+ * Next moment (UTC millis) a pause starts or ends without the chat having
+ * been told yet, or null when there is nothing left to announce. A pause
+ * starts at midnight of `startKey` and ends at midnight after `endKey`.
+ */
+export function getNextPauseEventMs(pauses: MemberPause[] | undefined, timeZone: string): number | null {
+  let next: number | null = null;
+  for (const p of pauses || []) {
+    const candidates = [
+      ...(!p.startAnnounced ? [wallClockToUtc(p.startKey, '00:00', timeZone).getTime()] : []),
+      ...(!p.endAnnounced ? [wallClockToUtc(addDaysToKey(p.endKey, 1), '00:00', timeZone).getTime()] : []),
+    ];
+    for (const ms of candidates) {
+      if (next === null || ms < next) next = ms;
+    }
+  }
+  return next;
+}
+
+/** Last calendar day (YYYY-MM-DD) of the period starting at `key`. */
+export function getPeriodLastDayKey(key: string, cadence: CadenceUnit | PeriodCadence): string {
+  const c = toCadence(cadence);
+  if (!c.unit || c.unit === 'daily') return key;
+  return addDaysToKey(shiftPeriodKey(key, c, 1), -1);
+}
+
+/** Where a check-in of the given cadence stores its period key. */
+export function getPeriodKeyField(cadenceUnit: CadenceUnit | undefined): PeriodKeyField {
+  if (cadenceUnit === 'weekly') return 'weekKey';
+  if (cadenceUnit === 'monthly' || cadenceUnit === 'interval') return 'periodKey';
+  return 'dayKey';
+}
+
+/** The period key stored on a check-in, whatever its cadence. */
+export function getCheckInPeriodKey(
+  period: { dayKey?: string; weekKey?: string; periodKey?: string } | undefined
+): string | undefined {
+  return period?.dayKey || period?.weekKey || period?.periodKey;
+}
+
+/** Today's date (YYYY-MM-DD) in the given timezone. */
+export function getAdminZoneDayKey(timeZone: string, now: Date = new Date()): string {
+  const wc = getWallClockInZone(now, timeZone);
+  return `${wc.year}-${String(wc.month).padStart(2, '0')}-${String(wc.day).padStart(2, '0')}`;
+}
+
+/** Start-of-week date (YYYY-MM-DD) in the given timezone. */
+export function getAdminZoneWeekKey(timeZone: string, weekStartsOn: number = 0, now: Date = new Date()): string {
+  const wc = getWallClockInZone(now, timeZone);
+  let daysToSubtract = wc.dayOfWeek - weekStartsOn;
+  if (daysToSubtract < 0) daysToSubtract += 7;
+  return getDayKey(new Date(Date.UTC(wc.year, wc.month - 1, wc.day - daysToSubtract)));
+}
+
+/** First of the current month (YYYY-MM-01) in the given timezone. */
+export function getAdminZoneMonthKey(timeZone: string, now: Date = new Date()): string {
+  const wc = getWallClockInZone(now, timeZone);
+  return `${wc.year}-${String(wc.month).padStart(2, '0')}-01`;
+}
+
+/**
+ * First day of the interval period containing today in the given timezone.
+ * Periods are counted from `anchorDate` in steps of `intervalDays`; without
+ * an anchor they are counted from 1970-01-01.
+ */
+export function getAdminZoneIntervalKey(timeZone: string, cadence: PeriodCadence, now: Date = new Date()): string {
+  const anchorKey = cadence.anchorDate || '1970-01-01';
+  const days = getIntervalDays(cadence);
+  const todayKey = getAdminZoneDayKey(timeZone, now);
+  const elapsedDays = Math.round((parseKey(todayKey).getTime() - parseKey(anchorKey).getTime()) / 86400000);
+  return addDaysToKey(anchorKey, Math.floor(elapsedDays / days) * days);
+}
+
+/**
+ * Calendar period containing today: the day itself for daily cadences, else
+ * the first day of the week, month or interval.
+ */
+export function getAdminZonePeriodKey(
+  timeZone: string,
+  cadence: CadenceUnit | PeriodCadence,
+  now: Date = new Date()
+): string {
+  const c = toCadence(cadence);
+  switch (c.unit) {
+    case 'weekly':
+      return getAdminZoneWeekKey(timeZone, c.weekStartsOn ?? 0, now);
+    case 'monthly':
+      return getAdminZoneMonthKey(timeZone, now);
+    case 'interval':
+      return getAdminZoneIntervalKey(timeZone, c, now);
+    default:
+      return getAdminZoneDayKey(timeZone, now);
+  }
+}
+
+/** Period containing the given calendar day (YYYY-MM-DD). */
+export function getPeriodKeyForDay(dayKey: string, cadence: CadenceUnit | PeriodCadence): string {
+  return getAdminZonePeriodKey('UTC', cadence, parseKey(dayKey));
+}
+
+// ---------------------------------------------------------------------------
+// Due moments
+// ---------------------------------------------------------------------------
+
+/** Due moment of a daily period: `dueTimeLocal` on `dayKey` in the timezone. */
+export function computeDueMomentUtcForDay(timeZone: string, dayKey: string, dueTimeLocal: string): Date {
+  return wallClockToUtc(dayKey, dueTimeLocal, timeZone);
+}
+
+/**
+ * Due moment of a weekly period: `dueTimeLocal` on the last day of the week
+ * (six days after `weekKey`). `weekStartsOn` is implied by the key itself.
+ */
+export function computeWeeklyDueMomentUtc(
+  timeZone: string,
+  weekKey: string,
+  dueTimeLocal: string,
+  _weekStartsOn?: number
+): Date {
+  return wallClockToUtc(addDaysToKey(weekKey, 6), dueTimeLocal, timeZone);
+}
+
+/** Due moment of a period of any cadence: `dueTimeLocal` on its last day. */
+export function computePeriodDueMomentUtc(
+  timeZone: string,
+  periodKey: string,
+  dueTimeLocal: string,
+  cadence: CadenceUnit | PeriodCadence
+): Date {
+  return wallClockToUtc(getPeriodLastDayKey(periodKey, cadence), dueTimeLocal, timeZone);
+}
+
+// ---------------------------------------------------------------------------
+// Current / previous period
+// ---------------------------------------------------------------------------
+
+/**
+ * Current daily period key. Once today's due moment has passed the open
+ * period is tomorrow's.
+ */
+export function getCurrentPeriodDayKey(timeZone: string, dueTimeLocal: string = '23:59', now: Date = new Date()): string {
+  const todayKey = getAdminZoneDayKey(timeZone, now);
+  const todayDue = computeDueMomentUtcForDay(timeZone, todayKey, dueTimeLocal);
+  return now.getTime() >= todayDue.getTime() ? addDaysToKey(todayKey, 1) : todayKey;
+}
+
+/** Current weekly period key (start of the calendar week in the timezone). */
+export function getCurrentPeriodWeekKey(timeZone: string, weekStartsOn: number = 0, now: Date = new Date()): string {
+  return getAdminZoneWeekKey(timeZone, weekStartsOn, now);
+}
+
+/** The daily period that most recently closed. */
+export function getPreviousPeriodDayKey(timeZone: string, dueTimeLocal: string = '23:59', now: Date = new Date()): string {
+  return addDaysToKey(getCurrentPeriodDayKey(timeZone, dueTimeLocal, now), -1);
+}
+
+/** The weekly period before the current one. */
+export function getPreviousPeriodWeekKey(timeZone: string, weekStartsOn: number = 0, now: Date = new Date()): string {
+  return addDaysToKey(getAdminZoneWeekKey(timeZone, weekStartsOn, now), -7);
+}
+
+/**
+ * Next due moment (UTC millis) strictly after `now`.
+ * Used to set `nextDueAtUtc` on the challenge document for scheduler queries.
+ */
+export function computeNextDueAtUtc(
+  timeZone: string,
+  dueTimeLocal: string = '23:59',
+  cadence: CadenceUnit | PeriodCadence,
+  weekStartsOn: number = 0,
+  now: Date = new Date()
+): number {
+  const c = { weekStartsOn, ...toCadence(cadence) };
+  const currentKey = getAdminZonePeriodKey(timeZone, c, now);
+  const currentDue = computePeriodDueMomentUtc(timeZone, currentKey, dueTimeLocal, c);
+  if (now.getTime() < currentDue.getTime()) return currentDue.getTime();
+
+  const nextKey = shiftPeriodKey(currentKey, c, 1);
+  return computePeriodDueMomentUtc(timeZone, nextKey, dueTimeLocal, c).getTime();
+}
+
+/** Whether the due moment of `periodKey` has passed at `now`. */
+export function hasPeriodDuePassed(
+  timeZone: string,
+  periodKey: string,
+  dueTimeLocal: string,
+  cadence: CadenceUnit | PeriodCadence,
+  now: Date = new Date()
+): boolean {
+  return now.getTime() >= computePeriodDueMomentUtc(timeZone, periodKey, dueTimeLocal, cadence).getTime();
+}
+
+// ---------------------------------------------------------------------------
+// Challenge-level helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve the admin timezone for a challenge, with fallbacks for legacy data.
+ * Priority: adminTimeZone > due.timezone > 'UTC'.
+ */
+export function resolveAdminTimeZone(challenge: {
+  adminTimeZone?: string;
+  due?: { timezone?: string; timezoneOffset?: number };
+}): string {
+  if (challenge.adminTimeZone) return challenge.adminTimeZone;
+  if (challenge.due?.timezone) return challenge.due.timezone;
+  return 'UTC';
+}
+
+/**
+ * The period a submission at `now` belongs to. Deadline challenges key daily
+ * check-ins by calendar day rather than by due time.
+ */
+export function getCurrentPeriodKey(challenge: PeriodChallenge, now: Date = new Date()): string {
+  const timeZone = resolveAdminTimeZone(challenge);
+  if (challenge.cadence?.unit && challenge.cadence.unit !== 'daily') {
+    return getAdminZonePeriodKey(timeZone, challenge.cadence, now);
+  }
+  if (challenge.type === 'deadline') {
+    return getAdminZoneDayKey(timeZone, now);
+  }
+  return getCurrentPeriodDayKey(timeZone, challenge.due?.dueTimeLocal ?? '23:59', now);
+}
+
+/** The period before the current one — the one the scheduler evaluates. */
+export function getPreviousPeriodKey(challenge: PeriodChallenge, now: Date = new Date()): string {
+  const timeZone = resolveAdminTimeZone(challenge);
+  if (challenge.cadence?.unit && challenge.cadence.unit !== 'daily') {
+    return shiftPeriodKey(getAdminZonePeriodKey(timeZone, challenge.cadence, now), challenge.cadence, -1);
+  }
+  return getPreviousPeriodDayKey(timeZone, challenge.due?.dueTimeLocal ?? '23:59', now);
+}
+
+/** Due moment of a period of the given challenge. */
+export function getPeriodDueMoment(challenge: PeriodChallenge, periodKey: string): Date {
+  return computePeriodDueMomentUtc(
+    resolveAdminTimeZone(challenge),
+    periodKey,
+    challenge.due?.dueTimeLocal ?? '23:59',
+    challenge.cadence || 'daily'
+  );
+}
+
+/** Whether a challenge announced with `startsAt` has begun. */
+export function hasChallengeStarted(challenge: PeriodChallenge, now: Date = new Date()): boolean {
+  if (!challenge.startsAt) return true;
+  return getAdminZoneDayKey(resolveAdminTimeZone(challenge), now) >= challenge.startsAt;
+}
+
+/** First period of a challenge announced with `startsAt`, or null. */
+export function getStartPeriodKey(challenge: PeriodChallenge): string | null {
+  if (!challenge.startsAt) return null;
+  return getPeriodKeyForDay(challenge.startsAt, challenge.cadence || 'daily');
+}
+
+/** Last period of the challenge's season, or null when it has no seasons. */
+export function getSeasonFinalPeriodKey(challenge: PeriodChallenge): string | null {
+  if (!challenge.season?.endKey) return null;
+  return getPeriodKeyForDay(challenge.season.endKey, challenge.cadence || 'daily');
+}
+
+/**
+ * Length of the late check-in window after each due moment. Zero unless the
+ * admin enabled late check-ins; the scheduler waits this long before judging
+ * a period so late submissions are never counted as misses.
+ */
+export function getLateGraceMs(challenge: PeriodChallenge): number {
+  if (!challenge.settings?.allowLateCheckIn) return 0;
+  return Math.max(0, challenge.settings.lateGraceMinutes || 0) * 60 * 1000;
+}
+
+/**
+ * The previous period's key if `now` falls inside its late window, else null.
+ * Deadline challenges and off-days have no late window.
+ */
+export function getLatePeriodKey(challenge: PeriodChallenge, now: Date = new Date()): string | null {
+  const graceMs = getLateGraceMs(challenge);
+  if (graceMs === 0 || challenge.type === 'deadline') return null;
+  const previousKey = getPreviousPeriodKey(challenge, now);
+  if (!isActivePeriodKey(previousKey, challenge.cadence)) return null;
+  const dueMs = getPeriodDueMoment(challenge, previousKey).getTime();
+  return now.getTime() < dueMs + graceMs ? previousKey : null;
+}
+
+/**
+ * Moment after which a check-in in `periodKey` can no longer be edited or
+ * retracted: the period's due moment, or the end of its late window for late
+ * check-ins. Deadline challenges key check-ins by calendar day, so theirs
+ * close at the next midnight or at the deadline, whichever comes first.
+ */
+export function getCheckInEditDeadline(
+  challenge: PeriodChallenge,
+  periodKey: string,
+  late: boolean = false,
+  deadlineDate?: string,
+): Date {
+  if (challenge.type === 'deadline') {
+    const timeZone = resolveAdminTimeZone(challenge);
+    const endOfDay = wallClockToUtc(addDaysToKey(periodKey, 1), '00:00', timeZone);
+    if (!deadlineDate) return endOfDay;
+    const deadline = wallClockToUtc(deadlineDate, challenge.due?.dueTimeLocal ?? '23:59', timeZone);
+    return deadline.getTime() < endOfDay.getTime() ? deadline : endOfDay;
+  }
+  const graceMs = late ? getLateGraceMs(challenge) : 0;
+  return new Date(getPeriodDueMoment(challenge, periodKey).getTime() + graceMs);
+}
+
+/**
+ * Moment after which members can no longer dispute a check-in: `windowHours`
+ * after it was submitted, but never past the moment its period is judged
+ * (due + late grace, or the deadline) so the scheduler always sees the
+ * dispute. Null when the challenge doesn't allow disputes.
+ */
+export function getDisputeDeadline(
+  challenge: PeriodChallenge,
+  periodKey: string,
+  createdAtMs: number,
+  deadlineDate?: string,
+): Date | null {
+  const disputes = challenge.settings?.disputes;
+  if (!disputes?.enabled) return null;
+  const windowMs = Math.max(1, disputes.windowHours || DEFAULT_DISPUTE_WINDOW_HOURS) * 60 * 60 * 1000;
+  let closesAt: number;
+  if (challenge.type === 'deadline') {
+    closesAt = deadlineDate
+      ? wallClockToUtc(deadlineDate, challenge.due?.dueTimeLocal ?? '23:59', resolveAdminTimeZone(challenge)).getTime()
+      : Infinity;
+  } else {
+    closesAt = getPeriodDueMoment(challenge, periodKey).getTime() + getLateGraceMs(challenge);
+  }
+  return new Date(Math.min(createdAtMs + windowMs, closesAt));
+}
@@ -0,0 +1,87 @@
+/**
+ * Photo proof integrity checks.
+ *
+ * When a member attaches a photo the app records where it came from, when it
+ * was taken (the camera's clock, or the library photo's EXIF time) and a
+ * 64-bit perceptual hash (dHash, 16 hex digits). submitCheckIn flags the
+ * check-in when:
+ *  - 'outsidePeriod': a photo was taken before the period started or after
+ *    the check-in was made.
+ *  - 'duplicate': a photo's hash is within DUPLICATE_HASH_MAX_DISTANCE bits
+ *    of a photo on another check-in in the same challenge.
+ * Flags don't reject the check-in; the group sees a warning and can dispute it.
+ *
+ * Challenges with `submission.liveCaptureOnly` only accept photos taken with
+ * the in-app camera (`live`) shortly before the check-in; submitCheckIn marks
+ * those attachments `verifiedLive`.
+ */
+
+export type PhotoSource = 'camera' | 'library';
+
+export interface PhotoCaptureMeta {
+  source: PhotoSource;
+  /** Epoch ms; missing when a library photo has no EXIF time */
+  capturedAt?: number;
+  /** dHash, 16 lowercase hex digits */
+  hash?: string;
+  /** Taken with the in-app camera, which can't pick from the library */
+  live?: boolean;
+}
+
+export type PhotoIntegrityFlag = 'outsidePeriod' | 'duplicate';
+
+export interface PhotoIntegrity {
+  flags: PhotoIntegrityFlag[];
+  /** Check-in whose photo this one matched */
+  duplicateOf?: string;
+}
+
+export const PHOTO_HASH_PATTERN = /^[0-9a-f]{16}$/;
+export const DUPLICATE_HASH_MAX_DISTANCE = 6;
+/** How long before a check-in a live photo may have been taken */
+export const LIVE_CAPTURE_MAX_AGE_MS = 15 * 60 * 1000;
+const LIVE_CAPTURE_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/** Number of differing bits between two hashes. */
+export function getHashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+}
+
+/**
+ * Flags for a check-in's photos. `window` is the span the photos must have
+ * been taken in; `previous` are the hashes of the challenge's other check-ins.
+ */
+export function assessPhotoIntegrity(
+  photos: PhotoCaptureMeta[],
+  window: { start: number; end: number },
+  previous: Array<{ checkInId: string; hashes: string[] }>,
+): PhotoIntegrity {
+  const flags: PhotoIntegrityFlag[] = [];
+  if (photos.some(p => p.capturedAt !== undefined && (p.capturedAt < window.start || p.capturedAt > window.end))) {
+    flags.push('outsidePeriod');
+  }
+
+  const hashes = photos.map(p => p.hash).filter((h): h is string => !!h);
+  const match = previous.find(prev =>
+    prev.hashes.some(h => hashes.some(hash => getHashDistance(h, hash) <= DUPLICATE_HASH_MAX_DISTANCE)));
+  if (match) flags.push('duplicate');
+
+  return match ? { flags, duplicateOf: match.checkInId } : { flags };
+}
+
+/** Whether a photo counts as a live capture for a check-in made at `checkInAt`. */
+export function isLiveCapture(meta: PhotoCaptureMeta | undefined, checkInAt: number): boolean {
+  if (!meta?.live || meta.source !== 'camera' || meta.capturedAt === undefined) return false;
+  return meta.capturedAt >= checkInAt - LIVE_CAPTURE_MAX_AGE_MS
+    && meta.capturedAt <= checkInAt + LIVE_CAPTURE_CLOCK_SKEW_MS;
+}
+
+export function getPhotoIntegrityLabel(flag: PhotoIntegrityFlag): string {
+  return flag === 'duplicate' ? 'Photo used before' : 'Photo taken outside this period';
+}
@@ -0,0 +1,115 @@
+/**
+ * Progress challenge targets.
+ *
+ * A progress challenge raises its target in steps counted from
+ * `rules.progress.anchorDate` (the challenge's first day in the admin's
+ * timezone):
+ *  - 'day' / 'week' steps last 1 / 7 days; 'interval' steps last `intervalDays`.
+ *  - Each step adds `increaseBy` (negative for 'lte' challenges that get
+ *    harder by going down) until the target reaches `cap`.
+ *  - With `deload`, every `everySteps`-th step is a lighter one that keeps
+ *    only `percent` of the progress made so far. Deload steps don't advance
+ *    the progression; the step after one picks up where the last full step
+ *    left off.
+ * A period's target is the target of the step its first day falls in. The
+ * scheduler stores it on each check-in (`computed.targetValue`) and announces
+ * every new step in the group chat.
+ */
+
+import { addDaysToKey, parseKey } from './periodKeys';
+
+export type ProgressionStepUnit = 'day' | 'week' | 'interval';
+
+export interface ProgressionRules {
+  startsAt: number;
+  increaseBy: number;
+  increaseUnit: ProgressionStepUnit;
+  intervalDays?: number;        // 'interval' steps
+  comparison: 'gte' | 'lte';
+  cap?: number;
+  deload?: { everySteps: number; percent: number };
+  anchorDate?: string;          // YYYY-MM-DD in the admin's timezone
+}
+
+export interface ProgressionStep {
+  index: number;
+  /** First day of the step (YYYY-MM-DD) */
+  startKey: string;
+  target: number;
+  isDeload: boolean;
+}
+
+export const DEFAULT_DELOAD_PERCENT = 50;
+export const MAX_PROGRESSION_INTERVAL_DAYS = 90;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Length of one progression step in days. */
+export function getProgressionStepDays(rules: ProgressionRules): number {
+  if (rules.increaseUnit === 'day') return 1;
+  if (rules.increaseUnit === 'interval') {
+    return Math.min(MAX_PROGRESSION_INTERVAL_DAYS, Math.max(1, Math.floor(rules.intervalDays || 1)));
+  }
+  return 7;
+}
+
+/** Step that `dayKey` falls in; days before the anchor belong to step 0. */
+export function getProgressionStepIndex(rules: ProgressionRules, anchorKey: string, dayKey: string): number {
+  const days = Math.round((parseKey(dayKey).getTime() - parseKey(anchorKey).getTime()) / MS_PER_DAY);
+  return Math.max(0, Math.floor(days / getProgressionStepDays(rules)));
+}
+
+function isDeloadStep(rules: ProgressionRules, index: number): boolean {
+  const every = Math.floor(rules.deload?.everySteps || 0);
+  return every >= 2 && (index + 1) % every === 0;
+}
+
+function roundTarget(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Target of step `index`. */
+export function getProgressionTargetForStep(rules: ProgressionRules, index: number): number {
+  const every = Math.floor(rules.deload?.everySteps || 0);
+  const deloadsBefore = every >= 2 ? Math.floor(index / every) : 0;
+  let target = rules.startsAt + (index - deloadsBefore) * rules.increaseBy;
+  if (rules.cap != null) {
+    target = rules.increaseBy >= 0 ? Math.min(target, rules.cap) : Math.max(target, rules.cap);
+  }
+  if (isDeloadStep(rules, index)) {
+    const percent = rules.deload?.percent ?? DEFAULT_DELOAD_PERCENT;
+    target = rules.startsAt + (target - rules.startsAt) * percent / 100;
+  }
+  return roundTarget(target);
+}
+
+/** Target for the period whose first day is `periodKey`. */
+export function getProgressionTarget(rules: ProgressionRules, anchorKey: string, periodKey: string): number {
+  return getProgressionTargetForStep(rules, getProgressionStepIndex(rules, anchorKey, periodKey));
+}
+
+/** The step containing `dayKey` followed by the next `count - 1` steps. */
+export function getUpcomingProgressionSteps(
+  rules: ProgressionRules,
+  anchorKey: string,
+  dayKey: string,
+  count: number,
+): ProgressionStep[] {
+  const stepDays = getProgressionStepDays(rules);
+  const first = getProgressionStepIndex(rules, anchorKey, dayKey);
+  const steps: ProgressionStep[] = [];
+  for (let index = first; index < first + count; index++) {
+    steps.push({
+      index,
+      startKey: addDaysToKey(anchorKey, index * stepDays),
+      target: getProgressionTargetForStep(rules, index),
+      isDeload: isDeloadStep(rules, index),
+    });
+  }
+  return steps;
+}
+
+/** Whether `value` meets `target` under the challenge's comparison. */
+export function meetsProgressionTarget(rules: ProgressionRules, value: number, target: number): boolean {
+  return rules.comparison === 'lte' ? value <= target : value >= target;
+}
@@ -0,0 +1,39 @@
+/**
+ * Chat message reactions.
+ *
+ * Reactions are stored per message as `reactions: { [userId]: emoji }`, one
+ * per member. Messages from before reactions keep `upvotedBy` / `downvotedBy`,
+ * which read as 👍 / 👎. The onMessageReaction trigger awards the author XP
+ * the first time each member reacts positively.
+ */
+
+export const THUMBS_UP_REACTION = '👍';
+export const THUMBS_DOWN_REACTION = '👎';
+
+/** Reactions that award the author XP (everything but 👎) */
+export const isPositiveReaction = (emoji: string): boolean => emoji !== THUMBS_DOWN_REACTION;
+
+export interface ReactionFields {
+  reactions?: Record<string, string>;
+  upvotedBy?: string[];
+  downvotedBy?: string[];
+}
+
+/** Reactions with the votes of messages from before reactions folded in as 👍 / 👎 */
+export function getMessageReactions(data: ReactionFields): Record<string, string> {
+  const reactions: Record<string, string> = {};
+  for (const id of data.upvotedBy || []) reactions[id] = THUMBS_UP_REACTION;
+  for (const id of data.downvotedBy || []) reactions[id] = THUMBS_DOWN_REACTION;
+  return { ...reactions, ...(data.reactions || {}) };
+}
+
+/**
+ * Members whose reaction went from none or 👎 to a positive one between two
+ * versions of a message, like the old upvote.
+ */
+export function getNewPositiveReactors(before: ReactionFields, after: ReactionFields): string[] {
+  const previous = getMessageReactions(before);
+  return Object.entries(getMessageReactions(after))
+    .filter(([userId, emoji]) => isPositiveReaction(emoji) && !(previous[userId] && isPositiveReaction(previous[userId])))
+    .map(([userId]) => userId);
+}
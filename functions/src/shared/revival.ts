@@ -0,0 +1,41 @@
+/**
+ * Elimination revival rules.
+ *
+ * An elimination challenge can let eliminated members back in through
+ * `rules.elimination.revival`:
+ *  - 'buyBack': the eliminated member spends `xpCost` XP to return.
+ *  - 'vote': the remaining members vote; `votesNeeded` votes (by default a
+ *    majority of the active members) bring the member back.
+ * A revived member returns with the maximum strikes, so their next miss
+ * eliminates them again. Each member can be revived at most `maxPerMember`
+ * times.
+ */
+
+export type RevivalMode = 'buyBack' | 'vote';
+
+export interface RevivalRules {
+  mode: RevivalMode;
+  maxPerMember: number;
+  xpCost?: number;        // buyBack, default DEFAULT_REVIVAL_XP_COST
+  votesNeeded?: number;   // vote, default a majority of active members
+}
+
+export const DEFAULT_REVIVAL_XP_COST = 100;
+export const MAX_REVIVALS_PER_MEMBER = 3;
+
+export function getRevivalXpCost(rules: RevivalRules): number {
+  return Math.max(0, Math.floor(rules.xpCost ?? DEFAULT_REVIVAL_XP_COST));
+}
+
+/** Votes that revive a member while `activeCount` members are still in. */
+export function getRevivalVotesNeeded(rules: RevivalRules, activeCount: number): number {
+  if (rules.votesNeeded && rules.votesNeeded > 0) return Math.floor(rules.votesNeeded);
+  return Math.floor(activeCount / 2) + 1;
+}
+
+/** Revivals a member has left; 0 when the challenge has no revival rule. */
+export function getRevivalsLeft(rules: RevivalRules | undefined, revivalsUsed: number | undefined): number {
+  if (!rules) return 0;
+  const max = Math.min(MAX_REVIVALS_PER_MEMBER, Math.max(0, Math.floor(rules.maxPerMember || 0)));
+  return Math.max(0, max - (revivalsUsed || 0));
+}
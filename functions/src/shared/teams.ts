@@ -0,0 +1,128 @@
+/**
+ * Team challenge scoring.
+ *
+ * A team challenge splits its members into teams (`challengeMembers.teamId`)
+ * and judges each team once per period against `rules.team`:
+ *  - 'percent': the team succeeds when at least `completionPercent` of its
+ *    members completed the period's required check-ins.
+ *  - 'sum': the team succeeds when the numbers its members submitted during
+ *    the period add up to `targetValue`.
+ * The scheduler adds one to `teamScores[teamId].periodsWon` for each success;
+ * the app uses the same functions to show live progress for the current period.
+ */
+
+export interface TeamDefinition {
+  id: string;
+  name: string;
+}
+
+export interface TeamRules {
+  teams: TeamDefinition[];
+  successMode: 'percent' | 'sum';
+  completionPercent?: number;   // percent mode, default DEFAULT_TEAM_COMPLETION_PERCENT
+  targetValue?: number;         // sum mode
+}
+
+export interface TeamScore {
+  periodsWon: number;
+  periodsPlayed: number;
+}
+
+export interface TeamPeriodResult {
+  teamId: string;
+  memberCount: number;
+  /** Members who met the period's required check-in count */
+  completedCount: number;
+  /** Sum of submitted numbers (sum mode; 0 otherwise) */
+  total: number;
+  succeeded: boolean;
+}
+
+export const DEFAULT_TEAM_COMPLETION_PERCENT = 80;
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 6;
+
+/**
+ * Score every team for one period. `members` are the members judged on the
+ * period; members without a team are ignored. Teams with no judged members
+ * neither succeed nor fail and are left out.
+ */
+export function scoreTeamPeriod(
+  rules: TeamRules,
+  members: Array<{ userId: string; teamId?: string }>,
+  completedCountByUser: Record<string, number>,
+  sumByUser: Record<string, number>,
+  requiredCount: number,
+): TeamPeriodResult[] {
+  const results: TeamPeriodResult[] = [];
+  for (const team of rules.teams) {
+    const teamMembers = members.filter(m => m.teamId === team.id);
+    if (teamMembers.length === 0) continue;
+
+    const completedCount = teamMembers.filter(m => (completedCountByUser[m.userId] || 0) >= requiredCount).length;
+    const total = rules.successMode === 'sum'
+      ? teamMembers.reduce((acc, m) => acc + (sumByUser[m.userId] || 0), 0)
+      : 0;
+
+    let succeeded: boolean;
+    if (rules.successMode === 'sum') {
+      succeeded = total >= (rules.targetValue || 0);
+    } else {
+      const percent = rules.completionPercent ?? DEFAULT_TEAM_COMPLETION_PERCENT;
+      succeeded = completedCount * 100 >= percent * teamMembers.length;
+    }
+
+    results.push({ teamId: team.id, memberCount: teamMembers.length, completedCount, total, succeeded });
+  }
+  return results;
+}
+
+/**
+ * Teams ordered for the leaderboard: most periods won, then best win rate,
+ * then name. Ties share a rank.
+ */
+export function rankTeams(
+  teams: TeamDefinition[],
+  teamScores: Record<string, TeamScore> | undefined,
+): Array<TeamDefinition & TeamScore & { rank: number }> {
+  const sorted = teams
+    .map(team => ({
+      ...team,
+      periodsWon: teamScores?.[team.id]?.periodsWon || 0,
+      periodsPlayed: teamScores?.[team.id]?.periodsPlayed || 0,
+    }))
+    .sort((a, b) =>
+      b.periodsWon - a.periodsWon
+      || winRate(b) - winRate(a)
+      || a.name.localeCompare(b.name)
+    );
+
+  const ranked: Array<TeamDefinition & TeamScore & { rank: number }> = [];
+  sorted.forEach((team, i) => {
+    const prev = ranked[i - 1];
+    const tied = prev && prev.periodsWon === team.periodsWon && winRate(prev) === winRate(team);
+    ranked.push({ ...team, rank: tied ? prev.rank : i + 1 });
+  });
+  return ranked;
+}
+
+/**
+ * Split members into `teams` as evenly as possible, in random order.
+ * Returns userId -> teamId.
+ */
+export function assignTeamsEvenly(userIds: string[], teams: TeamDefinition[]): Record<string, string> {
+  const shuffled = [...userIds];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  const assignments: Record<string, string> = {};
+  shuffled.forEach((userId, i) => {
+    assignments[userId] = teams[i % teams.length].id;
+  });
+  return assignments;
+}
+
+function winRate(score: TeamScore): number {
+  return score.periodsPlayed > 0 ? score.periodsWon / score.periodsPlayed : 0;
+}
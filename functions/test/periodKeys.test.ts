@@ -0,0 +1,321 @@
+import { describe, expect, it } from '@jest/globals';
+import fc from 'fast-check';
+import {
+  PeriodCadence,
+  PeriodChallenge,
+  addDaysToKey,
+  addMonthsToKey,
+  computeNextDueAtUtc,
+  getAdminZoneDayKey,
+  getAdminZonePeriodKey,
+  getCheckInEditDeadline,
+  getCurrentPeriodKey,
+  getLateGraceMs,
+  getLatePeriodKey,
+  getNextActivePeriodKey,
+  getPeriodDueMoment,
+  getPeriodLastDayKey,
+  getPreviousPeriodKey,
+  getWallClockInZone,
+  isActivePeriodKey,
+  parseKey,
+  shiftPeriodKey,
+  wallClockToUtc,
+} from '../src/shared/periodKeys';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Every zone the runtime knows, since the app accepts any device zone */
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+/** Days with a DST change in America, Europe, Lord Howe or Auckland */
+const DST_DAY_KEYS = [
+  '2024-03-10', '2024-11-03', // America
+  '2024-03-31', '2024-10-27', // Europe
+  '2024-04-07', '2024-10-06', // Lord Howe (Auckland also ends DST on 04-07)
+  '2024-09-29', // Auckland
+];
+
+const timeZoneArb = fc.constantFrom(...TIME_ZONES);
+
+const dayKeyArb = fc.integer({ min: 0, max: 40 * 366 }).map(n => addDaysToKey('2000-01-01', n));
+
+const dueTimeArb = fc
+  .tuple(fc.integer({ min: 0, max: 23 }), fc.integer({ min: 0, max: 59 }))
+  .map(([h, m]) => `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`);
+
+const instantArb = fc
+  .integer({ min: Date.UTC(2000, 0, 1), max: Date.UTC(2040, 0, 1) })
+  .map(ms => new Date(ms));
+
+/** Instants within a day and a half of a DST change */
+const dstInstantArb = fc
+  .tuple(fc.constantFrom(...DST_DAY_KEYS), fc.integer({ min: -36 * 60, max: 36 * 60 }))
+  .map(([key, minutes]) => new Date(parseKey(key).getTime() + minutes * 60000));
+
+const anyInstantArb = fc.oneof(instantArb, dstInstantArb);
+
+const weekdaysArb = fc.uniqueArray(fc.integer({ min: 0, max: 6 }), { minLength: 1, maxLength: 7 });
+
+const cadenceArb: fc.Arbitrary<PeriodCadence> = fc.oneof(
+  fc.constant<PeriodCadence>({ unit: 'daily' }),
+  weekdaysArb.map<PeriodCadence>(activeWeekdays => ({ unit: 'daily', activeWeekdays })),
+  fc.integer({ min: 0, max: 6 }).map<PeriodCadence>(weekStartsOn => ({ unit: 'weekly', weekStartsOn })),
+  fc.constant<PeriodCadence>({ unit: 'monthly' }),
+  fc
+    .tuple(fc.integer({ min: 1, max: 30 }), dayKeyArb)
+    .map<PeriodCadence>(([intervalDays, anchorDate]) => ({ unit: 'interval', intervalDays, anchorDate })),
+);
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((parseKey(to).getTime() - parseKey(from).getTime()) / DAY_MS);
+
+const weekdayOf = (key: string): number => parseKey(key).getUTCDay();
+
+/** UTC offset of `timeZone` at `date`, in minutes */
+const offsetMinutesAt = (date: Date, timeZone: string): number => {
+  const wc = getWallClockInZone(date, timeZone);
+  const wallAsUtcMs = Date.UTC(wc.year, wc.month - 1, wc.day, wc.hour, wc.minute);
+  return Math.round((wallAsUtcMs - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+};
+
+/** Wall times inside a spring-forward gap */
+const DST_GAP_EXAMPLES: [string, string, string][] = [
+  ['2024-03-10', '02:00', 'America/Los_Angeles'],
+  ['2024-03-10', '02:30', 'America/New_York'],
+  ['2024-03-31', '02:15', 'Europe/Berlin'],
+  ['2024-03-31', '01:30', 'Europe/London'],
+  ['2024-10-06', '02:15', 'Australia/Lord_Howe'],
+  ['2024-09-29', '02:00', 'Pacific/Auckland'],
+];
+
+describe('day keys', () => {
+  it('shifting by n days and back returns the same key', () => {
+    fc.assert(
+      fc.property(dayKeyArb, fc.integer({ min: -1000, max: 1000 }), (key, n) => {
+        const shifted = addDaysToKey(key, n);
+        expect(daysBetween(key, shifted)).toBe(n);
+        expect(addDaysToKey(shifted, -n)).toBe(key);
+      }),
+    );
+  });
+});
+
+describe('weekday cadences', () => {
+  it('only the listed weekdays are active', () => {
+    fc.assert(
+      fc.property(dayKeyArb, weekdaysArb, (key, activeWeekdays) => {
+        expect(isActivePeriodKey(key, { unit: 'daily', activeWeekdays })).toBe(activeWeekdays.includes(weekdayOf(key)));
+      }),
+    );
+  });
+
+  it('every day is active without activeWeekdays', () => {
+    fc.assert(
+      fc.property(dayKeyArb, key => {
+        expect(isActivePeriodKey(key, { unit: 'daily' })).toBe(true);
+        expect(isActivePeriodKey(key, { unit: 'daily', activeWeekdays: [] })).toBe(true);
+      }),
+    );
+  });
+
+  it('the next active day skips exactly the off-days in between', () => {
+    fc.assert(
+      fc.property(dayKeyArb, weekdaysArb, (key, activeWeekdays) => {
+        const cadence: PeriodCadence = { unit: 'daily', activeWeekdays };
+        const next = getNextActivePeriodKey(key, cadence);
+        const gap = daysBetween(key, next);
+        expect(gap).toBeGreaterThanOrEqual(1);
+        expect(gap).toBeLessThanOrEqual(7);
+        expect(isActivePeriodKey(next, cadence)).toBe(true);
+        for (let i = 1; i < gap; i++) {
+          expect(isActivePeriodKey(addDaysToKey(key, i), cadence)).toBe(false);
+        }
+      }),
+    );
+  });
+});
+
+describe('weekly keys', () => {
+  it('start on weekStartsOn and contain today', () => {
+    fc.assert(
+      fc.property(anyInstantArb, timeZoneArb, fc.integer({ min: 0, max: 6 }), (now, timeZone, weekStartsOn) => {
+        const weekKey = getAdminZonePeriodKey(timeZone, { unit: 'weekly', weekStartsOn }, now);
+        const todayKey = getAdminZoneDayKey(timeZone, now);
+        expect(weekdayOf(weekKey)).toBe(weekStartsOn);
+        expect(weekKey <= todayKey).toBe(true);
+        expect(todayKey <= getPeriodLastDayKey(weekKey, 'weekly')).toBe(true);
+      }),
+    );
+  });
+
+  it('shift by whole weeks', () => {
+    fc.assert(
+      fc.property(dayKeyArb, fc.integer({ min: -200, max: 200 }), (key, n) => {
+        const shifted = shiftPeriodKey(key, 'weekly', n);
+        expect(daysBetween(key, shifted)).toBe(n * 7);
+        expect(shiftPeriodKey(shifted, 'weekly', -n)).toBe(key);
+      }),
+    );
+  });
+});
+
+describe('monthly keys', () => {
+  it('are the first of the month containing today', () => {
+    fc.assert(
+      fc.property(anyInstantArb, timeZoneArb, (now, timeZone) => {
+        const monthKey = getAdminZonePeriodKey(timeZone, 'monthly', now);
+        const todayKey = getAdminZoneDayKey(timeZone, now);
+        expect(monthKey).toBe(`${todayKey.slice(0, 7)}-01`);
+      }),
+    );
+  });
+
+  it('end on the last day of the month', () => {
+    fc.assert(
+      fc.property(dayKeyArb, key => {
+        const monthKey = `${key.slice(0, 7)}-01`;
+        const lastDayKey = getPeriodLastDayKey(monthKey, 'monthly');
+        expect(lastDayKey.slice(0, 7)).toBe(monthKey.slice(0, 7));
+        expect(addDaysToKey(lastDayKey, 1)).toBe(addMonthsToKey(monthKey, 1));
+        expect(addDaysToKey(lastDayKey, 1).endsWith('-01')).toBe(true);
+      }),
+    );
+  });
+
+  it('shift by whole months', () => {
+    fc.assert(
+      fc.property(dayKeyArb, fc.integer({ min: -120, max: 120 }), (key, n) => {
+        const monthKey = `${key.slice(0, 7)}-01`;
+        expect(shiftPeriodKey(shiftPeriodKey(monthKey, 'monthly', n), 'monthly', -n)).toBe(monthKey);
+      }),
+    );
+  });
+});
+
+describe('interval keys', () => {
+  it('are a whole number of intervals from the anchor and contain today', () => {
+    fc.assert(
+      fc.property(
+        anyInstantArb,
+        timeZoneArb,
+        fc.integer({ min: 1, max: 30 }),
+        dayKeyArb,
+        (now, timeZone, intervalDays, anchorDate) => {
+          const cadence: PeriodCadence = { unit: 'interval', intervalDays, anchorDate };
+          const key = getAdminZonePeriodKey(timeZone, cadence, now);
+          const todayKey = getAdminZoneDayKey(timeZone, now);
+          expect(((daysBetween(anchorDate, key) % intervalDays) + intervalDays) % intervalDays).toBe(0);
+          expect(key <= todayKey).toBe(true);
+          expect(todayKey <= getPeriodLastDayKey(key, cadence)).toBe(true);
+          expect(daysBetween(key, getPeriodLastDayKey(key, cadence))).toBe(intervalDays - 1);
+        },
+      ),
+    );
+  });
+});
+
+describe('due moments across DST changes', () => {
+  it('wall-clock times convert back to themselves, or to just after a spring-forward gap', () => {
+    fc.assert(
+      fc.property(fc.oneof(fc.constantFrom(...DST_DAY_KEYS), dayKeyArb), dueTimeArb, timeZoneArb, (dayKey, time, timeZone) => {
+        const instant = wallClockToUtc(dayKey, time, timeZone);
+        const wc = getWallClockInZone(instant, timeZone);
+        const [year, month, day] = dayKey.split('-').map(Number);
+        const [hour, minute] = time.split(':').map(Number);
+        const shiftMinutes =
+          (Date.UTC(wc.year, wc.month - 1, wc.day, wc.hour, wc.minute) - Date.UTC(year, month - 1, day, hour, minute)) / 60000;
+        // A skipped wall time moves forward by exactly the size of the gap
+        expect(shiftMinutes).toBeGreaterThanOrEqual(0);
+        const offsetBefore = offsetMinutesAt(new Date(instant.getTime() - shiftMinutes * 60000), timeZone);
+        expect(offsetMinutesAt(instant, timeZone) - offsetBefore).toBe(shiftMinutes);
+      }),
+      { examples: DST_GAP_EXAMPLES },
+    );
+  });
+
+  it('a period is due on its last day, after the previous one', () => {
+    fc.assert(
+      fc.property(dayKeyArb, cadenceArb, dueTimeArb, timeZoneArb, (dayKey, cadence, dueTimeLocal, timeZone) => {
+        const challenge: PeriodChallenge = { adminTimeZone: timeZone, cadence, due: { dueTimeLocal } };
+        const key = getAdminZonePeriodKey('UTC', cadence, parseKey(dayKey));
+        const due = getPeriodDueMoment(challenge, key);
+        expect(getAdminZoneDayKey(timeZone, due)).toBe(getPeriodLastDayKey(key, cadence));
+        expect(getPeriodDueMoment(challenge, shiftPeriodKey(key, cadence, -1)).getTime()).toBeLessThan(due.getTime());
+      }),
+    );
+  });
+
+  it('now falls between the previous and the current period’s due moments', () => {
+    fc.assert(
+      fc.property(anyInstantArb, cadenceArb, dueTimeArb, timeZoneArb, (now, cadence, dueTimeLocal, timeZone) => {
+        const challenge: PeriodChallenge = { adminTimeZone: timeZone, cadence, due: { dueTimeLocal } };
+        const currentKey = getCurrentPeriodKey(challenge, now);
+        const previousKey = getPreviousPeriodKey(challenge, now);
+        expect(shiftPeriodKey(currentKey, cadence, -1)).toBe(previousKey);
+        expect(getPeriodDueMoment(challenge, previousKey).getTime()).toBeLessThanOrEqual(now.getTime());
+        if (cadence.unit === 'daily') {
+          expect(now.getTime()).toBeLessThan(getPeriodDueMoment(challenge, currentKey).getTime());
+        }
+      }),
+    );
+  });
+
+  it('the next due moment is the first one after now', () => {
+    fc.assert(
+      fc.property(anyInstantArb, cadenceArb, dueTimeArb, timeZoneArb, (now, cadence, dueTimeLocal, timeZone) => {
+        const next = computeNextDueAtUtc(timeZone, dueTimeLocal, cadence, cadence.weekStartsOn ?? 0, now);
+        expect(next).toBeGreaterThan(now.getTime());
+        const challenge: PeriodChallenge = { adminTimeZone: timeZone, cadence, due: { dueTimeLocal } };
+        const nextKey = getAdminZonePeriodKey(timeZone, cadence, new Date(next));
+        const previousDue = getPeriodDueMoment(challenge, shiftPeriodKey(nextKey, cadence, -1)).getTime();
+        expect(previousDue).toBeLessThanOrEqual(now.getTime());
+      }),
+    );
+  });
+});
+
+describe('late grace', () => {
+  const lateChallengeArb = fc
+    .tuple(cadenceArb, dueTimeArb, timeZoneArb, fc.boolean(), fc.integer({ min: 0, max: 6 * 60 }))
+    .map<PeriodChallenge>(([cadence, dueTimeLocal, timeZone, allowLateCheckIn, lateGraceMinutes]) => ({
+      adminTimeZone: timeZone,
+      cadence,
+      due: { dueTimeLocal },
+      settings: { allowLateCheckIn, lateGraceMinutes },
+    }));
+
+  it('the late period is the previous one, only inside its grace window', () => {
+    fc.assert(
+      fc.property(anyInstantArb, lateChallengeArb, (now, challenge) => {
+        const graceMs = getLateGraceMs(challenge);
+        const previousKey = getPreviousPeriodKey(challenge, now);
+        const dueMs = getPeriodDueMoment(challenge, previousKey).getTime();
+        const inWindow = graceMs > 0 && isActivePeriodKey(previousKey, challenge.cadence) && now.getTime() < dueMs + graceMs;
+        expect(getLatePeriodKey(challenge, now)).toBe(inWindow ? previousKey : null);
+      }),
+    );
+  });
+
+  it('is zero unless late check-ins are allowed', () => {
+    fc.assert(
+      fc.property(lateChallengeArb, challenge => {
+        const graceMs = getLateGraceMs(challenge);
+        if (!challenge.settings?.allowLateCheckIn) expect(graceMs).toBe(0);
+        else expect(graceMs).toBe((challenge.settings.lateGraceMinutes || 0) * 60000);
+      }),
+    );
+  });
+
+  it('late check-ins stay editable for exactly the grace window after the due moment', () => {
+    fc.assert(
+      fc.property(dayKeyArb, lateChallengeArb, (dayKey, challenge) => {
+        const key = getAdminZonePeriodKey('UTC', challenge.cadence!, parseKey(dayKey));
+        const onTime = getCheckInEditDeadline(challenge, key).getTime();
+        const late = getCheckInEditDeadline(challenge, key, true).getTime();
+        expect(onTime).toBe(getPeriodDueMoment(challenge, key).getTime());
+        expect(late - onTime).toBe(getLateGraceMs(challenge));
+      }),
+    );
+  });
+});
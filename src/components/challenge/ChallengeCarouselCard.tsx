@@ -55,6 +55,12 @@ export const ChallengeCarouselCard: React.FC<ChallengeCarouselCardProps> = ({
     if (challenge.cadence?.unit === 'weekly' && challenge.cadence.requiredCount) {
       return `${challenge.cadence.requiredCount}x per week`;
     }
+    if (challenge.cadence?.unit === 'monthly' && challenge.cadence.requiredCount) {
+      return `${challenge.cadence.requiredCount}x per month`;
+    }
+    if (challenge.cadence?.unit === 'interval') {
+      return `Every ${challenge.cadence.intervalDays || 1} days`;
+    }
     if (!isDaily) return 'No due time';
     return dateKeys.format12Hour(dueTimeLocal);
   })();
@@ -4,8 +4,8 @@ import { Ionicons } from '@expo/vector-icons';
 import { Theme } from '../../constants/theme';
 import { useColorMode } from '../../theme/ColorModeContext';
 
-type ChallengeType = "standard" | "progress" | "elimination" | "deadline";
-type CadenceUnit = "daily" | "weekly";
+type ChallengeType = "standard" | "progress" | "elimination" | "deadline" | "team";
+type CadenceUnit = "daily" | "weekly" | "monthly" | "interval";
 
 interface ChallengeHeaderProps {
   title: string;
@@ -16,8 +16,11 @@ interface ChallengeHeaderProps {
   cadence: {
     unit: CadenceUnit;
     requiredCount?: number;
+    intervalDays?: number;
   };
   type: ChallengeType;
+  /** Seasonal challenges: the season being shown */
+  seasonNumber?: number;
   onBack: () => void;
   navigation?: any;
 }
@@ -29,6 +32,7 @@ export const ChallengeHeader: React.FC<ChallengeHeaderProps> = ({
   groupId,
   cadence,
   type,
+  seasonNumber,
   onBack,
   navigation,
 }) => {
@@ -36,10 +40,15 @@ export const ChallengeHeader: React.FC<ChallengeHeaderProps> = ({
   const getCadenceText = () => {
     if (cadence.unit === 'daily') {
       return 'Daily';
-    } else {
-      const count = cadence.requiredCount || 1;
-      return `${count}x/week`;
     }
+    const count = cadence.requiredCount || 1;
+    if (cadence.unit === 'monthly') {
+      return `${count}x/month`;
+    }
+    if (cadence.unit === 'interval') {
+      return `${count}x/${cadence.intervalDays || 1} days`;
+    }
+    return `${count}x/week`;
   };
 
   const getTypeLabel = () => {
@@ -50,6 +59,8 @@ export const ChallengeHeader: React.FC<ChallengeHeaderProps> = ({
         return 'Elimination';
       case 'deadline':
         return 'Deadline';
+      case 'team':
+        return 'Team';
       default:
         return 'Standard';
     }
@@ -91,7 +102,7 @@ export const ChallengeHeader: React.FC<ChallengeHeaderProps> = ({
               adjustsFontSizeToFit
               minimumFontScale={0.7}
             >
-              {groupName} • {getTypeLabel()} • {getCadenceText()}
+              {groupName} • {getTypeLabel()} • {getCadenceText()}{seasonNumber ? ` • Season ${seasonNumber}` : ''}
             </Text>
           </TouchableOpacity>
         </View>
@@ -3,6 +3,11 @@ import { View, Text, StyleSheet, TextInput, TouchableOpacity, Switch, Alert, Ima
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import { useColorMode } from '../../theme/ColorModeContext';
+import { PhotoProofService } from '../../services/photoProofService';
+import { LiveCaptureCamera } from './LiveCaptureCamera';
+import { LiveCaptureStamp } from '../common/LiveCaptureStamp';
+import type { CheckInAttachmentInput } from '../../services/checkInService';
+import { MAX_CHECK_IN_MEDIA, MAX_VIDEO_CLIP_SECONDS } from '../../utils/attachments';
 
 const PHOTOS_GAP = 8;
 const PHOTOS_PER_ROW = 3;
@@ -19,6 +24,8 @@ interface CheckInComposerProps {
   unitLabel?: string;
   minValue?: number;
   requireAttachment?: boolean;
+  /** Photos only from the in-app camera (submission.liveCaptureOnly) */
+  liveCaptureOnly?: boolean;
   requireText?: boolean;
   minTextLength?: number;
   onSubmit: (draft: CheckInDraft) => void;
@@ -31,6 +38,9 @@ interface CheckInComposerProps {
   description?: string | null;
   /** Challenge requirements/rules shown above the photo section */
   requirements?: string[];
+  /** Prefill the form, e.g. when editing an existing check-in */
+  initialDraft?: CheckInDraft;
+  submitLabel?: string;
 }
 
 export interface CheckInDraft {
@@ -38,7 +48,8 @@ export interface CheckInDraft {
   numberValue?: number;
   textValue?: string;
   timerSeconds?: number;
-  attachments?: Array<{ type: "photo"|"screenshot"; uri: string }>;
+  /** Photos and video clips; `meta` is recorded when a photo is picked, for the server's proof checks */
+  attachments?: CheckInAttachmentInput[];
 }
 
 export const CheckInComposer: React.FC<CheckInComposerProps> = ({
@@ -46,6 +57,7 @@ export const CheckInComposer: React.FC<CheckInComposerProps> = ({
   unitLabel,
   minValue,
   requireAttachment,
+  liveCaptureOnly = false,
   requireText,
   minTextLength,
   onSubmit,
@@ -56,13 +68,16 @@ export const CheckInComposer: React.FC<CheckInComposerProps> = ({
   showPhotoPicker = false,
   description,
   requirements = [],
+  initialDraft,
+  submitLabel = 'Submit',
 }) => {
-  const [boolValue, setBoolValue] = useState(false);
-  const [numberValue, setNumberValue] = useState('');
-  const [textValue, setTextValue] = useState('');
-  const [timerValue, setTimerValue] = useState('');
-  const [attachments, setAttachments] = useState<Array<{ type: "photo"|"screenshot"; uri: string }>>([]);
-  const [notes, setNotes] = useState(''); // Separate notes field
+  const [boolValue, setBoolValue] = useState(initialDraft?.booleanValue ?? false);
+  const [numberValue, setNumberValue] = useState(initialDraft?.numberValue != null ? String(initialDraft.numberValue) : '');
+  const [textValue, setTextValue] = useState(inputType === 'text' ? (initialDraft?.textValue ?? '') : '');
+  const [timerValue, setTimerValue] = useState(initialDraft?.timerSeconds != null ? String(initialDraft.timerSeconds / 60) : '');
+  const [attachments, setAttachments] = useState<NonNullable<CheckInDraft['attachments']>>(initialDraft?.attachments ?? []);
+  const [showLiveCamera, setShowLiveCamera] = useState(false);
+  const [notes, setNotes] = useState(inputType !== 'text' ? (initialDraft?.textValue ?? '') : ''); // Separate notes field
   const { colors } = useColorMode();
 
   const isFormValid = () => {
@@ -94,15 +109,38 @@ export const CheckInComposer: React.FC<CheckInComposerProps> = ({
     return true;
   };
 
+  const remainingSlots = MAX_CHECK_IN_MEDIA - attachments.length;
+
+  const addAttachments = (added: CheckInAttachmentInput[]) => {
+    setAttachments(prev => [...prev, ...added].slice(0, MAX_CHECK_IN_MEDIA));
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // expo-image-picker reports video duration in milliseconds
+  const getClipSeconds = (asset: ImagePicker.ImagePickerAsset) =>
+    asset.duration != null ? Math.round(asset.duration / 1000) : undefined;
+
   const handleAddAttachment = () => {
+    if (remainingSlots <= 0) return;
+    if (liveCaptureOnly) {
+      setShowLiveCamera(true);
+      return;
+    }
     Alert.alert('Add Proof', 'Choose an option', [
       {
         text: 'Camera',
         onPress: handleTakePhoto,
       },
+      {
+        text: 'Record Video',
+        onPress: handleRecordVideo,
+      },
       {
         text: 'Gallery',
-        onPress: handlePickImage,
+        onPress: handlePickMedia,
       },
       { text: 'Cancel', style: 'cancel' },
     ]);
@@ -123,11 +161,32 @@ export const CheckInComposer: React.FC<CheckInComposerProps> = ({
     });
 
     if (!result.canceled && result.assets && result.assets[0]) {
-      setAttachments([{ type: 'photo', uri: result.assets[0].uri }]);
+      const asset = result.assets[0];
+      const meta = await PhotoProofService.getCaptureMeta(asset, 'camera');
+      addAttachments([{ type: 'photo', uri: asset.uri, meta }]);
     }
   };
 
-  const handlePickImage = async () => {
+  const handleRecordVideo = async () => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission Required', 'Camera access is needed to record videos.');
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Videos,
+      videoMaxDuration: MAX_VIDEO_CLIP_SECONDS,
+      quality: 0.8,
+    });
+
+    if (!result.canceled && result.assets && result.assets[0]) {
+      const asset = result.assets[0];
+      addAttachments([{ type: 'video', uri: asset.uri, durationSeconds: getClipSeconds(asset) }]);
+    }
+  };
+
+  const handlePickMedia = async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
     if (status !== 'granted') {
       Alert.alert('Permission Required', 'Photo library access is needed.');
@@ -135,14 +194,34 @@ export const CheckInComposer: React.FC<CheckInComposerProps> = ({
     }
 
     const result = await ImagePicker.launchImageLibraryAsync({
-      mediaTypes: ImagePicker.MediaTypeOptions.Images,
-      allowsEditing: true,
-      aspect: [4, 3],
+      mediaTypes: ImagePicker.MediaTypeOptions.All,
+      allowsMultipleSelection: true,
+      selectionLimit: remainingSlots,
       quality: 0.8,
+      exif: true,
     });
 
-    if (!result.canceled && result.assets && result.assets[0]) {
-      setAttachments([{ type: 'photo', uri: result.assets[0].uri }]);
+    if (result.canceled || !result.assets) return;
+
+    const added: CheckInAttachmentInput[] = [];
+    let skippedLongClips = false;
+    for (const asset of result.assets.slice(0, remainingSlots)) {
+      if (asset.type === 'video') {
+        const seconds = getClipSeconds(asset);
+        if (seconds != null && seconds > MAX_VIDEO_CLIP_SECONDS) {
+          skippedLongClips = true;
+          continue;
+        }
+        added.push({ type: 'video', uri: asset.uri, durationSeconds: seconds });
+      } else {
+        const meta = await PhotoProofService.getCaptureMeta(asset, 'library');
+        added.push({ type: 'photo', uri: asset.uri, meta });
+      }
+    }
+    addAttachments(added);
+
+    if (skippedLongClips) {
+      Alert.alert('Video Too Long', `Video clips can be up to ${MAX_VIDEO_CLIP_SECONDS} seconds.`);
     }
   };
 
@@ -304,21 +383,62 @@ export const CheckInComposer: React.FC<CheckInComposerProps> = ({
       {(requireAttachment || showPhotoPicker) && (
         <>
           {attachments.length > 0 ? (
-            <View style={[styles.photoContainer, { width: getPhotoSize(), height: getPhotoSize() }]}>
-              <Image source={{ uri: attachments[0].uri }} style={[styles.photo, { width: getPhotoSize(), height: getPhotoSize() }]} resizeMode="cover" />
-              <TouchableOpacity
-                style={styles.removeButton}
-                onPress={() => setAttachments([])}
-              >
-                <Ionicons name="close" size={16} color="#FFF" />
-              </TouchableOpacity>
-            </View>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.photosScroll}
+              contentContainerStyle={styles.photosScrollContent}
+            >
+              {attachments.map((attachment, index) => (
+                <View key={`${index}_${attachment.uri}`} style={[styles.photoContainer, { width: getPhotoSize(), height: getPhotoSize() }]}>
+                  {attachment.type === 'video' ? (
+                    <View style={[styles.videoTile, { width: getPhotoSize(), height: getPhotoSize() }]}>
+                      <Ionicons name="videocam" size={28} color="#FFF" />
+                      {attachment.durationSeconds != null && (
+                        <Text style={styles.videoDuration}>{attachment.durationSeconds}s</Text>
+                      )}
+                    </View>
+                  ) : (
+                    <Image source={{ uri: attachment.uri }} style={[styles.photo, { width: getPhotoSize(), height: getPhotoSize() }]} resizeMode="cover" />
+                  )}
+                  {attachment.meta?.live && attachment.meta.capturedAt !== undefined && (
+                    <LiveCaptureStamp capturedAt={attachment.meta.capturedAt} compact />
+                  )}
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => removeAttachment(index)}
+                  >
+                    <Ionicons name="close" size={16} color="#FFF" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              {remainingSlots > 0 && (
+                <TouchableOpacity
+                  style={[styles.addMore, { width: getPhotoSize(), height: getPhotoSize(), borderColor: colors.accent }]}
+                  onPress={handleAddAttachment}
+                >
+                  <Ionicons name="add" size={28} color={colors.accent} />
+                </TouchableOpacity>
+              )}
+            </ScrollView>
           ) : (
             <TouchableOpacity style={[styles.photoButton, { borderColor: colors.accent }]} onPress={handleAddAttachment}>
               <Ionicons name="camera" size={20} color={colors.accent} />
-              <Text style={[styles.photoButtonText, { color: colors.accent }]}>Add Photo</Text>
+              <Text style={[styles.photoButtonText, { color: colors.accent }]}>
+                {liveCaptureOnly ? 'Take Live Photo' : 'Add Photos or Video'}
+              </Text>
             </TouchableOpacity>
           )}
+          {liveCaptureOnly && (
+            <Text style={[styles.liveHint, { color: colors.textSecondary }]}>
+              This challenge only accepts photos taken in the app right now.
+            </Text>
+          )}
+          <LiveCaptureCamera
+            visible={showLiveCamera}
+            onClose={() => setShowLiveCamera(false)}
+            onCapture={(photo) => addAttachments([{ type: 'photo', uri: photo.uri, meta: photo.meta }])}
+          />
         </>
       )}
 
@@ -343,7 +463,7 @@ export const CheckInComposer: React.FC<CheckInComposerProps> = ({
         onPress={handleSubmit}
         disabled={!isFormValid()}
       >
-        <Text style={[styles.submitText, !isFormValid() && { color: colors.textSecondary }]}>Submit</Text>
+        <Text style={[styles.submitText, !isFormValid() && { color: colors.textSecondary }]}>{submitLabel}</Text>
       </TouchableOpacity>
     </View>
   );
@@ -454,6 +574,19 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
   },
 
+  videoTile: {
+    borderRadius: 12,
+    backgroundColor: '#1F2937',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+  },
+  videoDuration: {
+    color: '#FFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+
   addMore: {
     borderRadius: 12,
     borderWidth: 2,
@@ -478,6 +611,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
   },
 
+  liveHint: {
+    fontSize: 12,
+    textAlign: 'center',
+  },
+
   submitButton: {
     padding: 20,
     borderRadius: 12,
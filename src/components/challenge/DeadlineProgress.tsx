@@ -0,0 +1,152 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { rankDeadlineOutcomes, getDeadlineProgress, type DeadlineCheckIn, type DeadlineOutcome } from '../../utils/deadline';
+import { useColorMode } from '../../theme/ColorModeContext';
+
+type Challenge = any;
+type CheckIn = any;
+
+interface DeadlineProgressProps {
+  challenge: Challenge;
+  currentUserId: string;
+  memberIds: string[];
+  memberProfiles: Record<string, { name: string; avatarUri?: string }>;
+  challengeMembers: Array<{ userId: string; deadlineOutcome?: DeadlineOutcome }>;
+  /** Every check-in of the challenge */
+  checkIns: CheckIn[];
+}
+
+const toMillis = (value: any): number => {
+  if (!value) return 0;
+  if (typeof value === 'number') return value;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  return new Date(value).getTime();
+};
+
+/**
+ * Deadline challenges: each member's progress toward `rules.deadline`, ranked.
+ * Live from check-ins while the challenge runs; the scheduler's recorded
+ * `deadlineOutcome` once it has ended.
+ */
+export const DeadlineProgress: React.FC<DeadlineProgressProps> = ({
+  challenge,
+  currentUserId,
+  memberIds,
+  memberProfiles,
+  challengeMembers,
+  checkIns,
+}) => {
+  const { colors } = useColorMode();
+  if (challenge?.type !== 'deadline') return null;
+
+  const rules = challenge.rules?.deadline;
+  // Members without a challengeMembers doc (legacy group challenges) aren't judged by the scheduler
+  const rankedIds = challengeMembers.length > 0 ? challengeMembers.map(m => m.userId) : memberIds;
+  const recorded = challengeMembers.filter(m => m.deadlineOutcome);
+  const outcomes = challenge.state === 'ended' && recorded.length > 0
+    ? recorded
+        .map(m => ({ userId: m.userId, ...m.deadlineOutcome! }))
+        .sort((a, b) => a.rank - b.rank)
+    : rankDeadlineOutcomes(
+        rules,
+        rankedIds,
+        checkIns
+          .filter((ci): boolean => ci.status === 'completed' || ci.status === 'disputed')
+          .map((ci): DeadlineCheckIn => ({ userId: ci.userId, createdAt: toMillis(ci.createdAt), payload: ci.payload }))
+      );
+  if (outcomes.length === 0) return null;
+
+  const unitLabel = challenge.submission?.unitLabel || '';
+  const target = rules?.targetValue;
+  const subtitle = target != null
+    ? `${rules?.progressMode === 'latest' ? 'Latest' : 'Total'} vs. target of ${target} ${unitLabel}`.trim()
+    : 'Check-ins before the deadline';
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.textSecondary + '30' }]}>
+      <Text style={[styles.title, { color: colors.text }]}>
+        {challenge.state === 'ended' ? 'Final Results' : 'Race to the Deadline'}
+      </Text>
+      <Text style={[styles.subtitle, { color: colors.textSecondary }]}>{subtitle}</Text>
+
+      {outcomes.map((outcome) => {
+        const isMe = outcome.userId === currentUserId;
+        const progress = getDeadlineProgress(rules, outcome.value);
+        const barColor = outcome.reached ? '#22C55E' : colors.accent;
+        return (
+          <View key={outcome.userId} style={styles.row}>
+            <View style={styles.rowHeader}>
+              <Text style={[styles.rank, { color: colors.textSecondary }]}>{outcome.rank}</Text>
+              <Text style={[styles.name, { color: colors.text }, isMe && { fontWeight: '700' }]} numberOfLines={1}>
+                {isMe ? 'You' : memberProfiles[outcome.userId]?.name || 'Member'}
+              </Text>
+              {outcome.reached && <Ionicons name="checkmark-circle" size={16} color="#22C55E" style={styles.reachedIcon} />}
+              <Text style={[styles.value, { color: colors.text }]}>
+                {outcome.value === null ? '–' : outcome.value}
+                {target != null ? `/${target}` : ''}
+              </Text>
+            </View>
+            <View style={[styles.track, { backgroundColor: colors.textSecondary + '25' }]}>
+              <View style={[styles.fill, { width: `${Math.round(progress * 100)}%`, backgroundColor: barColor }]} />
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    padding: 14,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 11,
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  row: {
+    paddingVertical: 8,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  rank: {
+    width: 20,
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  name: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  reachedIcon: {
+    marginRight: 6,
+  },
+  value: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 6,
+    borderRadius: 3,
+  },
+});
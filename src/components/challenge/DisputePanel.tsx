@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { CheckInService } from '../../services/checkInService';
+import { getDisputeDeadline, getCheckInPeriodKey, DEFAULT_DISPUTE_THRESHOLD } from '../../utils/dueTime';
+import { useColorMode } from '../../theme/ColorModeContext';
+
+type Challenge = any;
+type CheckIn = any;
+
+interface DisputePanelProps {
+  challenge: Challenge;
+  currentUserId: string;
+  /** Check-ins of the period being viewed */
+  checkIns: CheckIn[];
+  memberProfiles: Record<string, { name: string; avatarUri?: string }>;
+  /** Called after a dispute or ruling so the screen can reload */
+  onChanged?: () => void;
+}
+
+const toMillis = (value: any): number => {
+  if (!value) return 0;
+  if (typeof value === 'number') return value;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  return new Date(value).getTime();
+};
+
+/**
+ * Peer verification for challenges with `settings.disputes` enabled. Members
+ * can dispute other members' check-ins while the dispute window is open; the
+ * challenge admin upholds or rejects check-ins that reached the threshold.
+ */
+export const DisputePanel: React.FC<DisputePanelProps> = ({
+  challenge,
+  currentUserId,
+  checkIns,
+  memberProfiles,
+  onChanged,
+}) => {
+  const { colors } = useColorMode();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const disputes = challenge?.settings?.disputes;
+  if (!disputes?.enabled || challenge.state === 'ended') return null;
+
+  const threshold = Math.max(1, disputes.threshold || DEFAULT_DISPUTE_THRESHOLD);
+  const isAdmin = (challenge.adminUserId || challenge.createdBy) === currentUserId;
+  const deadlineDate = typeof challenge.due?.deadlineDate === 'string' ? challenge.due.deadlineDate : undefined;
+  const now = Date.now();
+
+  const disputable = checkIns.filter((ci) => {
+    if (ci.userId === currentUserId || ci.status !== 'completed') return false;
+    const periodKey = getCheckInPeriodKey(ci.period);
+    const closesAt = periodKey && getDisputeDeadline(challenge, periodKey, toMillis(ci.createdAt), deadlineDate);
+    return !!closesAt && now < closesAt.getTime();
+  });
+  const underReview = checkIns.filter((ci) => ci.status === 'disputed');
+
+  if (disputable.length === 0 && underReview.length === 0) return null;
+
+  const nameOf = (userId: string) => memberProfiles[userId]?.name || 'Member';
+
+  const run = async (checkInId: string, action: () => Promise<void>) => {
+    setBusyId(checkInId);
+    try {
+      await action();
+      onChanged?.();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDispute = (ci: CheckIn) => {
+    Alert.alert(
+      'Dispute check-in?',
+      `If ${threshold} member${threshold === 1 ? '' : 's'} dispute ${nameOf(ci.userId)}'s check-in, the challenge admin has to review it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Dispute',
+          style: 'destructive',
+          onPress: () => run(ci.id, async () => {
+            await CheckInService.disputeCheckIn(ci.id);
+          }),
+        },
+      ]
+    );
+  };
+
+  const handleResolve = (ci: CheckIn, resolution: 'upheld' | 'rejected') => {
+    if (resolution === 'upheld') {
+      run(ci.id, () => CheckInService.resolveDisputedCheckIn(ci.id, 'upheld'));
+      return;
+    }
+    Alert.alert(
+      'Reject check-in?',
+      `${nameOf(ci.userId)}'s check-in will count as a miss and its XP and streak will be removed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reject',
+          style: 'destructive',
+          onPress: () => run(ci.id, () => CheckInService.resolveDisputedCheckIn(ci.id, 'rejected')),
+        },
+      ]
+    );
+  };
+
+  const renderSummary = (ci: CheckIn) => {
+    const payload = ci.payload || {};
+    if (payload.textValue) return payload.textValue;
+    if (payload.numberValue !== undefined) return `Value: ${payload.numberValue}`;
+    if (payload.timerSeconds !== undefined) {
+      return `Time: ${Math.floor(payload.timerSeconds / 60)}m ${payload.timerSeconds % 60}s`;
+    }
+    return null;
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.textSecondary + '30' }]}>
+      <Text style={[styles.title, { color: colors.text }]}>Verification</Text>
+
+      {underReview.map((ci) => (
+        <View key={ci.id} style={[styles.row, { borderBottomColor: colors.textSecondary + '25' }]}>
+          <Ionicons name="flag" size={18} color="#A855F7" style={styles.rowIcon} />
+          <View style={styles.rowInfo}>
+            <Text style={[styles.rowName, { color: colors.text }]}>
+              {ci.userId === currentUserId ? 'Your check-in' : `${nameOf(ci.userId)}'s check-in`}
+            </Text>
+            <Text style={[styles.rowDetail, { color: colors.textSecondary }]} numberOfLines={1}>
+              {isAdmin ? renderSummary(ci) || 'Disputed by the group' : 'Waiting for the admin to review'}
+            </Text>
+          </View>
+          {isAdmin && (
+            busyId === ci.id ? (
+              <ActivityIndicator color={colors.accent} />
+            ) : (
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={[styles.actionButton, { borderColor: '#22C55E' }]}
+                  onPress={() => handleResolve(ci, 'upheld')}
+                >
+                  <Text style={[styles.actionText, { color: '#22C55E' }]}>Uphold</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, { borderColor: '#EF4444' }]}
+                  onPress={() => handleResolve(ci, 'rejected')}
+                >
+                  <Text style={[styles.actionText, { color: '#EF4444' }]}>Reject</Text>
+                </TouchableOpacity>
+              </View>
+            )
+          )}
+        </View>
+      ))}
+
+      {disputable.map((ci) => {
+        const alreadyDisputed = (ci.dispute?.by || []).includes(currentUserId);
+        return (
+          <View key={ci.id} style={[styles.row, { borderBottomColor: colors.textSecondary + '25' }]}>
+            <Ionicons name="checkmark-circle-outline" size={18} color={colors.textSecondary} style={styles.rowIcon} />
+            <View style={styles.rowInfo}>
+              <Text style={[styles.rowName, { color: colors.text }]}>{nameOf(ci.userId)}</Text>
+              <Text style={[styles.rowDetail, { color: colors.textSecondary }]} numberOfLines={1}>
+                {`${(ci.dispute?.by || []).length}/${threshold} disputes`}
+              </Text>
+            </View>
+            {busyId === ci.id ? (
+              <ActivityIndicator color={colors.accent} />
+            ) : (
+              <TouchableOpacity
+                style={[styles.actionButton, { borderColor: alreadyDisputed ? colors.textSecondary : '#A855F7' }]}
+                disabled={alreadyDisputed}
+                onPress={() => handleDispute(ci)}
+              >
+                <Text style={[styles.actionText, { color: alreadyDisputed ? colors.textSecondary : '#A855F7' }]}>
+                  {alreadyDisputed ? 'Disputed' : 'Dispute'}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    padding: 14,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowIcon: {
+    marginRight: 10,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  rowName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  rowDetail: {
+    fontSize: 11,
+    marginTop: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  actionButton: {
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  actionText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
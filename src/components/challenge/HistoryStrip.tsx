@@ -2,9 +2,10 @@ import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { dateKeys } from '../../utils/dateKeys';
+import { shiftPeriodKey, getPeriodLastDayKey, getCheckInPeriodKey, isActivePeriodKey, isPeriodPaused } from '../../utils/dueTime';
 import { useColorMode } from '../../theme/ColorModeContext';
 
-type CadenceUnit = "daily" | "weekly";
+type CadenceUnit = "daily" | "weekly" | "monthly" | "interval";
 
 type CheckIn = {
   id: string;
@@ -12,6 +13,7 @@ type CheckIn = {
     unit: CadenceUnit;
     dayKey?: string;
     weekKey?: string;
+    periodKey?: string;
   };
   payload: {
     booleanValue?: boolean;
@@ -19,14 +21,20 @@ type CheckIn = {
     textValue?: string;
     timerSeconds?: number;
   };
-  status: "completed" | "pending" | "missed" | "failed";
+  status: "completed" | "pending" | "missed" | "failed" | "disputed" | "rejected";
+  late?: boolean;
   attachments?: Array<{ type: "photo"|"screenshot"; uri: string }>;
   createdAt: number;
 };
 
+type PeriodStatus = 'completed' | 'late' | 'disputed' | 'partial' | 'missed' | 'paused' | 'off' | 'empty' | 'invalid';
+
 interface HistoryStripProps {
   cadenceUnit: CadenceUnit;
   weekStartsOn?: number;
+  intervalDays?: number; // Period length for interval cadences
+  activeWeekdays?: number[]; // Daily check-in days; the rest are off-days
+  pauses?: Array<{ startKey: string; endKey: string }>; // The viewer's scheduled pauses
   requiredCount?: number;
   myRecentCheckIns: CheckIn[];
   unitLabel?: string;
@@ -41,6 +49,9 @@ interface HistoryStripProps {
 export const HistoryStrip: React.FC<HistoryStripProps> = ({
   cadenceUnit,
   weekStartsOn = 0,
+  intervalDays,
+  activeWeekdays,
+  pauses,
   requiredCount = 1,
   myRecentCheckIns,
   unitLabel,
@@ -82,8 +93,15 @@ export const HistoryStrip: React.FC<HistoryStripProps> = ({
         days.push(dateKeys.getDayKey(day));
       }
       return days;
-    } else {
+    } else if (cadenceUnit === 'weekly' || !currentPeriodKeyProp) {
       return dateKeys.getLastNWeeks(4, weekStartsOn);
+    } else {
+      // Monthly / interval: the current period and the three before it
+      const keys: string[] = [];
+      for (let i = 3; i >= 0; i--) {
+        keys.push(shiftPeriodKey(currentPeriodKeyProp, { unit: cadenceUnit, intervalDays }, -i));
+      }
+      return keys;
     }
   };
 
@@ -98,13 +116,7 @@ export const HistoryStrip: React.FC<HistoryStripProps> = ({
   };
 
   const getCheckInsForPeriod = (periodKey: string): CheckIn[] => {
-    return myRecentCheckIns.filter(ci => {
-      if (cadenceUnit === 'daily') {
-        return ci.period.dayKey === periodKey;
-      } else {
-        return ci.period.weekKey === periodKey;
-      }
-    });
+    return myRecentCheckIns.filter(ci => getCheckInPeriodKey(ci.period) === periodKey);
   };
 
   const isValidChallengePeriod = (periodKey: string): boolean => {
@@ -125,42 +137,62 @@ export const HistoryStrip: React.FC<HistoryStripProps> = ({
       // Must be >= creation date AND <= current period (not future)
       return periodDate >= creationDate && periodDate <= todayDate;
     } else {
-      const weekStart = dateKeys.parseKey(periodKey);
-      weekStart.setHours(0, 0, 0, 0);
-      return weekStart >= creationDate && weekStart <= todayDate;
+      // Multi-day periods count from the one the challenge was created in
+      const periodStart = dateKeys.parseKey(periodKey);
+      periodStart.setHours(0, 0, 0, 0);
+      const periodEnd = dateKeys.parseKey(getPeriodLastDayKey(periodKey, { unit: cadenceUnit, intervalDays }));
+      periodEnd.setHours(0, 0, 0, 0);
+      return periodEnd >= creationDate && periodStart <= todayDate;
     }
   };
 
-  const getPeriodStatus = (periodKey: string): 'completed' | 'partial' | 'missed' | 'empty' | 'invalid' => {
+  const getPeriodStatus = (periodKey: string): PeriodStatus => {
     if (!isValidChallengePeriod(periodKey)) {
       return 'invalid';
     }
     
     const checkIns = getCheckInsForPeriod(periodKey);
-    const completedCount = checkIns.filter(ci => ci.status === 'completed').length;
+    // Disputed check-ins count until the admin rejects them
+    const completed = checkIns.filter(ci => ci.status === 'completed' || ci.status === 'disputed');
+    const completedCount = completed.length;
+    // Late only if every check-in counting toward the period came in late
+    const allLate = completedCount > 0 && completed.every(ci => ci.late);
+    const anyDisputed = completed.some(ci => ci.status === 'disputed');
+    const doneStatus: PeriodStatus = anyDisputed ? 'disputed' : allLate ? 'late' : 'completed';
 
     if (cadenceUnit === 'daily') {
-      if (completedCount > 0) return 'completed';
+      if (completedCount > 0) return doneStatus;
+      if (!isActivePeriodKey(periodKey, { unit: cadenceUnit, activeWeekdays })) return 'off';
+      if (isPeriodPaused(pauses, periodKey, cadenceUnit)) return 'paused';
 
       const todayKey = currentPeriodKeyProp || dateKeys.getDayKey(new Date());
       return periodKey < todayKey ? 'missed' : 'empty';
     } else {
-      if (completedCount >= requiredCount) return 'completed';
+      if (completedCount >= requiredCount) return doneStatus;
       if (completedCount > 0) return 'partial';
+      if (isPeriodPaused(pauses, periodKey, { unit: cadenceUnit, intervalDays })) return 'paused';
 
-      const currentWeekKey = currentPeriodKeyProp || dateKeys.getWeekKey(new Date(), weekStartsOn);
-      return periodKey < currentWeekKey ? 'missed' : 'empty';
+      const currentKey = currentPeriodKeyProp || dateKeys.getWeekKey(new Date(), weekStartsOn);
+      return periodKey < currentKey ? 'missed' : 'empty';
     }
   };
 
-  const getStatusConfig = (status: 'completed' | 'partial' | 'missed' | 'empty' | 'invalid') => {
+  const getStatusConfig = (status: PeriodStatus) => {
     switch (status) {
       case 'completed':
         return { backgroundColor: '#4CAF50', icon: 'checkmark' as const, textColor: '#FFF' };
+      case 'late':
+        return { backgroundColor: '#F59E0B', icon: 'time-outline' as const, textColor: '#FFF' };
+      case 'disputed':
+        return { backgroundColor: '#A855F7', icon: 'flag-outline' as const, textColor: '#FFF' };
       case 'partial':
         return { backgroundColor: '#FF9800', icon: 'remove' as const, textColor: '#FFF' };
       case 'missed':
         return { backgroundColor: '#D4D4D4', icon: 'close' as const, textColor: '#888' };
+      case 'paused':
+        return { backgroundColor: '#0EA5E9', icon: 'pause' as const, textColor: '#FFF' };
+      case 'off':
+        return { backgroundColor: 'transparent', icon: null, textColor: '#BBB' };
       case 'empty':
         return { backgroundColor: '#F0F0F0', icon: null, textColor: '#999' };
       case 'invalid':
@@ -181,6 +213,10 @@ export const HistoryStrip: React.FC<HistoryStripProps> = ({
     if (cadenceUnit === 'daily') {
       const date = dateKeys.parseKey(periodKey);
       return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    } else if (cadenceUnit === 'monthly') {
+      return dateKeys.formatMonthLabel(periodKey);
+    } else if (cadenceUnit === 'interval') {
+      return `${dateKeys.formatDate(periodKey)} – ${dateKeys.formatDate(getPeriodLastDayKey(periodKey, { unit: cadenceUnit, intervalDays }))}`;
     } else {
       return dateKeys.formatWeekLabel(periodKey);
     }
@@ -252,6 +288,7 @@ export const HistoryStrip: React.FC<HistoryStripProps> = ({
                   <View style={[
                     styles.dayCircle,
                     { backgroundColor: statusConfig.backgroundColor },
+                    status === 'off' && [styles.offDayCircle, { borderColor: colors.dividerLineTodo }],
                     isToday && [styles.todayCircle, { borderColor: colors.accent }],
                     isSelected && [styles.selectedDayCircle, { borderColor: colors.accent }],
                   ]}>
@@ -266,8 +303,12 @@ export const HistoryStrip: React.FC<HistoryStripProps> = ({
                 </TouchableOpacity>
               );
             } else {
-              // Weekly view (shouldn't render here but keep for completeness)
-              const label = dateKeys.formatWeekLabel(periodKey);
+              // Weekly / monthly / interval view: one circle per period
+              const label = cadenceUnit === 'monthly'
+                ? dateKeys.formatMonthLabel(periodKey)
+                : cadenceUnit === 'interval'
+                ? dateKeys.formatDate(periodKey)
+                : dateKeys.formatWeekLabel(periodKey);
               return (
                 <TouchableOpacity
                   key={periodKey}
@@ -280,7 +321,9 @@ export const HistoryStrip: React.FC<HistoryStripProps> = ({
                     {statusConfig.icon ? (
                       <Ionicons name={statusConfig.icon} size={16} color={statusConfig.textColor} />
                     ) : (
-                      <Text style={[styles.weekLabel, { color: statusConfig.textColor }]}>W</Text>
+                      <Text style={[styles.weekLabel, { color: statusConfig.textColor }]}>
+                        {cadenceUnit === 'monthly' ? 'M' : cadenceUnit === 'interval' ? 'P' : 'W'}
+                      </Text>
                     )}
                   </View>
                   <Text style={[styles.weekText, { color: colors.textSecondary }]} numberOfLines={1}>{label}</Text>
@@ -340,9 +383,13 @@ export const HistoryStrip: React.FC<HistoryStripProps> = ({
                               styles.checkInStatusBadge,
                               {
                                 backgroundColor:
-                                  checkIn.status === 'completed'
+                                  checkIn.status === 'disputed'
+                                    ? '#F3E8FF'
+                                    : checkIn.late && checkIn.status === 'completed'
+                                    ? '#FFF3E0'
+                                    : checkIn.status === 'completed'
                                     ? '#E8F5E9'
-                                    : checkIn.status === 'failed'
+                                    : checkIn.status === 'failed' || checkIn.status === 'rejected'
                                     ? '#FFEBEE'
                                     : '#FFF9C4',
                               },
@@ -353,15 +400,19 @@ export const HistoryStrip: React.FC<HistoryStripProps> = ({
                                 styles.checkInStatusText,
                                 {
                                   color:
-                                    checkIn.status === 'completed'
+                                    checkIn.status === 'disputed'
+                                      ? '#A855F7'
+                                      : checkIn.late && checkIn.status === 'completed'
+                                      ? '#F59E0B'
+                                      : checkIn.status === 'completed'
                                       ? '#4CAF50'
-                                      : checkIn.status === 'failed'
+                                      : checkIn.status === 'failed' || checkIn.status === 'rejected'
                                       ? '#F44336'
                                       : '#F57C00',
                                 },
                               ]}
                             >
-                              {checkIn.status}
+                              {checkIn.late && checkIn.status === 'completed' ? 'late' : checkIn.status}
                             </Text>
                           </View>
                         </View>
@@ -482,6 +533,11 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
   },
 
+  offDayCircle: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+  },
+
   todayCircle: {
     borderWidth: 2,
     borderColor: '#FF6B35',
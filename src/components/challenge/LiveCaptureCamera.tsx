@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Alert, ActivityIndicator, StatusBar } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Camera, CameraType } from 'expo-camera';
+import { PhotoProofService } from '../../services/photoProofService';
+import { formatLiveCaptureTime } from '../common/LiveCaptureStamp';
+import type { PhotoCaptureMeta } from '../../utils/photoIntegrity';
+
+interface LiveCaptureCameraProps {
+  visible: boolean;
+  onClose: () => void;
+  onCapture: (photo: { uri: string; meta: PhotoCaptureMeta }) => void;
+}
+
+/**
+ * In-app camera for live-capture-only challenges. There is no library
+ * option; the preview shows the time the photo will be stamped with.
+ */
+export const LiveCaptureCamera: React.FC<LiveCaptureCameraProps> = ({ visible, onClose, onCapture }) => {
+  const cameraRef = useRef<Camera>(null);
+  const [permission, requestPermission] = Camera.useCameraPermissions();
+  const [type, setType] = useState(CameraType.back);
+  const [now, setNow] = useState(Date.now());
+  const [capturing, setCapturing] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    if (permission && !permission.granted && permission.canAskAgain) requestPermission();
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [visible, permission?.granted]);
+
+  const handleCapture = async () => {
+    if (!cameraRef.current || capturing) return;
+    setCapturing(true);
+    try {
+      const capturedAt = Date.now();
+      const picture = await cameraRef.current.takePictureAsync({ quality: 0.8 });
+      onCapture(await PhotoProofService.prepareLiveCapture(picture, capturedAt));
+      onClose();
+    } catch (error) {
+      if (__DEV__) console.error('Error taking live photo:', error);
+      Alert.alert('Error', 'Failed to take photo. Please try again.');
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="fullScreen" onRequestClose={onClose}>
+      <StatusBar barStyle="light-content" backgroundColor="#000000" />
+      <View style={styles.container}>
+        {permission?.granted ? (
+          <Camera style={styles.camera} type={type} ref={cameraRef} ratio="4:3">
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Ionicons name="close" size={30} color="#FFF" />
+            </TouchableOpacity>
+
+            <View style={styles.clock}>
+              <Ionicons name="camera" size={14} color="#FFF" />
+              <Text style={styles.clockLive}>LIVE</Text>
+              <Text style={styles.clockText}>{formatLiveCaptureTime(now)}</Text>
+            </View>
+
+            <View style={styles.controls}>
+              <View style={styles.placeholder} />
+              <TouchableOpacity style={styles.captureButton} onPress={handleCapture} disabled={capturing}>
+                {capturing ? <ActivityIndicator color="#000" /> : <View style={styles.captureButtonInner} />}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.placeholder}
+                onPress={() => setType(type === CameraType.back ? CameraType.front : CameraType.back)}
+              >
+                <Ionicons name="camera-reverse-outline" size={30} color="#FFF" />
+              </TouchableOpacity>
+            </View>
+          </Camera>
+        ) : (
+          <View style={styles.permission}>
+            <Text style={styles.permissionText}>
+              This challenge only accepts photos taken in the app. Allow camera access to check in.
+            </Text>
+            <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+              <Text style={styles.permissionButtonText}>Allow Camera</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.permissionCancel}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  camera: {
+    flex: 1,
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 50,
+    right: 20,
+    padding: 8,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    borderRadius: 20,
+    zIndex: 10,
+  },
+  clock: {
+    position: 'absolute',
+    top: 56,
+    left: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  clockLive: {
+    color: '#EF4444',
+    fontSize: 12,
+    fontWeight: '800',
+  },
+  clockText: {
+    color: '#FFF',
+    fontSize: 13,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
+  controls: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingBottom: 50,
+    paddingTop: 20,
+    paddingHorizontal: 32,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+  },
+  placeholder: {
+    width: 70,
+    alignItems: 'center',
+  },
+  captureButton: {
+    width: 70,
+    height: 70,
+    borderRadius: 35,
+    backgroundColor: '#FFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  captureButtonInner: {
+    width: 58,
+    height: 58,
+    borderRadius: 29,
+    borderWidth: 2,
+    borderColor: '#000',
+  },
+  permission: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  permissionText: {
+    color: '#FFF',
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  permissionButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    backgroundColor: '#FF6B35',
+  },
+  permissionButtonText: {
+    color: '#FFF',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  permissionCancel: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+  },
+});
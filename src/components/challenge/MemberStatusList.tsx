@@ -2,15 +2,17 @@ import React from 'react';
 import { View, Text, StyleSheet, ScrollView } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { Avatar } from '../common/Avatar';
-import { challengeEval } from '../../utils/challengeEval';
+import { challengeEval, type UserStatus } from '../../utils/challengeEval';
+import { scoreTeamPeriod, DEFAULT_TEAM_COMPLETION_PERCENT, type TeamRules } from '../../utils/teams';
 import { useColorMode } from '../../theme/ColorModeContext';
 
-type ChallengeType = "standard" | "progress" | "elimination" | "deadline";
-type CadenceUnit = "daily" | "weekly";
+type ChallengeType = "standard" | "progress" | "elimination" | "deadline" | "team";
+type CadenceUnit = "daily" | "weekly" | "monthly" | "interval";
 
 type Challenge = any;
 type CheckIn = any;
 type ChallengeMember = any;
+type MemberStatus = UserStatus['type'];
 
 interface MemberStatusListProps {
   currentUserId: string;
@@ -35,7 +37,7 @@ export const MemberStatusList: React.FC<MemberStatusListProps> = ({
   listMaxHeight,
 }) => {
   const { colors } = useColorMode();
-  const getMemberStatus = (userId: string): 'completed' | 'pending' | 'missed' | 'eliminated' => {
+  const getMemberStatus = (userId: string): MemberStatus => {
     return challengeEval.getMemberStatus(
       challenge,
       userId,
@@ -45,96 +47,165 @@ export const MemberStatusList: React.FC<MemberStatusListProps> = ({
     );
   };
 
-  const getStatusIcon = (status: 'completed' | 'pending' | 'missed' | 'eliminated') => {
+  const getStatusIcon = (status: MemberStatus) => {
     switch (status) {
       case 'completed':
         return { icon: 'checkmark-circle' as const, color: '#22C55E', label: 'Done', isFilled: true };
+      case 'late':
+        return { icon: 'time' as const, color: '#F59E0B', label: 'Late', isFilled: true };
+      case 'disputed':
+        return { icon: 'flag' as const, color: '#A855F7', label: 'Disputed', isFilled: true };
       case 'pending':
         return { icon: 'ellipse-outline' as const, color: '#999', label: 'Pending', isFilled: false };
       case 'missed':
         return { icon: 'ellipse-outline' as const, color: '#6B7280', label: 'Missed', isFilled: false };
+      case 'paused':
+        return { icon: 'pause-circle-outline' as const, color: '#0EA5E9', label: 'Paused', isFilled: false };
+      case 'upcoming':
+        return { icon: 'calendar-outline' as const, color: '#6366F1', label: 'Soon', isFilled: false };
       case 'eliminated':
         return { icon: 'skull-outline' as const, color: '#6B7280', label: 'Out', isFilled: false };
     }
   };
 
   const getWeeklyProgress = (userId: string): string | null => {
-    if (challenge.cadence.unit !== 'weekly') return null;
+    if (challenge.cadence.unit === 'daily') return null;
     
     const userCheckIns = checkInsForCurrentPeriod.filter((ci: any) => ci.userId === userId);
-    const completed = userCheckIns.filter((ci: any) => ci.status === 'completed').length;
+    const completed = userCheckIns.filter((ci: any) => ci.status === 'completed' || ci.status === 'disputed').length;
     const required = challenge.cadence.requiredCount || 1;
     
     return `${completed}/${required}`;
   };
 
-  // Sort: current user first, then by status (completed, pending, missed, eliminated)
+  // Sort: current user first, then by status (completed, late, disputed, pending, upcoming, paused, missed, eliminated)
   const sortedMembers = [...memberIds].sort((a, b) => {
     if (a === currentUserId) return -1;
     if (b === currentUserId) return 1;
     
     const statusA = getMemberStatus(a);
     const statusB = getMemberStatus(b);
-    const statusOrder = { completed: 0, pending: 1, missed: 2, eliminated: 3 };
+    const statusOrder: Record<MemberStatus, number> = { completed: 0, late: 1, disputed: 2, pending: 3, upcoming: 4, paused: 5, missed: 6, eliminated: 7 };
     
     return statusOrder[statusA] - statusOrder[statusB];
   });
 
-  return (
-    <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.textSecondary + '30' }]}>
-      <Text style={[styles.title, { color: colors.text }]}>Group Status</Text>
+  const renderMemberRow = (userId: string, isLast: boolean) => {
+    const profile = memberProfiles[userId] || { name: `User ${userId.slice(0, 4)}` };
+    const status = getMemberStatus(userId);
+    const statusConfig = getStatusIcon(status);
+    const weeklyProgress = getWeeklyProgress(userId);
+    const isCurrentUser = userId === currentUserId;
 
-      <ScrollView style={[styles.list, listMaxHeight != null && { maxHeight: listMaxHeight }]} showsVerticalScrollIndicator={false}>
-        {sortedMembers.map((userId, index) => {
-          const profile = memberProfiles[userId] || { name: `User ${userId.slice(0, 4)}` };
-          const status = getMemberStatus(userId);
-          const statusConfig = getStatusIcon(status);
-          const weeklyProgress = getWeeklyProgress(userId);
-          const isCurrentUser = userId === currentUserId;
-          const isLast = index === sortedMembers.length - 1;
-
-          return (
-            <View
-              key={userId}
-              style={[
-                styles.memberRow,
-                isCurrentUser && styles.currentUserRow,
-                !isLast && { borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: colors.textSecondary + '25' },
-              ]}
-            >
-              {/* Avatar */}
-              <View style={[styles.avatarContainer, { borderColor: statusConfig.color }]}>
-                <Avatar
-                  source={profile.avatarUri}
-                  initials={profile.name?.charAt(0).toUpperCase() || '?'}
-                  size="sm"
-                />
-              </View>
+    return (
+      <View
+        key={userId}
+        style={[
+          styles.memberRow,
+          isCurrentUser && styles.currentUserRow,
+          !isLast && { borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: colors.textSecondary + '25' },
+        ]}
+      >
+        {/* Avatar */}
+        <View style={[styles.avatarContainer, { borderColor: statusConfig.color }]}>
+          <Avatar
+            source={profile.avatarUri}
+            initials={profile.name?.charAt(0).toUpperCase() || '?'}
+            size="sm"
+          />
+        </View>
 
-              {/* Name */}
-              <View style={styles.memberInfo}>
-                <Text style={[styles.memberName, { color: colors.text }, isCurrentUser && { fontWeight: '700' }]}>
-                  {isCurrentUser ? 'You' : profile.name}
-                </Text>
-                {weeklyProgress && (
-                  <Text style={[styles.weeklyProgress, { color: colors.textSecondary }]}>{weeklyProgress}</Text>
-                )}
-              </View>
+        {/* Name */}
+        <View style={styles.memberInfo}>
+          <Text style={[styles.memberName, { color: colors.text }, isCurrentUser && { fontWeight: '700' }]}>
+            {isCurrentUser ? 'You' : profile.name}
+          </Text>
+          {weeklyProgress && (
+            <Text style={[styles.weeklyProgress, { color: colors.textSecondary }]}>{weeklyProgress}</Text>
+          )}
+        </View>
+
+        {/* Status Icon */}
+        <View style={styles.statusContainer}>
+          <Ionicons
+            name={statusConfig.icon}
+            size={statusConfig.isFilled ? 22 : 20}
+            color={statusConfig.color}
+          />
+          <Text style={[styles.statusText, { color: statusConfig.color }]}>
+            {statusConfig.label}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  // Team challenges: group members under their team with the team's progress for the period
+  const teamRules: TeamRules | undefined = challenge.type === 'team' ? challenge.rules?.team : undefined;
+  const renderTeams = (rules: TeamRules) => {
+    const teamIdByUser: Record<string, string | undefined> = {};
+    challengeMembers.forEach((m: any) => { teamIdByUser[m.userId] = m.teamId; });
+
+    const completedCountByUser: Record<string, number> = {};
+    const sumByUser: Record<string, number> = {};
+    checkInsForCurrentPeriod
+      .filter((ci: any) => ci.status === 'completed' || ci.status === 'disputed')
+      .forEach((ci: any) => {
+        completedCountByUser[ci.userId] = (completedCountByUser[ci.userId] || 0) + 1;
+        if (typeof ci.payload?.numberValue === 'number') {
+          sumByUser[ci.userId] = (sumByUser[ci.userId] || 0) + ci.payload.numberValue;
+        }
+      });
+    const requiredCount = challenge.cadence.unit === 'daily' ? 1 : (challenge.cadence.requiredCount || 1);
+    // Paused members sit out the period, as they do in the scheduler
+    const activeMembers = challengeMembers.filter((m: any) => m.state === 'active' && getMemberStatus(m.userId) !== 'paused');
+    const results = scoreTeamPeriod(rules, activeMembers, completedCountByUser, sumByUser, requiredCount);
+
+    const sections = rules.teams.map(team => ({
+      key: team.id,
+      name: team.name,
+      result: results.find(r => r.teamId === team.id),
+      userIds: sortedMembers.filter(uid => teamIdByUser[uid] === team.id),
+    }));
+    const unassigned = sortedMembers.filter(uid => !rules.teams.some(t => t.id === teamIdByUser[uid]));
+    if (unassigned.length > 0) {
+      sections.push({ key: 'unassigned', name: 'No team', result: undefined, userIds: unassigned });
+    }
 
-              {/* Status Icon */}
-              <View style={styles.statusContainer}>
-                <Ionicons
-                  name={statusConfig.icon}
-                  size={statusConfig.isFilled ? 22 : 20}
-                  color={statusConfig.color}
-                />
-                <Text style={[styles.statusText, { color: statusConfig.color }]}>
-                  {statusConfig.label}
+    return sections.filter(section => section.userIds.length > 0).map(section => {
+      const result = section.result;
+      const progress = !result
+        ? null
+        : rules.successMode === 'sum'
+          ? `${result.total}/${rules.targetValue || 0}${challenge.submission?.unitLabel ? ` ${challenge.submission.unitLabel}` : ''}`
+          : `${result.completedCount}/${result.memberCount} in · needs ${rules.completionPercent ?? DEFAULT_TEAM_COMPLETION_PERCENT}%`;
+      return (
+        <View key={section.key} style={styles.teamSection}>
+          <View style={[styles.teamHeader, { borderBottomColor: colors.textSecondary + '25' }]}>
+            <Text style={[styles.teamName, { color: colors.text }]}>{section.name}</Text>
+            {progress && (
+              <View style={styles.teamProgress}>
+                <Text style={[styles.teamProgressText, { color: result?.succeeded ? '#22C55E' : colors.textSecondary }]}>
+                  {progress}
                 </Text>
+                {result?.succeeded && <Ionicons name="checkmark-circle" size={16} color="#22C55E" />}
               </View>
-            </View>
-          );
-        })}
+            )}
+          </View>
+          {section.userIds.map((userId, index) => renderMemberRow(userId, index === section.userIds.length - 1))}
+        </View>
+      );
+    });
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.textSecondary + '30' }]}>
+      <Text style={[styles.title, { color: colors.text }]}>{teamRules ? 'Team Status' : 'Group Status'}</Text>
+
+      <ScrollView style={[styles.list, listMaxHeight != null && { maxHeight: listMaxHeight }]} showsVerticalScrollIndicator={false}>
+        {teamRules?.teams?.length
+          ? renderTeams(teamRules)
+          : sortedMembers.map((userId, index) => renderMemberRow(userId, index === sortedMembers.length - 1))}
       </ScrollView>
     </View>
   );
@@ -196,4 +267,28 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textAlign: 'center',
   },
+
+  teamSection: {
+    marginBottom: 8,
+  },
+  teamHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingBottom: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  teamName: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  teamProgress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  teamProgressText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
 });
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { ChallengeService } from '../../services/challengeService';
+import { dateKeys } from '../../utils/dateKeys';
+import { resolveAdminTimeZone, getAdminZoneDayKey, countPauseDays, type MemberPause } from '../../utils/dueTime';
+import { useColorMode } from '../../theme/ColorModeContext';
+
+type Challenge = any;
+
+interface PausePanelProps {
+  challenge: Challenge;
+  /** The viewing user's challenge member doc */
+  member?: { state: 'active' | 'eliminated'; pauses?: MemberPause[] };
+  /** Called after a pause is scheduled or cancelled so the screen can reload */
+  onChanged?: () => void;
+}
+
+/**
+ * Vacation mode for challenges with `settings.pauses`. Members schedule whole
+ * days off (up to the admin's limit); the scheduler skips misses and strikes
+ * for periods a pause covers and streaks carry over it.
+ */
+export const PausePanel: React.FC<PausePanelProps> = ({ challenge, member, onChanged }) => {
+  const { colors } = useColorMode();
+  const [editing, setEditing] = useState(false);
+  const [startDate, setStartDate] = useState(() => new Date());
+  const [endDate, setEndDate] = useState(() => new Date());
+  const [androidPicker, setAndroidPicker] = useState<'start' | 'end' | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const maxDays = challenge?.settings?.pauses?.maxDaysPerMember || 0;
+  if (maxDays <= 0 || challenge.state === 'ended' || member?.state !== 'active') return null;
+
+  const pauses = member.pauses || [];
+  const daysUsed = countPauseDays(pauses);
+  const todayKey = getAdminZoneDayKey(resolveAdminTimeZone(challenge));
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+      setEditing(false);
+      onChanged?.();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSchedule = () => {
+    const startKey = dateKeys.getDayKey(startDate);
+    const endKey = dateKeys.getDayKey(endDate);
+    if (endKey < startKey) {
+      Alert.alert('Invalid Dates', 'The pause must end on or after its start date.');
+      return;
+    }
+    run(() => ChallengeService.schedulePause(challenge.id, startKey, endKey));
+  };
+
+  const handleCancel = (pause: MemberPause) => {
+    Alert.alert(
+      'Cancel pause?',
+      `Your pause from ${dateKeys.formatDate(pause.startKey)} to ${dateKeys.formatDate(pause.endKey)} will be removed.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Pause',
+          style: 'destructive',
+          onPress: () => run(() => ChallengeService.cancelPause(challenge.id, pause.startKey)),
+        },
+      ]
+    );
+  };
+
+  const renderDateField = (label: string, which: 'start' | 'end') => {
+    const value = which === 'start' ? startDate : endDate;
+    const setValue = which === 'start' ? setStartDate : setEndDate;
+    return (
+      <View style={styles.dateRow}>
+        <Text style={[styles.dateLabel, { color: colors.textSecondary }]}>{label}</Text>
+        {Platform.OS === 'ios' ? (
+          <DateTimePicker
+            value={value}
+            mode="date"
+            display="compact"
+            minimumDate={new Date()}
+            onChange={(_, d) => d && setValue(d)}
+            accentColor={colors.accent}
+          />
+        ) : (
+          <TouchableOpacity onPress={() => setAndroidPicker(which)}>
+            <Text style={[styles.dateValue, { color: colors.accent }]}>{dateKeys.formatDate(dateKeys.getDayKey(value))}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.textSecondary + '30' }]}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: colors.text }]}>Pauses</Text>
+        <Text style={[styles.usage, { color: colors.textSecondary }]}>{daysUsed}/{maxDays} days used</Text>
+      </View>
+
+      {pauses.map((pause) => {
+        const isUpcoming = pause.startKey > todayKey;
+        const label = pause.endKey < todayKey ? 'Ended' : isUpcoming ? 'Scheduled' : 'Active now';
+        return (
+          <View key={pause.startKey} style={[styles.row, { borderBottomColor: colors.textSecondary + '25' }]}>
+            <Ionicons name="pause-circle-outline" size={18} color="#0EA5E9" style={styles.rowIcon} />
+            <View style={styles.rowInfo}>
+              <Text style={[styles.rowName, { color: colors.text }]}>
+                {dateKeys.formatDate(pause.startKey)} – {dateKeys.formatDate(pause.endKey)}
+              </Text>
+              <Text style={[styles.rowDetail, { color: colors.textSecondary }]}>{label}</Text>
+            </View>
+            {isUpcoming && (
+              <TouchableOpacity
+                style={[styles.actionButton, { borderColor: '#EF4444' }]}
+                disabled={busy}
+                onPress={() => handleCancel(pause)}
+              >
+                <Text style={[styles.actionText, { color: '#EF4444' }]}>Cancel</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+
+      {editing ? (
+        <View style={styles.form}>
+          {renderDateField('First day off', 'start')}
+          {renderDateField('Last day off', 'end')}
+          <View style={styles.formActions}>
+            <TouchableOpacity onPress={() => setEditing(false)} disabled={busy}>
+              <Text style={[styles.actionText, { color: colors.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+            {busy ? (
+              <ActivityIndicator color={colors.accent} />
+            ) : (
+              <TouchableOpacity style={[styles.actionButton, { borderColor: colors.accent }]} onPress={handleSchedule}>
+                <Text style={[styles.actionText, { color: colors.accent }]}>Schedule</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      ) : daysUsed < maxDays && (
+        <TouchableOpacity style={styles.addButton} onPress={() => setEditing(true)}>
+          <Ionicons name="add-circle-outline" size={18} color={colors.accent} />
+          <Text style={[styles.addText, { color: colors.accent }]}>Schedule a pause</Text>
+        </TouchableOpacity>
+      )}
+
+      {androidPicker && (
+        <DateTimePicker
+          value={androidPicker === 'start' ? startDate : endDate}
+          mode="date"
+          display="default"
+          minimumDate={new Date()}
+          onChange={(_, d) => {
+            const which = androidPicker;
+            setAndroidPicker(null);
+            if (!d) return;
+            if (which === 'start') setStartDate(d);
+            else setEndDate(d);
+          }}
+          accentColor={colors.accent}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    padding: 14,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderWidth: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  usage: {
+    fontSize: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowIcon: {
+    marginRight: 10,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  rowName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  rowDetail: {
+    fontSize: 11,
+    marginTop: 1,
+  },
+  form: {
+    marginTop: 8,
+    gap: 8,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  dateLabel: {
+    fontSize: 13,
+  },
+  dateValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  formActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 4,
+  },
+  actionButton: {
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  actionText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingTop: 10,
+  },
+  addText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
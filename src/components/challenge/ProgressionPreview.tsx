@@ -0,0 +1,110 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { challengeEval } from '../../utils/challengeEval';
+import { dateKeys } from '../../utils/dateKeys';
+import { getCurrentPeriodKey } from '../../utils/dueTime';
+import { getUpcomingProgressionSteps } from '../../utils/progression';
+import { useColorMode } from '../../theme/ColorModeContext';
+
+type Challenge = any;
+
+interface ProgressionPreviewProps {
+  challenge: Challenge;
+}
+
+const PREVIEW_STEPS = 5;
+
+/** Progress challenges: the current target and the next few steps, deloads flagged. */
+export const ProgressionPreview: React.FC<ProgressionPreviewProps> = ({ challenge }) => {
+  const { colors } = useColorMode();
+
+  const rules = challenge?.rules?.progress;
+  if (challenge?.type !== 'progress' || !rules || challenge.state === 'ended') return null;
+
+  const steps = getUpcomingProgressionSteps(
+    rules,
+    challengeEval.getProgressAnchorKey(challenge),
+    getCurrentPeriodKey(challenge),
+    PREVIEW_STEPS
+  );
+  const unitLabel = challenge.submission?.unitLabel || 'units';
+
+  const getStepLabel = (startKey: string, index: number): string => {
+    if (index === 0) return 'Now';
+    if (rules.increaseUnit === 'week') return `Week of ${dateKeys.formatDate(startKey)}`;
+    return dateKeys.formatDate(startKey);
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.textSecondary + '30' }]}>
+      <Text style={[styles.title, { color: colors.text }]}>Upcoming Targets</Text>
+      <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+        {rules.comparison === 'lte' ? 'At most' : 'At least'} this much each period
+      </Text>
+
+      {steps.map((step, index) => (
+        <View
+          key={step.index}
+          style={[
+            styles.row,
+            index < steps.length - 1 && { borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: colors.textSecondary + '25' },
+          ]}
+        >
+          <Ionicons
+            name={step.isDeload ? 'trending-down' : index === 0 ? 'flag' : 'trending-up'}
+            size={16}
+            color={step.isDeload ? '#0EA5E9' : index === 0 ? colors.accent : colors.textSecondary}
+            style={styles.rowIcon}
+          />
+          <Text style={[styles.stepLabel, { color: colors.text }, index === 0 && { fontWeight: '700' }]}>
+            {getStepLabel(step.startKey, index)}
+            {step.isDeload ? ' · Deload' : ''}
+          </Text>
+          <Text style={[styles.target, { color: index === 0 ? colors.accent : colors.text }]}>{step.target}</Text>
+          <Text style={[styles.unit, { color: colors.textSecondary }]}>{unitLabel}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    padding: 14,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 11,
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  rowIcon: {
+    marginRight: 10,
+  },
+  stepLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  target: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  unit: {
+    fontSize: 12,
+    marginLeft: 4,
+  },
+});
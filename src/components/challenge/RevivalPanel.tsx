@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ChallengeService } from '../../services/challengeService';
+import { getRevivalXpCost, getRevivalVotesNeeded, getRevivalsLeft } from '../../utils/revival';
+import { useColorMode } from '../../theme/ColorModeContext';
+
+type Challenge = any;
+
+interface RevivalPanelProps {
+  challenge: Challenge;
+  currentUserId: string;
+  /** The viewing user's XP, for buy-backs */
+  currentUserXp?: number;
+  challengeMembers: Array<{ userId: string; state: 'active' | 'eliminated'; revivals?: number; revivalVotes?: string[] }>;
+  memberProfiles: Record<string, { name: string; avatarUri?: string }>;
+  /** Called after a buy-back or vote so the screen can reload */
+  onChanged?: () => void;
+}
+
+/**
+ * Elimination challenges with `rules.elimination.revival`: eliminated members
+ * buy back in with XP, or the members still in vote them back. Revived
+ * members return with the maximum strikes.
+ */
+export const RevivalPanel: React.FC<RevivalPanelProps> = ({
+  challenge,
+  currentUserId,
+  currentUserXp,
+  challengeMembers,
+  memberProfiles,
+  onChanged,
+}) => {
+  const { colors } = useColorMode();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const revival = challenge?.rules?.elimination?.revival;
+  if (challenge?.type !== 'elimination' || !revival || challenge.state === 'ended') return null;
+
+  const me = challengeMembers.find(m => m.userId === currentUserId);
+  const activeCount = challengeMembers.filter(m => m.state === 'active').length;
+  const votesNeeded = getRevivalVotesNeeded(revival, activeCount);
+  const revivable = challengeMembers.filter(m => m.state === 'eliminated' && getRevivalsLeft(revival, m.revivals) > 0);
+  const nameOf = (userId: string) => memberProfiles[userId]?.name || 'Member';
+
+  const canBuyBack = revival.mode === 'buyBack' && me?.state === 'eliminated' && getRevivalsLeft(revival, me.revivals) > 0;
+  const votable = revival.mode === 'vote' && me?.state === 'active' ? revivable : [];
+  const awaitingVotes = revival.mode === 'vote' && me?.state === 'eliminated' && revivable.includes(me);
+  if (!canBuyBack && votable.length === 0 && !awaitingVotes) return null;
+
+  const run = async (userId: string, action: () => Promise<void>) => {
+    setBusyId(userId);
+    try {
+      await action();
+      onChanged?.();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const xpCost = getRevivalXpCost(revival);
+  const handleBuyBack = () => {
+    Alert.alert(
+      'Buy back in?',
+      `You'll spend ${xpCost} XP and return with the maximum strikes. Your next miss eliminates you again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Buy Back',
+          onPress: () => run(currentUserId, async () => {
+            await ChallengeService.buyBackIn(challenge.id);
+          }),
+        },
+      ]
+    );
+  };
+
+  const handleVote = (userId: string) => {
+    run(userId, async () => {
+      await ChallengeService.voteToRevive(challenge.id, userId);
+    });
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.textSecondary + '30' }]}>
+      <Text style={[styles.title, { color: colors.text }]}>Revivals</Text>
+
+      {canBuyBack && (
+        <View style={[styles.row, { borderBottomColor: colors.textSecondary + '25' }]}>
+          <Ionicons name="heart-outline" size={18} color="#EF4444" style={styles.rowIcon} />
+          <View style={styles.rowInfo}>
+            <Text style={[styles.rowName, { color: colors.text }]}>Buy back in for {xpCost} XP</Text>
+            <Text style={[styles.rowDetail, { color: colors.textSecondary }]}>
+              {getRevivalsLeft(revival, me!.revivals)} left · you have {currentUserXp ?? 0} XP
+            </Text>
+          </View>
+          {busyId === currentUserId ? (
+            <ActivityIndicator color={colors.accent} />
+          ) : (
+            <TouchableOpacity
+              style={[styles.actionButton, { borderColor: colors.accent }]}
+              disabled={(currentUserXp ?? 0) < xpCost}
+              onPress={handleBuyBack}
+            >
+              <Text style={[styles.actionText, { color: (currentUserXp ?? 0) < xpCost ? colors.textSecondary : colors.accent }]}>
+                Buy Back
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {awaitingVotes && (
+        <View style={[styles.row, { borderBottomColor: colors.textSecondary + '25' }]}>
+          <Ionicons name="people-outline" size={18} color={colors.textSecondary} style={styles.rowIcon} />
+          <View style={styles.rowInfo}>
+            <Text style={[styles.rowName, { color: colors.text }]}>Waiting for the group</Text>
+            <Text style={[styles.rowDetail, { color: colors.textSecondary }]}>
+              {(me!.revivalVotes || []).length}/{votesNeeded} votes to bring you back
+            </Text>
+          </View>
+        </View>
+      )}
+
+      {votable.map((member) => {
+        const votes = member.revivalVotes || [];
+        const hasVoted = votes.includes(currentUserId);
+        return (
+          <View key={member.userId} style={[styles.row, { borderBottomColor: colors.textSecondary + '25' }]}>
+            <Ionicons name="skull-outline" size={18} color={colors.textSecondary} style={styles.rowIcon} />
+            <View style={styles.rowInfo}>
+              <Text style={[styles.rowName, { color: colors.text }]}>{nameOf(member.userId)}</Text>
+              <Text style={[styles.rowDetail, { color: colors.textSecondary }]}>
+                {votes.length}/{votesNeeded} votes to revive
+              </Text>
+            </View>
+            {busyId === member.userId ? (
+              <ActivityIndicator color={colors.accent} />
+            ) : (
+              <TouchableOpacity
+                style={[styles.actionButton, { borderColor: hasVoted ? colors.textSecondary : '#22C55E' }]}
+                disabled={hasVoted}
+                onPress={() => handleVote(member.userId)}
+              >
+                <Text style={[styles.actionText, { color: hasVoted ? colors.textSecondary : '#22C55E' }]}>
+                  {hasVoted ? 'Voted' : 'Revive'}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    padding: 14,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowIcon: {
+    marginRight: 10,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  rowName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  rowDetail: {
+    fontSize: 11,
+    marginTop: 1,
+  },
+  actionButton: {
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  actionText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -1,9 +1,11 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { challengeEval } from '../../utils/challengeEval';
+import { DEFAULT_TEAM_COMPLETION_PERCENT, type TeamRules } from '../../utils/teams';
+import type { ProgressionRules } from '../../utils/progression';
 import { useColorMode } from '../../theme/ColorModeContext';
 
-type ChallengeType = "standard" | "progress" | "elimination" | "deadline";
+type ChallengeType = "standard" | "progress" | "elimination" | "deadline" | "team";
 type InputType = "boolean" | "number" | "text" | "timer";
 
 interface RuleCardProps {
@@ -21,11 +23,7 @@ interface RuleCardProps {
     deadlineDate?: string;
   };
   rules?: {
-    progress?: {
-      startsAt: number;
-      increaseBy: number;
-      comparison: "gte" | "lte";
-    };
+    progress?: ProgressionRules;
     elimination?: {
       strikesAllowed: number;
       eliminateOn: "miss" | "failedRequirement";
@@ -34,6 +32,7 @@ interface RuleCardProps {
       targetValue?: number;
       comparison?: "gte" | "lte";
     };
+    team?: TeamRules;
   };
   challenge: any; // Full challenge object for progress target computation
 }
@@ -42,6 +41,7 @@ export const RuleCard: React.FC<RuleCardProps> = ({
   description,
   type,
   submission,
+  rules,
   challenge,
 }) => {
   const { colors } = useColorMode();
@@ -49,7 +49,14 @@ export const RuleCard: React.FC<RuleCardProps> = ({
     ? challengeEval.computeProgressTarget(challenge) 
     : null;
 
-  if (!description && !progressTarget) return null;
+  const teamRules = type === 'team' ? rules?.team : undefined;
+  const teamGoal = !teamRules
+    ? null
+    : teamRules.successMode === 'sum'
+      ? `Team goal: ${teamRules.targetValue || 0} ${submission.unitLabel || 'units'} combined each period`
+      : `Team goal: ${teamRules.completionPercent ?? DEFAULT_TEAM_COMPLETION_PERCENT}% of each team checks in`;
+
+  if (!description && !progressTarget && !teamGoal) return null;
 
   return (
     <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.dividerLineTodo + '99' }]}>
@@ -62,6 +69,10 @@ export const RuleCard: React.FC<RuleCardProps> = ({
           Target: {progressTarget} {submission.unitLabel || 'units'}
         </Text>
       )}
+
+      {teamGoal && (
+        <Text style={[styles.target, { color: colors.accent }]}>{teamGoal}</Text>
+      )}
     </View>
   );
 };
@@ -3,6 +3,7 @@ import { View, Text, StyleSheet, Image } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { challengeEval, type UserStatus } from '../../utils/challengeEval';
 import { CountdownTimer } from '../common/CountdownTimer';
+import { dateKeys } from '../../utils/dateKeys';
 import { useColorMode } from '../../theme/ColorModeContext';
 
 interface StatusCardProps {
@@ -14,6 +15,7 @@ interface StatusCardProps {
 
 export const StatusCard: React.FC<StatusCardProps> = ({ status, currentCheckIn, countdownTargetDate }) => {
   const { colors } = useColorMode();
+  const firstPhoto = currentCheckIn?.attachments?.find((a: any) => a.type !== 'video');
   const getStatusConfig = () => {
     switch (status.type) {
       case 'completed':
@@ -23,6 +25,20 @@ export const StatusCard: React.FC<StatusCardProps> = ({ status, currentCheckIn,
           title: 'Completed',
           subtitle: challengeEval.formatTimestamp(status.timestamp),
         };
+      case 'late':
+        return {
+          backgroundColor: '#F59E0B',
+          icon: 'time' as const,
+          title: 'Checked In Late',
+          subtitle: challengeEval.formatTimestamp(status.timestamp),
+        };
+      case 'disputed':
+        return {
+          backgroundColor: '#A855F7',
+          icon: 'flag' as const,
+          title: 'Disputed',
+          subtitle: 'Waiting for the admin to review',
+        };
       case 'pending':
         return {
           backgroundColor: '#FF6B35', // Orange for pending
@@ -40,6 +56,20 @@ export const StatusCard: React.FC<StatusCardProps> = ({ status, currentCheckIn,
           subtitle: isTimeString ? 'Due at ' + status.missedAt : status.missedAt,
         };
       }
+      case 'paused':
+        return {
+          backgroundColor: '#0EA5E9',
+          icon: 'pause-circle' as const,
+          title: 'Paused',
+          subtitle: 'Until ' + dateKeys.formatDate(status.until),
+        };
+      case 'upcoming':
+        return {
+          backgroundColor: '#6366F1',
+          icon: 'calendar-outline' as const,
+          title: 'Starting Soon',
+          subtitle: 'Starts ' + dateKeys.formatDate(status.startsAt),
+        };
       case 'eliminated':
         return {
           backgroundColor: '#666',
@@ -51,7 +81,7 @@ export const StatusCard: React.FC<StatusCardProps> = ({ status, currentCheckIn,
   };
 
   const config = getStatusConfig();
-  const isCompleted = status.type === 'completed';
+  const isCompleted = status.type === 'completed' || status.type === 'late' || status.type === 'disputed';
   const isPending = status.type === 'pending';
   const showCountdown = isPending && countdownTargetDate && countdownTargetDate.getTime() > Date.now();
 
@@ -95,10 +125,10 @@ export const StatusCard: React.FC<StatusCardProps> = ({ status, currentCheckIn,
       {/* Show submission details when completed */}
       {isCompleted && currentCheckIn && (
         <View style={styles.submissionDetails}>
-          {/* Show image if available */}
-          {currentCheckIn.attachments && currentCheckIn.attachments.length > 0 && (
+          {/* Show the first photo if available (videos have no still to show here) */}
+          {firstPhoto && (
             <Image 
-              source={{ uri: currentCheckIn.attachments[0].uri || currentCheckIn.attachments[0].url }} 
+              source={{ uri: firstPhoto.uri || firstPhoto.url }} 
               style={styles.submissionImage} 
               resizeMode="cover"
             />
@@ -0,0 +1,109 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { rankTeams, type TeamRules, type TeamScore } from '../../utils/teams';
+import { useColorMode } from '../../theme/ColorModeContext';
+
+interface TeamLeaderboardProps {
+  teamRules: TeamRules;
+  teamScores?: Record<string, TeamScore>;
+  /** Team of the viewing user, highlighted in the list */
+  currentTeamId?: string;
+}
+
+const getRankColor = (rank: number, fallback: string): string => {
+  if (rank === 1) return '#FFD700';
+  if (rank === 2) return '#C0C0C0';
+  if (rank === 3) return '#CD7F32';
+  return fallback;
+};
+
+/** Team challenge standings: teams ranked by periods won (from the scheduler's teamScores). */
+export const TeamLeaderboard: React.FC<TeamLeaderboardProps> = ({ teamRules, teamScores, currentTeamId }) => {
+  const { colors } = useColorMode();
+  const ranked = rankTeams(teamRules.teams, teamScores);
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.textSecondary + '30' }]}>
+      <Text style={[styles.title, { color: colors.text }]}>Team Leaderboard</Text>
+      <Text style={[styles.subtitle, { color: colors.textSecondary }]}>Ranked by periods completed</Text>
+
+      {ranked.map((team, index) => {
+        const rankColor = getRankColor(team.rank, colors.accent);
+        const isMine = team.id === currentTeamId;
+        return (
+          <View
+            key={team.id}
+            style={[
+              styles.row,
+              index < ranked.length - 1 && { borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: colors.textSecondary + '25' },
+            ]}
+          >
+            <View style={[styles.rankBadge, { backgroundColor: rankColor }]}>
+              {team.rank <= 3 && team.periodsWon > 0 ? (
+                <Ionicons name="trophy" size={12} color="#FFF" />
+              ) : (
+                <Text style={styles.rankText}>{team.rank}</Text>
+              )}
+            </View>
+            <Text style={[styles.teamName, { color: colors.text }, isMine && { fontWeight: '700' }]}>
+              {team.name}{isMine ? ' (you)' : ''}
+            </Text>
+            <Text style={[styles.score, { color: colors.accent }]}>{team.periodsWon}</Text>
+            <Text style={[styles.scoreLabel, { color: colors.textSecondary }]}>/ {team.periodsPlayed}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    padding: 14,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 11,
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  rankBadge: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  rankText: {
+    color: '#FFF',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  teamName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  score: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  scoreLabel: {
+    fontSize: 12,
+    marginLeft: 3,
+  },
+});
@@ -8,3 +8,10 @@ export { StatusCard } from './StatusCard';
 export { CheckInComposer, type CheckInDraft } from './CheckInComposer';
 export { MemberStatusList } from './MemberStatusList';
 export { HistoryStrip } from './HistoryStrip';
+export { DisputePanel } from './DisputePanel';
+export { TeamLeaderboard } from './TeamLeaderboard';
+export { PausePanel } from './PausePanel';
+export { ProgressionPreview } from './ProgressionPreview';
+export { DeadlineProgress } from './DeadlineProgress';
+export { RevivalPanel } from './RevivalPanel';
+export { LiveCaptureCamera } from './LiveCaptureCamera';
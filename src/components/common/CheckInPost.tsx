@@ -10,6 +10,7 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { Avatar } from './Avatar';
+import { MediaCarousel, MediaCarouselItem } from './MediaCarousel';
 import { Theme } from '../../constants/theme';
 
 interface CheckInPostProps {
@@ -19,6 +20,8 @@ interface CheckInPostProps {
   userAvatar?: string;
   caption: string;
   imageUri?: string;
+  /** All photos and clips of the check-in; shown as a swipeable viewer instead of imageUri */
+  media?: MediaCarouselItem[];
   timestamp: Date;
   upvotes: number;
   downvotes: number;
@@ -35,6 +38,7 @@ export const CheckInPost: React.FC<CheckInPostProps> = ({
   userAvatar,
   caption,
   imageUri,
+  media,
   timestamp,
   upvotes,
   downvotes,
@@ -95,7 +99,9 @@ export const CheckInPost: React.FC<CheckInPostProps> = ({
 
       {/* Content */}
       <View style={styles.content}>
-        {imageUri && (
+        {media && media.length > 0 ? (
+          <MediaCarousel items={media} height={200} style={styles.image} />
+        ) : imageUri && (
           <Image source={{ uri: imageUri }} style={styles.image} />
         )}
         <Text style={styles.caption}>{caption}</Text>
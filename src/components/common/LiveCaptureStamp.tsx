@@ -0,0 +1,71 @@
+import React from 'react';
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+interface LiveCaptureStampProps {
+  /** When the photo was taken (epoch ms) */
+  capturedAt: number;
+  /** Smaller stamp for thumbnails */
+  compact?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+export const formatLiveCaptureTime = (ms: number): string =>
+  new Date(ms).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/**
+ * Date/time watermark laid over a live-captured photo. Place it inside the
+ * photo's container; it pins itself to the bottom-left corner.
+ */
+export const LiveCaptureStamp: React.FC<LiveCaptureStampProps> = ({ capturedAt, compact = false, style }) => (
+  <View style={[styles.stamp, compact && styles.stampCompact, style]} pointerEvents="none">
+    <Ionicons name="camera" size={compact ? 9 : 12} color="#FFF" />
+    {!compact && <Text style={styles.live}>LIVE</Text>}
+    <Text style={[styles.time, compact && styles.timeCompact]} numberOfLines={1}>
+      {formatLiveCaptureTime(capturedAt)}
+    </Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  stamp: {
+    position: 'absolute',
+    left: 8,
+    bottom: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 5,
+    paddingVertical: 3,
+    paddingHorizontal: 7,
+    borderRadius: 6,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  stampCompact: {
+    left: 4,
+    bottom: 4,
+    gap: 3,
+    paddingVertical: 2,
+    paddingHorizontal: 4,
+    borderRadius: 4,
+  },
+  live: {
+    color: '#EF4444',
+    fontSize: 11,
+    fontWeight: '800',
+  },
+  time: {
+    color: '#FFF',
+    fontSize: 12,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
+  timeCompact: {
+    fontSize: 9,
+  },
+});
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  FlatList,
+  StyleSheet,
+  StyleProp,
+  ViewStyle,
+  LayoutChangeEvent,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+} from 'react-native';
+import { Video, ResizeMode } from 'expo-av';
+import { LiveCaptureStamp } from './LiveCaptureStamp';
+import { getMediaVariantUrl, CheckInAttachmentType } from '../../utils/attachments';
+
+export interface MediaCarouselItem {
+  type: CheckInAttachmentType;
+  uri: string;
+  /** Live-captured photos show their date/time stamp */
+  liveCapturedAt?: number;
+}
+
+interface MediaCarouselProps {
+  items: MediaCarouselItem[];
+  /** Height of the viewer; items are letterboxed inside it */
+  height: number;
+  initialIndex?: number;
+  onIndexChange?: (index: number) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Photo that loads the medium variant and falls back to the original until it exists
+const CarouselPhoto: React.FC<{ uri: string }> = ({ uri }) => {
+  const [failed, setFailed] = useState(false);
+  return (
+    <Image
+      source={{ uri: failed ? uri : getMediaVariantUrl(uri, 'medium') }}
+      style={styles.media}
+      resizeMode="contain"
+      onError={() => setFailed(true)}
+    />
+  );
+};
+
+/**
+ * Swipeable viewer for a check-in's photos and video clips. Videos show
+ * their poster frame and play with native controls; a page counter shows
+ * when there is more than one.
+ */
+export const MediaCarousel: React.FC<MediaCarouselProps> = ({
+  items,
+  height,
+  initialIndex = 0,
+  onIndexChange,
+  style,
+}) => {
+  const [width, setWidth] = useState(0);
+  const [index, setIndex] = useState(initialIndex);
+
+  const handleLayout = (e: LayoutChangeEvent) => setWidth(e.nativeEvent.layout.width);
+
+  const handleScrollEnd = (e: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (!width) return;
+    const next = Math.round(e.nativeEvent.contentOffset.x / width);
+    if (next !== index) {
+      setIndex(next);
+      onIndexChange?.(next);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { height }, style]} onLayout={handleLayout}>
+      {width > 0 && (
+        <FlatList
+          data={items}
+          keyExtractor={(item, i) => `${i}_${item.uri}`}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          initialScrollIndex={Math.min(initialIndex, items.length - 1)}
+          getItemLayout={(_, i) => ({ length: width, offset: width * i, index: i })}
+          onMomentumScrollEnd={handleScrollEnd}
+          renderItem={({ item, index: i }) => (
+            <View style={{ width, height }}>
+              {item.type === 'video' ? (
+                <Video
+                  source={{ uri: item.uri }}
+                  posterSource={{ uri: getMediaVariantUrl(item.uri, 'poster') }}
+                  posterStyle={styles.poster}
+                  usePoster
+                  style={styles.media}
+                  resizeMode={ResizeMode.CONTAIN}
+                  useNativeControls
+                  shouldPlay={false}
+                  isLooping={false}
+                />
+              ) : (
+                <CarouselPhoto uri={item.uri} />
+              )}
+              {item.liveCapturedAt !== undefined && i === index && (
+                <LiveCaptureStamp capturedAt={item.liveCapturedAt} />
+              )}
+            </View>
+          )}
+        />
+      )}
+
+      {items.length > 1 && (
+        <>
+          <View style={styles.counter} pointerEvents="none">
+            <Text style={styles.counterText}>
+              {index + 1}/{items.length}
+            </Text>
+          </View>
+          <View style={styles.dots} pointerEvents="none">
+            {items.map((_, i) => (
+              <View key={i} style={[styles.dot, i === index && styles.dotActive]} />
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    backgroundColor: '#000000',
+    overflow: 'hidden',
+  },
+  media: {
+    width: '100%',
+    height: '100%',
+  },
+  poster: {
+    width: '100%',
+    height: '100%',
+    resizeMode: 'contain',
+  },
+  counter: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  counterText: {
+    color: '#FFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  dots: {
+    position: 'absolute',
+    bottom: 8,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255,255,255,0.5)',
+  },
+  dotActive: {
+    backgroundColor: '#FFF',
+  },
+});
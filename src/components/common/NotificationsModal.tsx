@@ -45,6 +45,7 @@ const getTimeAgo = (timestamp: any): string => {
 const NOTIFICATION_ICONS: Record<NotificationType, string> = {
   hour_before: 'time-outline',
   chat_all: 'chatbubble-outline',
+  mentions: 'at-outline',
   group_checkins: 'checkmark-circle-outline',
   elimination: 'skull-outline',
   invites: 'person-add-outline',
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { OfflineCheckInService, type QueuedCheckIn } from '../../services/offlineCheckInService';
+import { useColorMode } from '../../theme/ColorModeContext';
+
+interface PendingCheckInsProps {
+  userId: string;
+  /** Called after a retried check-in was submitted so the screen can reload */
+  onSynced?: () => void;
+}
+
+const formatCapturedAt = (ms: number): string =>
+  new Date(ms).toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Check-ins saved while offline that haven't reached the server yet. They
+ * sync on their own; members can retry one now or drop it.
+ */
+export const PendingCheckIns: React.FC<PendingCheckInsProps> = ({ userId, onSynced }) => {
+  const { colors } = useColorMode();
+  const [queue, setQueue] = useState<QueuedCheckIn[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    OfflineCheckInService.getQueue(userId).then(items => {
+      if (active) setQueue(items);
+    });
+    const unsubscribe = OfflineCheckInService.subscribe(items => {
+      setQueue(items.filter(item => item.userId === userId));
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  if (queue.length === 0) return null;
+
+  const handleRetry = async (item: QueuedCheckIn) => {
+    const result = await OfflineCheckInService.retry(item.id);
+    if (result) onSynced?.();
+  };
+
+  const handleCancel = (item: QueuedCheckIn) => {
+    Alert.alert(
+      'Discard check-in?',
+      `Your check-in for ${item.challengeTitle || 'this challenge'} will not be submitted.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => OfflineCheckInService.cancel(item.id) },
+      ]
+    );
+  };
+
+  const getStatusText = (item: QueuedCheckIn): string => {
+    if (item.status === 'syncing') return 'Submitting...';
+    if (item.status === 'failed') return item.error || 'Could not be submitted';
+    return 'Waiting for a connection';
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.textSecondary + '30' }]}>
+      <Text style={[styles.title, { color: colors.text }]}>Pending Check-ins</Text>
+
+      {queue.map((item, index) => (
+        <View
+          key={item.id}
+          style={[
+            styles.row,
+            index < queue.length - 1 && { borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: colors.textSecondary + '25' },
+          ]}
+        >
+          <Ionicons
+            name={item.status === 'failed' ? 'alert-circle-outline' : 'cloud-upload-outline'}
+            size={18}
+            color={item.status === 'failed' ? '#EF4444' : colors.textSecondary}
+            style={styles.rowIcon}
+          />
+          <View style={styles.rowInfo}>
+            <Text style={[styles.rowName, { color: colors.text }]} numberOfLines={1}>
+              {item.challengeTitle || 'Check-in'}
+            </Text>
+            <Text style={[styles.rowDetail, { color: item.status === 'failed' ? '#EF4444' : colors.textSecondary }]} numberOfLines={2}>
+              {formatCapturedAt(item.capturedAt)} · {getStatusText(item)}
+            </Text>
+          </View>
+          {item.status === 'syncing' ? (
+            <ActivityIndicator color={colors.accent} />
+          ) : (
+            <View style={styles.actions}>
+              <TouchableOpacity style={[styles.actionButton, { borderColor: colors.accent }]} onPress={() => handleRetry(item)}>
+                <Text style={[styles.actionText, { color: colors.accent }]}>Retry</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.actionButton, { borderColor: colors.textSecondary }]} onPress={() => handleCancel(item)}>
+                <Text style={[styles.actionText, { color: colors.textSecondary }]}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    padding: 14,
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  rowIcon: {
+    marginRight: 10,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  rowName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  rowDetail: {
+    fontSize: 11,
+    marginTop: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  actionButton: {
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  actionText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
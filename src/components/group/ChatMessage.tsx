@@ -1,10 +1,14 @@
 import React, { useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Image, Alert, Modal, Dimensions } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Pressable, Image, Alert, Modal, Dimensions } from 'react-native';
 import { Avatar } from '../common/Avatar';
 import { GroupChatMessage } from '../../services/messageService';
 import { Ionicons } from '@expo/vector-icons';
 import { Flame } from 'lucide-react-native';
 import { useColorMode } from '../../theme/ColorModeContext';
+import { getPhotoIntegrityLabel } from '../../utils/photoIntegrity';
+import { LiveCaptureStamp } from '../common/LiveCaptureStamp';
+import { MediaCarousel } from '../common/MediaCarousel';
+import { CHAT_REACTIONS, getReactionCounts, splitMentions } from '../../utils/chat';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -19,25 +23,59 @@ function formatMessageTime(timestamp: GroupChatMessage['timestamp']): string {
   return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
 }
 
+/** An entry in a message's long-press menu (edit, delete, report, ...) */
+export interface MessageAction {
+  label: string;
+  icon: React.ComponentProps<typeof Ionicons>['name'];
+  destructive?: boolean;
+  onPress: (message: GroupChatMessage) => void;
+}
+
 interface ChatMessageProps {
   message: GroupChatMessage;
   isOwn: boolean;
-  onUpvote: (messageId: string) => void;
-  onDownvote: (messageId: string, reason: string) => void;
+  onReact: (message: GroupChatMessage, emoji: string) => void;
   onAIJudge: (messageId: string) => void;
+  /** Start a reply to this message */
+  onReply?: (message: GroupChatMessage) => void;
+  /** Open the thread this message starts */
+  onOpenThread?: (message: GroupChatMessage) => void;
   currentUserId?: string;
+  /** Member display names, to highlight @mentions */
+  memberNames?: string[];
+  /** Menu entries for this message, shown under the reactions on long press */
+  actions?: MessageAction[];
 }
 
 export const ChatMessage: React.FC<ChatMessageProps> = ({
   message,
   isOwn,
-  onUpvote,
-  onDownvote,
+  onReact,
   onAIJudge,
+  onReply,
+  onOpenThread,
   currentUserId,
+  memberNames = [],
+  actions = [],
 }) => {
   const { colors } = useColorMode();
   const [imageModalVisible, setImageModalVisible] = useState(false);
+  const [showActions, setShowActions] = useState(false);
+  const reactionCounts = getReactionCounts(message.reactions, currentUserId);
+  const myReaction = currentUserId ? message.reactions?.[currentUserId] : undefined;
+  const canInteract = message.type === 'text' || message.type === 'image' || message.type === 'checkin';
+
+  const handleReact = (emoji: string) => {
+    setShowActions(false);
+    onReact(message, emoji);
+  };
+
+  const showEditHistory = () => {
+    const versions = (message.editHistory || [])
+      .map(e => `${e.editedAt.toLocaleString()}\n${e.text}`)
+      .join('\n\n');
+    Alert.alert('Edit history', versions || 'No earlier versions');
+  };
   const isCheckIn = message.type === 'checkin';
   const isElimination = message.type === 'elimination';
   const isWinner = message.type === 'winner';
@@ -53,12 +91,17 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
         />
       )}
 
-      <View style={[
-        styles.messageBubble,
-        { backgroundColor: colors.surface, borderWidth: 1, borderColor: colors.dividerLineTodo + '99' },
-        isOwn && [styles.ownMessageBubble, { backgroundColor: colors.accent, borderColor: 'transparent' }],
-        isCheckIn && [styles.checkInMessageBubble, { backgroundColor: colors.surface, borderColor: colors.dividerLineTodo + '99' }]
-      ]}>
+      <View style={[styles.bubbleColumn, isOwn && styles.ownBubbleColumn, isCheckIn && styles.checkInBubbleColumn]}>
+      <Pressable
+        onLongPress={canInteract || actions.length > 0 ? () => setShowActions(v => !v) : undefined}
+        delayLongPress={300}
+        style={[
+          styles.messageBubble,
+          { backgroundColor: colors.surface, borderWidth: 1, borderColor: colors.dividerLineTodo + '99' },
+          isOwn && [styles.ownMessageBubble, { backgroundColor: colors.accent, borderColor: 'transparent' }],
+          isCheckIn && [styles.checkInMessageBubble, { backgroundColor: colors.surface, borderColor: colors.dividerLineTodo + '99' }]
+        ]}
+      >
         {!isOwn && (
           <View style={styles.userNameRow}>
             <Text style={[styles.messageUserName, { color: colors.textSecondary }]}>{message.userName}</Text>
@@ -71,6 +114,17 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
           </View>
         )}
 
+        {message.replyTo && (
+          <View style={[styles.replyQuote, { borderLeftColor: isOwn ? 'rgba(255,255,255,0.7)' : colors.accent }]}>
+            <Text style={[styles.replyQuoteName, { color: isOwn ? '#FFF' : colors.accent }]} numberOfLines={1}>
+              {message.replyTo.userName}
+            </Text>
+            <Text style={[styles.replyQuoteText, { color: isOwn ? 'rgba(255,255,255,0.85)' : colors.textSecondary }]} numberOfLines={2}>
+              {message.replyTo.text || 'Photo'}
+            </Text>
+          </View>
+        )}
+
         {isCheckIn ? (
           <View style={styles.checkInContent}>
             {(message as any).challengeTitle && (
@@ -86,13 +140,25 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
               </View>
             )}
 
-            {message.imageUrl && (
+            {message.integrityFlags && message.integrityFlags.length > 0 && (
+              <View style={styles.integrityBadge}>
+                <Ionicons name="warning" size={14} color="#B45309" />
+                <Text style={styles.integrityText}>
+                  {message.integrityFlags.map(getPhotoIntegrityLabel).join(' · ')}
+                </Text>
+              </View>
+            )}
+
+            {message.media && message.media.length > 0 ? (
+              <MediaCarousel items={message.media} height={280} style={styles.checkInMedia} />
+            ) : message.imageUrl && (
               <TouchableOpacity
                 activeOpacity={0.9}
                 onPress={() => setImageModalVisible(true)}
                 style={styles.checkInImageTouchable}
               >
                 <Image source={{ uri: message.imageUrl }} style={styles.checkInImage} />
+                {message.liveCapturedAt ? <LiveCaptureStamp capturedAt={message.liveCapturedAt} /> : null}
               </TouchableOpacity>
             )}
 
@@ -130,27 +196,18 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
 
             {!isOwn && (
               <View style={[styles.votingSection, { borderTopColor: colors.dividerLineTodo + '60' }]}>
-                <TouchableOpacity style={styles.voteButton} onPress={() => onUpvote(message.id)}>
-                  <Ionicons
-                    name={currentUserId && (message.upvotedBy || []).includes(currentUserId) ? 'thumbs-up' : 'thumbs-up-outline'}
-                    size={18}
-                    color={currentUserId && (message.upvotedBy || []).includes(currentUserId) ? '#4CAF50' : colors.textSecondary}
-                  />
-                  <Text style={[styles.voteCount, { color: colors.text }]}>{message.upvotes || 0}</Text>
+                <TouchableOpacity style={styles.voteButton} onPress={() => setShowActions(v => !v)}>
+                  {myReaction ? (
+                    <Text style={styles.myReaction}>{myReaction}</Text>
+                  ) : (
+                    <Ionicons name="happy-outline" size={18} color={colors.textSecondary} />
+                  )}
+                  <Text style={[styles.voteCount, { color: colors.text }]}>React</Text>
                 </TouchableOpacity>
 
                 <TouchableOpacity style={[styles.aiJudgeButton, { backgroundColor: colors.accent }]} onPress={() => onAIJudge(message.id)}>
                   <Text style={styles.aiJudgeButtonText}>Judge with AI</Text>
                 </TouchableOpacity>
-
-                <TouchableOpacity style={styles.voteButton} onPress={() => onDownvote(message.id, '')}>
-                  <Ionicons
-                    name={currentUserId && (message.downvotedBy || []).includes(currentUserId) ? 'thumbs-down' : 'thumbs-down-outline'}
-                    size={18}
-                    color={currentUserId && (message.downvotedBy || []).includes(currentUserId) ? '#F44336' : colors.textSecondary}
-                  />
-                  <Text style={[styles.voteCount, { color: colors.text }]}>{message.downvotes || 0}</Text>
-                </TouchableOpacity>
               </View>
             )}
 
@@ -186,7 +243,13 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
           <>
             {message.type === 'text' ? (
               <Text style={[styles.messageText, { color: isOwn ? '#FFF' : colors.text }, isOwn && styles.ownMessageText]}>
-                {message.text}
+                {(message.mentions?.length ? splitMentions(message.text || '', memberNames) : [{ text: message.text || '', mention: false }]).map((part, i) =>
+                  part.mention ? (
+                    <Text key={i} style={[styles.mention, { color: isOwn ? '#FFF' : colors.accent }]}>{part.text}</Text>
+                  ) : (
+                    part.text
+                  )
+                )}
               </Text>
             ) : (
               <Image source={{ uri: message.imageUrl }} style={styles.messageImage} />
@@ -197,8 +260,81 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
         {!isCheckIn && (
           <Text style={[styles.messageTime, { color: isOwn ? 'rgba(255,255,255,0.7)' : colors.textSecondary }, isOwn && styles.ownMessageTime]}>
             {formatMessageTime(message.timestamp)}
+            {message.editedAt && (
+              <Text style={styles.editedMarker} onPress={showEditHistory}> · edited</Text>
+            )}
           </Text>
         )}
+      </Pressable>
+
+      {showActions && canInteract && (
+        <View style={[styles.actionsBar, { backgroundColor: colors.surface, borderColor: colors.dividerLineTodo + '99' }]}>
+          {CHAT_REACTIONS.map(emoji => (
+            <TouchableOpacity
+              key={emoji}
+              style={[styles.actionReaction, myReaction === emoji && { backgroundColor: colors.accent + '30' }]}
+              onPress={() => handleReact(emoji)}
+            >
+              <Text style={styles.actionReactionText}>{emoji}</Text>
+            </TouchableOpacity>
+          ))}
+          {onReply && (
+            <TouchableOpacity
+              style={styles.actionReaction}
+              onPress={() => {
+                setShowActions(false);
+                onReply(message);
+              }}
+            >
+              <Ionicons name="arrow-undo-outline" size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {showActions && actions.length > 0 && (
+        <View style={[styles.menu, { backgroundColor: colors.surface, borderColor: colors.dividerLineTodo + '99' }]}>
+          {actions.map(action => (
+            <TouchableOpacity
+              key={action.label}
+              style={styles.menuItem}
+              onPress={() => {
+                setShowActions(false);
+                action.onPress(message);
+              }}
+            >
+              <Ionicons name={action.icon} size={16} color={action.destructive ? '#E53935' : colors.text} />
+              <Text style={[styles.menuItemText, { color: action.destructive ? '#E53935' : colors.text }]}>{action.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {reactionCounts.length > 0 && (
+        <View style={[styles.reactionsRow, isOwn && styles.ownReactionsRow]}>
+          {reactionCounts.map(r => (
+            <TouchableOpacity
+              key={r.emoji}
+              style={[
+                styles.reactionChip,
+                { backgroundColor: colors.surface, borderColor: r.mine ? colors.accent : colors.dividerLineTodo + '99' },
+              ]}
+              onPress={() => handleReact(r.emoji)}
+            >
+              <Text style={styles.reactionEmoji}>{r.emoji}</Text>
+              <Text style={[styles.reactionCount, { color: r.mine ? colors.accent : colors.textSecondary }]}>{r.count}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {!!message.replyCount && onOpenThread && (
+        <TouchableOpacity onPress={() => onOpenThread(message)} hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}>
+          <Text style={[styles.threadLink, { color: colors.accent }]}>
+            {message.replyCount === 1 ? '1 reply' : `${message.replyCount} replies`}
+          </Text>
+        </TouchableOpacity>
+      )}
       </View>
     </View>
   );
@@ -217,8 +353,18 @@ const styles = StyleSheet.create({
   messageAvatar: {
     marginRight: 8,
   },
-  messageBubble: {
+  bubbleColumn: {
     maxWidth: '75%',
+    alignItems: 'flex-start',
+  },
+  ownBubbleColumn: {
+    alignItems: 'flex-end',
+  },
+  checkInBubbleColumn: {
+    maxWidth: '90%',
+  },
+  messageBubble: {
+    maxWidth: '100%',
     paddingHorizontal: 12,
     paddingVertical: 8,
     borderRadius: 16,
@@ -228,7 +374,7 @@ const styles = StyleSheet.create({
     backgroundColor: '#FF6B35',
   },
   checkInMessageBubble: {
-    maxWidth: '90%',
+    maxWidth: '100%',
     minWidth: 280,
     backgroundColor: '#FFF',
     borderRadius: 16,
@@ -285,6 +431,21 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     flex: 1,
   },
+  integrityBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    backgroundColor: '#FEF3C7',
+  },
+  integrityText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#B45309',
+  },
   checkInImageTouchable: {
     width: '100%',
     borderRadius: 12,
@@ -296,6 +457,9 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     resizeMode: 'cover',
   },
+  checkInMedia: {
+    borderRadius: 12,
+  },
   checkInNote: {
     fontSize: 15,
     color: '#333',
@@ -355,6 +519,91 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: '600',
   },
+  myReaction: {
+    fontSize: 16,
+  },
+  replyQuote: {
+    borderLeftWidth: 3,
+    paddingLeft: 8,
+    marginBottom: 6,
+  },
+  replyQuoteName: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  replyQuoteText: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+  mention: {
+    fontWeight: '700',
+  },
+  actionsBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  actionReaction: {
+    padding: 6,
+    borderRadius: 14,
+  },
+  actionReactionText: {
+    fontSize: 20,
+  },
+  reactionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginTop: 4,
+  },
+  ownReactionsRow: {
+    justifyContent: 'flex-end',
+  },
+  reactionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    paddingHorizontal: 7,
+    paddingVertical: 2,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  reactionEmoji: {
+    fontSize: 13,
+  },
+  reactionCount: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  menu: {
+    marginTop: 4,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  menuItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  menuItemText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  editedMarker: {
+    fontStyle: 'italic',
+  },
+  threadLink: {
+    fontSize: 12,
+    fontWeight: '700',
+    marginTop: 4,
+  },
   messageText: {
     fontSize: 14,
     color: '#333',
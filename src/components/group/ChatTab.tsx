@@ -1,19 +1,42 @@
 import React from 'react';
-import { View, FlatList, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { View, Text, FlatList, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
 import { GroupChatMessage } from '../../services/messageService';
-import { ChatMessage } from './ChatMessage';
+import { ChatMessage, MessageAction } from './ChatMessage';
 import { Ionicons } from '@expo/vector-icons';
 import { useColorMode } from '../../theme/ColorModeContext';
+import { User } from '../../types';
+import { getMentionQuery, insertMention } from '../../utils/chat';
+
+// Mention suggestions shown at once
+const MAX_MENTION_SUGGESTIONS = 5;
 
 interface ChatTabProps {
   messages: GroupChatMessage[];
   messageText: string;
   onMessageTextChange: (text: string) => void;
   onSendMessage: () => void;
-  onUpvote: (messageId: string) => void;
-  onDownvote: (messageId: string, reason: string) => void;
+  onReact: (message: GroupChatMessage, emoji: string) => void;
   onAIJudge: (messageId: string) => void;
+  onReply: (message: GroupChatMessage) => void;
+  onOpenThread: (message: GroupChatMessage) => void;
+  /** Message the next send replies to, shown above the input */
+  replyingTo?: GroupChatMessage | null;
+  onCancelReply?: () => void;
+  /** Message being edited; the input holds its new text */
+  editingMessage?: GroupChatMessage | null;
+  onCancelEdit?: () => void;
+  /** Long-press menu entries for a message */
+  getMessageActions?: (message: GroupChatMessage) => MessageAction[];
+  /** The group admin muted the current user; the input is replaced by a notice */
+  muted?: boolean;
+  /** Group members, for @mention suggestions and highlighting */
+  members?: User[];
   currentUserId?: string;
+  /** Last time the user read this chat; a "New messages" divider goes above the first message after it */
+  unreadSince?: Date | null;
+  /** Called when the user scrolls up to the oldest loaded message */
+  onLoadOlder?: () => void;
+  loadingOlder?: boolean;
 }
 
 export const ChatTab: React.FC<ChatTabProps> = ({
@@ -21,50 +44,145 @@ export const ChatTab: React.FC<ChatTabProps> = ({
   messageText,
   onMessageTextChange,
   onSendMessage,
-  onUpvote,
-  onDownvote,
+  onReact,
   onAIJudge,
+  onReply,
+  onOpenThread,
+  replyingTo,
+  onCancelReply,
+  editingMessage,
+  onCancelEdit,
+  getMessageActions,
+  muted = false,
+  members = [],
   currentUserId,
+  unreadSince,
+  onLoadOlder,
+  loadingOlder = false,
 }) => {
   const { colors } = useColorMode();
+  const memberNames = members.map(m => m.displayName).filter(Boolean);
+
+  const mentionQuery = getMentionQuery(messageText);
+  const mentionSuggestions = mentionQuery === null
+    ? []
+    : members
+        .filter(m => m.id !== currentUserId && m.displayName?.toLowerCase().includes(mentionQuery.toLowerCase()))
+        .slice(0, MAX_MENTION_SUGGESTIONS);
+
+  // Oldest unread message from someone else (messages are newest first)
+  let firstUnreadId: string | undefined;
+  if (unreadSince) {
+    for (const m of messages) {
+      if (m.timestamp <= unreadSince) break;
+      if (m.userId !== currentUserId) firstUnreadId = m.id;
+    }
+  }
+
   return (
     <>
       <FlatList
         data={messages}
         renderItem={({ item }) => (
-          <ChatMessage
-            message={item}
-            isOwn={item.userId === currentUserId}
-            onUpvote={onUpvote}
-            onDownvote={onDownvote}
-            onAIJudge={onAIJudge}
-            currentUserId={currentUserId}
-          />
+          <>
+            {item.id === firstUnreadId && (
+              <View style={styles.unreadDivider}>
+                <View style={[styles.unreadLine, { backgroundColor: colors.accent }]} />
+                <Text style={[styles.unreadText, { color: colors.accent }]}>New messages</Text>
+                <View style={[styles.unreadLine, { backgroundColor: colors.accent }]} />
+              </View>
+            )}
+            <ChatMessage
+              message={item}
+              isOwn={item.userId === currentUserId}
+              onReact={onReact}
+              onAIJudge={onAIJudge}
+              onReply={onReply}
+              onOpenThread={onOpenThread}
+              currentUserId={currentUserId}
+              memberNames={memberNames}
+              actions={getMessageActions?.(item)}
+            />
+          </>
         )}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.messagesList}
         showsVerticalScrollIndicator={false}
         inverted
+        onEndReached={onLoadOlder}
+        onEndReachedThreshold={0.3}
+        ListFooterComponent={loadingOlder ? <ActivityIndicator style={styles.loadingOlder} color={colors.accent} /> : null}
       />
 
-      <View style={[styles.chatInputContainer, { backgroundColor: colors.background, borderTopWidth: 0 }]}>
-        <TextInput
-          style={[styles.messageInput, { backgroundColor: colors.surface, color: colors.text, borderColor: colors.dividerLineTodo + '80' }]}
-          placeholder="Message..."
-          placeholderTextColor={colors.textSecondary}
-          value={messageText}
-          onChangeText={onMessageTextChange}
-          multiline
-          maxLength={500}
-        />
-        <TouchableOpacity
-          style={[styles.sendButton, { backgroundColor: colors.accent }, !messageText.trim() && [styles.sendButtonDisabled, { backgroundColor: colors.dividerLineTodo + '99' }]]}
-          onPress={onSendMessage}
-          disabled={!messageText.trim()}
-        >
-          <Ionicons name="arrow-up" size={22} color="#FFF" />
-        </TouchableOpacity>
-      </View>
+      {mentionSuggestions.length > 0 && (
+        <View style={[styles.mentionList, { backgroundColor: colors.surface, borderColor: colors.dividerLineTodo + '80' }]}>
+          {mentionSuggestions.map(m => (
+            <TouchableOpacity
+              key={m.id}
+              style={styles.mentionItem}
+              onPress={() => onMessageTextChange(insertMention(messageText, m.displayName))}
+            >
+              <Text style={[styles.mentionName, { color: colors.text }]}>@{m.displayName}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {editingMessage && (
+        <View style={[styles.replyBar, { backgroundColor: colors.surface, borderLeftColor: colors.accent }]}>
+          <View style={styles.replyBarText}>
+            <Text style={[styles.replyBarName, { color: colors.accent }]}>Editing message</Text>
+            <Text style={[styles.replyBarPreview, { color: colors.textSecondary }]} numberOfLines={1}>
+              {editingMessage.text}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={onCancelEdit} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <Ionicons name="close" size={18} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {replyingTo && !editingMessage && (
+        <View style={[styles.replyBar, { backgroundColor: colors.surface, borderLeftColor: colors.accent }]}>
+          <View style={styles.replyBarText}>
+            <Text style={[styles.replyBarName, { color: colors.accent }]} numberOfLines={1}>
+              Replying to {replyingTo.userName}
+            </Text>
+            <Text style={[styles.replyBarPreview, { color: colors.textSecondary }]} numberOfLines={1}>
+              {replyingTo.text || replyingTo.caption || 'Photo'}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={onCancelReply} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <Ionicons name="close" size={18} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {muted ? (
+        <View style={[styles.mutedNotice, { backgroundColor: colors.surface }]}>
+          <Ionicons name="volume-mute-outline" size={18} color={colors.textSecondary} />
+          <Text style={[styles.mutedText, { color: colors.textSecondary }]}>The group admin muted you in this chat</Text>
+        </View>
+      ) : (
+        <View style={[styles.chatInputContainer, { backgroundColor: colors.background, borderTopWidth: 0 }]}>
+          <TextInput
+            style={[styles.messageInput, { backgroundColor: colors.surface, color: colors.text, borderColor: colors.dividerLineTodo + '80' }]}
+            placeholder="Message..."
+            placeholderTextColor={colors.textSecondary}
+            value={messageText}
+            onChangeText={onMessageTextChange}
+            multiline
+            maxLength={500}
+          />
+          <TouchableOpacity
+            style={[styles.sendButton, { backgroundColor: colors.accent }, !messageText.trim() && [styles.sendButtonDisabled, { backgroundColor: colors.dividerLineTodo + '99' }]]}
+            onPress={onSendMessage}
+            disabled={!messageText.trim()}
+          >
+            <Ionicons name="arrow-up" size={22} color="#FFF" />
+          </TouchableOpacity>
+        </View>
+      )}
     </>
   );
 };
@@ -73,6 +191,72 @@ const styles = StyleSheet.create({
   messagesList: {
     paddingVertical: 10,
   },
+  loadingOlder: {
+    paddingVertical: 12,
+  },
+  unreadDivider: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  unreadLine: {
+    flex: 1,
+    height: 1,
+  },
+  unreadText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  mentionList: {
+    marginHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingVertical: 4,
+  },
+  mentionItem: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  mentionName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  replyBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderLeftWidth: 3,
+    gap: 8,
+  },
+  replyBarText: {
+    flex: 1,
+  },
+  replyBarName: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  replyBarPreview: {
+    fontSize: 12,
+  },
+  mutedNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginVertical: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  mutedText: {
+    fontSize: 14,
+  },
   chatInputContainer: {
     flexDirection: 'row',
     alignItems: 'flex-end',
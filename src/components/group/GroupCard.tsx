@@ -9,6 +9,8 @@ interface GroupCardProps {
   group: Group;
   members?: User[];
   challengeCount?: number;
+  /** Chat messages from others since the user last opened the group */
+  unreadCount?: number;
   onPress: () => void;
 }
 
@@ -16,6 +18,7 @@ export const GroupCard: React.FC<GroupCardProps> = ({
   group,
   members = [],
   challengeCount = 0,
+  unreadCount = 0,
   onPress,
 }) => {
   const { colors } = useColorMode();
@@ -48,8 +51,15 @@ export const GroupCard: React.FC<GroupCardProps> = ({
             </View>
           )}
         </View>
-        <View style={[styles.challengeBadge, { backgroundColor: colors.card, borderColor: colors.dividerLineTodo }]}>
-          <Text style={[styles.challengeCount, { color: colors.accent }]}>{challengeCount}</Text>
+        <View style={styles.badges}>
+          {unreadCount > 0 && (
+            <View style={[styles.unreadBadge, { backgroundColor: colors.accent }]}>
+              <Text style={styles.unreadCount}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+            </View>
+          )}
+          <View style={[styles.challengeBadge, { backgroundColor: colors.card, borderColor: colors.dividerLineTodo }]}>
+            <Text style={[styles.challengeCount, { color: colors.accent }]}>{challengeCount}</Text>
+          </View>
         </View>
       </View>
       <View style={styles.groupContent}>
@@ -105,6 +115,24 @@ const styles = StyleSheet.create({
     fontWeight: '800',
     color: '#FFFFFF',
   },
+  badges: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  unreadBadge: {
+    minWidth: 24,
+    height: 24,
+    paddingHorizontal: 7,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  unreadCount: {
+    fontSize: 12,
+    fontWeight: '800',
+    color: '#FFFFFF',
+  },
   challengeBadge: {
     flexDirection: 'row',
     alignItems: 'center',
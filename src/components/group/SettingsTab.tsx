@@ -1,18 +1,29 @@
-import React from 'react';
-import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import React, { useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet, Alert, TextInput } from 'react-native';
 import { Avatar } from '../common/Avatar';
-import { User, Challenge } from '../../types';
+import { User, Challenge, Group } from '../../types';
 import { Ionicons } from '@expo/vector-icons';
 import { useColorMode } from '../../theme/ColorModeContext';
+import { dateKeys } from '../../utils/dateKeys';
+import { hasChallengeStarted } from '../../utils/dueTime';
+import { canInGroup, canRemoveMember, getGroupRole, GROUP_ROLE_LABELS } from '../../utils/groupRoles';
 
 interface SettingsTabProps {
   description: string | null;
   members: User[];
   challenges: Challenge[];
   groupMembers?: User[];
+  /** Roles and permissions come from the group; without it the tab is read-only */
+  group?: Group;
+  currentUserId?: string;
   onChallengePress: (challenge: Challenge) => void;
   onInvitePress?: () => void;
   onLeaveGroup?: () => void;
+  onRenameGroup?: (name: string) => void;
+  onRemoveMember?: (member: User) => void;
+  onSetMemberAdmin?: (member: User, admin: boolean) => void;
+  onTransferOwnership?: (member: User) => void;
+  onDeleteGroup?: () => void;
 }
 
 export const SettingsTab: React.FC<SettingsTabProps> = ({
@@ -20,19 +31,75 @@ export const SettingsTab: React.FC<SettingsTabProps> = ({
   members,
   challenges,
   groupMembers,
+  group,
+  currentUserId,
   onChallengePress,
   onInvitePress,
   onLeaveGroup,
+  onRenameGroup,
+  onRemoveMember,
+  onSetMemberAdmin,
+  onTransferOwnership,
+  onDeleteGroup,
 }) => {
   const { colors } = useColorMode();
+  const [renaming, setRenaming] = useState(false);
+  const [nameDraft, setNameDraft] = useState('');
+  const canInvite = !!group && canInGroup(group, currentUserId, 'invite');
+  const canRename = !!group && !!onRenameGroup && canInGroup(group, currentUserId, 'rename');
+  const canManageAdmins = !!group && canInGroup(group, currentUserId, 'manageAdmins');
+  const canDelete = !!group && !!onDeleteGroup && canInGroup(group, currentUserId, 'deleteGroup');
   const activeChallenges = challenges.filter(c => c.state !== 'ended');
   const finishedChallenges = challenges.filter(c => c.state === 'ended');
 
-  const getWinnerName = (winnerId?: string) => {
-    if (!winnerId) return null;
+  // Seasonal challenges keep one doc per season; finished seasons are listed as finished challenges
+  const getSeasonLabel = (challenge: Challenge) =>
+    challenge.season ? ` · Season ${challenge.season.number}` : '';
+
+  // Elimination ties can end with co-winners; challenges that ended before winnerIds used winnerId
+  const getWinnerName = (challenge: Challenge) => {
+    const winnerIds = challenge.winnerIds || (challenge.winnerId ? [challenge.winnerId] : []);
     const allMembers = groupMembers || members;
-    const winner = allMembers.find(m => m.id === winnerId);
-    return winner?.displayName || null;
+    const names = winnerIds
+      .map(id => allMembers.find(m => m.id === id)?.displayName)
+      .filter((name): name is string => !!name);
+    return names.length > 0 ? names.join(' & ') : null;
+  };
+
+  const handleStartRename = () => {
+    setNameDraft(group?.name || '');
+    setRenaming(true);
+  };
+
+  const handleSaveRename = () => {
+    const name = nameDraft.trim();
+    if (!name) return;
+    if (name !== group?.name) onRenameGroup?.(name);
+    setRenaming(false);
+  };
+
+  // Owner: promote/demote, hand over ownership, remove. Admins: remove members.
+  const getMemberActions = (member: User) => {
+    if (!group || member.id === currentUserId) return [];
+    const memberRole = getGroupRole(group, member.id);
+    const actions: { text: string; style?: 'destructive'; onPress: () => void }[] = [];
+    if (canManageAdmins && memberRole !== 'owner' && onSetMemberAdmin) {
+      const isAdmin = memberRole === 'admin';
+      actions.push({ text: isAdmin ? 'Remove as admin' : 'Make admin', onPress: () => onSetMemberAdmin(member, !isAdmin) });
+    }
+    if (canManageAdmins && onTransferOwnership) {
+      actions.push({ text: 'Make owner', onPress: () => onTransferOwnership(member) });
+    }
+    if (onRemoveMember && canRemoveMember(group, currentUserId, member.id)) {
+      actions.push({ text: 'Remove from group', style: 'destructive', onPress: () => onRemoveMember(member) });
+    }
+    return actions;
+  };
+
+  const handleMemberPress = (member: User) => {
+    const actions = getMemberActions(member);
+    if (actions.length === 0) return;
+    Alert.alert(member.displayName, undefined, [...actions, { text: 'Cancel', style: 'cancel' }]);
   };
 
   return (
@@ -43,7 +110,34 @@ export const SettingsTab: React.FC<SettingsTabProps> = ({
     >
       {/* About Section */}
       <View style={[styles.card, { backgroundColor: colors.surface }]}>
-        <Text style={[styles.cardLabel, { color: colors.text }]}>About</Text>
+        <View style={styles.cardHeader}>
+          <Text style={[styles.cardLabel, { color: colors.text }]}>About</Text>
+          {canRename && !renaming && (
+            <TouchableOpacity onPress={handleStartRename}>
+              <Text style={[styles.linkText, { color: colors.accent }]}>Rename</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {renaming && (
+          <View style={styles.renameRow}>
+            <TextInput
+              style={[styles.renameInput, { color: colors.text, backgroundColor: colors.card }]}
+              value={nameDraft}
+              onChangeText={setNameDraft}
+              placeholder="Group name"
+              placeholderTextColor={colors.textSecondary}
+              autoFocus
+              maxLength={50}
+              onSubmitEditing={handleSaveRename}
+            />
+            <TouchableOpacity onPress={() => setRenaming(false)}>
+              <Text style={[styles.linkText, { color: colors.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleSaveRename} disabled={!nameDraft.trim()}>
+              <Text style={[styles.linkText, { color: colors.accent }]}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        )}
         <Text style={[styles.descriptionText, { color: colors.text }]}>{description || 'No description'}</Text>
       </View>
 
@@ -54,18 +148,35 @@ export const SettingsTab: React.FC<SettingsTabProps> = ({
           <Text style={[styles.cardCount, { color: colors.textSecondary }]}>{members.length}</Text>
         </View>
         <View style={styles.membersList}>
-          {members.map((member) => (
-            <View key={member.id} style={styles.memberRow}>
-              <Avatar
-                source={member.photoURL}
-                initials={member.displayName.charAt(0)}
-                size="sm"
-              />
-              <Text style={[styles.memberName, { color: colors.text }]}>{member.displayName}</Text>
-            </View>
-          ))}
+          {members.map((member) => {
+            const role = group ? getGroupRole(group, member.id) : null;
+            const hasActions = getMemberActions(member).length > 0;
+            return (
+              <TouchableOpacity
+                key={member.id}
+                style={styles.memberRow}
+                onPress={() => handleMemberPress(member)}
+                disabled={!hasActions}
+              >
+                <Avatar
+                  source={member.photoURL}
+                  initials={member.displayName.charAt(0)}
+                  size="sm"
+                />
+                <Text style={[styles.memberName, { color: colors.text }]}>{member.displayName}</Text>
+                {(role === 'owner' || role === 'admin') && (
+                  <View style={[styles.roleBadge, { backgroundColor: colors.accent + '20' }]}>
+                    <Text style={[styles.roleBadgeText, { color: colors.accent }]}>{GROUP_ROLE_LABELS[role]}</Text>
+                  </View>
+                )}
+                {hasActions && (
+                  <Ionicons name="ellipsis-horizontal" size={18} color={colors.textSecondary} style={styles.memberMenu} />
+                )}
+              </TouchableOpacity>
+            );
+          })}
         </View>
-        {onInvitePress && (
+        {onInvitePress && canInvite && (
           <TouchableOpacity style={[styles.inviteButton, { backgroundColor: colors.card, borderColor: colors.accent }]} onPress={onInvitePress}>
             <Ionicons name="person-add" size={20} color={colors.accent} />
             <Text style={[styles.inviteButtonText, { color: colors.accent }]}>Invite to squad</Text>
@@ -102,6 +213,8 @@ export const SettingsTab: React.FC<SettingsTabProps> = ({
                     {challenge.cadence?.unit === 'daily'
                       ? 'Daily'
                       : `${challenge.cadence?.requiredCount || 1}x/week`}
+                    {getSeasonLabel(challenge)}
+                    {challenge.startsAt && !hasChallengeStarted(challenge) ? ` · Starts ${dateKeys.formatDate(challenge.startsAt)}` : ''}
                   </Text>
                 </View>
                 <Ionicons name="chevron-forward" size={18} color={colors.textSecondary} />
@@ -120,7 +233,7 @@ export const SettingsTab: React.FC<SettingsTabProps> = ({
           </View>
           <View style={styles.challengesList}>
             {finishedChallenges.map((challenge) => {
-              const winnerName = getWinnerName(challenge.winnerId);
+              const winnerName = getWinnerName(challenge);
               return (
                 <TouchableOpacity
                   key={challenge.id}
@@ -135,7 +248,9 @@ export const SettingsTab: React.FC<SettingsTabProps> = ({
                     />
                   </View>
                   <View style={styles.challengeInfo}>
-                    <Text style={[styles.challengeName, { color: colors.textSecondary }]}>{challenge.title}</Text>
+                    <Text style={[styles.challengeName, { color: colors.textSecondary }]}>
+                      {challenge.title}{getSeasonLabel(challenge)}
+                    </Text>
                     {winnerName ? (
                       <View style={styles.winnerBadge}>
                         <Ionicons name="medal" size={12} color="#F5A623" />
@@ -179,6 +294,14 @@ export const SettingsTab: React.FC<SettingsTabProps> = ({
           <Text style={styles.leaveButtonText}>Leave Group</Text>
         </TouchableOpacity>
       )}
+
+      {/* Delete Group (owner only) */}
+      {canDelete && (
+        <TouchableOpacity style={[styles.leaveButton, { backgroundColor: colors.surface }]} onPress={onDeleteGroup}>
+          <Ionicons name="trash-outline" size={20} color="#F44336" />
+          <Text style={styles.leaveButtonText}>Delete Group</Text>
+        </TouchableOpacity>
+      )}
     </ScrollView>
   );
 };
@@ -231,6 +354,35 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '500',
   },
+  roleBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  roleBadgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  memberMenu: {
+    marginLeft: 'auto',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  renameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  renameInput: {
+    flex: 1,
+    fontSize: 15,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
   inviteButton: {
     flexDirection: 'row',
     alignItems: 'center',
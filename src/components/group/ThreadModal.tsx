@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { GroupChatMessage, MessageService } from '../../services/messageService';
+import { ChatMessage } from './ChatMessage';
+import { useColorMode } from '../../theme/ColorModeContext';
+
+interface ThreadModalProps {
+  /** Message that starts the thread; null hides the modal */
+  rootMessage: GroupChatMessage | null;
+  groupId: string;
+  currentUserId?: string;
+  memberNames?: string[];
+  onClose: () => void;
+  onReact: (message: GroupChatMessage, emoji: string) => void | Promise<void>;
+  onAIJudge: (messageId: string) => void;
+  /** Send a reply to the thread */
+  onSendReply: (rootMessage: GroupChatMessage, text: string) => Promise<void>;
+}
+
+/**
+ * A message and its replies. Replies come from getThreadReplies and are
+ * reloaded after each reply or reaction made here.
+ */
+export const ThreadModal: React.FC<ThreadModalProps> = ({
+  rootMessage,
+  groupId,
+  currentUserId,
+  memberNames,
+  onClose,
+  onReact,
+  onAIJudge,
+  onSendReply,
+}) => {
+  const { colors } = useColorMode();
+  const [replies, setReplies] = useState<GroupChatMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [replyText, setReplyText] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const loadReplies = async () => {
+    if (!rootMessage) return;
+    setReplies(await MessageService.getThreadReplies(groupId, rootMessage.id));
+  };
+
+  useEffect(() => {
+    if (!rootMessage) {
+      setReplies([]);
+      setReplyText('');
+      return;
+    }
+    setLoading(true);
+    loadReplies().finally(() => setLoading(false));
+  }, [rootMessage?.id]);
+
+  const handleReact = async (message: GroupChatMessage, emoji: string) => {
+    await onReact(message, emoji);
+    loadReplies();
+  };
+
+  const handleSend = async () => {
+    if (!rootMessage || !replyText.trim() || sending) return;
+    setSending(true);
+    try {
+      await onSendReply(rootMessage, replyText.trim());
+      setReplyText('');
+      await loadReplies();
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const renderMessage = (message: GroupChatMessage) => (
+    <ChatMessage
+      message={message}
+      isOwn={message.userId === currentUserId}
+      onReact={handleReact}
+      onAIJudge={onAIJudge}
+      currentUserId={currentUserId}
+      memberNames={memberNames}
+    />
+  );
+
+  return (
+    <Modal visible={!!rootMessage} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <View style={[styles.header, { borderBottomColor: colors.dividerLineTodo + '60' }]}>
+            <Text style={[styles.title, { color: colors.text }]}>Thread</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}>
+              <Ionicons name="close" size={26} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {rootMessage && (
+            <FlatList
+              data={replies}
+              keyExtractor={(item) => item.id}
+              renderItem={({ item }) => renderMessage(item)}
+              ListHeaderComponent={
+                <View style={[styles.root, { borderBottomColor: colors.dividerLineTodo + '60' }]}>
+                  {renderMessage(rootMessage)}
+                </View>
+              }
+              ListEmptyComponent={
+                loading ? (
+                  <ActivityIndicator style={styles.empty} color={colors.accent} />
+                ) : (
+                  <Text style={[styles.empty, { color: colors.textSecondary }]}>No replies yet</Text>
+                )
+              }
+              contentContainerStyle={styles.list}
+            />
+          )}
+
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.surface, color: colors.text, borderColor: colors.dividerLineTodo + '80' }]}
+              placeholder="Reply..."
+              placeholderTextColor={colors.textSecondary}
+              value={replyText}
+              onChangeText={setReplyText}
+              multiline
+              maxLength={500}
+            />
+            <TouchableOpacity
+              style={[styles.sendButton, { backgroundColor: replyText.trim() ? colors.accent : colors.dividerLineTodo + '99' }]}
+              onPress={handleSend}
+              disabled={!replyText.trim() || sending}
+            >
+              {sending ? <ActivityIndicator color="#FFF" /> : <Ionicons name="arrow-up" size={22} color="#FFF" />}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  list: {
+    paddingVertical: 10,
+  },
+  root: {
+    paddingBottom: 8,
+    marginBottom: 8,
+    borderBottomWidth: 1,
+  },
+  empty: {
+    textAlign: 'center',
+    marginTop: 24,
+    fontSize: 14,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 10,
+  },
+  input: {
+    flex: 1,
+    minHeight: 44,
+    maxHeight: 100,
+    paddingHorizontal: 18,
+    paddingVertical: 12,
+    borderRadius: 22,
+    fontSize: 16,
+    borderWidth: 1,
+  },
+  sendButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -4,3 +4,4 @@ export { LeaderboardTab } from './LeaderboardTab';
 export { SettingsTab } from './SettingsTab';
 export { GroupHeader } from './GroupHeader';
 export { GroupCard } from './GroupCard';
+export { ThreadModal } from './ThreadModal';
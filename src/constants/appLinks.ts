@@ -1,6 +1,8 @@
 // ── App Store & Sharing Links ──────────────────────────────────
 // Swap these in once the app is published and you have a domain.
 
+import { buildGroupJoinLink } from '../utils/groupInvites';
+
 /** Replace with your actual App Store URL after approval */
 export const APP_STORE_URL = ''; // e.g. 'https://apps.apple.com/app/squadcheck/id1234567890'
 
@@ -35,13 +37,19 @@ export function buildFriendInviteMessage(friendCode: string): string {
 }
 
 /**
- * Build the group invite share message.
+ * Build the group invite share message. With an invite code it carries the
+ * join link and the code for typing in, plus the download link for people
+ * who don't have the app yet.
  */
-export function buildGroupInviteMessage(groupName: string, groupId?: string): string {
+export function buildGroupInviteMessage(groupName: string, inviteCode?: string): string {
   const link = getDownloadLink();
   const lines = [
     `Join my squad "${groupName}" on SquadCheck!`,
   ];
+  if (inviteCode) {
+    lines.push(`\nOpen this link to join: ${buildGroupJoinLink(inviteCode)}`);
+    lines.push(`Or enter the code ${inviteCode} under Groups → Join with a code.`);
+  }
   if (link) {
     lines.push(`\nDownload the app: ${link}`);
   } else {
@@ -1,66 +1,9 @@
-export const LEVEL_THRESHOLDS: { level: number; xp: number; title: string }[] = [
-  { level: 1, xp: 0, title: 'Rookie' },
-  { level: 2, xp: 30, title: 'Rookie' },
-  { level: 3, xp: 75, title: 'Rookie' },
-  { level: 4, xp: 130, title: 'Rookie' },
-  { level: 5, xp: 200, title: 'Committed' },
-  { level: 6, xp: 280, title: 'Committed' },
-  { level: 7, xp: 370, title: 'Committed' },
-  { level: 8, xp: 420, title: 'Committed' },
-  { level: 9, xp: 460, title: 'Committed' },
-  { level: 10, xp: 500, title: 'Dedicated' },
-  { level: 11, xp: 600, title: 'Dedicated' },
-  { level: 12, xp: 720, title: 'Dedicated' },
-  { level: 13, xp: 850, title: 'Dedicated' },
-  { level: 14, xp: 930, title: 'Dedicated' },
-  { level: 15, xp: 1000, title: 'Warrior' },
-  { level: 16, xp: 1200, title: 'Warrior' },
-  { level: 17, xp: 1400, title: 'Warrior' },
-  { level: 18, xp: 1600, title: 'Warrior' },
-  { level: 19, xp: 1800, title: 'Warrior' },
-  { level: 20, xp: 2000, title: 'Champion' },
-  { level: 21, xp: 2300, title: 'Champion' },
-  { level: 22, xp: 2600, title: 'Champion' },
-  { level: 23, xp: 2900, title: 'Champion' },
-  { level: 24, xp: 3200, title: 'Champion' },
-  { level: 25, xp: 3500, title: 'Elite' },
-  { level: 26, xp: 3900, title: 'Elite' },
-  { level: 27, xp: 4300, title: 'Elite' },
-  { level: 28, xp: 4700, title: 'Elite' },
-  { level: 29, xp: 5100, title: 'Elite' },
-  { level: 30, xp: 5500, title: 'Master' },
-  { level: 31, xp: 6000, title: 'Master' },
-  { level: 32, xp: 6500, title: 'Master' },
-  { level: 33, xp: 7000, title: 'Master' },
-  { level: 34, xp: 7500, title: 'Master' },
-  { level: 35, xp: 8000, title: 'Grandmaster' },
-  { level: 36, xp: 8600, title: 'Grandmaster' },
-  { level: 37, xp: 9200, title: 'Grandmaster' },
-  { level: 38, xp: 9800, title: 'Grandmaster' },
-  { level: 39, xp: 10400, title: 'Grandmaster' },
-  { level: 40, xp: 11000, title: 'Mythic' },
-  { level: 41, xp: 11800, title: 'Mythic' },
-  { level: 42, xp: 12600, title: 'Mythic' },
-  { level: 43, xp: 13400, title: 'Mythic' },
-  { level: 44, xp: 14200, title: 'Mythic' },
-  { level: 45, xp: 15000, title: 'Titan' },
-  { level: 46, xp: 16000, title: 'Titan' },
-  { level: 47, xp: 17000, title: 'Titan' },
-  { level: 48, xp: 18000, title: 'Titan' },
-  { level: 49, xp: 19000, title: 'Titan' },
-  { level: 50, xp: 20000, title: 'Legend' },
-];
-
-export const XP_VALUES = {
-  CHECK_IN: 10,
-  ON_TIME_BONUS: 5,
-  STREAK_BONUS_PER_DAY: 2,
-  DAILY_COMPLETE_MULTIPLIER: 2,
-  UPVOTE_RECEIVED: 3,
-};
-
-export const STREAK_MILESTONES = [7, 14, 30, 60, 100];
-export const SHIELD_EARN_INTERVAL = 7;
+export {
+  LEVEL_THRESHOLDS,
+  XP_VALUES,
+  STREAK_MILESTONES,
+  SHIELD_EARN_INTERVAL,
+} from '../../functions/src/shared/gamification';
 
 export const ENCOURAGEMENT_MESSAGES = [
   "You're on fire! Keep it going!",
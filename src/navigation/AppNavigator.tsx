@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, LinkingOptions } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { onAuthStateChanged, User as FirebaseUser } from 'firebase/auth';
 import AsyncStorage from '@react-native-async-storage/async-storage';
@@ -8,6 +8,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { TouchableOpacity, StyleSheet, Animated, View } from 'react-native';
 import { auth } from '../services/firebase';
 import { useColorMode } from '../theme/ColorModeContext';
+import { APP_URL_PREFIX } from '../utils/groupInvites';
 
 // Auth Screens
 import { LoginScreen } from '../screens/auth/LoginScreen';
@@ -33,6 +34,7 @@ import { SelectGroupScreen } from '../screens/main/SelectGroupScreen';
 import { StoreScreen } from '../screens/main/StoreScreen';
 import { CreateReminderScreen } from '../screens/main/CreateReminderScreen';
 import { InviteToGroupScreen } from '../screens/main/InviteToGroupScreen';
+import { JoinGroupScreen } from '../screens/main/JoinGroupScreen';
 import { FriendProfileScreen } from '../screens/main/FriendProfileScreen';
 import { AchievementsScreen } from '../screens/main/AchievementsScreen';
 import { LevelsScreen } from '../screens/main/LevelsScreen';
@@ -60,6 +62,7 @@ export type RootStackParamList = {
   CreateReminder: undefined;
   GroupChat: { groupId: string };
   InviteToGroup: { groupId: string; groupName?: string };
+  JoinGroup: { code?: string } | undefined;
   Store: undefined;
   FriendProfile: { user: any; currentUser?: any };
   Achievements: undefined;
@@ -72,6 +75,16 @@ export type RootStackParamList = {
 // Create navigators
 const Stack = createStackNavigator<RootStackParamList>();
 
+// Deep links: squadcheck://join/<code> opens the group invite preview
+const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [APP_URL_PREFIX],
+  config: {
+    screens: {
+      JoinGroup: 'join/:code',
+    },
+  },
+};
+
 // Main Tab Navigator with Curved Bottom Bar (react-native-curved-bottom-bar)
 const MainTabNavigator = () => {
   const { colors, mode } = useColorMode();
@@ -239,6 +252,7 @@ const RootNavigator = () => {
           <Stack.Screen name="CreateChallenge" component={CreateChallengeScreen as React.ComponentType<any>} />
           <Stack.Screen name="GroupChat" component={GroupChatScreen as React.ComponentType<any>} />
           <Stack.Screen name="InviteToGroup" component={InviteToGroupScreen as React.ComponentType<any>} />
+          <Stack.Screen name="JoinGroup" component={JoinGroupScreen as React.ComponentType<any>} />
           <Stack.Screen name="Store" component={StoreScreen} />
           <Stack.Screen name="FriendProfile" component={FriendProfileScreen as React.ComponentType<any>} />
           <Stack.Screen name="Achievements" component={AchievementsScreen} />
@@ -264,7 +278,7 @@ const RootNavigator = () => {
 // App Navigator
 export const AppNavigator = () => {
   return (
-    <NavigationContainer>
+    <NavigationContainer linking={linking}>
       <RootNavigator />
     </NavigationContainer>
   );
@@ -8,15 +8,24 @@ import { RuleCard } from '../../components/challenge/RuleCard';
 import { StatusCard } from '../../components/challenge/StatusCard';
 import { MemberStatusList } from '../../components/challenge/MemberStatusList';
 import { HistoryStrip } from '../../components/challenge/HistoryStrip';
+import { DisputePanel } from '../../components/challenge/DisputePanel';
+import { TeamLeaderboard } from '../../components/challenge/TeamLeaderboard';
+import { PausePanel } from '../../components/challenge/PausePanel';
+import { ProgressionPreview } from '../../components/challenge/ProgressionPreview';
+import { DeadlineProgress } from '../../components/challenge/DeadlineProgress';
+import { RevivalPanel } from '../../components/challenge/RevivalPanel';
 import { challengeEval, type UserStatus } from '../../utils/challengeEval';
 import { dateKeys } from '../../utils/dateKeys';
-import { resolveAdminTimeZone, getAdminZoneDayKey, getCurrentPeriodDayKey, getCurrentPeriodWeekKey, computeDeadlineMomentUtc } from '../../utils/dueTime';
+import { resolveAdminTimeZone, getAdminZoneDayKey, getCurrentPeriodDayKey, getAdminZonePeriodKey, getCheckInPeriodKey, computeDeadlineMomentUtc } from '../../utils/dueTime';
+import type { TeamRules, TeamScore } from '../../utils/teams';
+import type { ProgressionRules } from '../../utils/progression';
+import type { RevivalRules } from '../../utils/revival';
 import { ChallengeService } from '../../services/challengeService';
 import { useColorMode } from '../../theme/ColorModeContext';
 import { useCurrentUser } from '../../contexts/UserContext';
 
-type ChallengeType = "standard" | "progress" | "elimination" | "deadline";
-type CadenceUnit = "daily" | "weekly";
+type ChallengeType = "standard" | "progress" | "elimination" | "deadline" | "team";
+type CadenceUnit = "daily" | "weekly" | "monthly" | "interval";
 type InputType = "boolean" | "number" | "text" | "timer";
 
 type Challenge = {
@@ -29,6 +38,9 @@ type Challenge = {
     unit: CadenceUnit;
     requiredCount?: number;
     weekStartsOn?: 0|1|2|3|4|5|6;
+    intervalDays?: number;
+    anchorDate?: string;
+    activeWeekdays?: number[];
   };
   submission: {
     inputType: InputType;
@@ -44,22 +56,30 @@ type Challenge = {
     deadlineDate?: string;
   };
   rules?: {
-    progress?: {
-      startsAt: number;
-      increaseBy: number;
-      increaseUnit: "week";
-      comparison: "gte" | "lte";
-    };
+    progress?: ProgressionRules;
     elimination?: {
       strikesAllowed: number;
       eliminateOn: "miss" | "failedRequirement";
+      revival?: RevivalRules;
     };
     deadline?: {
       targetValue?: number;
       comparison?: "gte" | "lte";
       progressMode: "accumulate" | "latest";
     };
+    team?: TeamRules;
+  };
+  teamScores?: Record<string, TeamScore>;
+  settings?: {
+    allowLateCheckIn?: boolean;
+    lateGraceMinutes?: number;
+    disputes?: { enabled: boolean; windowHours?: number; threshold?: number };
+    pauses?: { maxDaysPerMember: number };
   };
+  adminUserId?: string;
+  createdBy?: string;
+  startsAt?: string;
+  season?: { number: number; lengthDays: number; startKey: string; endKey: string };
   createdAt: number;
 };
 
@@ -78,6 +98,7 @@ type CheckIn = {
     unit: CadenceUnit;
     dayKey?: string;
     weekKey?: string;
+    periodKey?: string;
   };
   payload: {
     booleanValue?: boolean;
@@ -86,7 +107,8 @@ type CheckIn = {
     timerSeconds?: number;
   };
   attachments?: Array<{ type: "photo"|"screenshot"; uri: string }>;
-  status: "completed" | "pending" | "missed" | "failed";
+  status: "completed" | "pending" | "missed" | "failed" | "disputed" | "rejected";
+  dispute?: { by: string[]; resolution?: "upheld" | "rejected" };
   computed?: { targetValue?: number; metRequirement?: boolean };
   createdAt: number;
 };
@@ -97,6 +119,10 @@ type ChallengeMember = {
   state: "active" | "eliminated";
   strikes: number;
   eliminatedAt?: number;
+  teamId?: string;
+  pauses?: Array<{ startKey: string; endKey: string }>;
+  revivals?: number;
+  revivalVotes?: string[];
 };
 
 /** Compute the current period key using IANA timezone from the challenge. */
@@ -110,7 +136,7 @@ const computeCurrentPeriodKey = (c: any): string => {
     }
     return getCurrentPeriodDayKey(adminTz, dueTimeLocal);
   }
-  return getCurrentPeriodWeekKey(adminTz, c.cadence?.weekStartsOn || 0);
+  return getAdminZonePeriodKey(adminTz, { weekStartsOn: 0, ...c.cadence });
 };
 
 export const ChallengeDetailScreen = ({
@@ -231,6 +257,7 @@ export const ChallengeDetailScreen = ({
       setChallenge(challengeDetails.challenge);
       setAllRecentCheckIns(challengeDetails.allRecentCheckIns || []);
       setMyRecentCheckIns(challengeDetails.myRecentCheckIns);
+      setChallengeMembers(challengeDetails.challengeMembers || []);
       
       // After submission, always reset to current period (based on due time)
       const currentPeriodKey = getCurrentPeriodKey();
@@ -244,12 +271,7 @@ export const ChallengeDetailScreen = ({
   
   // Helper function to filter check-ins by period
   const filterCheckInsByPeriod = (checkIns: any[], periodKey: string) => {
-    if (challenge.cadence.unit === 'daily') {
-      return checkIns.filter((ci: any) => ci.period?.dayKey === periodKey);
-    } else if (challenge.cadence.unit === 'weekly') {
-      return checkIns.filter((ci: any) => ci.period?.weekKey === periodKey);
-    }
-    return checkIns;
+    return checkIns.filter((ci: any) => getCheckInPeriodKey(ci.period) === periodKey);
   };
   
   // Function to handle day selection in history
@@ -355,13 +377,14 @@ export const ChallengeDetailScreen = ({
   }
 
   const isChallengeEnded = (challenge as any).state === 'ended';
+  const currentMember: ChallengeMember | undefined = challengeMembers.find((m: ChallengeMember) => m.userId === currentUserId);
 
   const shouldShowComposer = () => {
     if (isChallengeEnded) return false;
     if (!userStatus) return false;
     if (optimisticComplete) return false;
-    if (userStatus.type === 'completed') return false;
-    if (userStatus.type === 'eliminated') return false;
+    if (userStatus.type === 'completed' || userStatus.type === 'late' || userStatus.type === 'disputed') return false;
+    if (userStatus.type === 'eliminated' || userStatus.type === 'upcoming') return false;
 
     // Deadline passed — block check-in
     if (challenge.type === 'deadline' && challenge.due?.deadlineDate) {
@@ -371,9 +394,9 @@ export const ChallengeDetailScreen = ({
       if (Date.now() >= deadlineMoment.getTime()) return false;
     }
 
-    // For pending status, ALWAYS show composer if we're viewing the current period
+    // For pending (or paused) status, ALWAYS show composer if we're viewing the current period
     // Use IANA-aware period key to match what the rest of the screen uses
-    if (userStatus.type === 'pending') {
+    if (userStatus.type === 'pending' || userStatus.type === 'paused') {
       const currentPeriod = getCurrentPeriodKey();
       return selectedDayKey === currentPeriod;
     }
@@ -393,7 +416,7 @@ export const ChallengeDetailScreen = ({
 
   const displayStatus: UserStatus | null = isChallengeEnded
     ? { type: 'missed', missedAt: 'Challenge ended' }
-    : isDeadlinePassed && userStatus?.type !== 'completed'
+    : isDeadlinePassed && userStatus?.type !== 'completed' && userStatus?.type !== 'late' && userStatus?.type !== 'disputed'
       ? { type: 'missed', missedAt: 'Deadline passed' }
       : optimisticComplete && userStatus
         ? { type: 'completed', timestamp: Date.now(), checkIn: {} as any }
@@ -413,6 +436,7 @@ export const ChallengeDetailScreen = ({
           groupId={group.id}
           cadence={challenge.cadence}
           type={challenge.type}
+          seasonNumber={challenge.season?.number}
           onBack={() => navigation.goBack()}
           navigation={navigation}
         />
@@ -474,6 +498,54 @@ export const ChallengeDetailScreen = ({
           selectedPeriodKey={selectedDayKey || undefined}
         />
 
+        {/* Deadline race — each member's progress toward the target */}
+        <DeadlineProgress
+          challenge={challenge}
+          currentUserId={currentUserId}
+          memberIds={group.memberIds}
+          memberProfiles={memberProfiles}
+          challengeMembers={challengeMembers}
+          checkIns={allRecentCheckIns}
+        />
+
+        {/* Progress targets — current step and what's coming */}
+        <ProgressionPreview challenge={challenge} />
+
+        {/* Team standings */}
+        {challenge.type === 'team' && challenge.rules?.team?.teams?.length > 0 && (
+          <TeamLeaderboard
+            teamRules={challenge.rules.team}
+            teamScores={challenge.teamScores}
+            currentTeamId={currentMember?.teamId}
+          />
+        )}
+
+        {/* Peer verification — dispute check-ins / admin review */}
+        <DisputePanel
+          challenge={challenge}
+          currentUserId={currentUserId}
+          checkIns={checkInsForCurrentPeriod}
+          memberProfiles={memberProfiles}
+          onChanged={reloadChallengeData}
+        />
+
+        {/* Revivals — buy back in / vote eliminated members back */}
+        <RevivalPanel
+          challenge={challenge}
+          currentUserId={currentUserId}
+          currentUserXp={currentUser?.xp}
+          challengeMembers={challengeMembers}
+          memberProfiles={memberProfiles}
+          onChanged={reloadChallengeData}
+        />
+
+        {/* Vacation mode — schedule / cancel pauses */}
+        <PausePanel
+          challenge={challenge}
+          member={currentMember}
+          onChanged={reloadChallengeData}
+        />
+
         {/* Check-In Button — between group status and history */}
         {shouldShowComposer() && (
           <View style={styles.checkInButtonWrap}>
@@ -502,12 +574,15 @@ export const ChallengeDetailScreen = ({
         <HistoryStrip
           cadenceUnit={challenge.cadence.unit}
           weekStartsOn={challenge.cadence.weekStartsOn}
+          intervalDays={challenge.cadence.intervalDays}
+          activeWeekdays={challenge.cadence.activeWeekdays}
+          pauses={currentMember?.pauses}
           requiredCount={challenge.cadence.requiredCount}
           myRecentCheckIns={myRecentCheckIns}
           unitLabel={challenge.submission.unitLabel}
           navigation={navigation}
           onDaySelected={handleDaySelected}
-          challengeCreatedAt={challenge.createdAt}
+          challengeCreatedAt={challenge.startsAt ? dateKeys.parseKey(challenge.startsAt) : challenge.createdAt}
           selectedDayKey={selectedDayKey}
           dueTimeLocal={challenge.due?.dueTimeLocal}
           currentPeriodKey={getCurrentPeriodKey()}
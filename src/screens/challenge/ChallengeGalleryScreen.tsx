@@ -17,6 +17,10 @@ import { Ionicons } from '@expo/vector-icons';
 import { useColorMode } from '../../theme/ColorModeContext';
 import { CheckInService } from '../../services/checkInService';
 import { Avatar } from '../../components/common/Avatar';
+import { LiveCaptureStamp } from '../../components/common/LiveCaptureStamp';
+import { MediaCarousel } from '../../components/common/MediaCarousel';
+import { getMediaVariantUrl, type CheckInAttachmentType } from '../../utils/attachments';
+import { getPhotoIntegrityLabel, type PhotoIntegrityFlag } from '../../utils/photoIntegrity';
 import { CircleLoader } from '../../components/common/CircleLoader';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -25,12 +29,17 @@ const GRID_GAP = 4;
 const TILE_SIZE = (SCREEN_WIDTH - GRID_PADDING * 2 - GRID_GAP * 2) / 3;
 
 interface PhotoItem {
+  type: CheckInAttachmentType;
   uri: string;
   userId: string;
   userName: string;
   userAvatar?: string;
   createdAt: Date;
   checkInId: string;
+  /** Photo proof warnings on the check-in */
+  integrityFlags: PhotoIntegrityFlag[];
+  /** Capture time of a server-verified live photo */
+  liveCapturedAt?: number;
 }
 
 interface MemberOption {
@@ -38,6 +47,35 @@ interface MemberOption {
   name: string;
 }
 
+// Grid tile: the server-made thumbnail, or the original until it exists
+const TileImage = ({ uri }: { uri: string }) => {
+  const [failed, setFailed] = useState(false);
+  return (
+    <Image
+      source={{ uri: failed ? uri : getMediaVariantUrl(uri, 'thumb') }}
+      style={styles.tileImage}
+      onError={() => setFailed(true)}
+    />
+  );
+};
+
+// Video tile: the server-made poster frame under a play icon, or just the icon until it exists
+const TileVideo = ({ uri }: { uri: string }) => {
+  const [failed, setFailed] = useState(false);
+  return (
+    <View style={[styles.tileImage, styles.tileVideo]}>
+      {!failed && (
+        <Image
+          source={{ uri: getMediaVariantUrl(uri, 'poster') }}
+          style={StyleSheet.absoluteFill}
+          onError={() => setFailed(true)}
+        />
+      )}
+      <Ionicons name="play-circle" size={36} color="#FFF" />
+    </View>
+  );
+};
+
 export const ChallengeGalleryScreen = ({ navigation, route }: any) => {
   const { colors } = useColorMode();
   const { challengeId, memberProfiles, memberIds } = route.params || {};
@@ -70,7 +108,7 @@ export const ChallengeGalleryScreen = ({ navigation, route }: any) => {
 
         for (const ci of checkIns) {
           const attachments = (ci as any).attachments as
-            | Array<{ type: string; uri?: string; downloadUrl?: string }>
+            | Array<{ type: CheckInAttachmentType; uri?: string; downloadUrl?: string; verifiedLive?: boolean; meta?: { capturedAt?: number } }>
             | undefined;
           if (!attachments?.length) continue;
 
@@ -89,12 +127,15 @@ export const ChallengeGalleryScreen = ({ navigation, route }: any) => {
                     : new Date(ci.createdAt as any);
 
             items.push({
+              type: a.type,
               uri: photoUri,
               userId: ci.userId,
               userName: profile?.name || 'Unknown',
               userAvatar: profile?.avatarUri,
               createdAt,
               checkInId: ci.id,
+              integrityFlags: ci.integrity?.flags || [],
+              liveCapturedAt: a.verifiedLive ? a.meta?.capturedAt : undefined,
             });
           }
         }
@@ -127,13 +168,26 @@ export const ChallengeGalleryScreen = ({ navigation, route }: any) => {
       minute: '2-digit',
     });
 
+  // Every photo and clip of the open check-in, swipeable in the modal
+  const selectedMedia = selectedPhoto ? photos.filter((p) => p.checkInId === selectedPhoto.checkInId) : [];
+
   const renderTile = ({ item }: { item: PhotoItem }) => (
     <TouchableOpacity
       style={styles.tile}
       activeOpacity={0.8}
       onPress={() => setSelectedPhoto(item)}
     >
-      <Image source={{ uri: item.uri }} style={styles.tileImage} />
+      {item.type === 'video' ? (
+        <TileVideo uri={item.uri} />
+      ) : (
+        <TileImage uri={item.uri} />
+      )}
+      {item.liveCapturedAt !== undefined && <LiveCaptureStamp capturedAt={item.liveCapturedAt} compact style={styles.tileStamp} />}
+      {item.integrityFlags.length > 0 && (
+        <View style={styles.tileWarning}>
+          <Ionicons name="warning" size={12} color="#FFF" />
+        </View>
+      )}
       <View style={[styles.tileOverlay, { backgroundColor: 'rgba(0,0,0,0.35)' }]}>
         <Avatar source={item.userAvatar} initials={item.userName?.charAt(0)} size="sm" style={styles.tileAvatar} />
         <Text style={styles.tileUserName} numberOfLines={1}>
@@ -257,10 +311,11 @@ export const ChallengeGalleryScreen = ({ navigation, route }: any) => {
             {/* Photo — stop background press from closing when tapping the image */}
             {selectedPhoto && (
               <Pressable onPress={(e) => e.stopPropagation()}>
-                <Image
-                  source={{ uri: selectedPhoto.uri }}
+                <MediaCarousel
+                  items={selectedMedia}
+                  height={SCREEN_WIDTH}
+                  initialIndex={Math.max(0, selectedMedia.indexOf(selectedPhoto))}
                   style={styles.modalImage}
-                  resizeMode="contain"
                 />
                 {/* Info bar */}
                 <View style={styles.modalInfo}>
@@ -274,6 +329,14 @@ export const ChallengeGalleryScreen = ({ navigation, route }: any) => {
                     <Text style={styles.modalDate}>{formatDate(selectedPhoto.createdAt)}</Text>
                   </View>
                 </View>
+                {selectedPhoto.integrityFlags.length > 0 && (
+                  <View style={styles.modalWarning}>
+                    <Ionicons name="warning" size={14} color="#F59E0B" />
+                    <Text style={styles.modalWarningText}>
+                      {selectedPhoto.integrityFlags.map(getPhotoIntegrityLabel).join(' · ')}
+                    </Text>
+                  </View>
+                )}
               </Pressable>
             )}
           </SafeAreaView>
@@ -368,6 +431,23 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
+  tileVideo: {
+    backgroundColor: '#1F2937',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  tileStamp: {
+    top: 4,
+    bottom: 'auto',
+  },
+  tileWarning: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    padding: 3,
+    borderRadius: 10,
+    backgroundColor: '#F59E0B',
+  },
   tileOverlay: {
     position: 'absolute',
     bottom: 0,
@@ -440,4 +520,16 @@ const styles = StyleSheet.create({
     fontSize: 13,
     marginTop: 2,
   },
+  modalWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  modalWarningText: {
+    color: '#F59E0B',
+    fontSize: 13,
+    fontWeight: '600',
+  },
 });
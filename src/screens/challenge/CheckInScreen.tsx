@@ -6,6 +6,7 @@ import {
   SafeAreaView,
   ScrollView,
   Alert,
+  TouchableOpacity,
   KeyboardAvoidingView,
   Platform,
 } from 'react-native';
@@ -18,9 +19,17 @@ import { useColorMode } from '../../theme/ColorModeContext';
 import { ChallengeService } from '../../services/challengeService';
 import { CheckInService, CheckInResult } from '../../services/checkInService';
 import { MessageService } from '../../services/messageService';
+import { OfflineCheckInService, type QueuedCheckIn } from '../../services/offlineCheckInService';
 import { dateKeys } from '../../utils/dateKeys';
 import { challengeEval } from '../../utils/challengeEval';
-import { resolveAdminTimeZone, getAdminZoneDayKey, getCurrentPeriodDayKey, getCurrentPeriodWeekKey } from '../../utils/dueTime';
+import {
+  resolveAdminTimeZone,
+  getAdminZoneDayKey,
+  getCurrentPeriodDayKey,
+  getAdminZonePeriodKey,
+  getCheckInPeriodKey,
+  getCheckInEditDeadline,
+} from '../../utils/dueTime';
 import { buildCheckInRequirements } from '../../utils/challengeHelpers';
 import { ENCOURAGEMENT_MESSAGES } from '../../constants/gamification';
 import { auth } from '../../services/firebase';
@@ -35,6 +44,7 @@ export const CheckInScreen = ({ navigation, route }: any) => {
   const [submitting, setSubmitting] = useState(false);
   const [successData, setSuccessData] = useState<CheckInResult | null>(null);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
+  const [editing, setEditing] = useState(false);
   const submitInProgress = useRef(false);
 
   const userId = auth.currentUser?.uid || '';
@@ -77,6 +87,7 @@ export const CheckInScreen = ({ navigation, route }: any) => {
   let selectedPeriodKey = '';
   let myPeriodCheckIns: any[] = [];
   let alreadySubmitted = false;
+  let editableCheckIn: any = null;
   let userStatus: ReturnType<typeof challengeEval.getUserStatus> | null = null;
   let countdownTargetDate: Date | undefined;
   const dueTimeLocal = challenge?.due?.dueTimeLocal || '23:59';
@@ -87,17 +98,25 @@ export const CheckInScreen = ({ navigation, route }: any) => {
   try {
     submissionPeriodKey = isDaily
       ? (isDeadline ? getAdminZoneDayKey(adminTz) : getCurrentPeriodDayKey(adminTz, dueTimeLocal))
-      : getCurrentPeriodWeekKey(adminTz, challenge?.cadence?.weekStartsOn ?? 0, new Date());
+      : getAdminZonePeriodKey(adminTz, { weekStartsOn: 0, ...challenge?.cadence }, new Date());
     selectedPeriodKey = submissionPeriodKey;
 
     myPeriodCheckIns = details?.allRecentCheckIns?.filter(
       (ci: any) =>
         ci.userId === userId && ci.status === 'completed' &&
-        (isDaily ? ci.period?.dayKey === submissionPeriodKey : ci.period?.weekKey === selectedPeriodKey)
+        getCheckInPeriodKey(ci.period) === submissionPeriodKey
     ) || [];
     const requiredForPeriod = isDaily ? 1 : (challenge?.cadence?.requiredCount || 1);
     alreadySubmitted = myPeriodCheckIns.length >= requiredForPeriod;
 
+    // Latest own check-in in this period, while its period is still open
+    const latestCheckIn = [...myPeriodCheckIns].sort((a: any, b: any) => (b.createdAt || 0) - (a.createdAt || 0))[0];
+    if (latestCheckIn && challenge?.state !== 'ended') {
+      const deadlineDate = typeof challenge?.due?.deadlineDate === 'string' ? challenge.due.deadlineDate : undefined;
+      const editDeadline = getCheckInEditDeadline(challenge, submissionPeriodKey, !!latestCheckIn.late, deadlineDate);
+      if (Date.now() < editDeadline.getTime()) editableCheckIn = latestCheckIn;
+    }
+
     if (challenge && group) {
       userStatus = challengeEval.getUserStatus(challenge, userId, checkInsForCurrentPeriod, challengeMembers, selectedPeriodKey);
     }
@@ -111,44 +130,62 @@ export const CheckInScreen = ({ navigation, route }: any) => {
   }
 
 
+  // No connection: keep the check-in (with its local photos) for the background sync
+  const queueOfflineCheckIn = async (
+    payload: QueuedCheckIn['payload'],
+    attachments: QueuedCheckIn['attachments'],
+    capturedAt: number
+  ) => {
+    try {
+      await OfflineCheckInService.enqueue({
+        userId,
+        userName: auth.currentUser?.displayName || 'User',
+        challengeId: challenge.id,
+        challengeTitle: challenge.title,
+        groupId: challenge.groupId || null,
+        payload,
+        attachments,
+        capturedAt,
+      });
+      Alert.alert(
+        'Saved Offline',
+        "You're offline. Your check-in was saved and will be submitted for this period when you're back online.",
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (e) {
+      if (__DEV__) console.error('Check-in queue error:', e);
+      Alert.alert('Error', 'Failed to submit check-in');
+    }
+  };
+
   const handleSubmitCheckIn = async (draft: CheckInDraft) => {
     if (!challenge || !userId || submitInProgress.current) return;
     if (alreadySubmitted) return;
     submitInProgress.current = true;
     setSubmitting(true);
 
-    try {
-      let uploadedAttachments = draft.attachments || [];
-      if (draft.attachments?.length) {
-        // Upload sequentially to avoid concurrent blob fetch crashes on RN
-        const uploaded: Array<{ type: 'photo' | 'screenshot'; uri: string }> = [];
-        for (const a of draft.attachments) {
-          const uri = await MessageService.uploadImage(a.uri);
-          uploaded.push({ type: a.type, uri });
-        }
-        uploadedAttachments = uploaded;
-      }
+    // Offline check-ins are credited to the period they were made in
+    const capturedAt = Date.now();
+    const payload: any = {};
+    if (draft.booleanValue !== undefined) payload.booleanValue = draft.booleanValue;
+    if (draft.numberValue !== undefined) payload.numberValue = draft.numberValue;
+    if (draft.textValue !== undefined) payload.textValue = draft.textValue;
+    if (draft.timerSeconds !== undefined) payload.timerSeconds = draft.timerSeconds;
 
-      const payload: any = {};
-      if (draft.booleanValue !== undefined) payload.booleanValue = draft.booleanValue;
-      if (draft.numberValue !== undefined) payload.numberValue = draft.numberValue;
-      if (draft.textValue !== undefined) payload.textValue = draft.textValue;
-      if (draft.timerSeconds !== undefined) payload.timerSeconds = draft.timerSeconds;
+    try {
+      const uploadedAttachments = await MessageService.uploadAttachments(draft.attachments || []);
 
-      const challengeDueTime = challenge.due?.dueTimeLocal || '23:59';
-      const challengeTimezoneOffset = challenge.due?.timezoneOffset ?? new Date().getTimezoneOffset();
       const caption = draft.textValue || 'Completed check-in';
-      const imageUrl = uploadedAttachments.length > 0 ? uploadedAttachments[0].uri : null;
+      // The chat preview shows the first photo; videos only appear in the media viewer
+      const firstPhoto = uploadedAttachments.find(a => a.type !== 'video');
+      const imageUrl = firstPhoto ? firstPhoto.uri : null;
+      const liveMeta = firstPhoto?.meta?.live ? firstPhoto.meta : undefined;
 
       const checkInResult = await CheckInService.submitChallengeCheckIn(
         challenge.id,
         userId,
-        challenge.groupId || null,
-        challenge.cadence?.unit || 'daily',
         payload,
-        uploadedAttachments,
-        challengeDueTime,
-        challengeTimezoneOffset
+        uploadedAttachments
       );
 
       // Send chat message (non-blocking — don't let messaging failure block success)
@@ -161,6 +198,9 @@ export const CheckInScreen = ({ navigation, route }: any) => {
           imageUrl,
           challenge.title,
           checkInResult?.streakResult?.currentStreak ?? 0,
+          checkInResult?.integrityFlags,
+          liveMeta?.capturedAt,
+          uploadedAttachments,
         ).catch((e) => {
           if (__DEV__) console.error('Chat message error (non-blocking):', e);
         });
@@ -170,13 +210,80 @@ export const CheckInScreen = ({ navigation, route }: any) => {
       setShowSuccessModal(true);
     } catch (error) {
       if (__DEV__) console.error('Check-in submit error:', error);
-      Alert.alert('Error', 'Failed to submit check-in');
+      if (OfflineCheckInService.isNetworkError(error)) {
+        await queueOfflineCheckIn(payload, draft.attachments || [], capturedAt);
+      } else {
+        Alert.alert('Error', 'Failed to submit check-in');
+      }
     } finally {
       submitInProgress.current = false;
       setSubmitting(false);
     }
   };
 
+  const reloadDetails = async () => {
+    try {
+      const d = await ChallengeService.getChallengeDetails(challengeId, userId);
+      setDetails(d);
+    } catch (e) {
+      if (__DEV__) console.error('CheckInScreen reload error:', e);
+    }
+  };
+
+  const handleEditCheckIn = async (draft: CheckInDraft) => {
+    if (!editableCheckIn || submitInProgress.current) return;
+    submitInProgress.current = true;
+    setSubmitting(true);
+
+    try {
+      const attachments = await MessageService.uploadAttachments(draft.attachments || []);
+      const payload: any = {};
+      if (draft.booleanValue !== undefined) payload.booleanValue = draft.booleanValue;
+      if (draft.numberValue !== undefined) payload.numberValue = draft.numberValue;
+      if (draft.textValue !== undefined) payload.textValue = draft.textValue;
+      if (draft.timerSeconds !== undefined) payload.timerSeconds = draft.timerSeconds;
+
+      await CheckInService.editChallengeCheckIn(editableCheckIn.id, payload, attachments);
+      setEditing(false);
+      await reloadDetails();
+    } catch (error) {
+      if (__DEV__) console.error('Check-in edit error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to edit check-in');
+    } finally {
+      submitInProgress.current = false;
+      setSubmitting(false);
+    }
+  };
+
+  const handleRetractCheckIn = () => {
+    if (!editableCheckIn || submitInProgress.current) return;
+    Alert.alert(
+      'Retract check-in?',
+      'The XP and streak from this check-in will be removed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Retract',
+          style: 'destructive',
+          onPress: async () => {
+            submitInProgress.current = true;
+            setSubmitting(true);
+            try {
+              await CheckInService.retractChallengeCheckIn(editableCheckIn.id);
+              await reloadDetails();
+            } catch (error) {
+              if (__DEV__) console.error('Check-in retract error:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to retract check-in');
+            } finally {
+              submitInProgress.current = false;
+              setSubmitting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   if (loading || !challenge || !group) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
@@ -217,6 +324,22 @@ export const CheckInScreen = ({ navigation, route }: any) => {
                 countdownTargetDate={countdownTargetDate}
               />
             )}
+            {editableCheckIn && !editing && !submitting && (
+              <View style={styles.editActions}>
+                <TouchableOpacity
+                  style={[styles.editButton, { backgroundColor: colors.card, borderColor: colors.accent + '60' }]}
+                  onPress={() => setEditing(true)}
+                >
+                  <Text style={[styles.editButtonText, { color: colors.accent }]}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.editButton, { backgroundColor: colors.card, borderColor: colors.dividerLineTodo + '99' }]}
+                  onPress={handleRetractCheckIn}
+                >
+                  <Text style={[styles.editButtonText, { color: colors.textSecondary }]}>Retract</Text>
+                </TouchableOpacity>
+              </View>
+            )}
             {/* Rules & requirements */}
             {!alreadySubmitted && !submitting && (challenge.description || buildCheckInRequirements(challenge).length > 0) && (
               <View style={[styles.rulesBox, { backgroundColor: colors.card, borderColor: colors.accent + '60' }]}>
@@ -241,18 +364,46 @@ export const CheckInScreen = ({ navigation, route }: any) => {
           {submitting && (
             <View style={styles.submittingWrap}>
               <CircleLoader dotColor={colors.accent} size="large" />
-              <Text style={[styles.submittingText, { color: colors.textSecondary }]}>Submitting check-in...</Text>
+              <Text style={[styles.submittingText, { color: colors.textSecondary }]}>
+                {editableCheckIn ? 'Saving...' : 'Submitting check-in...'}
+              </Text>
+            </View>
+          )}
+
+          {/* Edit form, prefilled with the current check-in */}
+          {editing && editableCheckIn && !submitting && (
+            <View style={styles.formWrap}>
+              <CheckInComposer
+                inputType={challenge.submission?.inputType || 'boolean'}
+                unitLabel={challenge.submission?.unitLabel}
+                minValue={challenge.submission?.minValue}
+                requireAttachment={challenge.submission?.requireAttachment ?? false}
+                liveCaptureOnly={challenge.submission?.liveCaptureOnly}
+                requireText={challenge.submission?.requireText}
+                minTextLength={challenge.submission?.minTextLength}
+                onSubmit={handleEditCheckIn}
+                showNotesField={true}
+                isModal={true}
+                compact={true}
+                showPhotoPicker={true}
+                initialDraft={{ ...editableCheckIn.payload, attachments: editableCheckIn.attachments || [] }}
+                submitLabel="Save changes"
+              />
+              <TouchableOpacity style={styles.cancelEdit} onPress={() => setEditing(false)}>
+                <Text style={[styles.editButtonText, { color: colors.textSecondary }]}>Cancel</Text>
+              </TouchableOpacity>
             </View>
           )}
 
           {/* Bottom: form (Add Photo, notes, submit) */}
-          {!alreadySubmitted && !submitting && (
+          {!alreadySubmitted && !submitting && !editing && (
             <View style={styles.formWrap}>
               <CheckInComposer
                 inputType={challenge.submission?.inputType || 'boolean'}
                 unitLabel={challenge.submission?.unitLabel}
                 minValue={challenge.submission?.minValue}
                 requireAttachment={challenge.submission?.requireAttachment ?? false}
+                liveCaptureOnly={challenge.submission?.liveCaptureOnly}
                 requireText={challenge.submission?.requireText}
                 minTextLength={challenge.submission?.minTextLength}
                 onSubmit={handleSubmitCheckIn}
@@ -351,4 +502,25 @@ const styles = StyleSheet.create({
     paddingTop: 0,
     paddingBottom: 16,
   },
+  editActions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  editButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  editButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  cancelEdit: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
 });
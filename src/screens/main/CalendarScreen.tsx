@@ -18,6 +18,7 @@ import { CheckInService } from '../../services/checkInService';
 import { LoadingSpinner } from '../../components/common/LoadingSpinner';
 import { Challenge, CheckIn, User } from '../../types';
 import { dateKeys } from '../../utils/dateKeys';
+import { isActivePeriodKey } from '../../utils/dueTime';
 import { useColorMode } from '../../theme/ColorModeContext';
 import { useCurrentUser } from '../../contexts/UserContext';
 import { MONTHS, DAY_NAMES } from '../../constants/calendar';
@@ -150,6 +151,14 @@ export const CalendarScreen: React.FC = () => {
     return relevantCheckIns.length;
   };
 
+  // Rest day of the selected challenge's specific-weekdays schedule
+  const isOffDay = (date: Date): boolean => {
+    if (selectedChallenge === 'all') return false;
+    const challenge = challenges.find(c => c.id === selectedChallenge);
+    if (!challenge?.cadence) return false;
+    return !isActivePeriodKey(dateKeys.getDayKey(date), challenge.cadence);
+  };
+
   // Get challenges for selected date. Check-ins are keyed by period.dayKey (challenge creator TZ).
   // We match by calendar day (local); if creator TZ differs, a check-in may appear on adjacent day.
   const getChallengesForDate = (date: Date): Array<{ challenge: Challenge; checkIn: CheckIn }> => {
@@ -356,6 +365,7 @@ export const CalendarScreen: React.FC = () => {
                 const isTodayDate = isToday(date);
                 const isCurrentMonthDate = isCurrentMonth(date);
                 const isSelectedDate = isSelected(date);
+                const isOffDate = count === 0 && isOffDay(date);
                 
                 return (
                   <TouchableOpacity
@@ -363,6 +373,7 @@ export const CalendarScreen: React.FC = () => {
                     style={[
                       styles.dayCell,
                       { backgroundColor: color },
+                      isOffDate && [styles.dayCellOffDay, { borderColor: colors.textSecondary + '40' }],
                       !isCurrentMonthDate && styles.dayCellOtherMonth,
                       isSelectedDate && [styles.dayCellSelected, { borderColor: colors.accent }],
                     ]}
@@ -658,6 +669,11 @@ const styles = StyleSheet.create({
   dayCellOtherMonth: {
     opacity: 0.3,
   },
+  dayCellOffDay: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+  },
   dayCellSelected: {
     borderWidth: 2,
   },
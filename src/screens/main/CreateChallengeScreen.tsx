@@ -23,14 +23,27 @@ import { GroupService } from '../../services/groupService';
 import { AuthService } from '../../services/authService';
 import { auth } from '../../services/firebase';
 import { Group } from '../../types';
+import { DAY_NAMES } from '../../constants/calendar';
 import { useColorMode } from '../../theme/ColorModeContext';
+import { assignTeamsEvenly, DEFAULT_TEAM_COMPLETION_PERCENT, MIN_TEAMS, MAX_TEAMS } from '../../utils/teams';
+import { DEFAULT_DELOAD_PERCENT, MAX_PROGRESSION_INTERVAL_DAYS } from '../../utils/progression';
+import { DEFAULT_REVIVAL_XP_COST, MAX_REVIVALS_PER_MEMBER, type RevivalMode } from '../../utils/revival';
+import { canInGroup } from '../../utils/groupRoles';
 import {
   CHALLENGE_CATEGORIES,
   CHALLENGE_TEMPLATES,
   ChallengeTemplate,
 } from '../../constants/challengeTemplates';
 
-type ChallengeType = 'elimination' | 'deadline' | 'progress';
+type ChallengeType = 'elimination' | 'deadline' | 'progress' | 'team';
+type EliminationTieBreak = 'shared' | 'fewestStrikes' | 'highestTotal' | 'suddenDeath';
+
+const TIE_BREAK_OPTIONS: Array<{ value: EliminationTieBreak; label: string; hint: string }> = [
+  { value: 'shared', label: 'Share the win', hint: 'Everyone who went out in the final round wins together' },
+  { value: 'fewestStrikes', label: 'Fewest strikes', hint: 'The member with the fewest strikes wins' },
+  { value: 'highestTotal', label: 'Highest total', hint: 'The highest total of logged values wins' },
+  { value: 'suddenDeath', label: 'Sudden death', hint: 'One more period; the first to miss is out' },
+];
 
 interface CreateChallengeScreenProps {
   navigation: any;
@@ -65,8 +78,6 @@ export const CreateChallengeScreen: React.FC<CreateChallengeScreenProps> = ({ na
   const [eliminationRule, setEliminationRule] = useState('');
   const [startDate, setStartDate] = useState<Date | undefined>(undefined);
   const [endDate, setEndDate] = useState<Date | undefined>(undefined);
-  const [progressionDuration, setProgressionDuration] = useState<number>(7);
-  const [intervalType, setIntervalType] = useState('');
   const [assessmentTime, setAssessmentTime] = useState<Date>(new Date(new Date().setHours(23, 59, 0, 0)));
   
   // Date picker states
@@ -76,18 +87,63 @@ export const CreateChallengeScreen: React.FC<CreateChallengeScreenProps> = ({ na
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Cadence
-  const [cadenceUnit, setCadenceUnit] = useState<'daily' | 'weekly'>('daily');
+  const [cadenceUnit, setCadenceUnit] = useState<'daily' | 'weekly' | 'monthly' | 'interval'>('daily');
   const [weeklyCount, setWeeklyCount] = useState(3);
   const [weekStartsOn, setWeekStartsOn] = useState(1); // 1=Monday
+  const [monthlyCount, setMonthlyCount] = useState(4);
+  const [intervalDays, setIntervalDays] = useState(3); // "every N days"
+  const [activeWeekdays, setActiveWeekdays] = useState<number[]>([0, 1, 2, 3, 4, 5, 6]);
 
   // Submission type
   const [inputType, setInputType] = useState<'boolean' | 'number' | 'text' | 'timer'>('boolean');
   const [unitLabel, setUnitLabel] = useState('');
   const [minValue, setMinValue] = useState<number | undefined>(undefined);
   const [requireAttachment, setRequireAttachment] = useState(false);
+  // Photo proof must come from the in-app camera
+  const [liveCaptureOnly, setLiveCaptureOnly] = useState(false);
+
+  // Peer verification (group challenges only)
+  const [allowDisputes, setAllowDisputes] = useState(false);
+
+  // Member pauses (vacation mode): total days each member may pause
+  const [allowPauses, setAllowPauses] = useState(false);
+  const [maxPauseDays, setMaxPauseDays] = useState(7);
+
+  // Seasons (not deadline): restart with a clean slate every N weeks
+  const [useSeasons, setUseSeasons] = useState(false);
+  const [seasonWeeks, setSeasonWeeks] = useState(4);
+
+  // Deadline goal (deadline only)
+  const [deadlineMode, setDeadlineMode] = useState<'accumulate' | 'latest'>('accumulate');
+  const [useDeadlineTarget, setUseDeadlineTarget] = useState(false);
+  const [deadlineTarget, setDeadlineTarget] = useState(10);
+  const [deadlineComparison, setDeadlineComparison] = useState<'gte' | 'lte'>('gte');
+
+  // Progression (progress only)
+  const [progressStart, setProgressStart] = useState(10);
+  const [progressIncrease, setProgressIncrease] = useState(5);
+  const [progressStepUnit, setProgressStepUnit] = useState<'day' | 'week' | 'interval'>('week');
+  const [progressStepDays, setProgressStepDays] = useState(3);
+  const [progressComparison, setProgressComparison] = useState<'gte' | 'lte'>('gte');
+  const [useProgressCap, setUseProgressCap] = useState(false);
+  const [progressCap, setProgressCap] = useState(50);
+  const [useDeload, setUseDeload] = useState(false);
+  const [deloadEvery, setDeloadEvery] = useState(4);
+  const [deloadPercent, setDeloadPercent] = useState(DEFAULT_DELOAD_PERCENT);
 
   // Strikes (elimination only)
   const [strikesAllowed, setStrikesAllowed] = useState(0);
+  const [eliminationTieBreak, setEliminationTieBreak] = useState<EliminationTieBreak>('shared');
+  const [allowRevivals, setAllowRevivals] = useState(false);
+  const [revivalMode, setRevivalMode] = useState<RevivalMode>('buyBack');
+  const [revivalsPerMember, setRevivalsPerMember] = useState(1);
+  const [revivalXpCost, setRevivalXpCost] = useState(DEFAULT_REVIVAL_XP_COST);
+
+  // Teams (team only)
+  const [teamNames, setTeamNames] = useState<string[]>(['Team 1', 'Team 2']);
+  const [teamSuccessMode, setTeamSuccessMode] = useState<'percent' | 'sum'>('percent');
+  const [teamCompletionPercent, setTeamCompletionPercent] = useState(DEFAULT_TEAM_COMPLETION_PERCENT);
+  const [teamTargetValue, setTeamTargetValue] = useState(100);
 
   // Mode selection: 'friends' or 'group'
   const [participantMode, setParticipantMode] = useState<'friends' | 'group'>('friends');
@@ -133,7 +189,9 @@ export const CreateChallengeScreen: React.FC<CreateChallengeScreenProps> = ({ na
     try {
       const currentUser = await AuthService.getCurrentUser();
       if (currentUser) {
-        const groups = await GroupService.getUserGroups(currentUser.id);
+        // Only the owner and admins can add challenges to a group
+        const groups = (await GroupService.getUserGroups(currentUser.id))
+          .filter(g => canInGroup(g, currentUser.id, 'createChallenges'));
         setUserGroups(groups);
         await loadChallengeCounts(groups);
       }
@@ -234,6 +292,18 @@ export const CreateChallengeScreen: React.FC<CreateChallengeScreenProps> = ({ na
     }
   };
 
+  const renderStepper = (label: string, onDecrease: () => void, onIncrease: () => void) => (
+    <View style={[styles.numberInputContainer, styles.progressionInput, { backgroundColor: colors.surface }]}>
+      <TouchableOpacity style={styles.numberButton} onPress={onDecrease}>
+        <Ionicons name="remove" size={20} color={Theme.colors.white} />
+      </TouchableOpacity>
+      <Text style={[styles.numberValue, { color: colors.text }]}>{label}</Text>
+      <TouchableOpacity style={styles.numberButton} onPress={onIncrease}>
+        <Ionicons name="add" size={20} color={Theme.colors.white} />
+      </TouchableOpacity>
+    </View>
+  );
+
   const handleCreateChallenge = async () => {
     if (isSubmitting) return;
     if (!challengeTitle.trim() || !description.trim()) {
@@ -252,9 +322,27 @@ export const CreateChallengeScreen: React.FC<CreateChallengeScreenProps> = ({ na
       return;
     }
 
-    if (challengeType === 'progress' && (!progressionDuration || !intervalType.trim())) {
-      Alert.alert('Error', 'Please fill in all progression fields');
-      return;
+    if (challengeType === 'progress') {
+      if (inputType !== 'number') {
+        Alert.alert('Error', 'A progress challenge needs the Number submission type');
+        return;
+      }
+      const capPassesStart = progressComparison === 'gte' ? progressCap > progressStart : progressCap < progressStart;
+      if (useProgressCap && !capPassesStart) {
+        Alert.alert('Error', `The cap must be ${progressComparison === 'gte' ? 'above' : 'below'} the starting target`);
+        return;
+      }
+    }
+
+    if (challengeType === 'team') {
+      if (teamNames.some(name => !name.trim())) {
+        Alert.alert('Error', 'Please name every team');
+        return;
+      }
+      if (teamSuccessMode === 'sum' && inputType !== 'number') {
+        Alert.alert('Error', 'A summed team target needs the Number submission type');
+        return;
+      }
     }
 
     // For group challenges (not solo, not attached to existing group), need participants
@@ -300,6 +388,14 @@ export const CreateChallengeScreen: React.FC<CreateChallengeScreenProps> = ({ na
         }
       }
 
+      const teamRules = {
+        teams: teamNames.map((name, i) => ({ id: `team${i + 1}`, name: name.trim() })),
+        successMode: teamSuccessMode,
+        ...(teamSuccessMode === 'percent'
+          ? { completionPercent: teamCompletionPercent }
+          : { targetValue: teamTargetValue }),
+      };
+
       // Create the challenge in Firebase
       const challengeId = await ChallengeService.createChallenge(
         challengeTitle.trim(),
@@ -313,21 +409,57 @@ export const CreateChallengeScreen: React.FC<CreateChallengeScreenProps> = ({ na
           category: selectedCategory || undefined,
           eliminationRule: challengeType === 'elimination' ? eliminationRule : undefined,
           strikesAllowed: challengeType === 'elimination' ? strikesAllowed : undefined,
+          tieBreak: challengeType === 'elimination' ? eliminationTieBreak : undefined,
+          revival: challengeType === 'elimination' && allowRevivals
+            ? {
+                mode: revivalMode,
+                maxPerMember: revivalsPerMember,
+                ...(revivalMode === 'buyBack' && { xpCost: revivalXpCost }),
+              }
+            : undefined,
           startDate: challengeType === 'deadline' ? startDate : undefined,
+          startsAt: startDate,
+          seasonLengthDays: challengeType !== 'deadline' && useSeasons ? seasonWeeks * 7 : undefined,
           endDate: challengeType === 'deadline' ? endDate : undefined,
-          progressionDuration: challengeType === 'progress' ? progressionDuration : undefined,
-          progressionIntervalType: challengeType === 'progress' ? intervalType : undefined,
+          deadline: challengeType === 'deadline'
+            ? {
+                progressMode: deadlineMode,
+                ...(useDeadlineTarget && { targetValue: deadlineTarget, comparison: deadlineComparison }),
+              }
+            : undefined,
+          progress: challengeType === 'progress'
+            ? {
+                startsAt: progressStart,
+                increaseBy: progressComparison === 'gte' ? progressIncrease : -progressIncrease,
+                increaseUnit: progressStepUnit,
+                ...(progressStepUnit === 'interval' && { intervalDays: progressStepDays }),
+                comparison: progressComparison,
+                ...(useProgressCap && { cap: progressCap }),
+                ...(useDeload && { deload: { everySteps: deloadEvery, percent: deloadPercent } }),
+              }
+            : undefined,
           assessmentTime,
           cadence: {
             unit: cadenceUnit,
+            ...(cadenceUnit === 'daily' && { activeWeekdays }),
             ...(cadenceUnit === 'weekly' && { requiredCount: weeklyCount, weekStartsOn }),
+            ...(cadenceUnit === 'monthly' && { requiredCount: monthlyCount }),
+            ...(cadenceUnit === 'interval' && { intervalDays }),
           },
           submission: {
             inputType,
             ...(inputType === 'number' && { unitLabel, ...(minValue != null && { minValue }) }),
             ...(inputType === 'timer' && minValue != null && { minValue }),
             requireAttachment,
+            ...(requireAttachment && liveCaptureOnly && { liveCaptureOnly: true }),
           },
+          settings: (!isSolo && allowDisputes) || allowPauses
+            ? {
+                ...(!isSolo && allowDisputes && { disputes: { enabled: true } }),
+                ...(allowPauses && { pauses: { maxDaysPerMember: maxPauseDays } }),
+              }
+            : undefined,
+          team: challengeType === 'team' ? teamRules : undefined,
         }
       );
 
@@ -348,6 +480,12 @@ export const CreateChallengeScreen: React.FC<CreateChallengeScreenProps> = ({ na
             .filter(memberId => memberId !== currentUser.uid)
             .map(memberId => ChallengeService.addParticipant(challengeId, memberId, finalGroupId))
         );
+
+        // Split everyone (creator included) evenly across the teams
+        if (challengeType === 'team') {
+          const teamMemberIds = Array.from(new Set([currentUser.uid, ...membersToAdd]));
+          await ChallengeService.assignTeams(challengeId, assignTeamsEvenly(teamMemberIds, teamRules.teams));
+        }
       }
 
       // Navigate first, then show success (so user sees their new challenge on home)
@@ -494,6 +632,143 @@ export const CreateChallengeScreen: React.FC<CreateChallengeScreenProps> = ({ na
                 </View>
                 <Text style={[styles.strikesHint, { color: colors.textSecondary }]}>0 = eliminated on first miss</Text>
               </View>
+              <View style={styles.strikesContainer}>
+                <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>If the last members go out together</Text>
+                {[TIE_BREAK_OPTIONS.slice(0, 2), TIE_BREAK_OPTIONS.slice(2)].map((row, i) => (
+                  <View key={i} style={[styles.modeToggleContainer, { backgroundColor: colors.surface }]}>
+                    {row.map(option => (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[styles.modeToggleButton, eliminationTieBreak === option.value && styles.modeToggleButtonActive]}
+                        onPress={() => setEliminationTieBreak(option.value)}
+                      >
+                        <Text style={[styles.modeToggleText, { color: colors.text }, eliminationTieBreak === option.value && styles.modeToggleTextActive]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                ))}
+                <Text style={[styles.strikesHint, { color: colors.textSecondary }]}>
+                  {TIE_BREAK_OPTIONS.find(o => o.value === eliminationTieBreak)?.hint}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.attachmentToggle} onPress={() => setAllowRevivals(!allowRevivals)}>
+                <Ionicons
+                  name={allowRevivals ? 'checkbox' : 'square-outline'}
+                  size={24}
+                  color={allowRevivals ? Theme.colors.secondary : colors.textSecondary}
+                />
+                <Text style={[styles.attachmentToggleText, { color: colors.text }]}>Allow revivals</Text>
+              </TouchableOpacity>
+              {allowRevivals && (
+                <View>
+                  <View style={[styles.modeToggleContainer, { backgroundColor: colors.surface }]}>
+                    <TouchableOpacity
+                      style={[styles.modeToggleButton, revivalMode === 'buyBack' && styles.modeToggleButtonActive]}
+                      onPress={() => setRevivalMode('buyBack')}
+                    >
+                      <Text style={[styles.modeToggleText, { color: colors.text }, revivalMode === 'buyBack' && styles.modeToggleTextActive]}>Buy back with XP</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.modeToggleButton, revivalMode === 'vote' && styles.modeToggleButtonActive]}
+                      onPress={() => setRevivalMode('vote')}
+                    >
+                      <Text style={[styles.modeToggleText, { color: colors.text }, revivalMode === 'vote' && styles.modeToggleTextActive]}>Group vote</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {revivalMode === 'buyBack' && renderStepper(
+                    `${revivalXpCost} XP`,
+                    () => setRevivalXpCost(Math.max(25, revivalXpCost - 25)),
+                    () => setRevivalXpCost(revivalXpCost + 25)
+                  )}
+                  {renderStepper(
+                    `${revivalsPerMember} per member`,
+                    () => setRevivalsPerMember(Math.max(1, revivalsPerMember - 1)),
+                    () => setRevivalsPerMember(Math.min(MAX_REVIVALS_PER_MEMBER, revivalsPerMember + 1))
+                  )}
+                  <Text style={[styles.strikesHint, { color: colors.textSecondary }]}>
+                    {revivalMode === 'buyBack'
+                      ? 'Eliminated members spend XP to return with max strikes'
+                      : 'A majority of the members still in brings someone back with max strikes'}
+                  </Text>
+                </View>
+              )}
+            </View>
+          )}
+
+          {challengeType === 'team' && (
+            <View>
+              <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>Number of teams</Text>
+              <View style={[styles.numberInputContainer, { backgroundColor: colors.surface }]}>
+                <TouchableOpacity
+                  style={styles.numberButton}
+                  onPress={() => setTeamNames(teamNames.length > MIN_TEAMS ? teamNames.slice(0, -1) : teamNames)}
+                >
+                  <Ionicons name="remove" size={20} color={Theme.colors.white} />
+                </TouchableOpacity>
+                <Text style={[styles.numberValue, { color: colors.text }]}>{teamNames.length}</Text>
+                <TouchableOpacity
+                  style={styles.numberButton}
+                  onPress={() => setTeamNames(teamNames.length < MAX_TEAMS ? [...teamNames, `Team ${teamNames.length + 1}`] : teamNames)}
+                >
+                  <Ionicons name="add" size={20} color={Theme.colors.white} />
+                </TouchableOpacity>
+              </View>
+              {teamNames.map((name, index) => (
+                <Input
+                  key={index}
+                  placeholder={`Team ${index + 1} name`}
+                  value={name}
+                  onChangeText={(text) => setTeamNames(teamNames.map((n, i) => (i === index ? text : n)))}
+                  variant="light"
+                />
+              ))}
+              <Text style={[styles.strikesHint, { color: colors.textSecondary }]}>
+                Members are split evenly across teams at random
+              </Text>
+
+              <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>A team completes a period when</Text>
+              <View style={[styles.modeToggleContainer, { backgroundColor: colors.surface }]}>
+                <TouchableOpacity
+                  style={[styles.modeToggleButton, teamSuccessMode === 'percent' && styles.modeToggleButtonActive]}
+                  onPress={() => setTeamSuccessMode('percent')}
+                >
+                  <Text style={[styles.modeToggleText, { color: colors.text }, teamSuccessMode === 'percent' && styles.modeToggleTextActive]}>Members check in</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modeToggleButton, teamSuccessMode === 'sum' && styles.modeToggleButtonActive]}
+                  onPress={() => setTeamSuccessMode('sum')}
+                >
+                  <Text style={[styles.modeToggleText, { color: colors.text }, teamSuccessMode === 'sum' && styles.modeToggleTextActive]}>Total reaches target</Text>
+                </TouchableOpacity>
+              </View>
+              <View style={[styles.numberInputContainer, { backgroundColor: colors.surface }]}>
+                <TouchableOpacity
+                  style={styles.numberButton}
+                  onPress={() => teamSuccessMode === 'percent'
+                    ? setTeamCompletionPercent(Math.max(10, teamCompletionPercent - 10))
+                    : setTeamTargetValue(Math.max(10, teamTargetValue - 10))}
+                >
+                  <Ionicons name="remove" size={20} color={Theme.colors.white} />
+                </TouchableOpacity>
+                <Text style={[styles.numberValue, { color: colors.text }]}>
+                  {teamSuccessMode === 'percent' ? `${teamCompletionPercent}%` : `${teamTargetValue} ${unitLabel}`.trim()}
+                </Text>
+                <TouchableOpacity
+                  style={styles.numberButton}
+                  onPress={() => teamSuccessMode === 'percent'
+                    ? setTeamCompletionPercent(Math.min(100, teamCompletionPercent + 10))
+                    : setTeamTargetValue(teamTargetValue + 10)}
+                >
+                  <Ionicons name="add" size={20} color={Theme.colors.white} />
+                </TouchableOpacity>
+              </View>
+              <Text style={[styles.strikesHint, { color: colors.textSecondary }]}>
+                {teamSuccessMode === 'percent'
+                  ? 'Share of each team that must check in every period'
+                  : 'Sum of the numbers a team submits each period (Number submission type)'}
+              </Text>
             </View>
           )}
 
@@ -530,43 +805,154 @@ export const CreateChallengeScreen: React.FC<CreateChallengeScreenProps> = ({ na
                   </TouchableOpacity>
                 </View>
               </View>
+
+              <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>Score each member by</Text>
+              <View style={[styles.modeToggleContainer, { backgroundColor: colors.surface }]}>
+                <TouchableOpacity
+                  style={[styles.modeToggleButton, deadlineMode === 'accumulate' && styles.modeToggleButtonActive]}
+                  onPress={() => setDeadlineMode('accumulate')}
+                >
+                  <Text style={[styles.modeToggleText, { color: colors.text }, deadlineMode === 'accumulate' && styles.modeToggleTextActive]}>Total of all check-ins</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modeToggleButton, deadlineMode === 'latest' && styles.modeToggleButtonActive]}
+                  onPress={() => setDeadlineMode('latest')}
+                >
+                  <Text style={[styles.modeToggleText, { color: colors.text }, deadlineMode === 'latest' && styles.modeToggleTextActive]}>Latest check-in</Text>
+                </TouchableOpacity>
+              </View>
+
+              <TouchableOpacity style={styles.attachmentToggle} onPress={() => setUseDeadlineTarget(!useDeadlineTarget)}>
+                <Ionicons
+                  name={useDeadlineTarget ? 'checkbox' : 'square-outline'}
+                  size={24}
+                  color={useDeadlineTarget ? Theme.colors.secondary : colors.textSecondary}
+                />
+                <Text style={[styles.attachmentToggleText, { color: colors.text }]}>Set a target to reach</Text>
+              </TouchableOpacity>
+              {useDeadlineTarget && (
+                <View>
+                  <View style={[styles.modeToggleContainer, { backgroundColor: colors.surface }]}>
+                    <TouchableOpacity
+                      style={[styles.modeToggleButton, deadlineComparison === 'gte' && styles.modeToggleButtonActive]}
+                      onPress={() => setDeadlineComparison('gte')}
+                    >
+                      <Text style={[styles.modeToggleText, { color: colors.text }, deadlineComparison === 'gte' && styles.modeToggleTextActive]}>At least</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.modeToggleButton, deadlineComparison === 'lte' && styles.modeToggleButtonActive]}
+                      onPress={() => setDeadlineComparison('lte')}
+                    >
+                      <Text style={[styles.modeToggleText, { color: colors.text }, deadlineComparison === 'lte' && styles.modeToggleTextActive]}>At most</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {renderStepper(
+                    `${deadlineTarget} ${unitLabel}`.trim(),
+                    () => setDeadlineTarget(Math.max(1, deadlineTarget - 1)),
+                    () => setDeadlineTarget(deadlineTarget + 1)
+                  )}
+                </View>
+              )}
+              <Text style={[styles.strikesHint, { color: colors.textSecondary }]}>
+                Number check-ins count their value, timers their minutes and anything else counts once
+              </Text>
             </View>
           )}
 
           {challengeType === 'progress' && (
             <View>
-              <View style={styles.progressionInput}>
-                <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>
-                  Choose the amount of time between each interval progression
-                </Text>
-                <View style={styles.numberInputContainer}>
-                  <TouchableOpacity
-                    style={styles.numberButton}
-                    onPress={() => setProgressionDuration(Math.max(1, progressionDuration - 1))}
-                  >
-                    <Ionicons name="remove" size={20} color={Theme.colors.white} />
-                  </TouchableOpacity>
-                  <Text style={styles.numberValue}>{progressionDuration} days</Text>
+              <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>Goal</Text>
+              <View style={[styles.modeToggleContainer, { backgroundColor: colors.surface }]}>
+                <TouchableOpacity
+                  style={[styles.modeToggleButton, progressComparison === 'gte' && styles.modeToggleButtonActive]}
+                  onPress={() => setProgressComparison('gte')}
+                >
+                  <Text style={[styles.modeToggleText, { color: colors.text }, progressComparison === 'gte' && styles.modeToggleTextActive]}>Higher is better</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.modeToggleButton, progressComparison === 'lte' && styles.modeToggleButtonActive]}
+                  onPress={() => setProgressComparison('lte')}
+                >
+                  <Text style={[styles.modeToggleText, { color: colors.text }, progressComparison === 'lte' && styles.modeToggleTextActive]}>Lower is better</Text>
+                </TouchableOpacity>
+              </View>
+
+              <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>Starting target</Text>
+              {renderStepper(
+                `${progressStart} ${unitLabel}`.trim(),
+                () => setProgressStart(Math.max(1, progressStart - 1)),
+                () => setProgressStart(progressStart + 1)
+              )}
+
+              <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>
+                {progressComparison === 'gte' ? 'Increase' : 'Decrease'} the target every
+              </Text>
+              <View style={[styles.modeToggleContainer, { backgroundColor: colors.surface }]}>
+                {(['day', 'week', 'interval'] as const).map((unit) => (
                   <TouchableOpacity
-                    style={styles.numberButton}
-                    onPress={() => setProgressionDuration(progressionDuration + 1)}
+                    key={unit}
+                    style={[styles.modeToggleButton, progressStepUnit === unit && styles.modeToggleButtonActive]}
+                    onPress={() => setProgressStepUnit(unit)}
                   >
-                    <Ionicons name="add" size={20} color={Theme.colors.white} />
+                    <Text style={[styles.modeToggleText, { color: colors.text }, progressStepUnit === unit && styles.modeToggleTextActive]}>
+                      {unit === 'day' ? 'Day' : unit === 'week' ? 'Week' : 'N days'}
+                    </Text>
                   </TouchableOpacity>
-                </View>
+                ))}
               </View>
-              <View style={styles.progressionInput}>
-                <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>
-                  What needs to increase? Cardio done? Time spent coding?
-                </Text>
-                <Input
-                  placeholder="Enter interval type..."
-                  value={intervalType}
-                  onChangeText={setIntervalType}
-                  multiline
-                  variant="light"
+              {progressStepUnit === 'interval' && renderStepper(
+                `${progressStepDays} days`,
+                () => setProgressStepDays(Math.max(2, progressStepDays - 1)),
+                () => setProgressStepDays(Math.min(MAX_PROGRESSION_INTERVAL_DAYS, progressStepDays + 1))
+              )}
+              {renderStepper(
+                `${progressComparison === 'gte' ? '+' : '-'}${progressIncrease} ${unitLabel}`.trim(),
+                () => setProgressIncrease(Math.max(1, progressIncrease - 1)),
+                () => setProgressIncrease(progressIncrease + 1)
+              )}
+              <Text style={[styles.strikesHint, { color: colors.textSecondary }]}>
+                Change applied at the start of each step
+              </Text>
+
+              <TouchableOpacity style={styles.attachmentToggle} onPress={() => setUseProgressCap(!useProgressCap)}>
+                <Ionicons
+                  name={useProgressCap ? 'checkbox' : 'square-outline'}
+                  size={24}
+                  color={useProgressCap ? Theme.colors.secondary : colors.textSecondary}
                 />
-              </View>
+                <Text style={[styles.attachmentToggleText, { color: colors.text }]}>Stop at a final target</Text>
+              </TouchableOpacity>
+              {useProgressCap && renderStepper(
+                `${progressCap} ${unitLabel}`.trim(),
+                () => setProgressCap(Math.max(1, progressCap - 5)),
+                () => setProgressCap(progressCap + 5)
+              )}
+
+              <TouchableOpacity style={styles.attachmentToggle} onPress={() => setUseDeload(!useDeload)}>
+                <Ionicons
+                  name={useDeload ? 'checkbox' : 'square-outline'}
+                  size={24}
+                  color={useDeload ? Theme.colors.secondary : colors.textSecondary}
+                />
+                <Text style={[styles.attachmentToggleText, { color: colors.text }]}>Add deload steps</Text>
+              </TouchableOpacity>
+              {useDeload && (
+                <View>
+                  {renderStepper(
+                    `Every ${deloadEvery}`,
+                    () => setDeloadEvery(Math.max(2, deloadEvery - 1)),
+                    () => setDeloadEvery(Math.min(12, deloadEvery + 1))
+                  )}
+                  {renderStepper(
+                    `${deloadPercent}%`,
+                    () => setDeloadPercent(Math.max(0, deloadPercent - 10)),
+                    () => setDeloadPercent(Math.min(90, deloadPercent + 10))
+                  )}
+                  <Text style={[styles.strikesHint, { color: colors.textSecondary }]}>
+                    Every {deloadEvery} steps, one lighter step keeps {deloadPercent}% of the progress so far
+                  </Text>
+                </View>
+              )}
             </View>
           )}
 
@@ -600,7 +986,44 @@ export const CreateChallengeScreen: React.FC<CreateChallengeScreenProps> = ({ na
             >
               <Text style={[styles.modeToggleText, { color: colors.text }, cadenceUnit === 'weekly' && styles.modeToggleTextActive]}>Weekly</Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modeToggleButton, cadenceUnit === 'monthly' && styles.modeToggleButtonActive]}
+              onPress={() => setCadenceUnit('monthly')}
+            >
+              <Text style={[styles.modeToggleText, { color: colors.text }, cadenceUnit === 'monthly' && styles.modeToggleTextActive]}>Monthly</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modeToggleButton, cadenceUnit === 'interval' && styles.modeToggleButtonActive]}
+              onPress={() => setCadenceUnit('interval')}
+            >
+              <Text style={[styles.modeToggleText, { color: colors.text }, cadenceUnit === 'interval' && styles.modeToggleTextActive]}>Every N</Text>
+            </TouchableOpacity>
           </View>
+          {cadenceUnit === 'daily' && (
+            <View>
+              <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>
+                Check-in days{activeWeekdays.length < 7 ? ' (other days are rest days)' : ''}
+              </Text>
+              <View style={[styles.modeToggleContainer, { backgroundColor: colors.surface }]}>
+                {DAY_NAMES.map((dayName, day) => {
+                  const isActive = activeWeekdays.includes(day);
+                  return (
+                    <TouchableOpacity
+                      key={day}
+                      style={[styles.modeToggleButton, styles.weekdayButton, isActive && styles.modeToggleButtonActive]}
+                      onPress={() => {
+                        // Keep at least one check-in day
+                        if (isActive && activeWeekdays.length === 1) return;
+                        setActiveWeekdays(isActive ? activeWeekdays.filter(d => d !== day) : [...activeWeekdays, day]);
+                      }}
+                    >
+                      <Text style={[styles.modeToggleText, { color: colors.text }, isActive && styles.modeToggleTextActive]}>{dayName}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
           {cadenceUnit === 'weekly' && (
             <View>
               <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>Required check-ins per week</Text>
@@ -638,8 +1061,111 @@ export const CreateChallengeScreen: React.FC<CreateChallengeScreenProps> = ({ na
               </View>
             </View>
           )}
+          {cadenceUnit === 'monthly' && (
+            <View>
+              <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>Required check-ins per month</Text>
+              <View style={[styles.numberInputContainer, { backgroundColor: colors.surface }]}>
+                <TouchableOpacity
+                  style={styles.numberButton}
+                  onPress={() => setMonthlyCount(Math.max(1, monthlyCount - 1))}
+                >
+                  <Ionicons name="remove" size={20} color={Theme.colors.white} />
+                </TouchableOpacity>
+                <Text style={[styles.numberValue, { color: colors.text }]}>{monthlyCount}</Text>
+                <TouchableOpacity
+                  style={styles.numberButton}
+                  onPress={() => setMonthlyCount(Math.min(28, monthlyCount + 1))}
+                >
+                  <Ionicons name="add" size={20} color={Theme.colors.white} />
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+          {cadenceUnit === 'interval' && (
+            <View>
+              <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>
+                Check in once every {intervalDays} days, starting today
+              </Text>
+              <View style={[styles.numberInputContainer, { backgroundColor: colors.surface }]}>
+                <TouchableOpacity
+                  style={styles.numberButton}
+                  onPress={() => setIntervalDays(Math.max(2, intervalDays - 1))}
+                >
+                  <Ionicons name="remove" size={20} color={Theme.colors.white} />
+                </TouchableOpacity>
+                <Text style={[styles.numberValue, { color: colors.text }]}>{intervalDays}</Text>
+                <TouchableOpacity
+                  style={styles.numberButton}
+                  onPress={() => setIntervalDays(Math.min(30, intervalDays + 1))}
+                >
+                  <Ionicons name="add" size={20} color={Theme.colors.white} />
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
         </View>
 
+        {/* Schedule Section (deadline challenges pick their start date above) */}
+        {challengeType !== 'deadline' && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Schedule</Text>
+            <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>
+              Announce the challenge now and start it later
+            </Text>
+            <View style={styles.dateInput}>
+              <Text style={[styles.dateLabel, { color: colors.textSecondary }]}>Start Date</Text>
+              <TouchableOpacity
+                style={[styles.dateButton, { backgroundColor: colors.card }]}
+                onPress={() => setShowStartDatePicker(true)}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="calendar-outline" size={18} color={colors.accent} />
+                <Text style={[styles.dateButtonText, { color: startDate ? colors.text : colors.textSecondary }]}>
+                  {startDate ? startDate.toLocaleDateString() : 'Today'}
+                </Text>
+                {startDate && (
+                  <TouchableOpacity onPress={() => setStartDate(undefined)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                    <Ionicons name="close-circle" size={18} color={colors.textSecondary} />
+                  </TouchableOpacity>
+                )}
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity
+              style={styles.attachmentToggle}
+              onPress={() => setUseSeasons(!useSeasons)}
+            >
+              <Ionicons
+                name={useSeasons ? 'checkbox' : 'square-outline'}
+                size={24}
+                color={useSeasons ? Theme.colors.secondary : colors.textSecondary}
+              />
+              <Text style={[styles.attachmentToggleText, { color: colors.text }]}>Run in seasons</Text>
+            </TouchableOpacity>
+            {useSeasons && (
+              <View>
+                <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>
+                  Every {seasonWeeks} week{seasonWeeks === 1 ? '' : 's'} the challenge restarts with fresh strikes and streaks
+                </Text>
+                <View style={[styles.numberInputContainer, { backgroundColor: colors.surface }]}>
+                  <TouchableOpacity
+                    style={styles.numberButton}
+                    onPress={() => setSeasonWeeks(Math.max(1, seasonWeeks - 1))}
+                  >
+                    <Ionicons name="remove" size={20} color={Theme.colors.white} />
+                  </TouchableOpacity>
+                  <Text style={[styles.numberValue, { color: colors.text }]}>{seasonWeeks}</Text>
+                  <TouchableOpacity
+                    style={styles.numberButton}
+                    onPress={() => setSeasonWeeks(Math.min(52, seasonWeeks + 1))}
+                  >
+                    <Ionicons name="add" size={20} color={Theme.colors.white} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+          </View>
+        )}
+
         {/* Submission Type Section */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Submission Type</Text>
@@ -724,6 +1250,72 @@ export const CreateChallengeScreen: React.FC<CreateChallengeScreenProps> = ({ na
             />
             <Text style={[styles.attachmentToggleText, { color: colors.text }]}>Require photo proof</Text>
           </TouchableOpacity>
+          {requireAttachment && (
+            <View>
+              <TouchableOpacity
+                style={styles.attachmentToggle}
+                onPress={() => setLiveCaptureOnly(!liveCaptureOnly)}
+              >
+                <Ionicons
+                  name={liveCaptureOnly ? 'checkbox' : 'square-outline'}
+                  size={24}
+                  color={liveCaptureOnly ? Theme.colors.secondary : colors.textSecondary}
+                />
+                <Text style={[styles.attachmentToggleText, { color: colors.text }]}>Live photos only</Text>
+              </TouchableOpacity>
+              {liveCaptureOnly && (
+                <Text style={[styles.strikesHint, { color: colors.textSecondary }]}>
+                  Photos must be taken with the in-app camera at check-in. The gallery is disabled and each photo is stamped with its date and time.
+                </Text>
+              )}
+            </View>
+          )}
+          {!isSolo && (
+            <TouchableOpacity
+              style={styles.attachmentToggle}
+              onPress={() => setAllowDisputes(!allowDisputes)}
+            >
+              <Ionicons
+                name={allowDisputes ? 'checkbox' : 'square-outline'}
+                size={24}
+                color={allowDisputes ? Theme.colors.secondary : colors.textSecondary}
+              />
+              <Text style={[styles.attachmentToggleText, { color: colors.text }]}>Let members dispute check-ins</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.attachmentToggle}
+            onPress={() => setAllowPauses(!allowPauses)}
+          >
+            <Ionicons
+              name={allowPauses ? 'checkbox' : 'square-outline'}
+              size={24}
+              color={allowPauses ? Theme.colors.secondary : colors.textSecondary}
+            />
+            <Text style={[styles.attachmentToggleText, { color: colors.text }]}>Allow pauses (vacation mode)</Text>
+          </TouchableOpacity>
+          {allowPauses && (
+            <View>
+              <Text style={[styles.configSubtitle, { color: colors.textSecondary }]}>
+                Each member can pause for up to {maxPauseDays} day{maxPauseDays === 1 ? '' : 's'} in total
+              </Text>
+              <View style={[styles.numberInputContainer, { backgroundColor: colors.surface }]}>
+                <TouchableOpacity
+                  style={styles.numberButton}
+                  onPress={() => setMaxPauseDays(Math.max(1, maxPauseDays - 1))}
+                >
+                  <Ionicons name="remove" size={20} color={Theme.colors.white} />
+                </TouchableOpacity>
+                <Text style={[styles.numberValue, { color: colors.text }]}>{maxPauseDays}</Text>
+                <TouchableOpacity
+                  style={styles.numberButton}
+                  onPress={() => setMaxPauseDays(Math.min(30, maxPauseDays + 1))}
+                >
+                  <Ionicons name="add" size={20} color={Theme.colors.white} />
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
         </View>
 
         <View style={styles.section}>
@@ -1319,6 +1911,9 @@ const styles = StyleSheet.create({
   weekStartContainer: {
     marginTop: Theme.spacing.md,
   },
+  weekdayButton: {
+    paddingHorizontal: 0,
+  },
   submissionGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -234,7 +234,7 @@ export const CreateGroupScreen: React.FC<CreateGroupScreenProps> = ({ navigation
               text: 'Share Group Link',
               onPress: () => {
                 Share.share({
-                  message: buildGroupInviteMessage(challengeTitle, groupId),
+                  message: buildGroupInviteMessage(challengeTitle),
                   title: 'Invite to squad',
                 }).catch(() => {});
               }
@@ -251,7 +251,7 @@ export const CreateGroupScreen: React.FC<CreateGroupScreenProps> = ({ navigation
               text: 'Share Group Link',
               onPress: () => {
                 Share.share({
-                  message: buildGroupInviteMessage(challengeTitle, groupId),
+                  message: buildGroupInviteMessage(challengeTitle),
                   title: 'Invite to squad',
                 }).catch(() => {});
               }
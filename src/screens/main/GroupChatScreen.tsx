@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -10,9 +10,11 @@ import {
   Platform,
 } from 'react-native';
 import { LoadingSpinner } from '../../components/common/LoadingSpinner';
-import { GroupHeader, ChatTab, LeaderboardTab, SettingsTab } from '../../components/group';
+import { GroupHeader, ChatTab, LeaderboardTab, SettingsTab, ThreadModal } from '../../components/group';
 import { GroupService } from '../../services/groupService';
-import { MessageService, GroupChatMessage } from '../../services/messageService';
+import { MessageService, GroupChatMessage, ReportReason } from '../../services/messageService';
+import type { MessageAction } from '../../components/group/ChatMessage';
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
 import { ChallengeService } from '../../services/challengeService';
 import { Group, User, Challenge } from '../../types';
 import { Ionicons } from '@expo/vector-icons';
@@ -20,6 +22,8 @@ import { StackScreenProps } from '@react-navigation/stack';
 import { useColorMode } from '../../theme/ColorModeContext';
 import { useCurrentUser } from '../../contexts/UserContext';
 import { userCache } from '../../services/userCache';
+import { findMentions } from '../../utils/chat';
+import { canInGroup, getGroupOwnerId, getGroupRole, getNextGroupOwnerId } from '../../utils/groupRoles';
 
 type GroupChatScreenProps = StackScreenProps<any, 'GroupChat'>;
 
@@ -31,23 +35,87 @@ export const GroupChatScreen: React.FC<GroupChatScreenProps> = ({ navigation, ro
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'chat' | 'leaderboard' | 'settings'>('chat');
   const [messageText, setMessageText] = useState('');
-  const [messages, setMessages] = useState<GroupChatMessage[]>([]);
+  // Live tail (first page + new messages) and older pages loaded on scroll
+  const [tailMessages, setTailMessages] = useState<GroupChatMessage[]>([]);
+  const [olderMessages, setOlderMessages] = useState<GroupChatMessage[]>([]);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [unreadSince, setUnreadSince] = useState<Date | null>(null);
+  const [replyingTo, setReplyingTo] = useState<GroupChatMessage | null>(null);
+  const [threadRoot, setThreadRoot] = useState<GroupChatMessage | null>(null);
+  const [editingMessage, setEditingMessage] = useState<GroupChatMessage | null>(null);
+  const cursorRef = useRef<QueryDocumentSnapshot | null>(null);
+  const lastMarkedReadRef = useRef(0);
   const [groupMembers, setGroupMembers] = useState<User[]>([]);
   const [groupChallenges, setGroupChallenges] = useState<Challenge[]>([]);
 
   useEffect(() => {
     if (groupId) {
       loadData();
+    }
+  }, [groupId]);
 
-      // Set up real-time listener for messages
-      const unsubscribe = MessageService.subscribeToGroupMessages(groupId, (newMessages) => {
-        setMessages(newMessages);
-      });
+  // First page, then a live listener from its oldest message on
+  useEffect(() => {
+    if (!groupId) return;
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
 
-      return () => unsubscribe();
-    }
+    const start = async () => {
+      try {
+        if (user?.id) {
+          const lastReadAt = await MessageService.getLastReadAt(groupId, user.id);
+          if (!cancelled) setUnreadSince(lastReadAt);
+        }
+        const page = await MessageService.getGroupMessagesPage(groupId);
+        if (cancelled) return;
+        cursorRef.current = page.cursor;
+        setHasMoreMessages(page.hasMore);
+        setTailMessages(page.messages);
+        const since = page.messages.length > 0 ? page.messages[page.messages.length - 1].timestamp : null;
+        unsubscribe = MessageService.subscribeToGroupMessages(groupId, since, setTailMessages);
+      } catch (error) {
+        if (__DEV__) console.error('Error loading messages:', error);
+      }
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
   }, [groupId]);
 
+  // Keep the read marker up to date while the chat is open
+  useEffect(() => {
+    if (!groupId || !user?.id || tailMessages.length === 0) return;
+    const newest = tailMessages[0].timestamp.getTime();
+    if (newest > lastMarkedReadRef.current) {
+      lastMarkedReadRef.current = newest;
+      MessageService.markGroupRead(groupId, user.id);
+    }
+  }, [tailMessages, groupId, user?.id]);
+
+  const messages = useMemo(() => {
+    const seen = new Set(tailMessages.map(m => m.id));
+    return [...tailMessages, ...olderMessages.filter(m => !seen.has(m.id))];
+  }, [tailMessages, olderMessages]);
+
+  const handleLoadOlderMessages = async () => {
+    if (!groupId || !hasMoreMessages || loadingOlder || !cursorRef.current) return;
+    setLoadingOlder(true);
+    try {
+      const page = await MessageService.getGroupMessagesPage(groupId, cursorRef.current);
+      cursorRef.current = page.cursor;
+      setHasMoreMessages(page.hasMore);
+      setOlderMessages(prev => [...prev, ...page.messages]);
+    } catch (error) {
+      if (__DEV__) console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
   const loadData = async () => {
     try {
       setLoading(true);
@@ -64,7 +132,7 @@ export const GroupChatScreen: React.FC<GroupChatScreenProps> = ({ navigation, ro
         setGroupMembers(members);
         setGroupChallenges(challenges);
       }
-      // Messages are provided by the onSnapshot listener — no need for a separate fetch
+      // Messages are paged in separately (first page + onSnapshot tail)
     } catch (error) {
       if (__DEV__) console.error('Error loading group data:', error);
       Alert.alert('Error', 'Failed to load group data');
@@ -111,36 +179,146 @@ export const GroupChatScreen: React.FC<GroupChatScreenProps> = ({ navigation, ro
     }
   };
 
+  // Members other than the sender who are @mentioned in the text
+  const getMentions = (text: string) =>
+    findMentions(text, groupMembers.map(m => ({ id: m.id, displayName: m.displayName })))
+      .filter(id => id !== user?.id);
+
   const handleSendMessage = async () => {
     if (!messageText.trim() || !user || !groupId) return;
 
     try {
-      await MessageService.sendTextMessage(groupId, user.id, user.displayName, messageText.trim());
+      const text = messageText.trim();
+      if (editingMessage) {
+        if (text !== editingMessage.text) {
+          await MessageService.editMessage(editingMessage, text, getMentions(text));
+        }
+        setEditingMessage(null);
+        setMessageText('');
+        return;
+      }
+      await MessageService.sendTextMessage(groupId, user.id, user.displayName, text, {
+        replyTo: replyingTo || undefined,
+        mentions: getMentions(text),
+      });
       setMessageText('');
+      setReplyingTo(null);
     } catch (error) {
       if (__DEV__) console.error('Error sending message:', error);
       Alert.alert('Error', 'Failed to send message. Please try again.');
     }
   };
 
-  const handleUpvote = async (messageId: string) => {
+  const handleSendThreadReply = async (rootMessage: GroupChatMessage, text: string) => {
+    if (!user || !groupId) return;
+    try {
+      await MessageService.sendTextMessage(groupId, user.id, user.displayName, text, {
+        replyTo: rootMessage,
+        mentions: getMentions(text),
+      });
+    } catch (error) {
+      if (__DEV__) console.error('Error sending reply:', error);
+      Alert.alert('Error', 'Failed to send reply. Please try again.');
+    }
+  };
+
+  const handleReact = async (message: GroupChatMessage, emoji: string) => {
     if (!user?.id) return;
-    const msg = messages.find(m => m.id === messageId);
-    if (!msg) return;
     try {
-      await MessageService.toggleUpvote(messageId, user.id, msg.userId);
+      await MessageService.toggleReaction(message.id, user.id, emoji);
     } catch (e) {
-      if (__DEV__) console.error('Upvote error:', e);
+      if (__DEV__) console.error('Reaction error:', e);
     }
   };
 
-  const handleDownvote = async (messageId: string, _reason: string) => {
-    if (!user?.id) return;
+  const handleStartEdit = (message: GroupChatMessage) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setMessageText(message.text || '');
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessage(null);
+    setMessageText('');
+  };
+
+  const handleDeleteMessage = (message: GroupChatMessage) => {
+    const isOwnMessage = message.userId === user?.id;
+    Alert.alert(
+      isOwnMessage ? 'Delete Message' : 'Remove Message',
+      isOwnMessage
+        ? 'Delete this message for everyone?'
+        : `Remove ${message.userName}'s message from the group?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: isOwnMessage ? 'Delete' : 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await MessageService.deleteMessage(message.id);
+              setOlderMessages(prev => prev.filter(m => m.id !== message.id));
+            } catch (e) {
+              Alert.alert('Error', 'Failed to delete message');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleToggleMute = async (message: GroupChatMessage) => {
+    if (!group) return;
+    const muted = !(group.mutedUserIds || []).includes(message.userId);
     try {
-      await MessageService.toggleDownvote(messageId, user.id);
+      await GroupService.setMemberMuted(group.id, message.userId, muted);
+      setGroup({
+        ...group,
+        mutedUserIds: muted
+          ? [...(group.mutedUserIds || []), message.userId]
+          : (group.mutedUserIds || []).filter(id => id !== message.userId),
+      });
     } catch (e) {
-      if (__DEV__) console.error('Downvote error:', e);
+      Alert.alert('Error', `Failed to ${muted ? 'mute' : 'unmute'} ${message.userName}`);
+    }
+  };
+
+  const handleReport = (message: GroupChatMessage) => {
+    if (!user?.id || !groupId) return;
+    const submit = async (reason: ReportReason) => {
+      try {
+        await MessageService.reportMessage(message, groupId, user.id, reason);
+        Alert.alert('Reported', 'Thanks. The message was sent for review.');
+      } catch (e) {
+        Alert.alert('Error', 'Failed to report message');
+      }
+    };
+    Alert.alert('Report Message', 'Why are you reporting this message?', [
+      { text: 'Spam', onPress: () => submit('spam') },
+      { text: 'Abusive', onPress: () => submit('abuse') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const isAdmin = canInGroup(group, user?.id, 'removeMembers');
+
+  const getMessageActions = (message: GroupChatMessage): MessageAction[] => {
+    const isOwnMessage = message.userId === user?.id;
+    const actions: MessageAction[] = [];
+    if (isOwnMessage && message.type === 'text') {
+      actions.push({ label: 'Edit', icon: 'create-outline', onPress: handleStartEdit });
+    }
+    if (isOwnMessage || isAdmin) {
+      actions.push({ label: isOwnMessage ? 'Delete' : 'Remove', icon: 'trash-outline', destructive: true, onPress: handleDeleteMessage });
+    }
+    if (!isOwnMessage && canInGroup(group, user?.id, 'muteMembers') && getGroupRole(group, message.userId) === 'member') {
+      const muted = (group?.mutedUserIds || []).includes(message.userId);
+      actions.push({ label: muted ? `Unmute ${message.userName}` : `Mute ${message.userName}`, icon: muted ? 'volume-high-outline' : 'volume-mute-outline', onPress: handleToggleMute });
+    }
+    if (!isOwnMessage && groupMembers.some(m => m.id === message.userId)) {
+      actions.push({ label: 'Report', icon: 'flag-outline', destructive: true, onPress: handleReport });
     }
+    return actions;
   };
 
   const handleAIJudge = async (messageId: string) => {
@@ -156,9 +334,13 @@ export const GroupChatScreen: React.FC<GroupChatScreenProps> = ({ navigation, ro
 
   const handleLeaveGroup = () => {
     if (!group || !user?.id) return;
+    const nextOwnerId = getGroupOwnerId(group) === user.id ? getNextGroupOwnerId(group) : undefined;
+    const nextOwnerName = groupMembers.find(m => m.id === nextOwnerId)?.displayName;
     Alert.alert(
       'Leave Group',
-      'Are you sure you want to leave this group? You will be removed from all active challenges in this group.',
+      nextOwnerName
+        ? `Are you sure you want to leave this group? ${nextOwnerName} will become the owner. You will be removed from all active challenges in this group.`
+        : 'Are you sure you want to leave this group? You will be removed from all active challenges in this group.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -166,7 +348,7 @@ export const GroupChatScreen: React.FC<GroupChatScreenProps> = ({ navigation, ro
           style: 'destructive',
           onPress: async () => {
             try {
-              await GroupService.removeMember(group.id, user.id);
+              await GroupService.leaveGroup(group, user.id, nextOwnerId);
               navigation.goBack();
             } catch (e: any) {
               Alert.alert('Error', e?.message || 'Failed to leave group');
@@ -177,6 +359,102 @@ export const GroupChatScreen: React.FC<GroupChatScreenProps> = ({ navigation, ro
     );
   };
 
+  const handleRenameGroup = async (name: string) => {
+    if (!group) return;
+    try {
+      await GroupService.updateGroup(group.id, { name });
+      setGroup({ ...group, name });
+    } catch (e) {
+      Alert.alert('Error', 'Failed to rename group');
+    }
+  };
+
+  const handleRemoveMember = (member: User) => {
+    if (!group) return;
+    Alert.alert(
+      'Remove Member',
+      `Remove ${member.displayName} from ${group.name}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await GroupService.removeMember(group.id, member.id);
+              setGroup({
+                ...group,
+                memberIds: group.memberIds.filter(id => id !== member.id),
+                adminIds: (group.adminIds || []).filter(id => id !== member.id),
+              });
+              setGroupMembers(prev => prev.filter(m => m.id !== member.id));
+            } catch (e) {
+              Alert.alert('Error', `Failed to remove ${member.displayName}`);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleSetMemberAdmin = async (member: User, admin: boolean) => {
+    if (!group) return;
+    try {
+      await GroupService.setMemberAdmin(group.id, member.id, admin);
+      const adminIds = (group.adminIds || []).filter(id => id !== member.id);
+      setGroup({ ...group, adminIds: admin ? [...adminIds, member.id] : adminIds });
+    } catch (e) {
+      Alert.alert('Error', `Failed to update ${member.displayName}'s role`);
+    }
+  };
+
+  const handleTransferOwnership = (member: User) => {
+    if (!group || !user?.id) return;
+    Alert.alert(
+      'Transfer Ownership',
+      `Make ${member.displayName} the owner of ${group.name}? You will stay on as an admin.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Transfer',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await GroupService.transferOwnership(group, member.id);
+              const adminIds = (group.adminIds || []).filter(id => id !== member.id && id !== user.id);
+              setGroup({ ...group, ownerId: member.id, adminIds: [...adminIds, user.id] });
+            } catch (e) {
+              Alert.alert('Error', 'Failed to transfer ownership');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleDeleteGroup = () => {
+    if (!group) return;
+    Alert.alert(
+      'Delete Group',
+      `Delete ${group.name} for everyone? This can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await GroupService.deleteGroup(group.id);
+              navigation.goBack();
+            } catch (e) {
+              Alert.alert('Error', 'Failed to delete group');
+            }
+          },
+        },
+      ],
+    );
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
@@ -205,10 +483,21 @@ export const GroupChatScreen: React.FC<GroupChatScreenProps> = ({ navigation, ro
             messageText={messageText}
             onMessageTextChange={setMessageText}
             onSendMessage={handleSendMessage}
-            onUpvote={handleUpvote}
-            onDownvote={handleDownvote}
+            onReact={handleReact}
             onAIJudge={handleAIJudge}
+            onReply={setReplyingTo}
+            onOpenThread={setThreadRoot}
+            replyingTo={replyingTo}
+            onCancelReply={() => setReplyingTo(null)}
+            editingMessage={editingMessage}
+            onCancelEdit={handleCancelEdit}
+            getMessageActions={getMessageActions}
+            muted={!!user?.id && (group.mutedUserIds || []).includes(user.id)}
+            members={groupMembers}
             currentUserId={user?.id}
+            unreadSince={unreadSince}
+            onLoadOlder={handleLoadOlderMessages}
+            loadingOlder={loadingOlder}
           />
         );
       case 'leaderboard':
@@ -220,6 +509,8 @@ export const GroupChatScreen: React.FC<GroupChatScreenProps> = ({ navigation, ro
             members={groupMembers}
             groupMembers={groupMembers}
             challenges={groupChallenges}
+            group={group}
+            currentUserId={user?.id}
             onChallengePress={handleChallengePress}
             onInvitePress={() =>
               navigation.navigate('InviteToGroup', {
@@ -228,6 +519,11 @@ export const GroupChatScreen: React.FC<GroupChatScreenProps> = ({ navigation, ro
               })
             }
             onLeaveGroup={handleLeaveGroup}
+            onRenameGroup={handleRenameGroup}
+            onRemoveMember={handleRemoveMember}
+            onSetMemberAdmin={handleSetMemberAdmin}
+            onTransferOwnership={handleTransferOwnership}
+            onDeleteGroup={handleDeleteGroup}
           />
         );
     }
@@ -249,6 +545,17 @@ export const GroupChatScreen: React.FC<GroupChatScreenProps> = ({ navigation, ro
         {renderTabContent()}
       </KeyboardAvoidingView>
 
+      <ThreadModal
+        rootMessage={threadRoot ? messages.find(m => m.id === threadRoot.id) || threadRoot : null}
+        groupId={groupId}
+        currentUserId={user?.id}
+        memberNames={groupMembers.map(m => m.displayName).filter(Boolean)}
+        onClose={() => setThreadRoot(null)}
+        onReact={handleReact}
+        onAIJudge={handleAIJudge}
+        onSendReply={handleSendThreadReply}
+      />
+
     </SafeAreaView>
   );
 };
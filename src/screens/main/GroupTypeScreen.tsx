@@ -13,7 +13,7 @@ import { Theme } from '../../constants/theme';
 import { useNavigation } from '@react-navigation/native';
 import { useColorMode } from '../../theme/ColorModeContext';
 
-type GroupType = 'elimination' | 'deadline' | 'progress';
+type GroupType = 'elimination' | 'deadline' | 'progress' | 'team';
 
 export const GroupTypeScreen: React.FC = ({ route }: any) => {
   const { colors } = useColorMode();
@@ -122,6 +122,35 @@ export const GroupTypeScreen: React.FC = ({ route }: any) => {
           A challenge where the requirements increase at regular intervals
         </Text>
       </TouchableOpacity>
+
+      {!isSolo && (
+        <TouchableOpacity
+          style={[
+            styles.typeOption,
+            { backgroundColor: colors.surface },
+            selectedType === 'team' && [styles.selectedTypeOption, { backgroundColor: colors.surface }]
+          ]}
+          onPress={() => handleTypeSelect('team')}
+        >
+          <View style={styles.typeHeader}>
+            <Ionicons
+              name="people"
+              size={32}
+              color={selectedType === 'team' ? colors.accent : colors.textSecondary}
+            />
+            <Text style={[
+              styles.typeTitle,
+              { color: colors.textSecondary },
+              selectedType === 'team' && { color: colors.accent }
+            ]}>
+              Team
+            </Text>
+          </View>
+          <Text style={[styles.typeSubtitle, { color: colors.textSecondary }]}>
+            Split the group into teams that compete to complete the most periods together
+          </Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 
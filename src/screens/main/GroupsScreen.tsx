@@ -13,6 +13,7 @@ import { Theme } from '../../constants/theme';
 import { Ionicons } from '@expo/vector-icons';
 import { GroupService } from '../../services/groupService';
 import { ChallengeService } from '../../services/challengeService';
+import { MessageService } from '../../services/messageService';
 import { Avatar } from '../../components/common/Avatar';
 import { LoadingSpinner } from '../../components/common/LoadingSpinner';
 import { Group, User } from '../../types';
@@ -34,6 +35,7 @@ export const GroupsScreen: React.FC<GroupsScreenProps> = ({ navigation }) => {
   const [groupMembers, setGroupMembers] = useState<Record<string, User[]>>({});
   const [groupsCache, setGroupsCache] = useState<Group[] | null>(null);
   const [challengeCountByGroupId, setChallengeCountByGroupId] = useState<Record<string, number>>({});
+  const [unreadCountByGroupId, setUnreadCountByGroupId] = useState<Record<string, number>>({});
 
   // Prefetch groups and members on app load
   useEffect(() => {
@@ -52,6 +54,8 @@ export const GroupsScreen: React.FC<GroupsScreenProps> = ({ navigation }) => {
           setInitialLoad(false);
           // Ensure challenge counts are loaded (in case we had cache but counts weren't set yet)
           loadChallengeCounts(groupsCache);
+          // Unread counts change whenever a chat is read, so refresh them on every focus
+          loadUnreadCounts(groupsCache);
         } else {
           loadGroups();
         }
@@ -77,6 +81,17 @@ export const GroupsScreen: React.FC<GroupsScreenProps> = ({ navigation }) => {
     setChallengeCountByGroupId((prev) => ({ ...prev, ...counts }));
   };
 
+  const loadUnreadCounts = async (groupList: Group[]) => {
+    if (!user || groupList.length === 0) return;
+    const counts: Record<string, number> = {};
+    await Promise.all(
+      groupList.map(async (g) => {
+        counts[g.id] = await MessageService.getUnreadCount(g.id, user.id);
+      })
+    );
+    setUnreadCountByGroupId((prev) => ({ ...prev, ...counts }));
+  };
+
   const prefetchGroups = async () => {
     if (!user) return;
 
@@ -86,6 +101,7 @@ export const GroupsScreen: React.FC<GroupsScreenProps> = ({ navigation }) => {
       await Promise.all([
         loadGroupMembers(userGroups),
         loadChallengeCounts(userGroups),
+        loadUnreadCounts(userGroups),
       ]);
 
       setGroupsCache(userGroups);
@@ -115,6 +131,7 @@ export const GroupsScreen: React.FC<GroupsScreenProps> = ({ navigation }) => {
       await Promise.all([
         loadGroupMembers(userGroups),
         loadChallengeCounts(userGroups),
+        loadUnreadCounts(userGroups),
       ]);
     } catch (error) {
       if (__DEV__) console.error('❌ Error loading groups:', error);
@@ -159,6 +176,7 @@ export const GroupsScreen: React.FC<GroupsScreenProps> = ({ navigation }) => {
         group={item}
         members={membersWithCurrentUser}
         challengeCount={challengeCount}
+        unreadCount={unreadCountByGroupId[item.id] ?? 0}
         onPress={() => navigation.navigate('GroupChat', { groupId: item.id })}
       />
     );
@@ -168,6 +186,18 @@ export const GroupsScreen: React.FC<GroupsScreenProps> = ({ navigation }) => {
     return <LoadingSpinner text="Loading groups..." />;
   }
 
+  // Invite codes from a shared link or message (JoinGroup screen)
+  const renderJoinWithCode = () => (
+    <TouchableOpacity
+      style={styles.joinRow}
+      onPress={() => navigation.navigate('JoinGroup')}
+      activeOpacity={0.7}
+    >
+      <Ionicons name="key-outline" size={16} color={colors.accent} />
+      <Text style={[styles.joinText, { color: colors.accent }]}>Join with a code</Text>
+    </TouchableOpacity>
+  );
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
       {groups.length === 0 ? (
@@ -175,12 +205,14 @@ export const GroupsScreen: React.FC<GroupsScreenProps> = ({ navigation }) => {
           <Ionicons name="people-outline" size={48} color={colors.accent} />
           <Text style={[styles.emptyTitle, { color: colors.text }]}>No Groups Yet</Text>
           <Text style={[styles.emptySubtitle, { color: colors.textSecondary }]}>Create your first accountability group to get started!</Text>
+          {renderJoinWithCode()}
         </View>
       ) : (
         <FlatList
           data={groups}
           renderItem={renderGroup}
           keyExtractor={(item) => item.id}
+          ListHeaderComponent={renderJoinWithCode()}
           contentContainerStyle={[styles.groupsList, styles.listContent]}
           showsVerticalScrollIndicator={false}
         />
@@ -317,6 +349,20 @@ const styles = StyleSheet.create({
     marginBottom: Theme.spacing.xl,
     lineHeight: 20,
   },
+  joinRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    marginBottom: 6,
+  },
+
+  joinText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+
   fabContainer: {
     position: 'absolute',
     bottom: Theme.layout.fabBottomOffsetSocial,
@@ -20,6 +20,7 @@ import { LoadingSpinner } from '../../components/common/LoadingSpinner';
 import { ChallengeCarouselCard } from '../../components/challenge/ChallengeCarouselCard';
 import { TiltCarousel } from '../../components/carousel';
 import { NotificationsModal } from '../../components/common/NotificationsModal';
+import { PendingCheckIns } from '../../components/common/PendingCheckIns';
 import { FriendshipService } from '../../services/friendshipService';
 import { Theme } from '../../constants/theme';
 import { GroupService } from '../../services/groupService';
@@ -46,7 +47,10 @@ import {
   resolveAdminTimeZone,
   getAdminZoneDayKey,
   getCurrentPeriodDayKey,
-  getCurrentPeriodWeekKey,
+  getAdminZonePeriodKey,
+  getCheckInPeriodKey,
+  isActivePeriodKey,
+  hasChallengeStarted,
   computeDueMomentUtcForDay,
   computeDeadlineMomentUtc,
 } from '../../utils/dueTime';
@@ -508,15 +512,15 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   };
 
   const isChallengeCompleted = (challenge: Challenge): boolean => {
-    // Check if challenge is completed today/this week
+    // Check if challenge is completed for the current period
     if (!challengeDetailsCache[challenge.id]) return false;
     const details = challengeDetailsCache[challenge.id];
     const myCompletedCount = details.checkInsForCurrentPeriod?.filter(
       (ci: any) => ci.userId === user?.id && ci.status === 'completed'
     ).length || 0;
     if (myCompletedCount === 0) return false;
-    // Weekly challenges require requiredCount check-ins to be "done"
-    if (challenge.cadence?.unit === 'weekly') {
+    // Weekly, monthly and interval challenges require requiredCount check-ins to be "done"
+    if (challenge.cadence && challenge.cadence.unit !== 'daily') {
       const required = challenge.cadence.requiredCount || 1;
       return myCompletedCount >= required;
     }
@@ -573,10 +577,10 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     const isDeadline = challengeForDue.type === 'deadline';
     const submissionPeriodKey = isDaily
       ? (isDeadline ? getAdminZoneDayKey(adminTz) : getCurrentPeriodDayKey(adminTz, dueTimeLocal))
-      : getCurrentPeriodWeekKey(adminTz, challengeForDue.cadence?.weekStartsOn ?? 0);
+      : getAdminZonePeriodKey(adminTz, { weekStartsOn: 0, ...challengeForDue.cadence });
     const myPeriodCheckIns = details?.allRecentCheckIns?.filter(
       (ci: any) => ci.userId === user?.id && ci.status === 'completed' &&
-        (isDaily ? ci.period?.dayKey === submissionPeriodKey : ci.period?.weekKey === submissionPeriodKey)
+        getCheckInPeriodKey(ci.period) === submissionPeriodKey
     ) || [];
     const requiredCount = isDaily ? 1 : (challengeForDue.cadence?.requiredCount || 1);
     if (myPeriodCheckIns.length >= requiredCount) {
@@ -597,6 +601,9 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       return 'In progress';
     }
     const now = new Date();
+    if (!hasChallengeStarted(challenge, now)) {
+      return `Starts ${dateKeys.formatDate(challenge.startsAt!)}`;
+    }
     if (challenge.type === 'deadline' && challenge.due.deadlineDate) {
       const deadlineTz = resolveAdminTimeZone(challenge);
       const deadlineDueTime = challenge.due.dueTimeLocal || '23:59';
@@ -629,6 +636,7 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       const dueTimeLocal2 = challenge.due?.dueTimeLocal || '23:59';
       const tz = resolveAdminTimeZone(challenge);
       const dayKey = getCurrentPeriodDayKey(tz, dueTimeLocal2);
+      if (!isActivePeriodKey(dayKey, challenge.cadence)) return 'Rest day';
       const dueMomentUtc = computeDueMomentUtcForDay(tz, dayKey, dueTimeLocal2);
       const diffMs = dueMomentUtc.getTime() - Date.now();
       if (diffMs <= 0) return 'Due now';
@@ -638,12 +646,15 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       return `Due in ${timeRemaining}`;
     }
     
-    if (challenge.cadence.unit === 'weekly' && challenge.cadence.requiredCount) {
+    if (challenge.cadence.requiredCount) {
       const details = challengeDetailsCache[challenge.id];
       const completedCount = details?.checkInsForCurrentPeriod?.filter(
         (ci: any) => ci.userId === user?.id && ci.status === 'completed'
       ).length || 0;
-      return `${completedCount}/${challenge.cadence.requiredCount} done this week`;
+      const periodLabel = challenge.cadence.unit === 'monthly'
+        ? 'this month'
+        : challenge.cadence.unit === 'interval' ? 'this period' : 'this week';
+      return `${completedCount}/${challenge.cadence.requiredCount} done ${periodLabel}`;
     }
     
     return 'In progress';
@@ -780,6 +791,11 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
             />
           }
         >
+          {/* Check-ins saved offline, waiting to sync */}
+          {user && (
+            <PendingCheckIns userId={user.id} onSynced={() => loadGroups({ showLoading: false })} />
+          )}
+
           {/* To Do Section - always open, curved separator with dip + arrow */}
           {(() => {
             const incompleteChallenges = challenges.filter(c => !isChallengeEnded(c) && !isChallengeCompleted(c) && !isDeadlinePassed(c));
@@ -8,6 +8,7 @@ import {
   FlatList,
   Alert,
   Share,
+  Switch,
 } from 'react-native';
 import { CircleLoader } from '../../components/common/CircleLoader';
 import { StackScreenProps } from '@react-navigation/stack';
@@ -16,8 +17,13 @@ import { Avatar } from '../../components/common/Avatar';
 import { AuthService } from '../../services/authService';
 import { GroupService } from '../../services/groupService';
 import { FriendshipService } from '../../services/friendshipService';
-import { User } from '../../types';
+import { userCache } from '../../services/userCache';
+import { GroupInviteCode, GroupJoinRequest, User } from '../../types';
 import { buildGroupInviteMessage } from '../../constants/appLinks';
+import { DEFAULT_INVITE_CODE_EXPIRY_DAYS, INVITE_CODE_EXPIRY_DAYS } from '../../utils/groupInvites';
+
+const formatExpiry = (date: Date): string =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 
 type Props = StackScreenProps<{ InviteToGroup: { groupId: string; groupName?: string } }, 'InviteToGroup'>;
 
@@ -28,6 +34,12 @@ export const InviteToGroupScreen: React.FC<Props> = ({ navigation, route }) => {
   const [friends, setFriends] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [invitingId, setInvitingId] = useState<string | null>(null);
+  const [inviteCodes, setInviteCodes] = useState<GroupInviteCode[]>([]);
+  const [joinRequests, setJoinRequests] = useState<(GroupJoinRequest & { user?: User })[]>([]);
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [expiryDays, setExpiryDays] = useState<number>(DEFAULT_INVITE_CODE_EXPIRY_DAYS);
+  const [creatingLink, setCreatingLink] = useState(false);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
 
   useEffect(() => {
     if (groupId && user) load();
@@ -37,11 +49,16 @@ export const InviteToGroupScreen: React.FC<Props> = ({ navigation, route }) => {
     if (!groupId) return;
     try {
       setLoading(true);
-      const [groupData, friendsList] = await Promise.all([
+      const [groupData, friendsList, codes, requests] = await Promise.all([
         GroupService.getGroup(groupId),
         user ? FriendshipService.getUserFriends(user.id) : Promise.resolve([]),
+        GroupService.getActiveInviteCodes(groupId),
+        GroupService.getPendingJoinRequests(groupId),
       ]);
       setGroup(groupData);
+      setInviteCodes(codes);
+      const requesters = await userCache.getUsers(requests.map((r) => r.userId));
+      setJoinRequests(requests.map((r) => ({ ...r, user: requesters.get(r.userId) })));
       const memberIds = groupData?.memberIds || [];
       const notMembers = (friendsList || []).filter((f) => f?.id && !memberIds.includes(f.id));
       setFriends(notMembers);
@@ -75,10 +92,10 @@ export const InviteToGroupScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
-  const handleShare = async () => {
+  const shareInviteCode = async (code: string) => {
     try {
       await Share.share({
-        message: buildGroupInviteMessage(groupName || 'Squad', groupId),
+        message: buildGroupInviteMessage(groupName || 'Squad', code),
         title: 'Invite to squad',
       });
     } catch (e) {
@@ -86,6 +103,54 @@ export const InviteToGroupScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
+  const handleCreateLink = async () => {
+    if (!groupId || !user) return;
+    try {
+      setCreatingLink(true);
+      const { code, expiresAt } = await GroupService.createInviteCode(groupId, expiryDays, requireApproval);
+      setInviteCodes((prev) => [
+        { code, groupId, createdBy: user.id, createdAt: new Date(), expiresAt, requiresApproval: requireApproval, revoked: false, useCount: 0 },
+        ...prev,
+      ]);
+      await shareInviteCode(code);
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Could not create an invite link.');
+    } finally {
+      setCreatingLink(false);
+    }
+  };
+
+  const handleRevokeLink = (invite: GroupInviteCode) => {
+    Alert.alert('Turn Off Link', `Links with code ${invite.code} will stop working.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Turn Off',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await GroupService.revokeInviteCode(invite.code);
+            setInviteCodes((prev) => prev.filter((c) => c.code !== invite.code));
+          } catch (e: any) {
+            Alert.alert('Error', e?.message || 'Could not turn off the link.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleRespond = async (request: GroupJoinRequest, approve: boolean) => {
+    if (!groupId) return;
+    try {
+      setRespondingId(request.id);
+      await GroupService.respondToJoinRequest(groupId, request.userId, approve);
+      setJoinRequests((prev) => prev.filter((r) => r.id !== request.id));
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Could not answer the request.');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
   if (!groupId) {
     return (
       <SafeAreaView style={styles.container}>
@@ -104,41 +169,129 @@ export const InviteToGroupScreen: React.FC<Props> = ({ navigation, route }) => {
         <View style={styles.placeholder} />
       </View>
 
-      <TouchableOpacity style={styles.shareRow} onPress={handleShare}>
-        <Ionicons name="share-social" size={22} color="#FF6B35" />
-        <Text style={styles.shareText}>Share squad link</Text>
-        <Ionicons name="chevron-forward" size={20} color="#999" />
-      </TouchableOpacity>
-
-      <Text style={styles.sectionLabel}>Invite friends</Text>
-      {loading ? (
-        <CircleLoader dotColor="#FF6B35" size="large" style={styles.loader} />
-      ) : friends.length === 0 ? (
-        <Text style={styles.empty}>No friends to invite, or they’re already in the squad.</Text>
-      ) : (
-        <FlatList
-          data={friends}
-          keyExtractor={(item) => item.id}
-          contentContainerStyle={styles.list}
-          renderItem={({ item }) => (
-            <View style={styles.row}>
-              <Avatar source={item.photoURL} initials={item.displayName?.charAt(0) || '?'} size="sm" />
-              <Text style={styles.name}>{item.displayName}</Text>
-              <TouchableOpacity
-                style={[styles.inviteBtn, invitingId === item.id && styles.inviteBtnDisabled]}
-                onPress={() => handleInvite(item.id)}
-                disabled={!!invitingId}
-              >
-                {invitingId === item.id ? (
-                  <CircleLoader dotColor="#FFF" size="small" />
+      <FlatList
+        data={loading ? [] : friends}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        ListHeaderComponent={
+          <>
+            <Text style={styles.sectionLabel}>Invite link</Text>
+            <View style={styles.card}>
+              <View style={styles.optionRow}>
+                <Text style={styles.optionText}>Require approval</Text>
+                <Switch
+                  value={requireApproval}
+                  onValueChange={setRequireApproval}
+                  trackColor={{ true: '#FF6B35' }}
+                />
+              </View>
+              <View style={styles.optionRow}>
+                <Text style={styles.optionText}>Expires after</Text>
+                <View style={styles.chips}>
+                  {INVITE_CODE_EXPIRY_DAYS.map((days) => (
+                    <TouchableOpacity
+                      key={days}
+                      style={[styles.chip, expiryDays === days && styles.chipActive]}
+                      onPress={() => setExpiryDays(days)}
+                    >
+                      <Text style={[styles.chipText, expiryDays === days && styles.chipTextActive]}>
+                        {days === 1 ? '1 day' : `${days} days`}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+              <TouchableOpacity style={styles.shareRow} onPress={handleCreateLink} disabled={creatingLink}>
+                <Ionicons name="share-social" size={22} color="#FF6B35" />
+                <Text style={styles.shareText}>Create & share squad link</Text>
+                {creatingLink ? (
+                  <CircleLoader dotColor="#FF6B35" size="small" />
                 ) : (
-                  <Text style={styles.inviteBtnText}>Invite</Text>
+                  <Ionicons name="chevron-forward" size={20} color="#999" />
                 )}
               </TouchableOpacity>
             </View>
-          )}
-        />
-      )}
+
+            {inviteCodes.map((invite) => (
+              <View key={invite.code} style={styles.row}>
+                <View style={styles.codeInfo}>
+                  <Text style={styles.codeText}>{invite.code}</Text>
+                  <Text style={styles.codeMeta}>
+                    Expires {formatExpiry(invite.expiresAt)} · {invite.useCount} joined
+                    {invite.requiresApproval ? ' · Approval' : ''}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => shareInviteCode(invite.code)} style={styles.iconBtn}>
+                  <Ionicons name="share-outline" size={20} color="#FF6B35" />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleRevokeLink(invite)} style={styles.iconBtn}>
+                  <Ionicons name="close-circle-outline" size={22} color="#E53935" />
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            {joinRequests.length > 0 && (
+              <>
+                <Text style={styles.sectionLabel}>Join requests</Text>
+                {joinRequests.map((request) => (
+                  <View key={request.id} style={styles.row}>
+                    <Avatar
+                      source={request.user?.photoURL}
+                      initials={request.user?.displayName?.charAt(0) || '?'}
+                      size="sm"
+                    />
+                    <Text style={styles.name}>{request.user?.displayName || 'Someone'}</Text>
+                    <TouchableOpacity
+                      onPress={() => handleRespond(request, false)}
+                      disabled={!!respondingId}
+                      style={styles.iconBtn}
+                    >
+                      <Text style={styles.declineText}>Decline</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.inviteBtn, respondingId === request.id && styles.inviteBtnDisabled]}
+                      onPress={() => handleRespond(request, true)}
+                      disabled={!!respondingId}
+                    >
+                      {respondingId === request.id ? (
+                        <CircleLoader dotColor="#FFF" size="small" />
+                      ) : (
+                        <Text style={styles.inviteBtnText}>Approve</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </>
+            )}
+
+            <Text style={styles.sectionLabel}>Invite friends</Text>
+          </>
+        }
+        ListEmptyComponent={
+          loading ? (
+            <CircleLoader dotColor="#FF6B35" size="large" style={styles.loader} />
+          ) : (
+            <Text style={styles.empty}>No friends to invite, or they’re already in the squad.</Text>
+          )
+        }
+        renderItem={({ item }) => (
+          <View style={styles.row}>
+            <Avatar source={item.photoURL} initials={item.displayName?.charAt(0) || '?'} size="sm" />
+            <Text style={styles.name}>{item.displayName}</Text>
+            <TouchableOpacity
+              style={[styles.inviteBtn, invitingId === item.id && styles.inviteBtnDisabled]}
+              onPress={() => handleInvite(item.id)}
+              disabled={!!invitingId}
+            >
+              {invitingId === item.id ? (
+                <CircleLoader dotColor="#FFF" size="small" />
+              ) : (
+                <Text style={styles.inviteBtnText}>Invite</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      />
     </SafeAreaView>
   );
 };
@@ -172,14 +325,46 @@ const styles = StyleSheet.create({
     textAlign: 'center',
   },
   placeholder: { width: 48 },
+  card: {
+    backgroundColor: '#FFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5E5',
+  },
+  optionText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    backgroundColor: '#F1F0ED',
+  },
+  chipActive: { backgroundColor: '#FF6B35' },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+  },
+  chipTextActive: { color: '#FFF' },
   shareRow: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#FFF',
-    marginHorizontal: 16,
-    marginTop: 16,
-    padding: 16,
-    borderRadius: 12,
+    paddingVertical: 16,
     gap: 12,
   },
   shareText: {
@@ -192,11 +377,28 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
     color: '#666',
-    marginHorizontal: 16,
     marginTop: 24,
     marginBottom: 8,
   },
   list: { paddingHorizontal: 16, paddingBottom: 24 },
+  codeInfo: { flex: 1 },
+  codeText: {
+    fontSize: 16,
+    fontWeight: '700',
+    letterSpacing: 1,
+    color: '#333',
+  },
+  codeMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  iconBtn: { padding: 4 },
+  declineText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
   row: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -229,8 +431,8 @@ const styles = StyleSheet.create({
     fontSize: 15,
     color: '#666',
     textAlign: 'center',
-    marginHorizontal: 24,
-    marginTop: 24,
+    marginHorizontal: 8,
+    marginTop: 16,
   },
   errorText: {
     fontSize: 16,
@@ -0,0 +1,308 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { CircleLoader } from '../../components/common/CircleLoader';
+import { StackScreenProps } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+import { Avatar } from '../../components/common/Avatar';
+import { GroupService } from '../../services/groupService';
+import { useCurrentUser } from '../../contexts/UserContext';
+import { GroupInvitePreview } from '../../types';
+import { parseGroupJoinCode } from '../../utils/groupInvites';
+import { RootStackParamList } from '../../navigation/AppNavigator';
+
+type Props = StackScreenProps<RootStackParamList, 'JoinGroup'>;
+
+const formatExpiry = (ms: number): string =>
+  new Date(ms).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+/**
+ * Opened from a `squadcheck://join/<code>` link, or from Groups to type a
+ * code in. Shows the group before joining; codes that need approval send a
+ * join request instead.
+ */
+export const JoinGroupScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { user } = useCurrentUser();
+  const linkCode = route.params?.code;
+  const [codeText, setCodeText] = useState(linkCode || '');
+  const [preview, setPreview] = useState<GroupInvitePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [joining, setJoining] = useState(false);
+
+  useEffect(() => {
+    if (linkCode) loadPreview(linkCode);
+  }, [linkCode]);
+
+  const loadPreview = async (text: string) => {
+    const code = parseGroupJoinCode(text);
+    if (!code) {
+      setPreview(null);
+      setError('That doesn’t look like an invite code.');
+      return;
+    }
+    try {
+      setLoading(true);
+      setError(null);
+      setPreview(await GroupService.previewInviteCode(code));
+    } catch (e: any) {
+      setPreview(null);
+      setError(e?.message || 'Could not open this invite.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openGroup = (groupId: string) => {
+    navigation.replace('GroupChat', { groupId });
+  };
+
+  const handleJoin = async () => {
+    if (!preview || !user?.id) return;
+    try {
+      setJoining(true);
+      const { groupId, status } = await GroupService.redeemInviteCode(preview.code);
+      if (status === 'pending') {
+        setPreview({ ...preview, requestPending: true });
+        Alert.alert('Request sent', `An admin of ${preview.name} will review your request.`);
+      } else {
+        openGroup(groupId);
+      }
+    } catch (e: any) {
+      Alert.alert('Error', e?.message || 'Could not join this group.');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const renderAction = () => {
+    if (!preview) return null;
+    if (preview.isMember) {
+      return (
+        <TouchableOpacity style={styles.joinBtn} onPress={() => openGroup(preview.groupId)}>
+          <Text style={styles.joinBtnText}>Open group</Text>
+        </TouchableOpacity>
+      );
+    }
+    if (preview.requestPending) {
+      return (
+        <View style={[styles.joinBtn, styles.joinBtnDisabled]}>
+          <Text style={styles.joinBtnText}>Request sent</Text>
+        </View>
+      );
+    }
+    return (
+      <TouchableOpacity
+        style={[styles.joinBtn, joining && styles.joinBtnDisabled]}
+        onPress={handleJoin}
+        disabled={joining}
+      >
+        {joining ? (
+          <CircleLoader dotColor="#FFF" size="small" />
+        ) : (
+          <Text style={styles.joinBtnText}>{preview.requiresApproval ? 'Request to join' : 'Join group'}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={22} color="#000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Join a squad</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <Text style={styles.sectionLabel}>Invite code or link</Text>
+      <View style={styles.codeRow}>
+        <TextInput
+          style={styles.codeInput}
+          value={codeText}
+          onChangeText={setCodeText}
+          placeholder="e.g. K7MQ2XPD"
+          placeholderTextColor="#999"
+          autoCapitalize="characters"
+          autoCorrect={false}
+          onSubmitEditing={() => loadPreview(codeText)}
+        />
+        <TouchableOpacity
+          style={[styles.findBtn, !codeText.trim() && styles.joinBtnDisabled]}
+          onPress={() => loadPreview(codeText)}
+          disabled={!codeText.trim() || loading}
+        >
+          <Text style={styles.joinBtnText}>Find</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <CircleLoader dotColor="#FF6B35" size="large" style={styles.loader} />
+      ) : error ? (
+        <View style={styles.errorBox}>
+          <Ionicons name="alert-circle-outline" size={22} color="#E53935" />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : preview ? (
+        <View style={styles.card}>
+          <Text style={styles.groupName}>{preview.name}</Text>
+          {preview.description ? <Text style={styles.description}>{preview.description}</Text> : null}
+          <View style={styles.membersRow}>
+            {preview.members.map((member, index) => (
+              <View key={member.id} style={[styles.memberAvatar, index > 0 && styles.memberAvatarOverlap]}>
+                <Avatar source={member.photoURL} initials={member.displayName.charAt(0)} size="sm" />
+              </View>
+            ))}
+            <Text style={styles.memberCount}>
+              {preview.memberCount} {preview.memberCount === 1 ? 'member' : 'members'}
+            </Text>
+          </View>
+          {preview.requiresApproval && !preview.isMember && (
+            <Text style={styles.note}>An admin approves new members before they join.</Text>
+          )}
+          <Text style={styles.note}>Invite expires {formatExpiry(preview.expiresAt)}</Text>
+          {renderAction()}
+        </View>
+      ) : null}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F1F0ED',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 12,
+    backgroundColor: '#F1F0ED',
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+    padding: 8,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#000',
+    textAlign: 'center',
+  },
+  placeholder: { width: 48 },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginHorizontal: 16,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  codeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    gap: 8,
+  },
+  codeInput: {
+    flex: 1,
+    backgroundColor: '#FFF',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    fontWeight: '600',
+    letterSpacing: 1,
+    color: '#333',
+  },
+  findBtn: {
+    backgroundColor: '#FF6B35',
+    paddingHorizontal: 18,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  loader: { marginTop: 24 },
+  errorBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 12,
+    gap: 10,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  card: {
+    backgroundColor: '#FFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 20,
+    borderRadius: 16,
+  },
+  groupName: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#000',
+  },
+  description: {
+    fontSize: 15,
+    color: '#555',
+    marginTop: 6,
+    lineHeight: 20,
+  },
+  membersRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  memberAvatar: {
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: '#FFF',
+  },
+  memberAvatarOverlap: { marginLeft: -10 },
+  memberCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginLeft: 10,
+  },
+  note: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 12,
+  },
+  joinBtn: {
+    backgroundColor: '#FF6B35',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  joinBtnDisabled: { opacity: 0.6 },
+  joinBtnText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#FFF',
+  },
+});
@@ -25,6 +25,7 @@ interface NotificationOption {
 const NOTIFICATION_OPTIONS: NotificationOption[] = [
   { id: 'hour_before', label: 'Notify an hour before submissions', description: 'Reminder 1 hour before check-in is due' },
   { id: 'chat_all', label: 'Notify for all chat messages', description: 'When anyone sends a message in your groups' },
+  { id: 'mentions', label: 'Notify when you\'re mentioned', description: 'When someone @mentions you in a group chat' },
   { id: 'group_checkins', label: 'Notify when users in your groups check in', description: 'When friends complete their check-ins' },
   { id: 'elimination', label: 'Notify on eliminations', description: 'When someone is eliminated from a challenge' },
   { id: 'invites', label: 'Notify for group and challenge invites', description: 'When you\'re invited to a group or challenge' },
@@ -43,6 +44,7 @@ export const NotificationsScreen: React.FC<NotificationsScreenProps> = ({ naviga
   const [toggles, setToggles] = useState<NotificationPreferences>({
     hour_before: true,
     chat_all: true,
+    mentions: true,
     group_checkins: true,
     elimination: true,
     invites: true,
@@ -19,6 +19,7 @@ import { Group, User } from '../../types';
 import { GroupCard } from '../../components/group';
 import { useColorMode } from '../../theme/ColorModeContext';
 import { userCache } from '../../services/userCache';
+import { canInGroup } from '../../utils/groupRoles';
 
 export const SelectGroupScreen: React.FC = () => {
   const navigation = useNavigation();
@@ -68,7 +69,9 @@ export const SelectGroupScreen: React.FC = () => {
       const currentUser = auth.currentUser;
       if (!currentUser) return;
 
-      const userGroups = await GroupService.getUserGroups(currentUser.uid);
+      // Only the owner and admins can add challenges to a group
+      const userGroups = (await GroupService.getUserGroups(currentUser.uid))
+        .filter(g => canInGroup(g, currentUser.uid, 'createChallenges'));
       setGroups(userGroups);
       // Load members and challenge counts in parallel
       await Promise.all([
@@ -123,7 +126,7 @@ export const SelectGroupScreen: React.FC = () => {
         
         <Text style={[styles.mainSubtitle, { color: colors.textSecondary }]}>
           {groups.length === 0 
-            ? 'Create a group first before adding a group challenge'
+            ? 'Create a group first, or ask a group admin to add the challenge'
             : 'Choose which group to create the challenge for'}
         </Text>
 
@@ -15,15 +15,18 @@ import {
   arrayRemove,
   setDoc
 } from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
 import { db } from './firebase';
-import { Challenge } from '../types';
+import { Challenge, MemberPause } from '../types';
 import { dateKeys } from '../utils/dateKeys';
 import {
   computeNextDueAtUtc,
   resolveAdminTimeZone,
   getAdminZoneDayKey,
   getCurrentPeriodDayKey,
-  getCurrentPeriodWeekKey,
+  getAdminZonePeriodKey,
+  getCheckInPeriodKey,
+  addDaysToKey,
 } from '../utils/dueTime';
 import { userCache } from './userCache';
 
@@ -31,7 +34,7 @@ export class ChallengeService {
   static async createChallenge(
     name: string,
     description: string,
-    type: 'elimination' | 'deadline' | 'progress',
+    type: 'elimination' | 'deadline' | 'progress' | 'team',
     challengeType: 'solo' | 'group',
     creatorId: string,
     groupId?: string,
@@ -39,21 +42,34 @@ export class ChallengeService {
       requirements?: string[];
       eliminationRule?: string;
       strikesAllowed?: number;
+      tieBreak?: NonNullable<NonNullable<Challenge['rules']>['elimination']>['tieBreak'];
+      revival?: NonNullable<NonNullable<Challenge['rules']>['elimination']>['revival'];
       startDate?: Date;
       endDate?: Date;
-      progressionDuration?: number;
-      progressionIntervalType?: string;
+      progress?: Omit<NonNullable<NonNullable<Challenge['rules']>['progress']>, 'anchorDate'>;
       assessmentTime?: Date;
       category?: string;
-      cadence?: { unit: 'daily' | 'weekly'; requiredCount?: number; weekStartsOn?: number };
+      cadence?: {
+        unit: Challenge['cadence']['unit'];
+        requiredCount?: number;
+        weekStartsOn?: number;
+        intervalDays?: number;
+        activeWeekdays?: number[];
+      };
       submission?: {
         inputType: 'boolean' | 'number' | 'text' | 'timer';
         unitLabel?: string;
         minValue?: number;
         requireAttachment?: boolean;
+        liveCaptureOnly?: boolean;
         requireText?: boolean;
         minTextLength?: number;
       };
+      settings?: Challenge['settings'];
+      team?: NonNullable<Challenge['rules']>['team'];
+      deadline?: NonNullable<Challenge['rules']>['deadline'];
+      startsAt?: Date;
+      seasonLengthDays?: number;
     }
   ): Promise<string> {
     try {
@@ -69,6 +85,28 @@ export class ChallengeService {
         ? `${String(assessmentTime.getHours()).padStart(2, '0')}:${String(assessmentTime.getMinutes()).padStart(2, '0')}`
         : '23:59';
 
+      // Daily challenges on specific weekdays; all seven days is the same as none
+      const activeWeekdays = cadence.unit === 'daily' ? cadence.activeWeekdays || [] : [];
+
+      // Announced challenges open on `startsAt`; periods and seasons count from that day
+      const todayKey = getAdminZoneDayKey(adminTimeZone);
+      const startsAtKey = opts.startsAt ? dateKeys.getDayKey(opts.startsAt) : undefined;
+      const startKey = startsAtKey && startsAtKey > todayKey ? startsAtKey : todayKey;
+
+      // Every-N-days periods are counted from the day the challenge starts
+      const periodCadence = {
+        unit: cadence.unit,
+        weekStartsOn: cadence.weekStartsOn ?? 0,
+        ...(cadence.requiredCount != null && { requiredCount: cadence.requiredCount }),
+        ...(cadence.unit === 'interval' && {
+          intervalDays: Math.max(1, cadence.intervalDays || 1),
+          anchorDate: startKey,
+        }),
+        ...(activeWeekdays.length > 0 && activeWeekdays.length < 7 && {
+          activeWeekdays: [...activeWeekdays].sort((a, b) => a - b),
+        }),
+      };
+
       const challengeData: any = {
         name,
         title: name,
@@ -84,7 +122,7 @@ export class ChallengeService {
         createdAt: new Date(),
         status: 'active',
         state: 'active',
-        cadence: { unit: cadence.unit, weekStartsOn: cadence.weekStartsOn ?? 0, ...(cadence.requiredCount != null && { requiredCount: cadence.requiredCount }) },
+        cadence: periodCadence,
         due: {
           dueTimeLocal,
           timezoneMode: 'groupLocal',
@@ -95,7 +133,7 @@ export class ChallengeService {
         createdBy: creatorId,
         adminUserId: creatorId,
         adminTimeZone,
-        nextDueAtUtc: computeNextDueAtUtc(adminTimeZone, dueTimeLocal, cadence.unit, cadence.weekStartsOn ?? 0),
+        nextDueAtUtc: computeNextDueAtUtc(adminTimeZone, dueTimeLocal, periodCadence, cadence.weekStartsOn ?? 0),
       };
 
       // Only add optional fields if they are defined
@@ -105,7 +143,22 @@ export class ChallengeService {
       if (opts.category) challengeData.category = opts.category;
       if (opts.eliminationRule) challengeData.eliminationRule = opts.eliminationRule;
       if (type === 'elimination') {
-        challengeData.rules = { elimination: { strikesAllowed: opts.strikesAllowed ?? 0 } };
+        challengeData.rules = {
+          elimination: {
+            strikesAllowed: opts.strikesAllowed ?? 0,
+            ...(opts.tieBreak && { tieBreak: opts.tieBreak }),
+            ...(opts.revival && { revival: opts.revival }),
+          },
+        };
+      }
+      if (type === 'team' && opts.team) {
+        challengeData.rules = { team: opts.team };
+      }
+      if (type === 'deadline' && opts.deadline) {
+        challengeData.rules = { deadline: opts.deadline };
+      }
+      if (type === 'progress' && opts.progress) {
+        challengeData.rules = { progress: { ...opts.progress, anchorDate: startKey } };
       }
       if (opts.startDate) challengeData.startDate = opts.startDate;
       if (opts.endDate) {
@@ -116,9 +169,17 @@ export class ChallengeService {
         const d = String(opts.endDate.getDate()).padStart(2, '0');
         challengeData.due.deadlineDate = `${y}-${m}-${d}`;
       }
-      if (opts.progressionDuration) challengeData.progressionDuration = opts.progressionDuration;
-      if (opts.progressionIntervalType) challengeData.progressionIntervalType = opts.progressionIntervalType;
       if (assessmentTime) challengeData.assessmentTime = assessmentTime;
+      if (opts.settings) challengeData.settings = opts.settings;
+      if (startKey !== todayKey) challengeData.startsAt = startKey;
+      if (opts.seasonLengthDays && type !== 'deadline') {
+        challengeData.season = {
+          number: 1,
+          lengthDays: opts.seasonLengthDays,
+          startKey,
+          endKey: addDaysToKey(startKey, opts.seasonLengthDays - 1),
+        };
+      }
 
       const docRef = await addDoc(collection(db, 'challenges'), challengeData);
 
@@ -344,6 +405,88 @@ export class ChallengeService {
     }
   }
 
+  // Set team assignments (userId -> teamId) on challenge member docs
+  static async assignTeams(challengeId: string, assignments: Record<string, string>): Promise<void> {
+    try {
+      await Promise.all(
+        Object.entries(assignments).map(([userId, teamId]) =>
+          setDoc(doc(db, 'challengeMembers', `${challengeId}_${userId}`), { teamId }, { merge: true })
+        )
+      );
+    } catch (error) {
+      if (__DEV__) console.error('Error assigning teams:', error);
+      throw error;
+    }
+  }
+
+  // Schedule a pause for the current user (challenges with settings.pauses).
+  // Dates are YYYY-MM-DD in the challenge admin's timezone, both inclusive.
+  static async schedulePause(challengeId: string, startDate: string, endDate: string): Promise<MemberPause[]> {
+    try {
+      const schedule = httpsCallable<
+        { challengeId: string; startDate: string; endDate: string },
+        { challengeId: string; pauses: MemberPause[] }
+      >(getFunctions(), 'schedulePause');
+      const { data } = await schedule({ challengeId, startDate, endDate });
+      return data.pauses;
+    } catch (error) {
+      if (__DEV__) console.error('Error scheduling pause:', error);
+      if (error instanceof Error) throw error;
+      throw new Error('Failed to schedule pause');
+    }
+  }
+
+  // Cancel one of the current user's pauses before it starts
+  static async cancelPause(challengeId: string, startDate: string): Promise<MemberPause[]> {
+    try {
+      const cancel = httpsCallable<
+        { challengeId: string; startDate: string },
+        { challengeId: string; pauses: MemberPause[] }
+      >(getFunctions(), 'cancelPause');
+      const { data } = await cancel({ challengeId, startDate });
+      return data.pauses;
+    } catch (error) {
+      if (__DEV__) console.error('Error cancelling pause:', error);
+      if (error instanceof Error) throw error;
+      throw new Error('Failed to cancel pause');
+    }
+  }
+
+  // Spend XP to get back into an elimination challenge (rules.elimination.revival mode 'buyBack')
+  static async buyBackIn(challengeId: string): Promise<{ xpSpent: number; revivalsLeft: number }> {
+    try {
+      const buyBack = httpsCallable<
+        { challengeId: string },
+        { challengeId: string; revived: boolean; xpSpent: number; revivalsLeft: number }
+      >(getFunctions(), 'buyBackIn');
+      const { data } = await buyBack({ challengeId });
+      return { xpSpent: data.xpSpent, revivalsLeft: data.revivalsLeft };
+    } catch (error) {
+      if (__DEV__) console.error('Error buying back in:', error);
+      if (error instanceof Error) throw error;
+      throw new Error('Failed to buy back in');
+    }
+  }
+
+  // Vote to bring an eliminated member back (rules.elimination.revival mode 'vote')
+  static async voteToRevive(
+    challengeId: string,
+    userId: string
+  ): Promise<{ revived: boolean; votes: number; votesNeeded: number }> {
+    try {
+      const vote = httpsCallable<
+        { challengeId: string; userId: string },
+        { challengeId: string; userId: string; revived: boolean; votes: number; votesNeeded: number }
+      >(getFunctions(), 'voteToRevive');
+      const { data } = await vote({ challengeId, userId });
+      return { revived: data.revived, votes: data.votes, votesNeeded: data.votesNeeded };
+    } catch (error) {
+      if (__DEV__) console.error('Error voting to revive:', error);
+      if (error instanceof Error) throw error;
+      throw new Error('Failed to vote');
+    }
+  }
+
   // Remove participant from challenge
   static async removeParticipant(challengeId: string, userId: string): Promise<void> {
     try {
@@ -527,11 +670,12 @@ export class ChallengeService {
         collection(db, 'challengeMembers'),
         where('challengeId', '==', challengeId)
       );
+      // Deadline challenges score every check-in, so they load the full history
       const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
       const checkInsQuery = query(
         collection(db, 'checkIns'),
         where('challengeId', '==', challengeId),
-        where('createdAt', '>=', thirtyDaysAgo),
+        where('createdAt', '>=', challenge.type === 'deadline' ? 0 : thirtyDaysAgo),
         orderBy('createdAt', 'desc')
       );
       const groupPromise = challenge.groupId
@@ -549,10 +693,13 @@ export class ChallengeService {
         ...d.data(),
       }));
 
-      const allCheckIns: any[] = checkInsSnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-      }));
+      // Retracted check-ins stay in Firestore for the audit trail only
+      const allCheckIns: any[] = checkInsSnapshot.docs
+        .map(doc => ({
+          id: doc.id,
+          ...doc.data(),
+        }))
+        .filter((ci: any) => ci.status !== 'retracted');
 
       // Merge challenge member IDs with actual group member IDs so all group members show in status
       const challengeMemberIds: string[] = challengeMembers.map((m: any) => m.userId);
@@ -576,7 +723,6 @@ export class ChallengeService {
       const now = new Date();
       const adminTz = resolveAdminTimeZone(challenge as any);
       const dueTimeLocal = challenge.due?.dueTimeLocal || '23:59';
-      const weekStartsOn = challenge.cadence?.weekStartsOn ?? 0;
       let checkInsForCurrentPeriod: any[] = [];
 
       if (challenge.cadence?.unit === 'daily') {
@@ -586,10 +732,10 @@ export class ChallengeService {
         checkInsForCurrentPeriod = allCheckIns.filter((ci: any) => {
           return ci.period?.dayKey === currentPeriodKey;
         });
-      } else if (challenge.cadence?.unit === 'weekly') {
-        const currentWeekKey = getCurrentPeriodWeekKey(adminTz, weekStartsOn, now);
+      } else if (challenge.cadence?.unit) {
+        const currentPeriodKey = getAdminZonePeriodKey(adminTz, challenge.cadence, now);
         checkInsForCurrentPeriod = allCheckIns.filter((ci: any) => {
-          return ci.period?.weekKey === currentWeekKey;
+          return getCheckInPeriodKey(ci.period) === currentPeriodKey;
         });
       }
 
@@ -1,26 +1,16 @@
 import {
   collection,
-  doc,
-  addDoc,
-  getDoc,
   getDocs,
-  updateDoc,
-  increment,
   query,
   where,
 } from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
 import { db } from './firebase';
 import { CheckIn } from '../types';
-import {
-  resolveAdminTimeZone,
-  getAdminZoneDayKey,
-  getCurrentPeriodDayKey,
-  getCurrentPeriodWeekKey,
-  computeDueMomentUtcForDay,
-  canUserCheckIn,
-} from '../utils/dueTime';
-import { GamificationService, XPResult, StreakResult } from './gamificationService';
+import { XPResult, StreakResult } from './gamificationService';
 import { AchievementService } from './achievementService';
+import type { PhotoCaptureMeta, PhotoIntegrityFlag } from '../utils/photoIntegrity';
+import type { CheckInAttachmentType } from '../utils/attachments';
 
 export interface CheckInResult {
   checkInId: string;
@@ -28,6 +18,31 @@ export interface CheckInResult {
   streakResult: StreakResult;
   dailyBonusAwarded: boolean;
   dailyBonusXP: number;
+  late?: boolean;   // credited to the previous period inside its late window
+  integrityFlags?: PhotoIntegrityFlag[];   // photo proof warnings; the check-in still counts
+}
+
+export type CheckInAttachmentInput = {
+  type: CheckInAttachmentType;
+  /** Local file URI until uploaded, then the download URL */
+  uri: string;
+  durationSeconds?: number;   // video clips
+  meta?: PhotoCaptureMeta;    // photos, recorded when picked
+};
+
+interface SubmitCheckInRequest {
+  challengeId: string;
+  payload: Record<string, unknown>;
+  attachments: CheckInAttachmentInput[];
+  timeZone: string;
+  capturedAt?: number;
+  queueId?: string;
+}
+
+interface EditCheckInRequest {
+  checkInId: string;
+  payload: Record<string, unknown>;
+  attachments: CheckInAttachmentInput[];
 }
 
 export class CheckInService {
@@ -57,7 +72,7 @@ export class CheckInService {
               id: doc.id,
               createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
             } as CheckIn;
-          });
+          }).filter(ci => ci.status !== 'retracted');
         });
         
         batches.push(batchPromise);
@@ -80,187 +95,113 @@ export class CheckInService {
     }
   }
 
-  // Submit challenge check-in
+  // Submit challenge check-in. The submitCheckIn Cloud Function picks the
+  // period, validates eligibility and awards streak/XP in one transaction.
+  // Check-ins synced from the offline queue pass their capture time.
   static async submitChallengeCheckIn(
     challengeId: string,
     userId: string,
-    groupId: string | null,
-    cadenceUnit: 'daily' | 'weekly',
     payload: {
       booleanValue?: boolean;
       numberValue?: number;
       textValue?: string;
       timerSeconds?: number;
     },
-    attachments?: Array<{ type: 'photo' | 'screenshot'; uri: string }>,
-    challengeDueTime?: string,
-    challengeTimezoneOffset?: number
+    attachments?: CheckInAttachmentInput[],
+    queued?: { capturedAt: number; queueId: string },
   ): Promise<CheckInResult> {
     try {
-      // Fetch challenge + member data in parallel for validation
-      const memberId = `${challengeId}_${userId}`;
-      const [challengeSnap, memberSnap] = await Promise.all([
-        getDoc(doc(db, 'challenges', challengeId)),
-        getDoc(doc(db, 'challengeMembers', memberId)),
-      ]);
-
-      if (!challengeSnap.exists()) {
-        throw new Error('Challenge not found.');
-      }
-      const challengeData = challengeSnap.data() as Record<string, any>;
-
-      // Normalize deadlineDate from Firestore Timestamp to string if needed
-      if (challengeData.due?.deadlineDate && typeof challengeData.due.deadlineDate !== 'string') {
-        const dd = challengeData.due.deadlineDate;
-        if (dd.toDate) {
-          const d = dd.toDate() as Date;
-          challengeData.due.deadlineDate = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-        } else if (dd instanceof Date) {
-          challengeData.due.deadlineDate = `${dd.getFullYear()}-${String(dd.getMonth() + 1).padStart(2, '0')}-${String(dd.getDate()).padStart(2, '0')}`;
-        }
-      }
-
-      // Check if challenge has ended
-      if (challengeData.state === 'ended') {
-        throw new Error('This challenge has ended. Check-ins are no longer accepted.');
-      }
-
-      // Check elimination status
-      const memberData = memberSnap.data() as { state?: string } | undefined;
-      if (challengeData.type === 'elimination' && memberData?.state === 'eliminated') {
-        throw new Error('You have been eliminated from this challenge and can no longer submit.');
-      }
-
-      // Check deadline
-      if (challengeData.type === 'deadline' && challengeData.due?.deadlineDate) {
-        const checkResult = canUserCheckIn(
-          challengeData as any,
-          (memberData?.state as any) || 'active'
-        );
-        if (!checkResult.allowed) {
-          throw new Error(checkResult.reason || 'Cannot check in.');
-        }
-      }
-
-      // Compute period keys using IANA timezone
-      const adminTz = resolveAdminTimeZone(challengeData as any);
-      const dueTimeLocal = challengeData.due?.dueTimeLocal || challengeDueTime || '23:59';
-      const weekStartsOn = challengeData.cadence?.weekStartsOn ?? 0;
-      const now = new Date();
-
-      const period: any = { unit: cadenceUnit };
-      let periodKey: string;
-
-      if (cadenceUnit === 'daily') {
-        if (challengeData.type === 'deadline') {
-          periodKey = getAdminZoneDayKey(adminTz, now);
-        } else {
-          periodKey = getCurrentPeriodDayKey(adminTz, dueTimeLocal, now);
-        }
-        period.dayKey = periodKey;
-      } else {
-        periodKey = getCurrentPeriodWeekKey(adminTz, weekStartsOn, now);
-        period.weekKey = periodKey;
-      }
-
-      // Duplicate check-in prevention
-      const periodField = cadenceUnit === 'daily' ? 'period.dayKey' : 'period.weekKey';
-      const existingCheckIns = await getDocs(query(
-        collection(db, 'checkIns'),
-        where('challengeId', '==', challengeId),
-        where('userId', '==', userId),
-        where(periodField, '==', periodKey)
-      ));
-      const completedCount = existingCheckIns.docs.filter(d => d.data().status === 'completed').length;
-      const requiredCount = cadenceUnit === 'daily' ? 1 : (challengeData.cadence?.requiredCount || 1);
-      if (completedCount >= requiredCount) {
-        throw new Error('You have already completed all check-ins for this period.');
-      }
-
-      const checkInData: any = {
+      const submitCheckIn = httpsCallable<SubmitCheckInRequest, CheckInResult>(getFunctions(), 'submitCheckIn');
+      const { data } = await submitCheckIn({
         challengeId,
-        userId,
-        groupId,
-        period,
         payload,
         attachments: attachments || [],
-        status: 'completed',
-        createdAt: Date.now(),
-      };
-
-      // Compute on-time synchronously (pure math, no I/O)
-      let isOnTime = false;
-      if (cadenceUnit === 'daily') {
-        const dueMomentUtc = computeDueMomentUtcForDay(adminTz, periodKey, dueTimeLocal);
-        const msRemaining = dueMomentUtc.getTime() - now.getTime();
-        isOnTime = msRemaining > 60 * 60 * 1000; // >1hr remaining
-      }
-
-      // Write check-in doc and update streak in parallel (they don't depend on each other)
-      let streakResult: StreakResult;
-      let xpResult: XPResult;
-      let docRef: any;
-
-      try {
-        const [writeResult, streak] = await Promise.all([
-          addDoc(collection(db, 'checkIns'), checkInData),
-          GamificationService.updateStreak(challengeId, userId, periodKey, cadenceUnit).catch((e) => {
-            if (__DEV__) console.error('Streak error (non-blocking):', e);
-            return { currentStreak: 0, longestStreak: 0, isNewMilestone: false, milestoneValue: 0, shieldEarned: false } as StreakResult;
-          }),
-        ]);
-        docRef = writeResult;
-        streakResult = streak;
-
-        // Award XP (depends on streak count)
-        xpResult = await GamificationService.awardCheckInXP(userId, challengeId, isOnTime, streakResult.currentStreak, streakResult.longestStreak);
-      } catch (e) {
-        if (__DEV__) console.error('Gamification error (non-blocking):', e);
-        if (!docRef) {
-          // addDoc itself failed — re-throw
-          throw e;
-        }
-        streakResult = { currentStreak: 0, longestStreak: 0, isNewMilestone: false, milestoneValue: 0, shieldEarned: false };
-        xpResult = { xpEarned: 0, newLevel: 1, newTitle: 'Rookie', leveledUp: false };
-      }
-
-      // Daily complete bonus: fire in background — don't block the check-in response
-      let dailyBonusAwarded = false;
-      let dailyBonusXP = 0;
-      if (cadenceUnit === 'daily' && xpResult.xpEarned > 0) {
-        // Fire-and-forget: resolves after the check-in is returned to UI
-        GamificationService.checkAndAwardDailyCompleteBonus(userId, xpResult.xpEarned).then(bonus => {
-          dailyBonusAwarded = bonus.awarded;
-          dailyBonusXP = bonus.bonusXP;
-        }).catch(e => {
-          if (__DEV__) console.error('Daily bonus error (non-blocking):', e);
-        });
-      }
-
-      // Increment on-time / late-night counters on user doc (fire-and-forget)
-      const counterUpdates: Record<string, any> = {};
-      if (isOnTime) {
-        counterUpdates.onTimeCheckIns = increment(1);
-      }
-      if (now.getHours() >= 22) {
-        counterUpdates.lateNightCheckIns = increment(1);
-      }
-      if (Object.keys(counterUpdates).length > 0) {
-        updateDoc(doc(db, 'users', userId), counterUpdates).catch((e) => {
-          if (__DEV__) console.error('Counter increment error (non-blocking):', e);
-        });
-      }
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        ...queued,
+      });
 
       // Achievement check (fire-and-forget)
-      AchievementService.checkAndAwardAchievements(userId).catch((e) => {
+      AchievementService.checkAndAwardAchievements().catch((e) => {
         if (__DEV__) console.error('Achievement check error (non-blocking):', e);
       });
 
-      return { checkInId: docRef.id, xpResult, streakResult, dailyBonusAwarded, dailyBonusXP };
+      return data;
     } catch (error) {
       if (__DEV__) console.error('Error submitting challenge check-in:', error);
       if (error instanceof Error) throw error;
       throw new Error('Failed to submit check-in');
     }
   }
-} 
\ No newline at end of file
+
+  // Edit the payload/attachments of own check-in until the period's due moment.
+  // The server keeps the previous version in the check-in's revisions.
+  static async editChallengeCheckIn(
+    checkInId: string,
+    payload: {
+      booleanValue?: boolean;
+      numberValue?: number;
+      textValue?: string;
+      timerSeconds?: number;
+    },
+    attachments?: CheckInAttachmentInput[],
+  ): Promise<void> {
+    try {
+      const editCheckIn = httpsCallable<EditCheckInRequest, { checkInId: string }>(getFunctions(), 'editCheckIn');
+      await editCheckIn({ checkInId, payload, attachments: attachments || [] });
+    } catch (error) {
+      if (__DEV__) console.error('Error editing check-in:', error);
+      if (error instanceof Error) throw error;
+      throw new Error('Failed to edit check-in');
+    }
+  }
+
+  // Retract own check-in until the period's due moment. XP, totalCheckIns and
+  // the streak it earned are reversed server-side.
+  static async retractChallengeCheckIn(checkInId: string): Promise<{ xpReversed: number }> {
+    try {
+      const retractCheckIn = httpsCallable<{ checkInId: string }, { checkInId: string; xpReversed: number }>(
+        getFunctions(),
+        'retractCheckIn'
+      );
+      const { data } = await retractCheckIn({ checkInId });
+      return { xpReversed: data.xpReversed };
+    } catch (error) {
+      if (__DEV__) console.error('Error retracting check-in:', error);
+      if (error instanceof Error) throw error;
+      throw new Error('Failed to retract check-in');
+    }
+  }
+
+  // Dispute another member's check-in (challenges with settings.disputes enabled).
+  // `disputed` is true once the threshold is reached and the admin must review it.
+  static async disputeCheckIn(checkInId: string): Promise<{ disputes: number; disputed: boolean }> {
+    try {
+      const dispute = httpsCallable<{ checkInId: string }, { checkInId: string; disputes: number; disputed: boolean }>(
+        getFunctions(),
+        'disputeCheckIn'
+      );
+      const { data } = await dispute({ checkInId });
+      return { disputes: data.disputes, disputed: data.disputed };
+    } catch (error) {
+      if (__DEV__) console.error('Error disputing check-in:', error);
+      if (error instanceof Error) throw error;
+      throw new Error('Failed to dispute check-in');
+    }
+  }
+
+  // Challenge admin's ruling on a disputed check-in. A rejected check-in
+  // counts as a miss and loses the XP and streak it earned.
+  static async resolveDisputedCheckIn(checkInId: string, resolution: 'upheld' | 'rejected'): Promise<void> {
+    try {
+      const resolve = httpsCallable<{ checkInId: string; resolution: 'upheld' | 'rejected' }, unknown>(
+        getFunctions(),
+        'resolveDisputedCheckIn'
+      );
+      await resolve({ checkInId, resolution });
+    } catch (error) {
+      if (__DEV__) console.error('Error resolving disputed check-in:', error);
+      if (error instanceof Error) throw error;
+      throw new Error('Failed to resolve dispute');
+    }
+  }
+}
@@ -14,9 +14,11 @@ import {
   arrayUnion,
   arrayRemove
 } from 'firebase/firestore';
+import { getFunctions, httpsCallable } from 'firebase/functions';
 import { db } from './firebase';
-import { Group, GroupInvitation, User } from '../types';
+import { Group, GroupInvitation, GroupInviteCode, GroupInvitePreview, GroupJoinRequest, User } from '../types';
 import { AchievementService } from './achievementService';
+import { getGroupOwnerId, getNextGroupOwnerId } from '../utils/groupRoles';
 
 export class GroupService {
   // Create a new group (simple: just name, description, and users)
@@ -39,6 +41,8 @@ export class GroupService {
         name,
         description,
         creatorId,
+        ownerId: creatorId,
+        adminIds: [],
         memberIds: allMemberIds,
         challengeIds: [], // Start with no challenges
         createdAt: new Date(),
@@ -48,7 +52,7 @@ export class GroupService {
       const docRef = await addDoc(collection(db, 'groups'), groupData);
 
       // Achievement check (fire-and-forget)
-      AchievementService.checkAndAwardAchievements(creatorId).catch(() => {});
+      AchievementService.checkAndAwardAchievements().catch(() => {});
 
       return docRef.id;
     } catch (error) {
@@ -115,12 +119,13 @@ export class GroupService {
     }
   }
 
-  // Remove member from group
+  // Remove member from group (owner/admins, or the member themselves; enforced by rules)
   static async removeMember(groupId: string, userId: string): Promise<void> {
     try {
       const groupRef = doc(db, 'groups', groupId);
       await updateDoc(groupRef, {
-        memberIds: arrayRemove(userId)
+        memberIds: arrayRemove(userId),
+        adminIds: arrayRemove(userId)
       });
     } catch (error) {
       if (__DEV__) console.error('Error removing member:', error);
@@ -128,7 +133,71 @@ export class GroupService {
     }
   }
 
-  // Update group
+  // Leave a group. The owner hands ownership to newOwnerId (default: first admin, else
+  // first member) in the same write; the last member leaving deletes the group.
+  static async leaveGroup(group: Group, userId: string, newOwnerId?: string): Promise<void> {
+    if (getGroupOwnerId(group) !== userId) {
+      return this.removeMember(group.id, userId);
+    }
+    try {
+      const nextOwnerId = newOwnerId || getNextGroupOwnerId(group);
+      if (!nextOwnerId) {
+        await this.deleteGroup(group.id);
+        return;
+      }
+      await updateDoc(doc(db, 'groups', group.id), {
+        ownerId: nextOwnerId,
+        memberIds: arrayRemove(userId),
+        adminIds: (group.adminIds || []).filter(id => id !== nextOwnerId && id !== userId),
+      });
+    } catch (error) {
+      if (__DEV__) console.error('Error leaving group:', error);
+      throw error;
+    }
+  }
+
+  // Make another member the owner (owner only); the previous owner stays on as an admin
+  static async transferOwnership(group: Group, newOwnerId: string): Promise<void> {
+    try {
+      const previousOwnerId = getGroupOwnerId(group);
+      const adminIds = (group.adminIds || []).filter(id => id !== newOwnerId && id !== previousOwnerId);
+      await updateDoc(doc(db, 'groups', group.id), {
+        ownerId: newOwnerId,
+        adminIds: previousOwnerId ? [...adminIds, previousOwnerId] : adminIds,
+      });
+    } catch (error) {
+      if (__DEV__) console.error('Error transferring group ownership:', error);
+      throw error;
+    }
+  }
+
+  // Promote a member to admin or demote them (owner only, enforced by rules)
+  static async setMemberAdmin(groupId: string, userId: string, admin: boolean): Promise<void> {
+    try {
+      const groupRef = doc(db, 'groups', groupId);
+      await updateDoc(groupRef, {
+        adminIds: admin ? arrayUnion(userId) : arrayRemove(userId)
+      });
+    } catch (error) {
+      if (__DEV__) console.error('Error updating group admin:', error);
+      throw error;
+    }
+  }
+
+  // Mute or unmute a member in the group chat (owner/admins only, enforced by rules)
+  static async setMemberMuted(groupId: string, userId: string, muted: boolean): Promise<void> {
+    try {
+      const groupRef = doc(db, 'groups', groupId);
+      await updateDoc(groupRef, {
+        mutedUserIds: muted ? arrayUnion(userId) : arrayRemove(userId)
+      });
+    } catch (error) {
+      if (__DEV__) console.error('Error muting member:', error);
+      throw error;
+    }
+  }
+
+  // Update group (renaming is owner/admins only, enforced by rules)
   static async updateGroup(groupId: string, updates: Partial<Group>): Promise<void> {
     try {
       const groupRef = doc(db, 'groups', groupId);
@@ -139,7 +208,7 @@ export class GroupService {
     }
   }
 
-  // Delete group
+  // Delete group (owner only, enforced by rules)
   static async deleteGroup(groupId: string): Promise<void> {
     try {
       await deleteDoc(doc(db, 'groups', groupId));
@@ -213,7 +282,7 @@ export class GroupService {
       await this.addMember(invitation.groupId, invitation.inviteeId);
 
       // Achievement check (fire-and-forget)
-      AchievementService.checkAndAwardAchievements(invitation.inviteeId).catch(() => {});
+      AchievementService.checkAndAwardAchievements().catch(() => {});
     } catch (error) {
       if (__DEV__) console.error('Error accepting invitation:', error);
       throw error;
@@ -231,6 +300,145 @@ export class GroupService {
     }
   }
 
+  // Issue a shareable invite code (owner/admins); links are built with buildGroupJoinLink
+  static async createInviteCode(
+    groupId: string,
+    expiresInDays: number,
+    requiresApproval: boolean
+  ): Promise<{ code: string; expiresAt: Date }> {
+    try {
+      const create = httpsCallable<
+        { groupId: string; expiresInDays: number; requiresApproval: boolean },
+        { code: string; groupId: string; expiresAt: number; requiresApproval: boolean }
+      >(getFunctions(), 'createGroupInviteCode');
+      const { data } = await create({ groupId, expiresInDays, requiresApproval });
+      return { code: data.code, expiresAt: new Date(data.expiresAt) };
+    } catch (error) {
+      if (__DEV__) console.error('Error creating invite code:', error);
+      if (error instanceof Error) throw error;
+      throw new Error('Failed to create invite link');
+    }
+  }
+
+  // Turn an invite code off so its links stop working
+  static async revokeInviteCode(code: string): Promise<void> {
+    try {
+      const revoke = httpsCallable<{ code: string }, { code: string; revoked: boolean }>(
+        getFunctions(),
+        'revokeGroupInviteCode'
+      );
+      await revoke({ code });
+    } catch (error) {
+      if (__DEV__) console.error('Error revoking invite code:', error);
+      if (error instanceof Error) throw error;
+      throw new Error('Failed to turn off invite link');
+    }
+  }
+
+  // Invite codes of a group that still work (readable by the owner and admins)
+  static async getActiveInviteCodes(groupId: string): Promise<GroupInviteCode[]> {
+    try {
+      const codesQuery = query(
+        collection(db, 'groupInviteCodes'),
+        where('groupId', '==', groupId),
+        where('revoked', '==', false)
+      );
+      const querySnapshot = await getDocs(codesQuery);
+      const now = Date.now();
+      return querySnapshot.docs
+        .map(doc => {
+          const data = doc.data();
+          return {
+            ...data,
+            code: doc.id,
+            createdAt: data.createdAt?.toDate() || new Date(),
+            expiresAt: data.expiresAt?.toDate() || new Date(),
+            useCount: data.useCount || 0,
+          } as GroupInviteCode;
+        })
+        .filter(invite => invite.expiresAt.getTime() > now)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      if (__DEV__) console.error('Error getting invite codes:', error);
+      return [];
+    }
+  }
+
+  // Group preview for the join screen; throws with a readable message for bad, expired or revoked codes
+  static async previewInviteCode(code: string): Promise<GroupInvitePreview> {
+    try {
+      const preview = httpsCallable<{ code: string }, GroupInvitePreview>(getFunctions(), 'previewGroupInvite');
+      const { data } = await preview({ code });
+      return data;
+    } catch (error) {
+      if (__DEV__) console.error('Error previewing invite code:', error);
+      if (error instanceof Error) throw error;
+      throw new Error('Failed to open invite link');
+    }
+  }
+
+  // Join with an invite code: 'joined', 'pending' (waiting for approval) or 'member' (already in)
+  static async redeemInviteCode(
+    code: string
+  ): Promise<{ groupId: string; status: 'joined' | 'pending' | 'member' }> {
+    try {
+      const redeem = httpsCallable<
+        { code: string },
+        { groupId: string; status: 'joined' | 'pending' | 'member' }
+      >(getFunctions(), 'redeemGroupInviteCode');
+      const { data } = await redeem({ code });
+      if (data.status === 'joined') {
+        // Achievement check (fire-and-forget)
+        AchievementService.checkAndAwardAchievements().catch(() => {});
+      }
+      return data;
+    } catch (error) {
+      if (__DEV__) console.error('Error redeeming invite code:', error);
+      if (error instanceof Error) throw error;
+      throw new Error('Failed to join group');
+    }
+  }
+
+  // Pending join requests for a group (readable by the owner and admins)
+  static async getPendingJoinRequests(groupId: string): Promise<GroupJoinRequest[]> {
+    try {
+      const requestsQuery = query(
+        collection(db, 'groupJoinRequests'),
+        where('groupId', '==', groupId),
+        where('status', '==', 'pending')
+      );
+      const querySnapshot = await getDocs(requestsQuery);
+      return querySnapshot.docs
+        .map(doc => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            ...data,
+            requestedAt: data.requestedAt?.toDate() || new Date(),
+          } as GroupJoinRequest;
+        })
+        .sort((a, b) => a.requestedAt.getTime() - b.requestedAt.getTime());
+    } catch (error) {
+      if (__DEV__) console.error('Error getting join requests:', error);
+      return [];
+    }
+  }
+
+  // Approve (adds them to the group) or decline a join request (owner/admins)
+  static async respondToJoinRequest(groupId: string, userId: string, approve: boolean): Promise<void> {
+    try {
+      const respond = httpsCallable<
+        { groupId: string; userId: string; approve: boolean },
+        { groupId: string; userId: string; approved: boolean }
+      >(getFunctions(), 'respondToJoinRequest');
+      await respond({ groupId, userId, approve });
+    } catch (error) {
+      if (__DEV__) console.error('Error answering join request:', error);
+      if (error instanceof Error) throw error;
+      throw new Error('Failed to answer join request');
+    }
+  }
+
   // Listen to group changes in real-time
   static subscribeToGroup(groupId: string, callback: (group: Group | null) => void) {
     return onSnapshot(doc(db, 'groups', groupId), (doc) => {
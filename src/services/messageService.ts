@@ -4,6 +4,7 @@ import {
   addDoc,
   getDocs,
   getDoc,
+  setDoc,
   updateDoc,
   query,
   where,
@@ -11,19 +12,62 @@ import {
   onSnapshot,
   serverTimestamp,
   limit,
+  startAfter,
+  getCountFromServer,
+  QueryDocumentSnapshot,
   deleteDoc,
   arrayUnion,
   arrayRemove,
   increment,
+  deleteField,
+  Timestamp,
 } from 'firebase/firestore';
 import { 
   ref, 
   uploadBytes, 
   getDownloadURL 
 } from 'firebase/storage';
+import { Image } from 'react-native';
+import * as ImageManipulator from 'expo-image-manipulator';
 import { db, storage } from './firebase';
-import { GamificationService } from './gamificationService';
-import { XP_VALUES } from '../constants/gamification';
+import type { PhotoCaptureMeta, PhotoIntegrityFlag } from '../utils/photoIntegrity';
+import type { CheckInAttachmentType } from '../utils/attachments';
+import { getMessageReactions } from '../utils/chat';
+
+// Photos are downscaled to this longest side before upload; the server makes smaller variants
+const MAX_UPLOAD_DIMENSION = 2048;
+
+type UploadableAttachment = { type: CheckInAttachmentType; uri: string; meta?: PhotoCaptureMeta };
+
+/** One photo or clip of a check-in message, as stored on the message */
+export interface CheckInMessageMedia {
+  type: CheckInAttachmentType;
+  uri: string;
+  liveCapturedAt?: number;
+}
+
+// Messages per page when scrolling back through a group chat
+export const CHAT_PAGE_SIZE = 30;
+
+// Length of the quoted text kept on a reply
+const REPLY_PREVIEW_LENGTH = 120;
+
+/** The message a reply answers; a snapshot so the quote shows without loading it */
+export interface MessageReplyRef {
+  /** Root of the thread: replies to a reply join the original thread */
+  messageId: string;
+  userId: string;
+  userName: string;
+  text: string;
+}
+
+/** An earlier version of an edited message */
+export interface MessageEdit {
+  text: string;
+  editedAt: Date;
+}
+
+export type ReportReason = 'spam' | 'abuse' | 'other';
 
 const SYSTEM_USER_ID = 'system-missed';
 const SYSTEM_USER_NAME = 'SquadCheck';
@@ -41,36 +85,102 @@ export interface GroupChatMessage {
   challengeTitle?: string;
   /** For elimination/winner messages: challenge name shown in orange */
   challengeName?: string;
-  upvotes?: number;
-  downvotes?: number;
-  upvotedBy?: string[];
-  downvotedBy?: string[];
+  /** One emoji per member: { [userId]: emoji } */
+  reactions?: Record<string, string>;
+  /** Set on replies; see MessageReplyRef */
+  replyTo?: MessageReplyRef;
+  /** Set on thread roots: number of replies */
+  replyCount?: number;
+  /** Ids of the members @mentioned in the text */
+  mentions?: string[];
+  /** Set once the author edits the text */
+  editedAt?: Date;
+  /** Earlier versions of the text, oldest first */
+  editHistory?: MessageEdit[];
   streak?: number;
+  /** Check-in messages: photo proof warnings from submitCheckIn */
+  integrityFlags?: PhotoIntegrityFlag[];
+  /** Check-in messages: capture time of a live photo, shown as its stamp */
+  liveCapturedAt?: number;
+  /** Check-in messages with several photos or a video: all of them, in order */
+  media?: CheckInMessageMedia[];
+}
+
+/** One page of older messages, newest first; pass `cursor` back to get the next page */
+export interface GroupMessagesPage {
+  messages: GroupChatMessage[];
+  cursor: QueryDocumentSnapshot | null;
+  hasMore: boolean;
 }
 
 export class MessageService {
-  // Send a text message
+  // Map a messages doc to the chat message shape
+  private static toGroupChatMessage(id: string, data: Record<string, any>): GroupChatMessage {
+    const type = data.type || (data.challengeTitle ? 'checkin' : 'text');
+    return {
+      id,
+      text: data.text || '',
+      userId: data.userId,
+      userName: data.userName,
+      timestamp: data.timestamp?.toDate() || new Date(),
+      type,
+      imageUrl: data.imageUrl,
+      caption: data.caption,
+      challengeTitle: data.challengeTitle,
+      challengeName: data.challengeName,
+      reactions: getMessageReactions(data),
+      replyTo: data.replyTo,
+      replyCount: data.replyCount || 0,
+      mentions: data.mentions || [],
+      editedAt: data.editedAt?.toDate(),
+      editHistory: (data.editHistory || []).map((e: any) => ({
+        text: e.text || '',
+        editedAt: e.editedAt?.toDate?.() || new Date(),
+      })),
+      streak: data.streak || undefined,
+      integrityFlags: data.integrityFlags,
+      liveCapturedAt: data.liveCapturedAt,
+      media: data.media,
+    };
+  }
+
+  // Send a text message, optionally as a reply and with @mentions
   static async sendTextMessage(
     groupId: string,
     userId: string,
     userName: string,
-    text: string
+    text: string,
+    options: { replyTo?: GroupChatMessage; mentions?: string[] } = {}
   ): Promise<string> {
     try {
-      const messageData = {
+      const { replyTo, mentions } = options;
+      const messageData: any = {
         groupId,
         userId,
         userName,
         text,
         type: 'text' as const,
-        upvotes: 0,
-        downvotes: 0,
-        upvotedBy: [],
-        downvotedBy: [],
+        reactions: {},
         timestamp: serverTimestamp(),
       };
+      if (mentions && mentions.length > 0) {
+        messageData.mentions = mentions;
+      }
+      if (replyTo) {
+        const replyRef: MessageReplyRef = {
+          messageId: replyTo.replyTo?.messageId || replyTo.id,
+          userId: replyTo.userId,
+          userName: replyTo.userName,
+          text: (replyTo.text || replyTo.caption || '').slice(0, REPLY_PREVIEW_LENGTH),
+        };
+        messageData.replyTo = replyRef;
+      }
 
       const docRef = await addDoc(collection(db, 'messages'), messageData);
+      if (messageData.replyTo) {
+        await updateDoc(doc(db, 'messages', messageData.replyTo.messageId), { replyCount: increment(1) })
+          .catch(e => { if (__DEV__) console.error('Reply count update error:', e); });
+      }
       return docRef.id;
     } catch (error) {
       if (__DEV__) console.error('Error sending text message:', error);
@@ -179,69 +289,75 @@ export class MessageService {
       );
 
       const querySnapshot = await getDocs(messagesQuery);
-      return querySnapshot.docs.map(doc => {
-        const data = doc.data();
-        const type = data.type || (data.challengeTitle ? 'checkin' : 'text');
-        return {
-          id: doc.id,
-          text: data.text || '',
-          userId: data.userId,
-          userName: data.userName,
-          timestamp: data.timestamp?.toDate() || new Date(),
-          type,
-          imageUrl: data.imageUrl,
-          caption: data.caption,
-          challengeTitle: data.challengeTitle,
-          challengeName: data.challengeName,
-          upvotes: data.upvotes || 0,
-          downvotes: data.downvotes || 0,
-          upvotedBy: data.upvotedBy || [],
-          downvotedBy: data.downvotedBy || [],
-          streak: data.streak || undefined,
-        } as GroupChatMessage;
-      });
+      return querySnapshot.docs.map(d => this.toGroupChatMessage(d.id, d.data()));
     } catch (error) {
       if (__DEV__) console.error('Error getting group messages:', error);
       return [];
     }
   }
 
-  // Listen to real-time messages for a group
+  // Get one page of a group's messages, newest first, starting after `cursor`
+  static async getGroupMessagesPage(
+    groupId: string,
+    cursor: QueryDocumentSnapshot | null = null,
+    pageSize: number = CHAT_PAGE_SIZE
+  ): Promise<GroupMessagesPage> {
+    try {
+      const messagesQuery = cursor
+        ? query(
+            collection(db, 'messages'),
+            where('groupId', '==', groupId),
+            orderBy('timestamp', 'desc'),
+            startAfter(cursor),
+            limit(pageSize)
+          )
+        : query(
+            collection(db, 'messages'),
+            where('groupId', '==', groupId),
+            orderBy('timestamp', 'desc'),
+            limit(pageSize)
+          );
+
+      const querySnapshot = await getDocs(messagesQuery);
+      const docs = querySnapshot.docs;
+      return {
+        messages: docs.map(d => this.toGroupChatMessage(d.id, d.data())),
+        cursor: docs.length > 0 ? docs[docs.length - 1] : cursor,
+        hasMore: docs.length === pageSize,
+      };
+    } catch (error) {
+      if (__DEV__) console.error('Error getting group messages page:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Listen to the tail of a group chat: every message from `since` on (the
+   * oldest message of the first page), plus new ones as they arrive. Older
+   * history is loaded with getGroupMessagesPage.
+   */
   static subscribeToGroupMessages(
-    groupId: string, 
-    callback: (messages: GroupChatMessage[]) => void,
-    limitCount: number = 50
+    groupId: string,
+    since: Date | null,
+    callback: (messages: GroupChatMessage[]) => void
   ) {
-    const messagesQuery = query(
-      collection(db, 'messages'),
-      where('groupId', '==', groupId),
-      orderBy('timestamp', 'desc'),
-      limit(limitCount)
-    );
+    const messagesQuery = since
+      ? query(
+          collection(db, 'messages'),
+          where('groupId', '==', groupId),
+          where('timestamp', '>=', since),
+          orderBy('timestamp', 'desc')
+        )
+      : query(
+          collection(db, 'messages'),
+          where('groupId', '==', groupId),
+          orderBy('timestamp', 'desc')
+        );
 
     return onSnapshot(
       messagesQuery, 
       (querySnapshot) => {
-        const messages = querySnapshot.docs.map(doc => {
-          const data = doc.data();
-          const type = data.type || (data.challengeTitle ? 'checkin' : 'text');
-          return {
-            id: doc.id,
-            text: data.text || '',
-            userId: data.userId,
-            userName: data.userName,
-            timestamp: data.timestamp?.toDate() || new Date(),
-            type,
-            imageUrl: data.imageUrl,
-            caption: data.caption,
-            challengeTitle: data.challengeTitle,
-            challengeName: data.challengeName,
-            upvotes: data.upvotes || 0,
-            downvotes: data.downvotes || 0,
-            upvotedBy: data.upvotedBy || [],
-            downvotedBy: data.downvotedBy || [],
-          } as GroupChatMessage;
-        });
+        const messages = querySnapshot.docs.map(d => this.toGroupChatMessage(d.id, d.data()));
         callback(messages);
       },
       (error) => {
@@ -252,77 +368,97 @@ export class MessageService {
   }
 
   /**
-   * Toggle upvote on a message. Awards +3 XP to author on new upvote.
+   * Set, change or clear (same emoji again) the voter's reaction on a message.
+   * The onMessageReaction function awards the author UPVOTE_RECEIVED XP when a
+   * member goes from no reaction or 👎 to a positive one.
    */
-  static async toggleUpvote(
+  static async toggleReaction(
     messageId: string,
     voterId: string,
-    messageAuthorId: string,
+    emoji: string,
   ): Promise<void> {
     const msgRef = doc(db, 'messages', messageId);
     const msgSnap = await getDoc(msgRef);
     if (!msgSnap.exists()) return;
 
     const data = msgSnap.data();
-    const upvotedBy: string[] = data.upvotedBy || [];
-    const alreadyUpvoted = upvotedBy.includes(voterId);
-
-    if (alreadyUpvoted) {
-      // Remove upvote
-      await updateDoc(msgRef, {
-        upvotedBy: arrayRemove(voterId),
-        upvotes: increment(-1),
-      });
-    } else {
-      // Add upvote + award XP in parallel
-      const ops: Promise<any>[] = [
-        updateDoc(msgRef, {
-          upvotedBy: arrayUnion(voterId),
-          upvotes: increment(1),
-        }),
-      ];
-      if (voterId !== messageAuthorId) {
-        ops.push(
-          GamificationService.updateUserXPOnly(messageAuthorId, XP_VALUES.UPVOTE_RECEIVED)
-            .catch(e => { if (__DEV__) console.error('Upvote XP award error:', e); })
-        );
-      }
-      await Promise.all(ops);
+    const previous = getMessageReactions(data)[voterId];
+    const removing = previous === emoji;
+
+    const update: Record<string, any> = {
+      [`reactions.${voterId}`]: removing ? deleteField() : emoji,
+    };
+    // Move a vote from before reactions over to the reactions map
+    if ((data.upvotedBy || []).includes(voterId)) {
+      update.upvotedBy = arrayRemove(voterId);
+      update.upvotes = increment(-1);
+    }
+    if ((data.downvotedBy || []).includes(voterId)) {
+      update.downvotedBy = arrayRemove(voterId);
+      update.downvotes = increment(-1);
     }
-  }
 
-  /**
-   * Toggle downvote on a message. No XP implications.
-   */
-  static async toggleDownvote(
-    messageId: string,
-    voterId: string,
-  ): Promise<void> {
-    const msgRef = doc(db, 'messages', messageId);
-    const msgSnap = await getDoc(msgRef);
-    if (!msgSnap.exists()) return;
+    await updateDoc(msgRef, update);
+  }
 
-    const data = msgSnap.data();
-    const downvotedBy: string[] = data.downvotedBy || [];
-    const alreadyDownvoted = downvotedBy.includes(voterId);
+  // Replies in a thread, oldest first
+  static async getThreadReplies(groupId: string, rootMessageId: string): Promise<GroupChatMessage[]> {
+    try {
+      const repliesQuery = query(
+        collection(db, 'messages'),
+        where('groupId', '==', groupId),
+        where('replyTo.messageId', '==', rootMessageId),
+        orderBy('timestamp', 'asc')
+      );
+      const querySnapshot = await getDocs(repliesQuery);
+      return querySnapshot.docs.map(d => this.toGroupChatMessage(d.id, d.data()));
+    } catch (error) {
+      if (__DEV__) console.error('Error getting thread replies:', error);
+      return [];
+    }
+  }
 
-    if (alreadyDownvoted) {
-      await updateDoc(msgRef, {
-        downvotedBy: arrayRemove(voterId),
-        downvotes: increment(-1),
+  // Edit the text of the author's own text message, keeping the old text in editHistory
+  static async editMessage(message: GroupChatMessage, text: string, mentions: string[] = []): Promise<void> {
+    try {
+      await updateDoc(doc(db, 'messages', message.id), {
+        text,
+        mentions,
+        editedAt: serverTimestamp(),
+        editHistory: arrayUnion({
+          text: message.text || '',
+          editedAt: Timestamp.fromDate(message.editedAt || message.timestamp),
+        }),
       });
-    } else {
-      await updateDoc(msgRef, {
-        downvotedBy: arrayUnion(voterId),
-        downvotes: increment(1),
+    } catch (error) {
+      if (__DEV__) console.error('Error editing message:', error);
+      throw error;
+    }
+  }
+
+  // Report a message for review; stores a copy of the text in case it's deleted
+  static async reportMessage(message: GroupChatMessage, groupId: string, reporterId: string, reason: ReportReason): Promise<void> {
+    try {
+      await addDoc(collection(db, 'reports'), {
+        messageId: message.id,
+        groupId,
+        reporterId,
+        reportedUserId: message.userId,
+        reason,
+        text: message.text || message.caption || '',
+        imageUrl: message.imageUrl || null,
+        status: 'open',
+        createdAt: serverTimestamp(),
       });
+    } catch (error) {
+      if (__DEV__) console.error('Error reporting message:', error);
+      throw error;
     }
   }
 
-  // Delete a message (only for message sender or group admin)
+  // Delete a message (only for message sender or group admin; enforced by rules)
   static async deleteMessage(messageId: string): Promise<void> {
     try {
-      // Note: You might want to add security rules to only allow deletion by sender
       await deleteDoc(doc(db, 'messages', messageId));
     } catch (error) {
       if (__DEV__) console.error('Error deleting message:', error);
@@ -330,7 +466,7 @@ export class MessageService {
     }
   }
 
-  // Get message count for a group
+  // Get message count for a group (aggregation query; doesn't read the messages)
   static async getGroupMessageCount(groupId: string): Promise<number> {
     try {
       const messagesQuery = query(
@@ -338,27 +474,91 @@ export class MessageService {
         where('groupId', '==', groupId)
       );
       
-      const querySnapshot = await getDocs(messagesQuery);
-      return querySnapshot.size;
+      const snapshot = await getCountFromServer(messagesQuery);
+      return snapshot.data().count;
     } catch (error) {
       if (__DEV__) console.error('Error getting message count:', error);
       return 0;
     }
   }
 
+  // When the user last read a group's chat (chatReads/{groupId}_{userId}); null if never
+  static async getLastReadAt(groupId: string, userId: string): Promise<Date | null> {
+    try {
+      const snap = await getDoc(doc(db, 'chatReads', `${groupId}_${userId}`));
+      return snap.exists() ? snap.data().lastReadAt?.toDate() || null : null;
+    } catch (error) {
+      if (__DEV__) console.error('Error getting chat read marker:', error);
+      return null;
+    }
+  }
+
+  // Mark everything in a group's chat as read for the user
+  static async markGroupRead(groupId: string, userId: string): Promise<void> {
+    try {
+      await setDoc(
+        doc(db, 'chatReads', `${groupId}_${userId}`),
+        { groupId, userId, lastReadAt: serverTimestamp() },
+        { merge: true }
+      );
+    } catch (error) {
+      if (__DEV__) console.error('Error marking chat read:', error);
+    }
+  }
+
+  /**
+   * Messages from other members since the user last read the chat. Counted
+   * with two aggregation queries (all new messages minus the user's own).
+   */
+  static async getUnreadCount(groupId: string, userId: string): Promise<number> {
+    try {
+      const lastReadAt = await this.getLastReadAt(groupId, userId);
+      const base = [where('groupId', '==', groupId), ...(lastReadAt ? [where('timestamp', '>', lastReadAt)] : [])];
+      const [all, own] = await Promise.all([
+        getCountFromServer(query(collection(db, 'messages'), ...base)),
+        getCountFromServer(query(collection(db, 'messages'), where('userId', '==', userId), ...base)),
+      ]);
+      return Math.max(0, all.data().count - own.data().count);
+    } catch (error) {
+      if (__DEV__) console.error('Error getting unread count:', error);
+      return 0;
+    }
+  }
+
+  // Downscale a local photo that is larger than MAX_UPLOAD_DIMENSION
+  private static async resizeForUpload(imageUri: string): Promise<string> {
+    try {
+      const { width, height } = await new Promise<{ width: number; height: number }>((resolve, reject) =>
+        Image.getSize(imageUri, (w, h) => resolve({ width: w, height: h }), reject)
+      );
+      if (Math.max(width, height) <= MAX_UPLOAD_DIMENSION) return imageUri;
+      const resize = width >= height ? { width: MAX_UPLOAD_DIMENSION } : { height: MAX_UPLOAD_DIMENSION };
+      const result = await ImageManipulator.manipulateAsync(imageUri, [{ resize }], {
+        compress: 0.8,
+        format: ImageManipulator.SaveFormat.JPEG,
+      });
+      return result.uri;
+    } catch (error) {
+      // Upload the original rather than fail the check-in
+      if (__DEV__) console.error('Error resizing image:', error);
+      return imageUri;
+    }
+  }
+
   // Upload image to Firebase Storage and return download URL
   static async uploadImage(imageUri: string): Promise<string> {
     try {
+      const uploadUri = await this.resizeForUpload(imageUri);
       // Use fetch to convert URI to blob (stable on modern Expo/RN — avoids XHR native crashes)
-      const response = await fetch(imageUri);
+      const response = await fetch(uploadUri);
       const blob = await response.blob();
 
       // Generate unique filename
       const filename = `checkin_images/${Date.now()}_${Math.random().toString(36).substring(7)}.jpg`;
       const storageRef = ref(storage, filename);
 
-      // Upload image to Firebase Storage
-      await uploadBytes(storageRef, blob);
+      // Upload image to Firebase Storage; the image content type triggers the resized variants
+      await uploadBytes(storageRef, blob, { contentType: 'image/jpeg' });
 
       // Close the blob to free native memory
       if (typeof (blob as any).close === 'function') {
@@ -373,6 +573,42 @@ export class MessageService {
     }
   }
 
+  // Upload a video clip to Firebase Storage and return download URL
+  static async uploadVideo(videoUri: string): Promise<string> {
+    try {
+      const response = await fetch(videoUri);
+      const blob = await response.blob();
+
+      const isMov = /\.mov$/i.test(videoUri);
+      const filename = `checkin_videos/${Date.now()}_${Math.random().toString(36).substring(7)}.${isMov ? 'mov' : 'mp4'}`;
+      const storageRef = ref(storage, filename);
+      await uploadBytes(storageRef, blob, { contentType: isMov ? 'video/quicktime' : 'video/mp4' });
+
+      if (typeof (blob as any).close === 'function') {
+        (blob as any).close();
+      }
+
+      return await getDownloadURL(storageRef);
+    } catch (error) {
+      if (__DEV__) console.error('Error uploading video:', error);
+      throw error;
+    }
+  }
+
+  // Upload a check-in's local photos and videos; already-uploaded URLs are kept as-is
+  static async uploadAttachments<T extends UploadableAttachment>(attachments: T[]): Promise<T[]> {
+    const uploaded: T[] = [];
+    // Upload sequentially to avoid concurrent blob fetch crashes on RN
+    for (const a of attachments) {
+      let uri = a.uri;
+      if (!/^https?:\/\//.test(uri)) {
+        uri = a.type === 'video' ? await this.uploadVideo(uri) : await this.uploadImage(uri);
+      }
+      uploaded.push({ ...a, uri });
+    }
+    return uploaded;
+  }
+
   // Send a check-in message
   static async sendCheckInMessage(
     groupId: string,
@@ -382,6 +618,9 @@ export class MessageService {
     imageUrl?: string | null,
     challengeTitle?: string,
     streak?: number,
+    integrityFlags?: PhotoIntegrityFlag[],
+    liveCapturedAt?: number,
+    media?: UploadableAttachment[],
   ): Promise<string> {
     try {
       const messageData: Record<string, any> = {
@@ -393,15 +632,25 @@ export class MessageService {
         imageUrl: imageUrl || null,
         caption: caption,
         challengeTitle: challengeTitle || '',
-        upvotes: 0,
-        downvotes: 0,
-        upvotedBy: [],
-        downvotedBy: [],
+        reactions: {},
         timestamp: serverTimestamp(),
       };
       if (streak && streak > 0) {
         messageData.streak = streak;
       }
+      if (integrityFlags && integrityFlags.length > 0) {
+        messageData.integrityFlags = integrityFlags;
+      }
+      if (imageUrl && liveCapturedAt) {
+        messageData.liveCapturedAt = liveCapturedAt;
+      }
+      if (media && (media.length > 1 || media.some(m => m.type === 'video'))) {
+        messageData.media = media.map((m): CheckInMessageMedia => ({
+          type: m.type,
+          uri: m.uri,
+          ...(m.meta?.live && m.meta.capturedAt !== undefined && { liveCapturedAt: m.meta.capturedAt }),
+        }));
+      }
 
       const docRef = await addDoc(collection(db, 'messages'), messageData);
       return docRef.id;
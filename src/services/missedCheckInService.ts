@@ -11,21 +11,13 @@ import {
 import { db } from './firebase';
 import { MessageService } from './messageService';
 import { CheckInService } from './checkInService';
-import { dateKeys } from '../utils/dateKeys';
-import {
-  resolveAdminTimeZone,
-  getCurrentPeriodDayKey as getIanaPeriodDayKey,
-  getCurrentPeriodWeekKey as getIanaPeriodWeekKey,
-} from '../utils/dueTime';
+import { getPreviousPeriodKey, getPeriodKeyField, isActivePeriodKey } from '../utils/dueTime';
 import { Challenge, User } from '../types';
 
 const NOTIFIED_COLLECTION = 'missedCheckInNotified';
-const PROGRESSION_INTERVAL_COLLECTION = 'progressionIntervalNotified';
 const SYSTEM_USER_ID = 'system-missed';
 const SYSTEM_USER_NAME = 'SquadCheck';
 
-const MS_PER_DAY = 24 * 60 * 60 * 1000;
-
 /** Elimination: mark member as eliminated, increment strikes. */
 async function setMemberEliminated(
   challengeId: string,
@@ -56,37 +48,6 @@ async function setMemberEliminated(
   }
 }
 
-function getPreviousPeriodKey(challenge: Challenge): string | null {
-  const cadence = challenge.cadence || { unit: 'daily', weekStartsOn: 0 };
-  const due = challenge.due || {};
-  const dueTimeLocal = due.dueTimeLocal ?? '23:59';
-  const weekStartsOn = cadence.weekStartsOn ?? 0;
-  const adminTz = resolveAdminTimeZone(challenge);
-
-  if (cadence.unit === 'daily') {
-    const currentDayKey = getIanaPeriodDayKey(adminTz, dueTimeLocal);
-    const currentDate = dateKeys.parseKey(currentDayKey);
-    const prevDate = new Date(currentDate);
-    prevDate.setDate(prevDate.getDate() - 1);
-    return dateKeys.getDayKey(prevDate);
-  }
-
-  if (cadence.unit === 'weekly') {
-    const currentWeekKey = getIanaPeriodWeekKey(adminTz, weekStartsOn);
-    const weekStart = dateKeys.parseKey(currentWeekKey);
-    const prevWeekStart = new Date(weekStart);
-    prevWeekStart.setDate(prevWeekStart.getDate() - 7);
-    return dateKeys.getWeekKey(prevWeekStart, weekStartsOn);
-  }
-
-  return null;
-}
-
-function periodKeyField(challenge: Challenge): 'dayKey' | 'weekKey' {
-  const unit = challenge.cadence?.unit ?? 'daily';
-  return unit === 'weekly' ? 'weekKey' : 'dayKey';
-}
-
 export async function processMissedCheckIns(
   groupId: string,
   challenges: Challenge[],
@@ -106,9 +67,9 @@ export async function processMissedCheckIns(
   for (const challenge of challenges) {
     try {
       const previousKey = getPreviousPeriodKey(challenge);
-      if (!previousKey) continue;
+      if (!previousKey || !isActivePeriodKey(previousKey, challenge.cadence)) continue;
 
-      const field = periodKeyField(challenge);
+      const field = getPeriodKeyField(challenge.cadence?.unit);
 
       // For group challenges use all group members; otherwise use challengeMembers (solo/legacy)
       const isGroupChallenge = !!(challenge as any).groupId && (challenge as any).groupId === groupId;
@@ -178,7 +139,7 @@ export async function processMissedCheckIns(
           const challengeRef = doc(db, 'challenges', challenge.id);
           await updateDoc(challengeRef, {
             state: 'ended',
-            winnerId: activeIds[0],
+            winnerIds: [activeIds[0]],
             endedAt: new Date(),
           });
         } else if (activeIds.length === 0) {
@@ -250,63 +211,3 @@ export async function processMissedCheckIns(
     }
   }
 }
-
-/**
- * Progression: when an interval completes (e.g. every N days), post "(Interval type) has increased."
- * Runs for challenges with type === 'progress' and progressionDuration / progressionIntervalType.
- */
-export async function processProgressionIntervals(
-  groupId: string,
-  challenges: Challenge[]
-): Promise<void> {
-  if (!groupId || !Array.isArray(challenges) || challenges.length === 0) return;
-  const now = Date.now();
-  for (const challenge of challenges) {
-    try {
-      const type = (challenge as any).type;
-      const progressionDuration = (challenge as any).progressionDuration as number | undefined;
-      const intervalType = (challenge as any).progressionIntervalType as string | undefined;
-      if (type !== 'progress' || !progressionDuration || !intervalType?.trim()) continue;
-
-      const createdAt = challenge.createdAt;
-      const createdMs =
-        typeof createdAt === 'number'
-          ? createdAt
-          : createdAt && typeof (createdAt as Date).getTime === 'function'
-            ? (createdAt as Date).getTime()
-            : NaN;
-      if (!Number.isFinite(createdMs)) continue;
-      const daysSinceStart = (now - createdMs) / MS_PER_DAY;
-      const currentIntervalIndex = Math.floor(daysSinceStart / progressionDuration);
-      if (currentIntervalIndex < 1) continue;
-
-      const docId = `${groupId}_${challenge.id}_${currentIntervalIndex}`;
-      const notifRef = doc(db, PROGRESSION_INTERVAL_COLLECTION, docId);
-      const snap = await getDoc(notifRef);
-      if (snap.exists()) continue;
-
-      const label = intervalType.trim();
-      const capitalized = label.charAt(0).toUpperCase() + label.slice(1).toLowerCase();
-      const text = `${capitalized} has increased.`;
-
-      await MessageService.sendTextMessage(
-        groupId,
-        SYSTEM_USER_ID,
-        SYSTEM_USER_NAME,
-        text
-      );
-      await setDoc(notifRef, {
-        groupId,
-        challengeId: challenge.id,
-        intervalIndex: currentIntervalIndex,
-        notifiedAt: new Date(),
-      });
-    } catch (err) {
-      if (__DEV__) console.error(
-        '[missedCheckInService] Error processing progression',
-        challenge.id,
-        err
-      );
-    }
-  }
-}
@@ -21,6 +21,7 @@ import { NotificationPreferences, AppNotification, Reminder } from '../types';
 const DEFAULT_PREFERENCES: NotificationPreferences = {
   hour_before: true,
   chat_all: true,
+  mentions: true,
   group_checkins: true,
   elimination: true,
   invites: true,
@@ -0,0 +1,208 @@
+import { AppState, AppStateStatus } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CheckInService, CheckInResult, CheckInAttachmentInput } from './checkInService';
+import { MessageService } from './messageService';
+
+const QUEUE_STORAGE_KEY = '@squadcheck_checkin_queue';
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+// Errors that mean "couldn't reach the server", as opposed to a rejected check-in
+const NETWORK_ERROR_CODES = [
+  'functions/unavailable',
+  'functions/deadline-exceeded',
+  'storage/retry-limit-exceeded',
+  'storage/unknown',
+];
+
+export interface QueuedCheckIn {
+  /** Client id, sent as `queueId` so a retried sync can't submit twice */
+  id: string;
+  userId: string;
+  userName: string;
+  challengeId: string;
+  challengeTitle?: string;
+  groupId?: string | null;
+  payload: {
+    booleanValue?: boolean;
+    numberValue?: number;
+    textValue?: string;
+    timerSeconds?: number;
+  };
+  /** Local file URIs until the sync uploads them */
+  attachments: CheckInAttachmentInput[];
+  /** When the check-in was made; the server credits that moment's period */
+  capturedAt: number;
+  /** 'failed' items were rejected by the server and wait for a manual retry or cancel */
+  status: 'pending' | 'syncing' | 'failed';
+  error?: string;
+}
+
+type QueueListener = (queue: QueuedCheckIn[]) => void;
+
+const listeners = new Set<QueueListener>();
+let syncPromise: Promise<void> | null = null;
+
+export class OfflineCheckInService {
+  static isNetworkError(error: unknown): boolean {
+    const code = (error as { code?: string })?.code;
+    if (code && NETWORK_ERROR_CODES.includes(code)) return true;
+    const message = error instanceof Error ? error.message : '';
+    return /network request failed|network error|offline/i.test(message);
+  }
+
+  static async getQueue(userId?: string): Promise<QueuedCheckIn[]> {
+    try {
+      const json = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+      const queue: QueuedCheckIn[] = json ? JSON.parse(json) : [];
+      return userId ? queue.filter(item => item.userId === userId) : queue;
+    } catch (error) {
+      if (__DEV__) console.error('Error reading check-in queue:', error);
+      return [];
+    }
+  }
+
+  private static async saveQueue(queue: QueuedCheckIn[]): Promise<void> {
+    await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+    listeners.forEach(listener => listener(queue));
+  }
+
+  private static async updateItem(id: string, changes: Partial<QueuedCheckIn>): Promise<void> {
+    const queue = await this.getQueue();
+    await this.saveQueue(queue.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }
+
+  // Keep a check-in that couldn't be submitted; it syncs when the app is back online
+  static async enqueue(
+    item: Omit<QueuedCheckIn, 'id' | 'status' | 'error'>
+  ): Promise<QueuedCheckIn> {
+    const queued: QueuedCheckIn = {
+      ...item,
+      id: `${item.capturedAt.toString(36)}${Math.random().toString(36).slice(2, 10)}`,
+      status: 'pending',
+    };
+    const queue = await this.getQueue();
+    await this.saveQueue([...queue, queued]);
+    return queued;
+  }
+
+  static async cancel(id: string): Promise<void> {
+    const queue = await this.getQueue();
+    await this.saveQueue(queue.filter(item => item.id !== id));
+  }
+
+  // Retry a single item now (failed items are only retried this way)
+  static async retry(id: string): Promise<CheckInResult | null> {
+    const item = (await this.getQueue()).find(q => q.id === id);
+    if (!item || item.status === 'syncing') return null;
+    return this.syncItem(item);
+  }
+
+  // Submit every pending item, oldest first. Concurrent calls share one run.
+  static syncPending(userId: string): Promise<void> {
+    if (syncPromise) return syncPromise;
+    syncPromise = (async () => {
+      try {
+        const pending = (await this.getQueue(userId))
+          .filter(item => item.status !== 'failed')
+          .sort((a, b) => a.capturedAt - b.capturedAt);
+        for (const item of pending) {
+          await this.syncItem(item);
+          // Put back to pending = still offline; wait for the next attempt
+          const after = (await this.getQueue()).find(q => q.id === item.id);
+          if (after?.status === 'pending') break;
+        }
+      } finally {
+        syncPromise = null;
+      }
+    })();
+    return syncPromise;
+  }
+
+  /**
+   * Upload the item's photos and submit it with its capture time. Synced and
+   * duplicate items leave the queue, rejected ones are marked 'failed' and
+   * network errors put them back to 'pending'. Returns null unless it synced.
+   */
+  private static async syncItem(item: QueuedCheckIn): Promise<CheckInResult | null> {
+    await this.updateItem(item.id, { status: 'syncing', error: undefined });
+    try {
+      const attachments = await MessageService.uploadAttachments(item.attachments);
+      const firstPhoto = attachments.find(a => a.type !== 'video');
+      // Keep uploaded URLs so a retry doesn't upload again
+      await this.updateItem(item.id, { attachments });
+
+      const result = await CheckInService.submitChallengeCheckIn(
+        item.challengeId,
+        item.userId,
+        item.payload,
+        attachments,
+        { capturedAt: item.capturedAt, queueId: item.id }
+      );
+      await this.cancel(item.id);
+
+      if (item.groupId) {
+        MessageService.sendCheckInMessage(
+          item.groupId,
+          item.userId,
+          item.userName,
+          item.payload.textValue || 'Completed check-in',
+          firstPhoto ? firstPhoto.uri : null,
+          item.challengeTitle,
+          result?.streakResult?.currentStreak ?? 0,
+          result?.integrityFlags,
+          firstPhoto?.meta?.live ? firstPhoto.meta.capturedAt : undefined,
+          attachments,
+        ).catch((e) => {
+          if (__DEV__) console.error('Chat message error (non-blocking):', e);
+        });
+      }
+      return result;
+    } catch (error) {
+      if (this.isNetworkError(error)) {
+        await this.updateItem(item.id, { status: 'pending' });
+      } else if ((error as { code?: string })?.code === 'functions/already-exists') {
+        // Already submitted by an earlier attempt, or the period is already complete
+        await this.cancel(item.id);
+      } else {
+        await this.updateItem(item.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to submit check-in',
+        });
+      }
+      return null;
+    }
+  }
+
+  static subscribe(listener: QueueListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Sync the user's queue now, whenever the app comes to the foreground and
+   * every minute while items are pending. Returns a stop function.
+   */
+  static startAutoSync(userId: string): () => void {
+    const sync = () => {
+      this.syncPending(userId).catch((e) => {
+        if (__DEV__) console.error('Check-in queue sync error:', e);
+      });
+    };
+    sync();
+
+    const subscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') sync();
+    });
+    const interval = setInterval(async () => {
+      const queue = await this.getQueue(userId);
+      if (queue.some(item => item.status === 'pending')) sync();
+    }, SYNC_INTERVAL_MS);
+
+    return () => {
+      subscription.remove();
+      clearInterval(interval);
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import * as ImageManipulator from 'expo-image-manipulator';
+import type { ImagePickerAsset } from 'expo-image-picker';
+import { computeDHashFromPngBase64, DHASH_WIDTH, DHASH_HEIGHT } from '../utils/imageHash';
+import type { PhotoCaptureMeta, PhotoSource } from '../utils/photoIntegrity';
+
+// EXIF dates look like "2024:05:01 18:42:07" (device local time)
+const EXIF_DATE_PATTERN = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/;
+// Live captures are re-encoded at this width at most
+const LIVE_CAPTURE_MAX_WIDTH = 1440;
+
+export class PhotoProofService {
+  // Capture time of a library photo from its EXIF data, if present
+  static getExifCaptureTime(exif: Record<string, any> | null | undefined): number | undefined {
+    const raw = exif?.DateTimeOriginal || exif?.DateTimeDigitized || exif?.DateTime;
+    const match = typeof raw === 'string' ? EXIF_DATE_PATTERN.exec(raw) : null;
+    if (!match) return undefined;
+    const [, y, mo, d, h, mi, s] = match.map(Number);
+    const time = new Date(y, mo - 1, d, h, mi, s).getTime();
+    return Number.isNaN(time) ? undefined : time;
+  }
+
+  // Perceptual hash of the photo; undefined if it can't be computed
+  static async computeHash(uri: string): Promise<string | undefined> {
+    try {
+      const small = await ImageManipulator.manipulateAsync(
+        uri,
+        [{ resize: { width: DHASH_WIDTH, height: DHASH_HEIGHT } }],
+        { format: ImageManipulator.SaveFormat.PNG, base64: true }
+      );
+      return small.base64 ? computeDHashFromPngBase64(small.base64) : undefined;
+    } catch (error) {
+      if (__DEV__) console.error('Error hashing photo:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Capture metadata for a picked photo. Camera photos are taken now; library
+   * photos use their EXIF time. Never throws — missing fields just mean the
+   * server can't check that part.
+   */
+  static async getCaptureMeta(asset: ImagePickerAsset, source: PhotoSource): Promise<PhotoCaptureMeta> {
+    const capturedAt = source === 'camera' ? Date.now() : this.getExifCaptureTime(asset.exif);
+    const hash = await this.computeHash(asset.uri);
+    return {
+      source,
+      ...(capturedAt !== undefined && { capturedAt }),
+      ...(hash && { hash }),
+    };
+  }
+
+  /**
+   * Prepare a photo from the in-app camera for a live-capture-only challenge:
+   * re-encode it (which drops the camera's EXIF block) and record it as live.
+   * The date/time stamp is drawn over the photo from `capturedAt` wherever it
+   * is shown (LiveCaptureStamp); expo-image-manipulator can't draw text.
+   */
+  static async prepareLiveCapture(
+    photo: { uri: string; width: number },
+    capturedAt: number
+  ): Promise<{ uri: string; meta: PhotoCaptureMeta }> {
+    const resized = await ImageManipulator.manipulateAsync(
+      photo.uri,
+      photo.width > LIVE_CAPTURE_MAX_WIDTH ? [{ resize: { width: LIVE_CAPTURE_MAX_WIDTH } }] : [],
+      { compress: 0.8, format: ImageManipulator.SaveFormat.JPEG }
+    );
+    const hash = await this.computeHash(resized.uri);
+    return {
+      uri: resized.uri,
+      meta: { source: 'camera', capturedAt, live: true, ...(hash && { hash }) },
+    };
+  }
+}
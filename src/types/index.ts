@@ -26,6 +26,8 @@ export interface User {
 export interface NotificationPreferences {
   hour_before: boolean;
   chat_all: boolean;
+  /** @mentions in group chat; sent even when chat_all is off */
+  mentions: boolean;
   group_checkins: boolean;
   elimination: boolean;
   invites: boolean;
@@ -85,6 +87,14 @@ export interface Group {
   memberIds: string[];
   createdBy: string;
   createdAt: Date;
+  /** Set on groups created by GroupService.createGroup */
+  creatorId?: string;
+  /** The owner (see utils/groupRoles); older groups fall back to creatorId */
+  ownerId?: string;
+  /** Members the owner made admins */
+  adminIds?: string[];
+  /** Members a group admin muted in the chat */
+  mutedUserIds?: string[];
 }
 
 // Challenge: New comprehensive schema
@@ -95,13 +105,16 @@ export interface Challenge {
   title: string;
   description?: string;
 
-  type: 'standard' | 'progress' | 'elimination' | 'deadline';
+  type: 'standard' | 'progress' | 'elimination' | 'deadline' | 'team';
   category?: string;                   // e.g. 'fitness', 'diet', 'study', 'custom'
 
   cadence: {
-    unit: 'daily' | 'weekly';
-    requiredCount?: number;          // e.g. 3x per week
+    unit: 'daily' | 'weekly' | 'monthly' | 'interval';
+    requiredCount?: number;          // e.g. 3x per week, 4x per month
     weekStartsOn?: 0 | 1 | 2 | 3 | 4 | 5 | 6;     // 1 = Monday
+    intervalDays?: number;           // interval: period length ("every N days")
+    anchorDate?: string;             // interval: first day of the first period, YYYY-MM-DD
+    activeWeekdays?: number[];       // daily: check-in days (0 = Sunday); others are off-days
   };
 
   submission: {
@@ -110,6 +123,7 @@ export interface Challenge {
     minValue?: number;
     requireAttachment?: boolean;
     attachmentTypes?: ('photo' | 'screenshot')[];
+    liveCaptureOnly?: boolean;       // photos must be taken with the in-app camera, no library picks
     requireText?: boolean;
     minTextLength?: number;
   };
@@ -124,15 +138,28 @@ export interface Challenge {
 
   rules?: {
     progress?: {
-      startsAt: number;
-      increaseBy: number;
-      increaseUnit: 'week';
+      startsAt: number;              // target of the first step
+      increaseBy: number;            // added every step (negative when lower is better)
+      increaseUnit: 'day' | 'week' | 'interval';
+      intervalDays?: number;         // 'interval' steps
       comparison: 'gte' | 'lte';
+      cap?: number;                  // the target never goes past this
+      deload?: { everySteps: number; percent: number }; // every Nth step keeps percent% of the gains
+      anchorDate?: string;           // YYYY-MM-DD, first day of step 1 in adminTimeZone
     };
 
     elimination?: {
       strikesAllowed: number;        // 0 = instant elimination
       eliminateOn: 'miss' | 'failedRequirement';
+      // When the last members are eliminated together (default 'shared': co-winners)
+      tieBreak?: 'shared' | 'fewestStrikes' | 'highestTotal' | 'suddenDeath';
+      // Optional way back in: spend XP ('buyBack') or be voted back ('vote')
+      revival?: {
+        mode: 'buyBack' | 'vote';
+        maxPerMember: number;        // revivals each member can use
+        xpCost?: number;             // buyBack, default 100
+        votesNeeded?: number;        // vote, default a majority of active members
+      };
     };
 
     deadline?: {
@@ -140,11 +167,35 @@ export interface Challenge {
       comparison?: 'gte' | 'lte';
       progressMode: 'accumulate' | 'latest';
     };
+
+    team?: {
+      teams: Array<{ id: string; name: string }>;
+      successMode: 'percent' | 'sum';  // % of members checked in, or summed numberValue
+      completionPercent?: number;      // percent mode, default 80
+      targetValue?: number;            // sum mode, per period
+    };
   };
 
+  // Team challenges: periods each team has won, maintained by the scheduler
+  teamScores?: Record<string, { periodsWon: number; periodsPlayed: number }>;
+
+  // Progress challenges: last step announced in the group chat, maintained by the scheduler
+  progressionStep?: number;
+
   settings?: {
     allowLateCheckIn?: boolean;
     lateGraceMinutes?: number;
+    // Opt-in peer verification: members can dispute a check-in within windowHours;
+    // `threshold` disputes move it to 'disputed' until the admin resolves it.
+    disputes?: {
+      enabled: boolean;
+      windowHours?: number;          // default 24
+      threshold?: number;            // default 2
+    };
+    // Opt-in member pauses: each member may pause for up to maxDaysPerMember days in total
+    pauses?: {
+      maxDaysPerMember: number;
+    };
   };
 
   // Admin / ownership
@@ -153,11 +204,27 @@ export interface Challenge {
 
   // Challenge lifecycle state
   state?: 'active' | 'ended';       // Default 'active'. Set to 'ended' when deadline/winner.
+
+  // Scheduling
+  startsAt?: string;                 // YYYY-MM-DD in adminTimeZone; check-ins open that day (unset = at creation)
+  season?: {                         // Restarts automatically; every season is its own challenge doc
+    number: number;
+    lengthDays: number;
+    startKey: string;                // YYYY-MM-DD, first day of the season
+    endKey: string;                  // YYYY-MM-DD, last day of the season
+    rootId?: string;                 // Season 1's challenge id
+    nextSeasonId?: string;           // Set on a finished season once the next one started
+  };
   endedAt?: Date;                    // When the challenge ended
-  winnerId?: string;                 // userId of the winner (elimination challenges)
+  winnerIds?: string[];              // Elimination winners; several when a tie is shared
+  winnerId?: string;                 // Legacy single winner, before winnerIds
+  suddenDeath?: { userIds: string[]; periodKey: string }; // Tied last members playing on
 
-  // Scheduler hint: next due moment as UTC millis for efficient querying
+  // Scheduler hint: next due moment (+ late grace) as UTC millis. The scheduler only
+  // queries challenges past this value, advances it after each run, and removes it on end.
   nextDueAtUtc?: number;
+  // Last period key the scheduler has evaluated; catch-up resumes after it
+  lastEvaluatedPeriodKey?: string;
 
   createdBy: string;
   createdAt: Date;
@@ -172,9 +239,10 @@ export interface CheckIn {
   userId: string;
 
   period: {
-    unit: 'daily' | 'weekly';
+    unit: 'daily' | 'weekly' | 'monthly' | 'interval';
     dayKey?: string;                // YYYY-MM-DD
     weekKey?: string;               // week start date YYYY-MM-DD
+    periodKey?: string;             // monthly / interval: period start date YYYY-MM-DD
   };
 
   payload: {
@@ -185,24 +253,67 @@ export interface CheckIn {
   };
 
   attachments?: Array<{
-    type: 'photo' | 'screenshot';
+    type: 'photo' | 'screenshot' | 'video';
     storagePath: string;
     downloadUrl?: string;
     width?: number;
     height?: number;
+    durationSeconds?: number;       // video clips
+    meta?: {                        // recorded when the photo was picked (see utils/photoIntegrity)
+      source: 'camera' | 'library';
+      capturedAt?: number;
+      hash?: string;
+      live?: boolean;
+    };
+    verifiedLive?: boolean;         // server-checked live capture (submission.liveCaptureOnly)
   }>;
 
-  status: 'completed' | 'pending' | 'missed' | 'failed';
+  status: 'completed' | 'pending' | 'missed' | 'failed' | 'retracted' | 'disputed' | 'rejected';
+  late?: boolean;                   // Submitted inside the previous period's late window
+
+  // Peer disputes (when the challenge enables them). 'rejected' counts as a miss.
+  dispute?: {
+    by: string[];                   // userIds who disputed
+    disputedAt?: number;            // when the threshold was reached
+    resolution?: 'upheld' | 'rejected';
+    resolvedBy?: string;
+    resolvedAt?: number;
+  };
+
+  // Audit trail: each edit/retraction appends the values it replaced
+  revisions?: Array<{
+    action: 'edited' | 'retracted';
+    at: number;
+    payload: CheckIn['payload'];
+    attachments: Array<{ type: 'photo' | 'screenshot' | 'video'; uri: string }>;
+  }>;
+  editedAt?: number;
+  retractedAt?: number;
 
   computed?: {
     targetValue?: number;
     metRequirement?: boolean;
   };
 
+  // Photo proof checks (see utils/photoIntegrity). Flagged check-ins still count.
+  photoHashes?: string[];
+  integrity?: {
+    flags: Array<'outsidePeriod' | 'duplicate'>;
+    duplicateOf?: string;           // check-in whose photo this one matched
+  };
+
   createdAt: Date;
   updatedAt?: Date;
 }
 
+// A member's scheduled pause: whole admin-zone days, both ends inclusive
+export interface MemberPause {
+  startKey: string;               // YYYY-MM-DD
+  endKey: string;                 // YYYY-MM-DD
+  startAnnounced?: boolean;       // Set by the scheduler once the group was told
+  endAnnounced?: boolean;
+}
+
 // ChallengeMember: Tracks elimination and strikes
 export interface ChallengeMember {
   id: string;                     // `${challengeId}_${userId}`
@@ -213,7 +324,18 @@ export interface ChallengeMember {
   state: 'active' | 'eliminated';
   strikes: number;
   eliminatedAt?: Date;
+  revivals?: number;              // Times revived (buyBackIn / voteToRevive callables)
+  revivedAt?: Date;
+  revivalVotes?: string[];        // Vote revivals: members who voted for the next revival
   lastEvaluatedPeriodKey?: string;
+  teamId?: string;                // Team challenges: id from challenge.rules.team.teams
+  pauses?: MemberPause[];         // Scheduled via the schedulePause callable (admin-zone day keys)
+  // Deadline challenges: final result, written by the scheduler when the deadline passes
+  deadlineOutcome?: {
+    value: number | null;         // accumulated or latest value; null without check-ins
+    reached: boolean;
+    rank: number;
+  };
 
   // Gamification — streaks
   currentStreak: number;
@@ -235,6 +357,43 @@ export interface GroupInvitation {
   expiresAt: Date;
 }
 
+// Shareable invite code (doc id is the code); issued and redeemed by Cloud Functions
+export interface GroupInviteCode {
+  code: string;
+  groupId: string;
+  createdBy: string;
+  createdAt: Date;
+  expiresAt: Date;
+  /** Joining files a GroupJoinRequest for the owner and admins to answer */
+  requiresApproval: boolean;
+  revoked: boolean;
+  useCount: number;
+}
+
+// Request to join through an invite code that needs approval ({groupId}_{userId})
+export interface GroupJoinRequest {
+  id: string;
+  groupId: string;
+  userId: string;
+  code: string;
+  status: 'pending' | 'approved' | 'declined';
+  requestedAt: Date;
+}
+
+// What the join screen shows for an invite code (previewGroupInvite)
+export interface GroupInvitePreview {
+  code: string;
+  groupId: string;
+  name: string;
+  description: string | null;
+  memberCount: number;
+  members: { id: string; displayName: string; photoURL: string | null }[];
+  requiresApproval: boolean;
+  expiresAt: number;
+  isMember: boolean;
+  requestPending: boolean;
+}
+
 export interface Goal {
   id: string;
   title: string;
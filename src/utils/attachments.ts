@@ -0,0 +1,9 @@
+/** Check-in media limits and resized variant URLs from functions/src/shared/attachments.ts */
+
+export {
+  MAX_CHECK_IN_MEDIA,
+  MAX_VIDEO_CLIP_SECONDS,
+  MEDIA_VARIANT_SIZES,
+  getMediaVariantUrl,
+} from '../../functions/src/shared/attachments';
+export type { CheckInAttachmentType, MediaVariant, VideoVariant } from '../../functions/src/shared/attachments';
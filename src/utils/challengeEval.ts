@@ -7,16 +7,22 @@ import {
   resolveAdminTimeZone,
   getAdminZoneDayKey,
   getCurrentPeriodDayKey,
-  getCurrentPeriodWeekKey,
+  getCurrentPeriodKey,
+  getPeriodDueMoment,
+  isActivePeriodKey,
+  isPeriodPaused,
+  hasChallengeStarted,
+  getStartPeriodKey,
   computeDueMomentUtcForDay,
-  computeWeeklyDueMomentUtc,
   computeDeadlineMomentUtc,
   getAdminZoneWeekKey,
+  getAdminZonePeriodKey,
   formatDueMomentInViewerZone,
 } from './dueTime';
+import { getProgressionTarget, meetsProgressionTarget, type ProgressionRules } from './progression';
 
-type ChallengeType = "standard" | "progress" | "elimination" | "deadline";
-type CadenceUnit = "daily" | "weekly";
+type ChallengeType = "standard" | "progress" | "elimination" | "deadline" | "team";
+type CadenceUnit = "daily" | "weekly" | "monthly" | "interval";
 
 type Challenge = {
   id: string;
@@ -25,6 +31,9 @@ type Challenge = {
     unit: CadenceUnit;
     requiredCount?: number;
     weekStartsOn?: 0|1|2|3|4|5|6;
+    intervalDays?: number;
+    anchorDate?: string;
+    activeWeekdays?: number[];
   };
   due: {
     dueTimeLocal?: string;
@@ -33,13 +42,10 @@ type Challenge = {
     timezoneOffset?: number;
   };
   adminTimeZone?: string;
+  startsAt?: string;
   state?: string;
   rules?: {
-    progress?: {
-      startsAt: number;
-      increaseBy: number;
-      comparison: "gte" | "lte";
-    };
+    progress?: ProgressionRules;
     elimination?: {
       strikesAllowed: number;
       eliminateOn: "miss" | "failedRequirement";
@@ -61,6 +67,7 @@ type CheckIn = {
     unit: CadenceUnit;
     dayKey?: string;
     weekKey?: string;
+    periodKey?: string;
   };
   payload: {
     booleanValue?: boolean;
@@ -68,7 +75,8 @@ type CheckIn = {
     textValue?: string;
     timerSeconds?: number;
   };
-  status: "completed" | "pending" | "missed" | "failed";
+  status: "completed" | "pending" | "missed" | "failed" | "disputed" | "rejected";
+  late?: boolean;
   computed?: { targetValue?: number; metRequirement?: boolean };
   createdAt: number;
 };
@@ -79,12 +87,17 @@ type ChallengeMember = {
   state: "active" | "eliminated";
   strikes: number;
   eliminatedAt?: number;
+  pauses?: { startKey: string; endKey: string }[];
 };
 
 export type UserStatus = 
   | { type: 'completed'; timestamp: number; checkIn: CheckIn }
+  | { type: 'late'; timestamp: number; checkIn: CheckIn }
+  | { type: 'disputed'; timestamp: number; checkIn: CheckIn }
   | { type: 'pending'; timeRemaining: string }
   | { type: 'missed'; missedAt: string }
+  | { type: 'paused'; until: string }
+  | { type: 'upcoming'; startsAt: string }
   | { type: 'eliminated'; strikes: number };
 
 export const challengeEval = {
@@ -107,6 +120,11 @@ export const challengeEval = {
       };
     }
 
+    // Announced challenges can't be checked into before their start date
+    if (!hasChallengeStarted(challenge)) {
+      return { type: 'upcoming', startsAt: challenge.startsAt! };
+    }
+
     // Determine the current period key using IANA timezone (with fallback)
     const adminTz = resolveAdminTimeZone(challenge);
     const dueTimeLocal = challenge.due?.dueTimeLocal || '23:59';
@@ -116,7 +134,7 @@ export const challengeEval = {
         ? getAdminZoneDayKey(adminTz)
         : getCurrentPeriodDayKey(adminTz, dueTimeLocal);
     } else {
-      currentPeriodKey = getCurrentPeriodWeekKey(adminTz, challenge.cadence.weekStartsOn ?? 0);
+      currentPeriodKey = getCurrentPeriodKey(challenge);
     }
     
     const periodKey = selectedPeriodKey || currentPeriodKey;
@@ -125,34 +143,64 @@ export const challengeEval = {
     // Get user's check-ins for this period
     const myCheckIns = checkInsForCurrentPeriod.filter(ci => ci.userId === userId);
 
-    // Check if completed
+    // Check if completed. Disputed check-ins still count until the admin
+    // rejects them, but the period shows as disputed meanwhile.
+    const countedCheckIns = myCheckIns.filter(ci => ci.status === 'completed' || ci.status === 'disputed');
+    const disputedCheckIn = countedCheckIns.find(ci => ci.status === 'disputed');
     if (challenge.cadence.unit === 'daily') {
-      const completedCheckIn = myCheckIns.find(ci => ci.status === 'completed');
+      const completedCheckIn = countedCheckIns.find(ci => ci.status === 'completed');
+      if (disputedCheckIn && !completedCheckIn) {
+        return { type: 'disputed', timestamp: disputedCheckIn.createdAt, checkIn: disputedCheckIn };
+      }
       if (completedCheckIn) {
         return {
-          type: 'completed',
+          type: completedCheckIn.late ? 'late' : 'completed',
           timestamp: completedCheckIn.createdAt,
           checkIn: completedCheckIn,
         };
       }
     } else {
-      // Weekly
-      const completedCount = myCheckIns.filter(ci => ci.status === 'completed').length;
+      // Weekly, monthly or every N days: requiredCount per period
       const requiredCount = challenge.cadence.requiredCount || 1;
       
-      if (completedCount >= requiredCount) {
-        const lastCompleted = myCheckIns
-          .filter(ci => ci.status === 'completed')
+      if (countedCheckIns.length >= requiredCount) {
+        if (disputedCheckIn) {
+          return { type: 'disputed', timestamp: disputedCheckIn.createdAt, checkIn: disputedCheckIn };
+        }
+        const lastCompleted = countedCheckIns
           .sort((a, b) => b.createdAt - a.createdAt)[0];
         
         return {
-          type: 'completed',
+          type: lastCompleted.late ? 'late' : 'completed',
           timestamp: lastCompleted.createdAt,
           checkIn: lastCompleted,
         };
       }
     }
 
+    // Off-days of a specific-weekdays schedule are never missed
+    if (!isActivePeriodKey(periodKey, challenge.cadence)) {
+      return {
+        type: 'pending',
+        timeRemaining: 'Rest day',
+      };
+    }
+
+    // Periods covered by the member's scheduled pause are excused
+    const pause = member?.pauses?.find(p => isPeriodPaused([p], periodKey, challenge.cadence));
+    if (pause) {
+      return { type: 'paused', until: pause.endKey };
+    }
+
+    // Periods before a scheduled start (or the season's start) weren't played
+    const startPeriodKey = getStartPeriodKey(challenge);
+    if (startPeriodKey && periodKey < startPeriodKey) {
+      return {
+        type: 'pending',
+        timeRemaining: 'Not started yet',
+      };
+    }
+
     // Check if the period is before the challenge creation date
     const challengeCreatedAt = typeof challenge.createdAt === 'number' 
       ? new Date(challenge.createdAt) 
@@ -194,13 +242,8 @@ export const challengeEval = {
     // Compute time remaining using the canonical UTC due moment.
     const now = new Date();
     let dueMomentUtc: Date;
-    if (challenge.cadence.unit === 'weekly') {
-      dueMomentUtc = computeWeeklyDueMomentUtc(
-        adminTz,
-        currentPeriodKey,
-        dueTimeLocal,
-        challenge.cadence.weekStartsOn ?? 0
-      );
+    if (challenge.cadence.unit !== 'daily') {
+      dueMomentUtc = getPeriodDueMoment(challenge, currentPeriodKey);
     } else {
       dueMomentUtc = computeDueMomentUtcForDay(adminTz, currentPeriodKey, dueTimeLocal);
     }
@@ -223,22 +266,37 @@ export const challengeEval = {
 
 
   /**
-   * Compute target for progress challenges
+   * Day a progress challenge counts its steps from. Legacy docs without
+   * `anchorDate` use their first period, as the scheduler does.
+   */
+  getProgressAnchorKey(challenge: Challenge): string {
+    const anchorDate = challenge.rules?.progress?.anchorDate;
+    if (anchorDate) return anchorDate;
+
+    const raw: any = challenge.createdAt;
+    const created = typeof raw?.toDate === 'function' ? raw.toDate() as Date : new Date(raw);
+    const adminTz = resolveAdminTimeZone(challenge);
+    const createdKey = challenge.cadence.unit === 'daily'
+      ? getCurrentPeriodDayKey(adminTz, challenge.due.dueTimeLocal || '23:59', created)
+      : getAdminZonePeriodKey(adminTz, challenge.cadence, created);
+    const startKey = getStartPeriodKey(challenge);
+    return startKey && startKey > createdKey ? startKey : createdKey;
+  },
+
+  /**
+   * Target of a progress challenge for `periodKey` (default: the current
+   * period in the admin timezone)
    */
-  computeProgressTarget(challenge: Challenge): number | null {
+  computeProgressTarget(challenge: Challenge, periodKey?: string): number | null {
     if (challenge.type !== 'progress' || !challenge.rules?.progress) {
       return null;
     }
 
-    const { startsAt, increaseBy } = challenge.rules.progress;
-    const currentWeekKey = dateKeys.getWeekKey(new Date(), challenge.cadence.weekStartsOn);
-    const weeksElapsed = dateKeys.getWeeksElapsed(
-      challenge.createdAt,
-      currentWeekKey,
-      challenge.cadence.weekStartsOn
+    return getProgressionTarget(
+      challenge.rules.progress,
+      this.getProgressAnchorKey(challenge),
+      periodKey ?? getCurrentPeriodKey(challenge)
     );
-
-    return startsAt + (weeksElapsed * increaseBy);
   },
 
   /**
@@ -250,13 +308,7 @@ export const challengeEval = {
     target: number
   ): boolean {
     if (!challenge.rules?.progress) return true;
-
-    const comparison = challenge.rules.progress.comparison;
-    if (comparison === 'gte') {
-      return submittedValue >= target;
-    } else {
-      return submittedValue <= target;
-    }
+    return meetsProgressionTarget(challenge.rules.progress, submittedValue, target);
   },
 
   /**
@@ -268,7 +320,7 @@ export const challengeEval = {
     checkInsForCurrentPeriod: CheckIn[],
     challengeMembers: ChallengeMember[],
     selectedPeriodKey?: string
-  ): 'completed' | 'pending' | 'missed' | 'eliminated' {
+  ): UserStatus['type'] {
     const status = this.getUserStatus(
       challenge, 
       userId, 
@@ -0,0 +1,84 @@
+/**
+ * Group chat helpers: the reaction set and @mention parsing. Reaction storage
+ * is in functions/src/shared/reactions.ts.
+ */
+
+import { THUMBS_DOWN_REACTION, THUMBS_UP_REACTION } from '../../functions/src/shared/reactions';
+
+export {
+  THUMBS_DOWN_REACTION,
+  THUMBS_UP_REACTION,
+  getMessageReactions,
+  isPositiveReaction,
+} from '../../functions/src/shared/reactions';
+
+export const CHAT_REACTIONS = [THUMBS_UP_REACTION, '🔥', '💪', '😂', '😮', THUMBS_DOWN_REACTION] as const;
+
+export interface ReactionCount {
+  emoji: string;
+  count: number;
+  /** The current user picked this one */
+  mine: boolean;
+}
+
+/** Reaction chips for a message, in CHAT_REACTIONS order */
+export function getReactionCounts(
+  reactions: Record<string, string> | undefined,
+  currentUserId?: string
+): ReactionCount[] {
+  const counts = new Map<string, ReactionCount>();
+  for (const [userId, emoji] of Object.entries(reactions || {})) {
+    const entry = counts.get(emoji) || { emoji, count: 0, mine: false };
+    entry.count += 1;
+    if (userId === currentUserId) entry.mine = true;
+    counts.set(emoji, entry);
+  }
+  const order = (emoji: string) => {
+    const i = (CHAT_REACTIONS as readonly string[]).indexOf(emoji);
+    return i === -1 ? CHAT_REACTIONS.length : i;
+  };
+  return Array.from(counts.values()).sort((a, b) => order(a.emoji) - order(b.emoji));
+}
+
+export interface MentionCandidate {
+  id: string;
+  displayName: string;
+}
+
+/** Ids of the members mentioned as `@Display Name` in the text */
+export function findMentions(text: string, members: MentionCandidate[]): string[] {
+  const lower = text.toLowerCase();
+  return members
+    .filter(m => m.displayName && lower.includes(`@${m.displayName.toLowerCase()}`))
+    .map(m => m.id);
+}
+
+/** The partial name being typed after a trailing `@`, or null when not mentioning */
+export function getMentionQuery(text: string): string | null {
+  const match = /(?:^|\s)@([^@\n]*)$/.exec(text);
+  return match ? match[1] : null;
+}
+
+/** Replace the trailing `@query` with the picked member's full mention */
+export function insertMention(text: string, displayName: string): string {
+  return text.replace(/@([^@\n]*)$/, `@${displayName} `);
+}
+
+/**
+ * Split text into plain and mention parts for rendering. Longer names are
+ * matched first so "@Sam Lee" wins over "@Sam".
+ */
+export function splitMentions(
+  text: string,
+  names: string[]
+): Array<{ text: string; mention: boolean }> {
+  const sorted = names.filter(Boolean).sort((a, b) => b.length - a.length);
+  if (sorted.length === 0) return [{ text, mention: false }];
+  const escaped = sorted.map(n => n.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(@(?:${escaped.join('|')}))`, 'gi');
+  // split() with a capture group puts the matched mentions at odd indexes
+  return text
+    .split(pattern)
+    .map((part, i) => ({ text: part, mention: i % 2 === 1 }))
+    .filter(part => part.text.length > 0);
+}
@@ -1,11 +1,17 @@
 /**
- * Date key utilities for challenge periods.
+ * Device-local date key helpers for calendars and display.
  *
- * NOTE: For timezone-correct calculations using IANA timezone strings, prefer
- * the functions in ./dueTime.ts. The helpers here use the device's local time
- * or a numeric offset for backward compatibility with legacy challenge data.
+ * NOTE: These use the device's local time and must not be used to decide which
+ * period a check-in belongs to. Period math lives in the shared module
+ * re-exported by ./dueTime.ts, which the Cloud Functions scheduler uses too.
  */
 
+import {
+  computeDeadlineMomentUtc,
+  getCurrentPeriodDayKey,
+  computeDueMomentUtcForDay,
+} from './dueTime';
+
 export const dateKeys = {
   /**
    * Get day key for a date (YYYY-MM-DD)
@@ -93,8 +99,6 @@ export const dateKeys = {
 
     if (type === 'deadline' && deadlineDate) {
       if (adminTimeZone) {
-        // Use IANA-based conversion via dueTime utils
-        const { computeDeadlineMomentUtc } = require('./dueTime');
         return computeDeadlineMomentUtc(adminTimeZone, deadlineDate, dueTimeLocal);
       }
       const [y, m, d] = deadlineDate.split('-').map(Number);
@@ -102,7 +106,6 @@ export const dateKeys = {
     }
 
     if (adminTimeZone) {
-      const { getCurrentPeriodDayKey, computeDueMomentUtcForDay } = require('./dueTime');
       const dayKey = getCurrentPeriodDayKey(adminTimeZone, dueTimeLocal, now);
       return computeDueMomentUtcForDay(adminTimeZone, dayKey, dueTimeLocal);
     }
@@ -159,4 +162,12 @@ export const dateKeys = {
   formatWeekLabel(weekKey: string): string {
     return `Wk of ${this.formatDate(weekKey)}`;
   },
+
+  /**
+   * Format month label (monthKey is the first of the month)
+   */
+  formatMonthLabel(monthKey: string): string {
+    const date = this.parseKey(monthKey);
+    return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+  },
 };
@@ -0,0 +1,17 @@
+/**
+ * Deadline challenge scoring (functions/src/shared/deadline.ts), used for the
+ * progress bar before the deadline passes.
+ */
+
+export {
+  getDeadlineCheckInValue,
+  computeDeadlineValue,
+  hasReachedDeadlineTarget,
+  getDeadlineProgress,
+  rankDeadlineOutcomes,
+} from '../../functions/src/shared/deadline';
+export type {
+  DeadlineRules,
+  DeadlineCheckIn,
+  DeadlineOutcome,
+} from '../../functions/src/shared/deadline';
@@ -0,0 +1,11 @@
+/** Invite code parsing and join links from functions/src/shared/groupInvites.ts */
+
+export {
+  APP_URL_PREFIX,
+  DEFAULT_INVITE_CODE_EXPIRY_DAYS,
+  GROUP_JOIN_LINK_PREFIX,
+  INVITE_CODE_EXPIRY_DAYS,
+  buildGroupJoinLink,
+  normalizeInviteCode,
+  parseGroupJoinCode,
+} from '../../functions/src/shared/groupInvites';
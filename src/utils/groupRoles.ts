@@ -0,0 +1,75 @@
+/**
+ * Group roles: one owner, any number of admins, everyone else a member.
+ *
+ * The owner is `ownerId` (groups created before roles fall back to
+ * `creatorId`); admins are listed in `adminIds`. firestore.rules enforces the
+ * same table, so keep the two in sync.
+ */
+
+import type { Group } from '../types';
+
+export type GroupRole = 'owner' | 'admin' | 'member';
+
+export type GroupPermission =
+  | 'invite'
+  | 'removeMembers'
+  | 'muteMembers'
+  | 'createChallenges'
+  | 'rename'
+  | 'manageAdmins'
+  | 'deleteGroup';
+
+const ROLE_RANK: Record<GroupRole, number> = { member: 0, admin: 1, owner: 2 };
+
+/** Lowest role allowed to do each thing */
+export const GROUP_PERMISSIONS: Record<GroupPermission, GroupRole> = {
+  invite: 'admin',
+  removeMembers: 'admin',
+  muteMembers: 'admin',
+  createChallenges: 'admin',
+  rename: 'admin',
+  manageAdmins: 'owner',
+  deleteGroup: 'owner',
+};
+
+export const GROUP_ROLE_LABELS: Record<GroupRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+export function getGroupOwnerId(group: Group): string | undefined {
+  return group.ownerId || group.creatorId || group.createdBy;
+}
+
+/** The user's role, or null when they aren't in the group */
+export function getGroupRole(group: Group | null, userId: string | undefined): GroupRole | null {
+  if (!group || !userId) return null;
+  if (getGroupOwnerId(group) === userId) return 'owner';
+  if (!(group.memberIds || []).includes(userId)) return null;
+  return (group.adminIds || []).includes(userId) ? 'admin' : 'member';
+}
+
+export function canInGroup(group: Group | null, userId: string | undefined, permission: GroupPermission): boolean {
+  const role = getGroupRole(group, userId);
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[GROUP_PERMISSIONS[permission]];
+}
+
+/**
+ * Whether `userId` may remove `targetId` from the group. Admins can remove
+ * members only; the owner can remove anyone but themselves (they leave with a
+ * transfer instead).
+ */
+export function canRemoveMember(group: Group | null, userId: string | undefined, targetId: string): boolean {
+  const role = getGroupRole(group, userId);
+  const targetRole = getGroupRole(group, targetId);
+  if (!role || !targetRole || userId === targetId) return false;
+  return ROLE_RANK[role] > ROLE_RANK[targetRole] && canInGroup(group, userId, 'removeMembers');
+}
+
+/** Who becomes owner when the owner leaves without picking: the first admin, else the first member */
+export function getNextGroupOwnerId(group: Group): string | undefined {
+  const ownerId = getGroupOwnerId(group);
+  const remaining = (group.memberIds || []).filter(id => id !== ownerId);
+  return remaining.find(id => (group.adminIds || []).includes(id)) || remaining[0];
+}
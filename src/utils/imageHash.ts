@@ -0,0 +1,262 @@
+/**
+ * Perceptual hashing for photo proof.
+ *
+ * The photo is shrunk to 9x8 pixels by expo-image-manipulator and returned as
+ * a base64 PNG; this module decodes that PNG (zlib inflate + row filters) and
+ * computes a 64-bit difference hash (dHash): one bit per pixel pair, set when
+ * a pixel is brighter than its right neighbour. Re-saved, re-compressed or
+ * slightly resized copies of a photo hash to the same or nearly the same
+ * value, so the server compares hashes by Hamming distance.
+ */
+
+export const DHASH_WIDTH = 9;
+export const DHASH_HEIGHT = 8;
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function decodeBase64(input: string): Uint8Array {
+  const clean = input.replace(/[^A-Za-z0-9+/]/g, '');
+  const out = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let pos = 0;
+  for (let i = 0; i < clean.length; i++) {
+    buffer = (buffer << 6) | BASE64_ALPHABET.indexOf(clean[i]);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      out[pos++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return out.subarray(0, pos);
+}
+
+// ---------------------------------------------------------------------------
+// Inflate (RFC 1951), enough for the tiny PNGs the manipulator produces
+// ---------------------------------------------------------------------------
+
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+function buildHuffman(lengths: number[]): Huffman {
+  const counts = new Uint16Array(16);
+  const symbols = new Uint16Array(lengths.length);
+  for (const len of lengths) counts[len]++;
+  counts[0] = 0;
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+  lengths.forEach((len, symbol) => {
+    if (len) symbols[offsets[len]++] = symbol;
+  });
+  return { counts, symbols };
+}
+
+class BitReader {
+  private pos = 0;
+  private buffer = 0;
+  private count = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  bits(n: number): number {
+    while (this.count < n) {
+      if (this.pos >= this.data.length) throw new Error('Unexpected end of compressed data');
+      this.buffer |= this.data[this.pos++] << this.count;
+      this.count += 8;
+    }
+    const value = this.buffer & ((1 << n) - 1);
+    this.buffer >>>= n;
+    this.count -= n;
+    return value;
+  }
+
+  alignToByte(): void {
+    this.buffer = 0;
+    this.count = 0;
+  }
+
+  byte(): number {
+    if (this.pos >= this.data.length) throw new Error('Unexpected end of compressed data');
+    return this.data[this.pos++];
+  }
+
+  decode(h: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= this.bits(1);
+      const count = h.counts[len];
+      if (code - count < first) return h.symbols[index + (code - first)];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code');
+  }
+}
+
+let fixedTables: { lit: Huffman; dist: Huffman } | null = null;
+
+function getFixedTables(): { lit: Huffman; dist: Huffman } {
+  if (!fixedTables) {
+    const lit: number[] = [];
+    for (let i = 0; i < 288; i++) lit.push(i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8);
+    fixedTables = { lit: buildHuffman(lit), dist: buildHuffman(new Array(30).fill(5)) };
+  }
+  return fixedTables;
+}
+
+function readDynamicTables(reader: BitReader): { lit: Huffman; dist: Huffman } {
+  const litCount = reader.bits(5) + 257;
+  const distCount = reader.bits(5) + 1;
+  const codeLengthCount = reader.bits(4) + 4;
+  const codeLengths = new Array(19).fill(0);
+  for (let i = 0; i < codeLengthCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+  const codeLengthTable = buildHuffman(codeLengths);
+
+  const lengths: number[] = [];
+  while (lengths.length < litCount + distCount) {
+    const symbol = reader.decode(codeLengthTable);
+    if (symbol < 16) {
+      lengths.push(symbol);
+    } else if (symbol === 16) {
+      if (lengths.length === 0) throw new Error('Invalid code length repeat');
+      const prev = lengths[lengths.length - 1];
+      for (let n = 3 + reader.bits(2); n > 0; n--) lengths.push(prev);
+    } else {
+      for (let n = symbol === 17 ? 3 + reader.bits(3) : 11 + reader.bits(7); n > 0; n--) lengths.push(0);
+    }
+  }
+  return {
+    lit: buildHuffman(lengths.slice(0, litCount)),
+    dist: buildHuffman(lengths.slice(litCount, litCount + distCount)),
+  };
+}
+
+/** Decompress a zlib stream (2-byte header, deflate blocks; the checksum is ignored). */
+function inflateZlib(data: Uint8Array): Uint8Array {
+  const reader = new BitReader(data.subarray(2));
+  const out: number[] = [];
+  let last = 0;
+  while (!last) {
+    last = reader.bits(1);
+    const type = reader.bits(2);
+    if (type === 0) {
+      reader.alignToByte();
+      const len = reader.byte() | (reader.byte() << 8);
+      reader.byte();
+      reader.byte(); // NLEN
+      for (let i = 0; i < len; i++) out.push(reader.byte());
+      continue;
+    }
+    if (type === 3) throw new Error('Invalid deflate block');
+    const { lit, dist } = type === 1 ? getFixedTables() : readDynamicTables(reader);
+    for (;;) {
+      const symbol = reader.decode(lit);
+      if (symbol < 256) {
+        out.push(symbol);
+      } else if (symbol === 256) {
+        break;
+      } else {
+        const lengthIndex = symbol - 257;
+        const length = LENGTH_BASE[lengthIndex] + reader.bits(LENGTH_EXTRA[lengthIndex]);
+        const distIndex = reader.decode(dist);
+        const distance = DIST_BASE[distIndex] + reader.bits(DIST_EXTRA[distIndex]);
+        const start = out.length - distance;
+        if (start < 0) throw new Error('Invalid back-reference');
+        for (let i = 0; i < length; i++) out.push(out[start + i]);
+      }
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+// ---------------------------------------------------------------------------
+// PNG decoding to grayscale
+// ---------------------------------------------------------------------------
+
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/** Luminance (0-255) of every pixel of an 8-bit, non-interlaced PNG, row by row. */
+export function decodePngGrayscale(png: Uint8Array): { width: number; height: number; pixels: number[] } {
+  const u32 = (i: number) => ((png[i] << 24) | (png[i + 1] << 16) | (png[i + 2] << 8) | png[i + 3]) >>> 0;
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: number[] = [];
+  for (let pos = 8; pos + 8 <= png.length;) {
+    const length = u32(pos);
+    const type = String.fromCharCode(png[pos + 4], png[pos + 5], png[pos + 6], png[pos + 7]);
+    const body = png.subarray(pos + 8, pos + 8 + length);
+    if (type === 'IHDR') {
+      width = u32(pos + 8);
+      height = u32(pos + 12);
+      channels = CHANNELS_BY_COLOR_TYPE[body[9]] || 0;
+      if (body[8] !== 8 || !channels || body[12] !== 0) throw new Error('Unsupported PNG format');
+    } else if (type === 'IDAT') {
+      for (let i = 0; i < body.length; i++) idat.push(body[i]);
+    } else if (type === 'IEND') {
+      break;
+    }
+    pos += 12 + length;
+  }
+  if (!width || !height) throw new Error('Missing PNG header');
+
+  const raw = inflateZlib(Uint8Array.from(idat));
+  const stride = width * channels;
+  const pixels: number[] = [];
+  let prev = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = raw.slice(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    for (let i = 0; i < stride; i++) {
+      const left = i >= channels ? row[i - channels] : 0;
+      const up = prev[i];
+      const upLeft = i >= channels ? prev[i - channels] : 0;
+      if (filter === 1) row[i] = (row[i] + left) & 0xff;
+      else if (filter === 2) row[i] = (row[i] + up) & 0xff;
+      else if (filter === 3) row[i] = (row[i] + ((left + up) >> 1)) & 0xff;
+      else if (filter === 4) row[i] = (row[i] + paeth(left, up, upLeft)) & 0xff;
+    }
+    for (let x = 0; x < width; x++) {
+      const p = x * channels;
+      pixels.push(channels >= 3 ? 0.299 * row[p] + 0.587 * row[p + 1] + 0.114 * row[p + 2] : row[p]);
+    }
+    prev = row;
+  }
+  return { width, height, pixels };
+}
+
+/** 16-hex-digit dHash of a 9x8 base64 PNG. */
+export function computeDHashFromPngBase64(base64: string): string {
+  const { width, height, pixels } = decodePngGrayscale(decodeBase64(base64));
+  if (width !== DHASH_WIDTH || height !== DHASH_HEIGHT) throw new Error('Expected a 9x8 image');
+  let hex = '';
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      const i = y * DHASH_WIDTH + x;
+      byte = (byte << 1) | (pixels[i] > pixels[i + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
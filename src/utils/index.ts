@@ -5,3 +5,4 @@
 export { dateKeys } from './dateKeys';
 export { challengeEval, type UserStatus } from './challengeEval';
 export * from './dueTime';
+export * from './teams';
@@ -0,0 +1,19 @@
+/**
+ * Photo proof checks from functions/src/shared/photoIntegrity.ts. The hash
+ * itself is computed on the device by ./imageHash.ts.
+ */
+
+export {
+  PHOTO_HASH_PATTERN,
+  DUPLICATE_HASH_MAX_DISTANCE,
+  LIVE_CAPTURE_MAX_AGE_MS,
+  getHashDistance,
+  isLiveCapture,
+  getPhotoIntegrityLabel,
+} from '../../functions/src/shared/photoIntegrity';
+export type {
+  PhotoSource,
+  PhotoCaptureMeta,
+  PhotoIntegrityFlag,
+  PhotoIntegrity,
+} from '../../functions/src/shared/photoIntegrity';
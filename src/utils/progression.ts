@@ -0,0 +1,20 @@
+/**
+ * Progress challenge targets (functions/src/shared/progression.ts): the target
+ * for a given day, step or check-in.
+ */
+
+export {
+  getProgressionStepDays,
+  getProgressionStepIndex,
+  getProgressionTarget,
+  getProgressionTargetForStep,
+  getUpcomingProgressionSteps,
+  meetsProgressionTarget,
+  DEFAULT_DELOAD_PERCENT,
+  MAX_PROGRESSION_INTERVAL_DAYS,
+} from '../../functions/src/shared/progression';
+export type {
+  ProgressionRules,
+  ProgressionStep,
+  ProgressionStepUnit,
+} from '../../functions/src/shared/progression';
@@ -0,0 +1,10 @@
+/** Buy-back costs and revival vote thresholds from functions/src/shared/revival.ts */
+
+export {
+  DEFAULT_REVIVAL_XP_COST,
+  MAX_REVIVALS_PER_MEMBER,
+  getRevivalXpCost,
+  getRevivalVotesNeeded,
+  getRevivalsLeft,
+} from '../../functions/src/shared/revival';
+export type { RevivalMode, RevivalRules } from '../../functions/src/shared/revival';
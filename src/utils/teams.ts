@@ -0,0 +1,19 @@
+/**
+ * Team challenge scoring (functions/src/shared/teams.ts), used by the live
+ * team leaderboard.
+ */
+
+export {
+  scoreTeamPeriod,
+  rankTeams,
+  assignTeamsEvenly,
+  DEFAULT_TEAM_COMPLETION_PERCENT,
+  MIN_TEAMS,
+  MAX_TEAMS,
+} from '../../functions/src/shared/teams';
+export type {
+  TeamDefinition,
+  TeamRules,
+  TeamScore,
+  TeamPeriodResult,
+} from '../../functions/src/shared/teams';